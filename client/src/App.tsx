@@ -19,18 +19,27 @@ import AllStatesPage from "@/pages/AllStatesPage";
 import BusinessDashboardPage from "@/pages/BusinessDashboardPage";
 import BusinessSearchPage from "@/pages/BusinessSearchPage";
 import BusinessClaimPage from "@/pages/BusinessClaimPage";
+import BusinessClaimsPage from "@/pages/BusinessClaimsPage";
 import BusinessSubscriptionPage from "@/pages/BusinessSubscriptionPage";
 import AddBusinessPage from "@/pages/AddBusinessPage";
 import ForOwnersPage from "@/pages/ForOwnersPage";
 import LoginPage from "@/pages/LoginPage";
+import ForgotPasswordPage from "@/pages/ForgotPasswordPage";
+import ResetPasswordPage from "@/pages/ResetPasswordPage";
+import VerifyEmailPage from "@/pages/VerifyEmailPage";
+import FavoritesPage from "@/pages/FavoritesPage";
 import AdminToolsPage from "@/pages/AdminToolsPage";
 import AdminDataEnrichmentPage from "@/pages/AdminDataEnrichmentPage";
 import AdminDataImportPage from "@/pages/AdminDataImportPage";
-import AdminBatchImportPage from "@/pages/AdminBatchImportPage";
+import AdminImportsPage from "@/pages/AdminImportsPage";
 import AdminDashboard from "@/pages/AdminDashboard";
+import AdminJobsPage from "@/pages/AdminJobsPage";
+import AdminReviewsPage from "@/pages/AdminReviewsPage";
+import AdminDuplicatesPage from "@/pages/AdminDuplicatesPage";
 import { useEffect } from "react";
 import { initGA } from "./lib/analytics";
 import { useAnalytics } from "./hooks/useAnalytics";
+import { useFavoritesSync } from "./hooks/use-favorites";
 
 // Register service worker
 if ('serviceWorker' in navigator) {
@@ -49,6 +58,9 @@ function Router() {
   // Track page views when routes change
   useAnalytics();
   
+  // Move favorites saved while signed out into the account after login
+  useFavoritesSync();
+  
   // Handle URL parameters for deep linking
   useEffect(() => {
     const handleLocationChange = () => {
@@ -99,17 +111,25 @@ function Router() {
           <Route path="/laundry-tips" component={LaundryTipsPage} />
           <Route path="/laundry-tips/:slug" component={LaundryTipDetail} />
           <Route path="/login" component={LoginPage} />
+          <Route path="/forgot-password" component={ForgotPasswordPage} />
+          <Route path="/reset-password" component={ResetPasswordPage} />
+          <Route path="/verify-email" component={VerifyEmailPage} />
+          <Route path="/favorites" component={FavoritesPage} />
           <Route path="/business/dashboard" component={BusinessDashboardPage} />
           <Route path="/business/search" component={BusinessSearchPage} />
           <Route path="/business/claim/:id" component={BusinessClaimPage} />
+          <Route path="/business/claims" component={BusinessClaimsPage} />
           <Route path="/business/subscription/:id" component={BusinessSubscriptionPage} />
           <Route path="/business/add" component={AddBusinessPage} />
           <Route path="/for-owners" component={ForOwnersPage} />
           <Route path="/admin" component={AdminToolsPage} />
           <Route path="/admin/data-enrichment" component={AdminDataEnrichmentPage} />
           <Route path="/admin/data-import" component={AdminDataImportPage} />
-          <Route path="/admin/batch-import" component={AdminBatchImportPage} />
+          <Route path="/admin/imports" component={AdminImportsPage} />
           <Route path="/admin/notifications" component={AdminDashboard} />
+          <Route path="/admin/jobs" component={AdminJobsPage} />
+          <Route path="/admin/reviews" component={AdminReviewsPage} />
+          <Route path="/admin/duplicates" component={AdminDuplicatesPage} />
           {/* State routes - support both formats */}
           <Route path="/states/:state" component={StatePage} />
           <Route path="/:state" component={StatePage} />
@@ -1,4 +1,5 @@
 import React, { useState, useRef } from 'react';
+import { Link } from 'wouter';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
@@ -25,28 +26,21 @@ import {
   AlertDescription,
   AlertTitle,
 } from '@/components/ui/alert';
-import { Loader2, Upload, FileText, CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
-import { apiRequest } from '../lib/queryClient';
+import { Loader2, Upload, FileText, CheckCircle, AlertTriangle } from 'lucide-react';
+import { apiRequest, getApiErrorMessage } from '../lib/queryClient';
 
 // Define types for CSV import responses
-interface CSVFile {
-  name: string;
-  path: string;
-}
-
 interface CSVUploadResponse {
   success: boolean;
   fileName: string;
-  path: string;
+  format: string;
+  problems: string[]; // Columns to map on the Data Imports page before the file can be imported
   message?: string;
 }
 
 interface CSVImportResponse {
   success: boolean;
-  total: number;
-  imported: number;
-  duplicates: number;
-  errors: string[];
+  jobId: number;
   message?: string;
 }
 
@@ -56,6 +50,22 @@ interface CSVFilesResponse {
   message?: string;
 }
 
+const UPLOADS_URL = '/api/admin/data/uploads';
+
+// The server takes the raw file, up to 50 MB, and checks its columns before keeping it
+async function uploadDataFile(file: File): Promise<CSVUploadResponse> {
+  const response = await fetch(`${UPLOADS_URL}?name=${encodeURIComponent(file.name)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: file,
+    credentials: 'include'
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+  }
+  return await response.json();
+}
+
 const CSVImporter: React.FC = () => {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -63,58 +73,37 @@ const CSVImporter: React.FC = () => {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadedFileName, setUploadedFileName] = useState<string | null>(null);
+  const [uploadProblems, setUploadProblems] = useState<string[]>([]);
   const [importResults, setImportResults] = useState<CSVImportResponse | null>(null);
 
   // Query to fetch the list of available CSV files
   const { data: csvFiles, isLoading: isLoadingFiles, refetch: refetchFiles } = useQuery<CSVFilesResponse>({
-    queryKey: ['/api/csv/list'],
-    onError: (error: any) => {
-      toast({
-        title: "Error fetching CSV files",
-        description: error.message || "Could not load CSV files",
-        variant: "destructive"
-      });
-    }
+    queryKey: [UPLOADS_URL],
   });
 
   // Mutation for uploading a CSV file
   const uploadMutation = useMutation({
     mutationFn: async (file: File) => {
       setIsUploading(true);
-      
-      // Read the file content as text
-      const fileContent = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = (e) => resolve(e.target?.result as string);
-        reader.onerror = (e) => reject(e);
-        reader.readAsText(file);
-      });
-      
-      // Upload the file
-      const response = await apiRequest('/api/csv/upload', {
-        method: 'POST',
-        data: {
-          fileName: file.name,
-          fileContent
-        }
-      });
-      
-      return response as CSVUploadResponse;
+      return await uploadDataFile(file);
     },
     onSuccess: (data) => {
       setUploadedFileName(data.fileName);
+      setUploadProblems(data.problems);
       toast({
-        title: "CSV Uploaded Successfully",
-        description: `${data.fileName} has been uploaded and is ready to import.`,
+        title: "File Uploaded Successfully",
+        description: data.problems.length
+          ? `${data.fileName} has been uploaded. Map its columns before importing it.`
+          : `${data.fileName} has been uploaded and is ready to import.`,
         variant: "default"
       });
       refetchFiles();
       setIsUploading(false);
     },
-    onError: (error: any) => {
+    onError: (error) => {
       toast({
         title: "Upload Failed",
-        description: error.message || "Failed to upload CSV file",
+        description: getApiErrorMessage(error, "Failed to upload file"),
         variant: "destructive"
       });
       setIsUploading(false);
@@ -123,30 +112,23 @@ const CSVImporter: React.FC = () => {
 
   // Mutation for importing a CSV file
   const importMutation = useMutation({
-    mutationFn: async (filePath: string) => {
-      const response = await apiRequest('/api/csv/import', {
-        method: 'POST',
-        data: { filePath }
-      });
-      return response as CSVImportResponse;
+    mutationFn: async (fileName: string) => {
+      const response = await apiRequest('POST', `${UPLOADS_URL}/${encodeURIComponent(fileName)}/import`);
+      return await response.json() as CSVImportResponse;
     },
     onSuccess: (data) => {
       setImportResults(data);
       toast({
-        title: "Import Completed",
-        description: `Successfully imported ${data.imported} laundromats out of ${data.total}`,
+        title: "Import Started",
+        description: `Import #${data.jobId} is running. Follow its progress on the Data Imports page.`,
         variant: "default"
       });
-      // Invalidate queries that might be affected by the new data
-      queryClient.invalidateQueries({ queryKey: ['/api/laundromats'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/featured-laundromats'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/premium-laundromats'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/popular-cities'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/imports?limit=50'] });
     },
-    onError: (error: any) => {
+    onError: (error) => {
       toast({
         title: "Import Failed",
-        description: error.message || "Failed to import laundromats from CSV",
+        description: getApiErrorMessage(error, "Failed to start the import"),
         variant: "destructive"
       });
     }
@@ -156,10 +138,10 @@ const CSVImporter: React.FC = () => {
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0] || null;
     
-    if (file && !file.name.endsWith('.csv')) {
+    if (file && !/\.(csv|json|xlsx)$/i.test(file.name)) {
       toast({
         title: "Invalid File Type",
-        description: "Please select a CSV file",
+        description: "Please select a CSV, JSON or XLSX file",
         variant: "destructive"
       });
       return;
@@ -176,7 +158,7 @@ const CSVImporter: React.FC = () => {
     } else {
       toast({
         title: "No File Selected",
-        description: "Please select a CSV file to upload",
+        description: "Please select a CSV, JSON or XLSX file to upload",
         variant: "destructive"
       });
     }
@@ -191,6 +173,7 @@ const CSVImporter: React.FC = () => {
   const handleReset = () => {
     setSelectedFile(null);
     setUploadedFileName(null);
+    setUploadProblems([]);
     setImportResults(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
@@ -203,7 +186,9 @@ const CSVImporter: React.FC = () => {
         <CardHeader>
           <CardTitle>CSV Importer</CardTitle>
           <CardDescription>
-            Upload and import laundromat data from CSV files
+            Upload and import laundromat data from CSV, JSON or XLSX files (up to 50 MB), such as Outscraper exports.
+            Columns are matched to listing fields automatically. To adjust the mapping or preview rows, use the{' '}
+            <Link href="/admin/imports" className="underline">Data Imports</Link> page.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -212,7 +197,7 @@ const CSVImporter: React.FC = () => {
               <Input
                 ref={fileInputRef}
                 type="file"
-                accept=".csv"
+                accept=".csv,.json,.xlsx"
                 onChange={handleFileChange}
                 disabled={isUploading || importMutation.isPending}
                 className="flex-1"
@@ -253,7 +238,21 @@ const CSVImporter: React.FC = () => {
               </Alert>
             )}
 
-            {uploadedFileName && (
+            {uploadedFileName && uploadProblems.length > 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Map Columns Before Importing</AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc pl-5 mb-2">
+                    {uploadProblems.map(problem => <li key={problem}>{problem}</li>)}
+                  </ul>
+                  Choose csv_uploads/{uploadedFileName} on the{' '}
+                  <Link href="/admin/imports" className="underline">Data Imports</Link> page to map its columns and preview it.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {uploadedFileName && uploadProblems.length === 0 && (
               <Alert className="bg-green-50 border-green-200">
                 <CheckCircle className="h-4 w-4 text-green-600" />
                 <AlertTitle className="text-green-700">File Ready for Import</AlertTitle>
@@ -278,29 +277,12 @@ const CSVImporter: React.FC = () => {
             )}
 
             {importResults && (
-              <Alert className={importResults.success ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200"}>
-                {importResults.success ? (
-                  <CheckCircle className="h-4 w-4 text-green-600" />
-                ) : (
-                  <XCircle className="h-4 w-4 text-red-600" />
-                )}
-                <AlertTitle className={importResults.success ? "text-green-700" : "text-red-700"}>
-                  Import Results
-                </AlertTitle>
-                <AlertDescription className={importResults.success ? "text-green-700" : "text-red-700"}>
-                  <p>Total records: {importResults.total}</p>
-                  <p>Successfully imported: {importResults.imported}</p>
-                  <p>Duplicates skipped: {importResults.duplicates}</p>
-                  {importResults.errors.length > 0 && (
-                    <div className="mt-2">
-                      <p className="font-semibold">Errors ({importResults.errors.length}):</p>
-                      <div className="max-h-40 overflow-y-auto bg-white p-2 rounded mt-1 border">
-                        {importResults.errors.map((error, index) => (
-                          <p key={index} className="text-sm text-red-600">{error}</p>
-                        ))}
-                      </div>
-                    </div>
-                  )}
+              <Alert className="bg-green-50 border-green-200">
+                <CheckCircle className="h-4 w-4 text-green-600" />
+                <AlertTitle className="text-green-700">Import #{importResults.jobId} Started</AlertTitle>
+                <AlertDescription className="text-green-700">
+                  Progress, duplicates and row errors are on the{' '}
+                  <Link href="/admin/imports" className="underline">Data Imports</Link> page.
                 </AlertDescription>
               </Alert>
             )}
@@ -310,9 +292,9 @@ const CSVImporter: React.FC = () => {
 
       <Card>
         <CardHeader>
-          <CardTitle>Available CSV Files</CardTitle>
+          <CardTitle>Uploaded Files</CardTitle>
           <CardDescription>
-            Select an existing CSV file to import
+            Select an uploaded file to import
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -323,14 +305,14 @@ const CSVImporter: React.FC = () => {
           ) : csvFiles?.files.length === 0 ? (
             <Alert>
               <AlertTriangle className="h-4 w-4" />
-              <AlertTitle>No CSV Files Available</AlertTitle>
+              <AlertTitle>No Files Uploaded</AlertTitle>
               <AlertDescription>
-                Upload a CSV file first to see it listed here.
+                Upload a CSV or JSON file first to see it listed here.
               </AlertDescription>
             </Alert>
           ) : (
             <Table>
-              <TableCaption>Available CSV files for import</TableCaption>
+              <TableCaption>Uploaded files available for import</TableCaption>
               <TableHeader>
                 <TableRow>
                   <TableHead>File Name</TableHead>
@@ -0,0 +1,87 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination';
+import { useCursorPagination } from '@/hooks/useCursorPagination';
+
+interface CursorPaginationProps {
+  pagination: ReturnType<typeof useCursorPagination>;
+  nextCursor: string | null | undefined;
+  total: number;
+  pageSize: number;
+  className?: string;
+}
+
+/**
+ * Previous / next controls for a cursor-paginated list, with links to pages already visited
+ */
+const CursorPagination = ({ pagination, nextCursor, total, pageSize, className }: CursorPaginationProps) => {
+  const { pageIndex, knownPageCount, goToNextPage, goToPage } = pagination;
+  const pageCount = Math.max(Math.ceil(total / pageSize), 1);
+
+  if (pageCount <= 1 && pageIndex === 0) return null;
+
+  const handleClick = (action: () => void) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    action();
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const hasPrevious = pageIndex > 0;
+  const hasNext = !!nextCursor;
+
+  return (
+    <div className={className}>
+      <Pagination>
+        <PaginationContent>
+          <PaginationItem>
+            <PaginationPrevious
+              href="#"
+              aria-disabled={!hasPrevious}
+              className={!hasPrevious ? 'pointer-events-none opacity-50' : undefined}
+              onClick={handleClick(() => goToPage(pageIndex - 1))}
+            />
+          </PaginationItem>
+          
+          {Array.from({ length: knownPageCount }, (_, index) => (
+            <PaginationItem key={index}>
+              <PaginationLink
+                href="#"
+                isActive={index === pageIndex}
+                onClick={handleClick(() => goToPage(index))}
+              >
+                {index + 1}
+              </PaginationLink>
+            </PaginationItem>
+          ))}
+          
+          {knownPageCount < pageCount && (
+            <PaginationItem>
+              <PaginationEllipsis />
+            </PaginationItem>
+          )}
+          
+          <PaginationItem>
+            <PaginationNext
+              href="#"
+              aria-disabled={!hasNext}
+              className={!hasNext ? 'pointer-events-none opacity-50' : undefined}
+              onClick={handleClick(() => goToNextPage(nextCursor))}
+            />
+          </PaginationItem>
+        </PaginationContent>
+      </Pagination>
+      
+      <p className="text-center text-sm text-gray-500 mt-2">
+        Page {pageIndex + 1} of {pageCount}
+      </p>
+    </div>
+  );
+};
+
+export default CursorPagination;
@@ -1,12 +1,17 @@
 import { useState } from 'react';
-import { Filter } from '@/types/laundromat';
+import { Filter, FacetCounts } from '@/types/laundromat';
 
 interface FilterSectionProps {
   onFilterChange: (filters: Filter) => void;
   currentLocation: string;
+  // Result counts from the search API, shown next to each filter
+  facets?: FacetCounts;
 }
 
-const FilterSection = ({ onFilterChange, currentLocation }: FilterSectionProps) => {
+// " (14)" suffix for a filter button
+const countLabel = (count: number) => ` (${count})`;
+
+const FilterSection = ({ onFilterChange, currentLocation, facets }: FilterSectionProps) => {
   const [filters, setFilters] = useState<Filter>({});
   
   const toggleFilter = (filterType: keyof Filter, value: any) => {
@@ -69,25 +74,31 @@ const FilterSection = ({ onFilterChange, currentLocation }: FilterSectionProps)
             className={`filter-btn ${isActive('services', 'Coin-Operated') ? 'bg-primary text-white' : 'bg-white'} border border-gray-300 rounded-full px-4 py-2 text-sm font-medium hover:bg-gray-50 active:bg-gray-100 min-w-max`}
             onClick={() => toggleFilter('services', 'Coin-Operated')}
           >
-            <i className="fas fa-coins mr-1 text-primary"></i> Coin-Operated
+            <i className="fas fa-coins mr-1 text-primary"></i> Coin-Operated{facets && countLabel(facets.services['Coin-Operated'] ?? 0)}
           </button>
           <button 
             className={`filter-btn ${isActive('services', '24 Hours') ? 'bg-primary text-white' : 'bg-white'} border border-gray-300 rounded-full px-4 py-2 text-sm font-medium hover:bg-gray-50 active:bg-gray-100 min-w-max`}
             onClick={() => toggleFilter('services', '24 Hours')}
           >
-            <i className="fas fa-moon mr-1 text-primary"></i> 24 Hours
+            <i className="fas fa-moon mr-1 text-primary"></i> 24 Hours{facets && countLabel(facets.services['24 Hours'] ?? 0)}
           </button>
           <button 
             className={`filter-btn ${isActive('services', 'Card Payment') ? 'bg-primary text-white' : 'bg-white'} border border-gray-300 rounded-full px-4 py-2 text-sm font-medium hover:bg-gray-50 active:bg-gray-100 min-w-max`}
             onClick={() => toggleFilter('services', 'Card Payment')}
           >
-            <i className="fas fa-credit-card mr-1 text-primary"></i> Card Payment
+            <i className="fas fa-credit-card mr-1 text-primary"></i> Card Payment{facets && countLabel(facets.services['Card Payment'] ?? 0)}
           </button>
           <button 
             className={`filter-btn ${isActive('rating', 4) ? 'bg-primary text-white' : 'bg-white'} border border-gray-300 rounded-full px-4 py-2 text-sm font-medium hover:bg-gray-50 active:bg-gray-100 min-w-max`}
             onClick={() => toggleFilter('rating', 4)}
           >
-            <i className="fas fa-star mr-1 text-primary"></i> 4.0+
+            <i className="fas fa-star mr-1 text-primary"></i> 4.0+{facets && countLabel(facets.minRating['4'] ?? 0)}
+          </button>
+          <button 
+            className={`filter-btn ${isActive('verified', true) ? 'bg-primary text-white' : 'bg-white'} border border-gray-300 rounded-full px-4 py-2 text-sm font-medium hover:bg-gray-50 active:bg-gray-100 min-w-max`}
+            onClick={() => toggleFilter('verified', true)}
+          >
+            <i className="fas fa-check-circle mr-1 text-primary"></i> Verified{facets && countLabel(facets.verified)}
           </button>
         </div>
       </div>
@@ -1,38 +1,18 @@
 import { Link } from 'wouter';
 import { Laundromat } from '@/types/laundromat';
+import { getStructuredHours, isOpenAt } from '@shared/hours';
 
 interface LaundryCardProps {
   laundromat: Laundromat;
 }
 
 const LaundryCard = ({ laundromat }: LaundryCardProps) => {
-  // Determine if laundromat is open based on hours
-  const determineOpenStatus = (hoursString: string) => {
-    if (hoursString === '24 Hours') return true;
-    
-    // Check if we have the actual hours from Google API
-    if (laundromat.googleData?.opening_hours?.open_now !== undefined) {
-      return laundromat.googleData.opening_hours.open_now;
-    }
-    
-    // For places without specific hours data, make a reasonable estimation
-    // based on common laundromat hours (6am-10pm)
-    const now = new Date();
-    const hour = now.getHours();
-    const day = now.getDay(); // 0 is Sunday, 6 is Saturday
-    
-    // Most laundromats open 6am to 10pm
-    // With extended hours on weekends
-    if (day === 0 || day === 6) {
-      // Weekend hours (often longer)
-      return hour >= 6 && hour < 23;
-    } else {
-      // Weekday hours
-      return hour >= 6 && hour < 22;
-    }
-  };
-  
-  const isOpen = determineOpenStatus(laundromat.hours);
+  // Determine if laundromat is open using its structured hours (see shared/hours.ts)
+  const structuredHours = getStructuredHours(laundromat);
+  const isOpen = structuredHours
+    ? isOpenAt(structuredHours)
+    : laundromat.googleData?.opening_hours?.open_now;
+  const isAlwaysOpen = structuredHours?.is24Hours || laundromat.is_24_hours;
 
   return (
     <article className="laundromat-card border rounded-lg p-4 mb-4 shadow-sm hover:shadow-md transition-shadow bg-white">
@@ -103,10 +83,19 @@ const LaundryCard = ({ laundromat }: LaundryCardProps) => {
             {laundromat.address || "Unknown"}, {laundromat.city || "Unknown"}, {laundromat.state || "Unknown"} {laundromat.zip || "Unknown"}
           </address>
           <div className="text-sm mb-3">
-            <span className={`inline-block w-3 h-3 rounded-full mr-2 ${
-              isOpen ? 'bg-green-500' : 'bg-red-500'
-            }`}></span>
-            {isOpen ? 'Open Now' : 'Closed'} · {laundromat.hours || "Unknown hours"}
+            {isOpen ? (
+              <span className="text-xs bg-green-50 text-green-700 px-2 py-1 rounded-full mr-2">
+                {isAlwaysOpen ? 'Open 24 hours' : 'Open now'}
+              </span>
+            ) : (
+              <>
+                <span className={`inline-block w-3 h-3 rounded-full mr-2 ${
+                  isOpen === false ? 'bg-red-500' : 'bg-gray-400'
+                }`}></span>
+                {isOpen === false ? 'Closed' : 'Hours unavailable'} ·{' '}
+              </>
+            )}
+            {laundromat.hours || "Unknown hours"}
           </div>
           <div className="flex justify-between items-center mt-3 pt-3 border-t">
             {laundromat.phone ? (
@@ -70,18 +70,19 @@ const LaundryDataEnricher: React.FC = () => {
   const [pollInterval, setPollInterval] = useState<NodeJS.Timeout | null>(null);
   const [enrichmentResult, setEnrichmentResult] = useState<EnrichmentResult | null>(null);
 
-  // Query to fetch the list of available CSV files
+  // Query to fetch the list of uploaded CSV files (JSON uploads can't be enriched)
   const { data: csvFiles, isLoading: isLoadingFiles } = useQuery<CSVFilesResponse>({
-    queryKey: ['/api/csv/list'],
+    queryKey: ['/api/admin/data/uploads'],
     queryFn: async () => {
-      return await dataEnrichmentApi<CSVFilesResponse>('/api/csv/list');
+      const uploads = await dataEnrichmentApi<CSVFilesResponse>('/api/admin/data/uploads');
+      return { ...uploads, files: uploads.files.filter(file => file.toLowerCase().endsWith('.csv')) };
     }
   });
 
   // Mutation for enriching data
   const enrichMutation = useMutation({
     mutationFn: async (filePath: string) => {
-      return await dataEnrichmentApi<EnrichmentResult>('/api/laundry/enrich', 'POST', { filePath });
+      return await dataEnrichmentApi<EnrichmentResult>('/api/admin/data/enrich', 'POST', { filePath });
     },
     onSuccess: (data) => {
       setEnrichmentResult(data);
@@ -105,7 +106,7 @@ const LaundryDataEnricher: React.FC = () => {
   // Mutation for batch processing
   const batchEnrichMutation = useMutation({
     mutationFn: async (filePath: string) => {
-      return await dataEnrichmentApi<BatchEnrichmentResponse>('/api/laundry/batch-enrich', 'POST', { filePath });
+      return await dataEnrichmentApi<BatchEnrichmentResponse>('/api/admin/data/enrich/batch', 'POST', { filePath });
     },
     onSuccess: (data) => {
       if (data.jobId) {
@@ -129,10 +130,10 @@ const LaundryDataEnricher: React.FC = () => {
 
   // Query for batch job status (only runs when jobId is available)
   const { data: batchStatus, refetch: refetchBatchStatus } = useQuery<BatchEnrichmentResponse | null>({
-    queryKey: ['/api/laundry/batch-status', batchJobId],
+    queryKey: ['/api/admin/data/enrich/batch', batchJobId],
     queryFn: async () => {
       if (!batchJobId) return null;
-      return await dataEnrichmentApi<BatchEnrichmentResponse>(`/api/laundry/batch-status/${batchJobId}`);
+      return await dataEnrichmentApi<BatchEnrichmentResponse>(`/api/admin/data/enrich/batch/${batchJobId}`);
     },
     enabled: !!batchJobId,
     refetchOnWindowFocus: false,
@@ -202,8 +203,8 @@ const LaundryDataEnricher: React.FC = () => {
   const handleEnrich = () => {
     if (!selectedFile) return;
     
-    // The full path to the selected file
-    const filePath = `/repo/data/csv_uploads/${selectedFile}`;
+    // Paths are relative to the server's import directory
+    const filePath = `csv_uploads/${selectedFile}`;
     
     // If it's likely a small file (under 5MB), use direct enrichment
     // Otherwise use batch processing for large files
@@ -221,7 +222,7 @@ const LaundryDataEnricher: React.FC = () => {
     
     // Create a link to download the file
     const link = document.createElement('a');
-    link.href = `/api/files/download?path=${encodeURIComponent(enrichmentResult.enrichedPath)}`;
+    link.href = `/api/admin/data/download?path=${encodeURIComponent(enrichmentResult.enrichedPath)}`;
     link.download = enrichmentResult.enrichedPath.split('/').pop() || 'enriched_data.csv';
     document.body.appendChild(link);
     link.click();
@@ -1,7 +1,7 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import { GoogleMap, useJsApiLoader, Marker, InfoWindow } from '@react-google-maps/api';
 import { Link } from 'wouter';
-import { Laundromat } from '@/types/laundromat';
+import { Laundromat, LaundromatCluster, MapViewport } from '@/types/laundromat';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { MapPin, Star, ChevronRight } from 'lucide-react';
@@ -16,6 +16,10 @@ interface LaundryMapProps {
   width?: string;
   containerClassName?: string;
   showLegend?: boolean;
+  // Server-side clusters from /api/laundromats/within, shown instead of markers when present
+  clusters?: LaundromatCluster[];
+  // Called whenever the map settles after a pan or zoom
+  onViewportChange?: (viewport: MapViewport) => void;
 }
 
 // Map container style will be overridden by containerClassName if provided
@@ -39,6 +43,8 @@ const LaundryMap: React.FC<LaundryMapProps> = ({
   width = '100%',
   containerClassName = '',
   showLegend = true,
+  clusters = [],
+  onViewportChange,
 }) => {
   const [selectedLaundry, setSelectedLaundry] = useState<Laundromat | null>(null);
   const [mapRef, setMapRef] = useState<google.maps.Map | null>(null);
@@ -177,6 +183,23 @@ const LaundryMap: React.FC<LaundryMapProps> = ({
       }
     });
     
+    // Report the visible area so the parent can load what's actually in view
+    if (onViewportChange) {
+      map.addListener('idle', () => {
+        const bounds = map.getBounds();
+        const mapZoom = map.getZoom();
+        if (!bounds || mapZoom === undefined) return;
+        
+        const ne = bounds.getNorthEast();
+        const sw = bounds.getSouthWest();
+        onViewportChange({
+          ne: { lat: ne.lat(), lng: ne.lng() },
+          sw: { lat: sw.lat(), lng: sw.lng() },
+          zoom: mapZoom
+        });
+      });
+    }
+    
     // Fit bounds to markers if there are multiple laundromats
     if (laundromats.length > 1) {
       const bounds = new google.maps.LatLngBounds();
@@ -199,7 +222,7 @@ const LaundryMap: React.FC<LaundryMapProps> = ({
       map.setZoom(4);
       setShowNationwideMarkers(true);
     }
-  }, [laundromats, isBeverlyHillsSearch, center]);
+  }, [laundromats, isBeverlyHillsSearch, center, onViewportChange]);
 
   // Callback when map is unmounted
   const onUnmount = useCallback(() => {
@@ -218,6 +241,20 @@ const LaundryMap: React.FC<LaundryMapProps> = ({
     }
   };
 
+  // Zoom into a server-side cluster
+  const handleClusterClick = (cluster: LaundromatCluster) => {
+    if (!mapRef) return;
+    
+    const { north, south, east, west } = cluster.bounds;
+    if (north === south && east === west) {
+      // All members share one point - just zoom in on it
+      mapRef.panTo(cluster.position);
+      mapRef.setZoom((mapRef.getZoom() || currentZoom) + 2);
+    } else {
+      mapRef.fitBounds({ north, south, east, west });
+    }
+  };
+
   // Close info window
   const handleInfoWindowClose = () => {
     setSelectedLaundry(null);
@@ -290,7 +327,29 @@ const LaundryMap: React.FC<LaundryMapProps> = ({
             }}
           >
             {/* Using MarkerClusterer for efficient marker management */}
-            {showNationwideMarkers ? (
+            {clusters.length > 0 ? (
+              // Zoomed out: clusters counted on the server for the whole viewport
+              clusters.map(cluster => (
+                <Marker
+                  key={cluster.id}
+                  position={cluster.position}
+                  onClick={() => handleClusterClick(cluster)}
+                  label={{
+                    text: String(cluster.count),
+                    color: "white",
+                    fontSize: "10px",
+                  }}
+                  icon={{
+                    path: google.maps.SymbolPath.CIRCLE,
+                    fillColor: "#1e40af", // Primary blue color
+                    fillOpacity: 0.9,
+                    scale: Math.min(10 + Math.log2(cluster.count) * 3, 30), // Size based on marker count
+                    strokeColor: "#FFFFFF",
+                    strokeWeight: 2,
+                  }}
+                />
+              ))
+            ) : showNationwideMarkers ? (
               // For nationwide markers, continue using individual markers
               getVisibleMarkers().map(laundry => (
                 <Marker
@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import {
+  ANALYTICS_EVENT_LABELS,
+  ANALYTICS_EVENT_TYPES,
+  formatTrend,
+  type ListingAnalytics
+} from '@shared/analytics';
+import { Button } from '@/components/ui/button';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig
+} from '@/components/ui/chart';
+import { Loader2 } from 'lucide-react';
+
+const PERIODS = [7, 30, 90];
+
+const chartConfig: ChartConfig = {
+  view: { label: ANALYTICS_EVENT_LABELS.view, color: 'hsl(var(--primary))' },
+  phone_click: { label: ANALYTICS_EVENT_LABELS.phone_click, color: '#16a34a' },
+  website_click: { label: ANALYTICS_EVENT_LABELS.website_click, color: '#2563eb' },
+  directions_click: { label: ANALYTICS_EVENT_LABELS.directions_click, color: '#d97706' },
+};
+
+function trendColor(trend: number | null) {
+  if (trend === null || trend === 0) return 'text-gray-500';
+  return trend > 0 ? 'text-green-600' : 'text-red-600';
+}
+
+/**
+ * Daily views and contact clicks for a listing (all of the owner's locations without
+ * `laundryId`), with totals and trends against the previous period
+ */
+export default function ListingAnalyticsPanel({ laundryId }: { laundryId?: number }) {
+  const [days, setDays] = useState(30);
+  const url = `/api/business/analytics?days=${days}${laundryId ? `&laundryId=${laundryId}` : ''}`;
+  const { data, isLoading } = useQuery<ListingAnalytics>({ queryKey: [url] });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-2">
+        {PERIODS.map(period => (
+          <Button
+            key={period}
+            size="sm"
+            variant={days === period ? 'default' : 'outline'}
+            onClick={() => setDays(period)}
+          >
+            Last {period} days
+          </Button>
+        ))}
+      </div>
+
+      {isLoading || !data ? (
+        <div className="flex justify-center my-10">
+          <Loader2 className="h-8 w-8 text-primary animate-spin" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {ANALYTICS_EVENT_TYPES.map(type => (
+              <div key={type} className="text-center p-4 bg-gray-50 rounded-lg">
+                <p className="text-sm text-gray-500">{ANALYTICS_EVENT_LABELS[type]}</p>
+                <p className="text-2xl font-bold">{data.totals[type]}</p>
+                <p className={`text-xs ${trendColor(data.trends[type])}`}>
+                  {formatTrend(data.trends[type], data.totals[type])} vs previous {days} days
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <ChartContainer config={chartConfig} className="h-72 w-full">
+            <LineChart data={data.series} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="day"
+                tickLine={false}
+                axisLine={false}
+                minTickGap={24}
+                tickFormatter={(day: string) => new Date(`${day}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+              />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {Object.keys(chartConfig).map(type => (
+                <Line key={type} dataKey={type} type="monotone" stroke={`var(--color-${type})`} strokeWidth={2} dot={false} />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        </>
+      )}
+    </div>
+  );
+}
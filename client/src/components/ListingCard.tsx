@@ -4,7 +4,7 @@ import { MapPin, Clock, Phone, Globe, Info, Star, Award, Crown } from 'lucide-re
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
-import { Laundromat } from '@shared/schema';
+import { Laundromat } from '@/types/laundromat';
 import { calculateDistance } from '../lib/geolocation';
 import { ListingType } from '@shared/premium-features';
 
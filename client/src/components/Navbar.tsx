@@ -17,7 +17,8 @@ import {
   LogIn, 
   UserPlus,
   Menu,
-  X
+  X,
+  Heart
 } from 'lucide-react';
 import { useState } from 'react';
 import { useToast } from '@/hooks/use-toast';
@@ -75,6 +76,10 @@ export default function Navbar() {
             <Link href="/for-owners" className="text-gray-600 hover:text-primary">
               For Owners
             </Link>
+            <Link href="/favorites" className="text-gray-600 hover:text-primary flex items-center">
+              <Heart className="w-4 h-4 mr-1" />
+              Saved
+            </Link>
           </nav>
 
           {/* User Section */}
@@ -172,6 +177,14 @@ export default function Navbar() {
               >
                 For Owners
               </Link>
+              <Link 
+                href="/favorites" 
+                className="text-gray-600 hover:text-primary flex items-center py-2"
+                onClick={() => setIsMenuOpen(false)}
+              >
+                <Heart className="w-4 h-4 mr-2" />
+                Saved
+              </Link>
               
               <div className="border-t pt-2 mt-2">
                 {isLoading ? (
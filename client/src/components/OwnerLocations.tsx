@@ -0,0 +1,303 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import { formatTrend } from '@shared/analytics';
+import type { ListingType } from '@shared/premium-features';
+import ListingAnalyticsPanel from '@/components/ListingAnalyticsPanel';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table';
+import { Loader2 } from 'lucide-react';
+
+interface OwnerLocation {
+  id: number;
+  name: string;
+  slug: string;
+  address: string;
+  city: string;
+  state: string;
+  listingType: ListingType;
+  rating: string | null;
+  reviewCount: number;
+  profileCompleteness: number;
+  views: { thisWeek: number; lastWeek: number; trend: number | null };
+  subscription: {
+    id: number;
+    tier: string;
+    status: string;
+    billingCycle: string;
+    endDate: string;
+    trialEndsAt: string | null;
+    autoRenew: boolean | null;
+  } | null;
+}
+
+interface LocationsResponse {
+  locations: OwnerLocation[];
+  totals: {
+    locations: number;
+    paidLocations: number;
+    reviewCount: number;
+    rating: string | null;
+    views: { today: number; thisWeek: number; thisMonth: number; trend: string };
+  };
+}
+
+interface BulkUpdateResult {
+  updated: number[];
+  skipped: { laundryId: number; name: string; message: string }[];
+}
+
+const LOCATIONS_KEY = ['/api/business/locations'];
+
+/**
+ * Hours, amenities and promotional text for all selected locations at once. Only the
+ * ticked fields are sent, so the rest keep their per-location values.
+ */
+function BulkEditForm({ laundryIds, onDone }: { laundryIds: number[]; onDone: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [fields, setFields] = useState({ hours: false, amenities: false, promotionalText: false });
+  const [hours, setHours] = useState('');
+  const [amenities, setAmenities] = useState('');
+  const [promotionalText, setPromotionalText] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const toggle = (field: keyof typeof fields) => (checked: boolean | 'indeterminate') =>
+    setFields({ ...fields, [field]: checked === true });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const changes = {
+        ...(fields.hours ? { hours: hours.trim() } : {}),
+        ...(fields.amenities ? { amenities: amenities.split(',').map(item => item.trim()).filter(Boolean) } : {}),
+        ...(fields.promotionalText ? { promotionalText: promotionalText.trim() || null } : {})
+      };
+      const response = await apiRequest('PATCH', '/api/business/locations', { laundryIds, changes });
+      const result: BulkUpdateResult = await response.json();
+
+      await queryClient.invalidateQueries({ queryKey: LOCATIONS_KEY });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/business/dashboard') });
+      toast({
+        title: `Updated ${result.updated.length} location${result.updated.length === 1 ? '' : 's'}`,
+        description: result.skipped.length
+          ? `Not changed: ${result.skipped.map(skip => `${skip.name} (${skip.message})`).join('; ')}`
+          : undefined,
+        variant: result.skipped.length && !result.updated.length ? 'destructive' : 'default'
+      });
+      onDone();
+    } catch (error) {
+      toast({ title: 'Error', description: getApiErrorMessage(error, 'Could not update the locations'), variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="border rounded-lg p-4 space-y-4">
+      <p className="text-sm text-gray-600">
+        Apply to {laundryIds.length} selected location{laundryIds.length === 1 ? '' : 's'}
+      </p>
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Checkbox id="bulk-hours" checked={fields.hours} onCheckedChange={toggle('hours')} />
+          <Label htmlFor="bulk-hours">Hours</Label>
+        </div>
+        {fields.hours && (
+          <Input value={hours} onChange={e => setHours(e.target.value)} placeholder="Mon-Fri 6AM-10PM, Sat-Sun 7AM-9PM" />
+        )}
+      </div>
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Checkbox id="bulk-amenities" checked={fields.amenities} onCheckedChange={toggle('amenities')} />
+          <Label htmlFor="bulk-amenities">Amenities</Label>
+        </div>
+        {fields.amenities && (
+          <Input value={amenities} onChange={e => setAmenities(e.target.value)} placeholder="Free WiFi, Vending machines, Attendant on duty" />
+        )}
+      </div>
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Checkbox id="bulk-promo" checked={fields.promotionalText} onCheckedChange={toggle('promotionalText')} />
+          <Label htmlFor="bulk-promo">Promotional text</Label>
+        </div>
+        {fields.promotionalText && (
+          <Textarea
+            value={promotionalText}
+            onChange={e => setPromotionalText(e.target.value)}
+            placeholder="Leave empty to remove it"
+            maxLength={500}
+            rows={3}
+          />
+        )}
+      </div>
+      <Button type="submit" disabled={saving || !Object.values(fields).some(Boolean) || (fields.hours && hours.trim().length < 5)}>
+        {saving ? 'Saving...' : 'Apply changes'}
+      </Button>
+    </form>
+  );
+}
+
+function SubscriptionCell({ location }: { location: OwnerLocation }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [saving, setSaving] = useState(false);
+  const { subscription } = location;
+
+  if (!subscription) {
+    return (
+      <Link href={`/business/subscription/${location.id}`} className="text-sm text-amber-700 hover:underline">
+        Upgrade
+      </Link>
+    );
+  }
+
+  const setAutoRenew = async (autoRenew: boolean) => {
+    setSaving(true);
+    try {
+      await apiRequest('PATCH', `/api/business/locations/${location.id}/subscription`, { autoRenew });
+      await queryClient.invalidateQueries({ queryKey: LOCATIONS_KEY });
+    } catch (error) {
+      toast({ title: 'Error', description: getApiErrorMessage(error, 'Could not update the subscription'), variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="text-sm space-y-1">
+      <div>
+        <span className="capitalize">{subscription.tier}</span>
+        {subscription.status === 'past_due' && <Badge className="ml-2 bg-red-500">Payment due</Badge>}
+      </div>
+      <div className="flex items-center gap-2 text-gray-500">
+        <Switch
+          checked={!!subscription.autoRenew}
+          onCheckedChange={setAutoRenew}
+          disabled={saving}
+          aria-label={`Renew ${location.name} automatically`}
+        />
+        {subscription.autoRenew ? 'Renews' : 'Ends'} {new Date(subscription.endDate).toLocaleDateString()}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Every location on the owner's account: totals across all of them, traffic, a
+ * table to open or select locations, bulk edits and per-location subscriptions
+ */
+export default function OwnerLocations({ onOpen }: { onOpen: (laundryId: number) => void }) {
+  const { data, isLoading } = useQuery<LocationsResponse>({ queryKey: LOCATIONS_KEY });
+  const [selected, setSelected] = useState<number[]>([]);
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center my-10">
+        <Loader2 className="h-8 w-8 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  const { locations, totals } = data;
+  const allSelected = selected.length === locations.length;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="text-center p-4 bg-gray-50 rounded-lg">
+          <p className="text-sm text-gray-500">Locations</p>
+          <p className="text-2xl font-bold">{totals.locations}</p>
+          <p className="text-xs text-gray-500">{totals.paidLocations} on a paid plan</p>
+        </div>
+        <div className="text-center p-4 bg-gray-50 rounded-lg">
+          <p className="text-sm text-gray-500">Average Rating</p>
+          <p className="text-2xl font-bold">{totals.rating ?? '–'}</p>
+          <p className="text-xs text-gray-500">{totals.reviewCount} reviews</p>
+        </div>
+        <div className="text-center p-4 bg-gray-50 rounded-lg">
+          <p className="text-sm text-gray-500">Views This Week</p>
+          <p className="text-2xl font-bold">{totals.views.thisWeek}</p>
+          <p className="text-xs text-gray-500">{totals.views.trend} vs last week</p>
+        </div>
+        <div className="text-center p-4 bg-gray-50 rounded-lg">
+          <p className="text-sm text-gray-500">Views This Month</p>
+          <p className="text-2xl font-bold">{totals.views.thisMonth}</p>
+          <p className="text-xs text-gray-500">{totals.views.today} today</p>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-8">
+              <Checkbox
+                checked={allSelected}
+                onCheckedChange={checked => setSelected(checked === true ? locations.map(location => location.id) : [])}
+                aria-label="Select all locations"
+              />
+            </TableHead>
+            <TableHead>Location</TableHead>
+            <TableHead>Rating</TableHead>
+            <TableHead>Views (7 days)</TableHead>
+            <TableHead>Profile</TableHead>
+            <TableHead>Plan</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {locations.map(location => (
+            <TableRow key={location.id}>
+              <TableCell>
+                <Checkbox
+                  checked={selected.includes(location.id)}
+                  onCheckedChange={checked => setSelected(checked === true
+                    ? [...selected, location.id]
+                    : selected.filter(id => id !== location.id))}
+                  aria-label={`Select ${location.name}`}
+                />
+              </TableCell>
+              <TableCell>
+                <div className="font-medium">{location.name}</div>
+                <div className="text-xs text-gray-500">{location.address}, {location.city}, {location.state}</div>
+              </TableCell>
+              <TableCell>{location.rating || '–'} <span className="text-xs text-gray-500">({location.reviewCount})</span></TableCell>
+              <TableCell>
+                {location.views.thisWeek}{' '}
+                <span className="text-xs text-gray-500">{formatTrend(location.views.trend, location.views.thisWeek)}</span>
+              </TableCell>
+              <TableCell>{location.profileCompleteness}%</TableCell>
+              <TableCell><SubscriptionCell location={location} /></TableCell>
+              <TableCell>
+                <Button size="sm" variant="outline" onClick={() => onOpen(location.id)}>Open</Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {selected.length > 0 && <BulkEditForm laundryIds={selected} onDone={() => setSelected([])} />}
+
+      <div>
+        <h3 className="font-semibold mb-3">Traffic across all locations</h3>
+        <ListingAnalyticsPanel />
+      </div>
+    </div>
+  );
+}
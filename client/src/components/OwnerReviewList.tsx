@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import { Review } from '@/types/laundromat';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Star } from 'lucide-react';
+
+interface OwnerReview extends Review {
+  laundromat: { id: number; name: string; slug: string };
+}
+
+const REVIEWS_KEY = ['/api/business/reviews'];
+
+function OwnerReviewItem({ review }: { review: OwnerReview }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState(false);
+  const [reply, setReply] = useState(review.ownerReply || '');
+  const [saving, setSaving] = useState(false);
+
+  const save = async (action: () => Promise<unknown>, fallback: string) => {
+    setSaving(true);
+    try {
+      await action();
+      setEditing(false);
+      await queryClient.invalidateQueries({ queryKey: REVIEWS_KEY });
+    } catch (error) {
+      toast({ title: 'Error', description: getApiErrorMessage(error, fallback), variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="border-b pb-4">
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex">
+          {[1, 2, 3, 4, 5].map(star => (
+            <Star key={star} className={`h-4 w-4 ${review.rating >= star ? 'text-yellow-500 fill-yellow-500' : 'text-gray-300'}`} />
+          ))}
+        </div>
+        <span className="text-xs text-gray-500">
+          {review.laundromat.name} · {new Date(review.createdAt!).toLocaleDateString()}
+        </span>
+      </div>
+      {review.comment && <p className="text-gray-700 text-sm">{review.comment}</p>}
+
+      {editing ? (
+        <div className="mt-3 space-y-2">
+          <Textarea
+            value={reply}
+            onChange={e => setReply(e.target.value)}
+            placeholder="Thank the customer or address their concerns. Your reply is public."
+            maxLength={1000}
+            rows={3}
+          />
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              disabled={saving || !reply.trim()}
+              onClick={() => save(() => apiRequest('PUT', `/api/reviews/${review.id}/reply`, { reply }), 'Could not save your reply')}
+            >
+              Post reply
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setEditing(false)}>Cancel</Button>
+          </div>
+        </div>
+      ) : review.ownerReply ? (
+        <div className="mt-3 ml-4 pl-3 border-l-2 border-primary/40">
+          <div className="text-xs font-medium text-gray-500">Your reply</div>
+          <p className="text-sm text-gray-700">{review.ownerReply}</p>
+          <div className="flex gap-2 mt-1">
+            <Button size="sm" variant="link" className="px-0" onClick={() => setEditing(true)}>Edit</Button>
+            <Button
+              size="sm"
+              variant="link"
+              className="px-0 text-red-600"
+              disabled={saving}
+              onClick={() => save(() => apiRequest('DELETE', `/api/reviews/${review.id}/reply`), 'Could not delete your reply')}
+            >
+              Delete
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button size="sm" variant="outline" className="mt-2" onClick={() => setEditing(true)}>Reply</Button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Reviews of the signed-in owner's businesses, with public replies
+ */
+export default function OwnerReviewList() {
+  const { data: reviews = [], isLoading } = useQuery<OwnerReview[]>({
+    queryKey: REVIEWS_KEY
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading reviews...</p>;
+  }
+  if (reviews.length === 0) {
+    return <p className="text-sm text-gray-500">No customer reviews yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {reviews.map(review => <OwnerReviewItem key={review.id} review={review} />)}
+    </div>
+  );
+}
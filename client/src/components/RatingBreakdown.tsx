@@ -0,0 +1,27 @@
+import { Progress } from '@/components/ui/progress';
+import { REVIEW_DIMENSIONS, REVIEW_DIMENSION_LABELS, type SubRatingAggregates } from '@shared/reviews';
+
+/**
+ * One bar per rated aspect (cleanliness, price, ...), from approved reviews
+ */
+export default function RatingBreakdown({ subRatings }: { subRatings?: SubRatingAggregates | null }) {
+  const rated = REVIEW_DIMENSIONS.filter(dimension => subRatings?.[dimension]);
+  if (!subRatings || rated.length === 0) return null;
+
+  return (
+    <div className="space-y-2 mb-4">
+      {rated.map(dimension => {
+        const { average, count } = subRatings[dimension]!;
+        return (
+          <div key={dimension} className="flex items-center gap-3 text-sm">
+            <span className="w-44 text-gray-700">{REVIEW_DIMENSION_LABELS[dimension]}</span>
+            <Progress value={average * 20} className="h-2 flex-1" aria-label={`${REVIEW_DIMENSION_LABELS[dimension]}: ${average} out of 5`} />
+            <span className="w-24 text-gray-600 text-right">
+              {average.toFixed(1)} <span className="text-gray-400">({count})</span>
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
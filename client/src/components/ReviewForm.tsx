@@ -0,0 +1,319 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrentUser } from '@/hooks/use-auth';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import { Review } from '@/types/laundromat';
+import {
+  MAX_REVIEW_PHOTOS,
+  MAX_REVIEW_PHOTO_BYTES,
+  REVIEW_DIMENSIONS,
+  REVIEW_DIMENSION_LABELS,
+  REVIEW_PHOTO_TYPES,
+  dimensionColumn,
+  type SubRatings
+} from '@shared/reviews';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Flag, Star, X } from 'lucide-react';
+
+const REPORT_REASONS: { value: string; label: string }[] = [
+  { value: 'spam', label: 'Spam or advertising' },
+  { value: 'offensive', label: 'Offensive or abusive' },
+  { value: 'off_topic', label: 'Not about this laundromat' },
+  { value: 'conflict_of_interest', label: 'Written by the owner or a competitor' },
+  { value: 'other', label: 'Something else' }
+];
+
+function StarInput({ label, value, onChange, size = 'h-6 w-6' }: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  size?: string;
+}) {
+  return (
+    <div className="flex items-center gap-1" role="radiogroup" aria-label={label}>
+      {[1, 2, 3, 4, 5].map(star => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={value === star}
+          aria-label={`${star} star${star === 1 ? '' : 's'}`}
+          onClick={() => onChange(value === star ? 0 : star)}
+        >
+          <Star className={`${size} ${value >= star ? 'text-yellow-500 fill-yellow-500' : 'text-gray-300'}`} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Upload one photo as a raw image body; errors read like apiRequest's
+async function uploadPhoto(reviewId: number, file: File) {
+  const response = await fetch(`/api/reviews/${reviewId}/photos`, {
+    method: 'POST',
+    headers: { 'Content-Type': file.type },
+    body: file,
+    credentials: 'include'
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+  }
+}
+
+function pickSubRatings(review: Review): SubRatings {
+  return Object.fromEntries(REVIEW_DIMENSIONS.map(dimension => [
+    dimensionColumn(dimension),
+    review[dimensionColumn(dimension)] ?? null
+  ]));
+}
+
+interface ReviewFormProps {
+  laundryId: number;
+  onSaved?: () => void;
+}
+
+/**
+ * Write or edit the signed-in user's review of a laundromat. Reviews that trip
+ * the spam and profanity checks wait for a moderator before they're shown.
+ */
+export default function ReviewForm({ laundryId, onSaved }: ReviewFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: userData } = useCurrentUser();
+  const isLoggedIn = !!userData?.user;
+  const mineKey = `/api/reviews/mine?laundryId=${laundryId}`;
+
+  const { data } = useQuery<{ review: Review | null }>({
+    queryKey: [mineKey],
+    enabled: isLoggedIn
+  });
+  const existing = data?.review || null;
+
+  const [open, setOpen] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [subRatings, setSubRatings] = useState<SubRatings>({});
+  const [comment, setComment] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (existing) {
+      setRating(existing.rating);
+      setSubRatings(pickSubRatings(existing));
+      setComment(existing.comment || '');
+    }
+  }, [existing?.id]);
+
+  const photoCount = (existing?.photos?.length || 0) + files.length;
+
+  if (!isLoggedIn) {
+    return (
+      <Link href="/login" className="inline-block mt-4 bg-primary text-white px-4 py-2 rounded font-medium hover:bg-primary/90">
+        Log in to write a review
+      </Link>
+    );
+  }
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    const invalid = selected.find(file => !REVIEW_PHOTO_TYPES.includes(file.type) || file.size > MAX_REVIEW_PHOTO_BYTES);
+    if (invalid) {
+      toast({
+        title: 'Photo not added',
+        description: `${invalid.name}: photos must be JPEG, PNG or WebP and ${MAX_REVIEW_PHOTO_BYTES / (1024 * 1024)} MB or smaller.`,
+        variant: 'destructive'
+      });
+    }
+    const valid = selected.filter(file => file !== invalid && REVIEW_PHOTO_TYPES.includes(file.type) && file.size <= MAX_REVIEW_PHOTO_BYTES);
+    setFiles([...files, ...valid].slice(0, MAX_REVIEW_PHOTOS - (existing?.photos?.length || 0)));
+  };
+
+  const removePhoto = async (photoId: number) => {
+    if (!existing) return;
+    try {
+      await apiRequest('DELETE', `/api/reviews/${existing.id}/photos/${photoId}`);
+      await queryClient.invalidateQueries({ queryKey: [mineKey] });
+      onSaved?.();
+    } catch (error) {
+      toast({ title: 'Error', description: getApiErrorMessage(error, 'Could not remove the photo'), variant: 'destructive' });
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rating < 1) return;
+
+    setSaving(true);
+    try {
+      // A cleared dimension is sent as null so an edit can remove it
+      const ratings = Object.fromEntries(REVIEW_DIMENSIONS.map(dimension => [
+        dimensionColumn(dimension),
+        subRatings[dimensionColumn(dimension)] || null
+      ]));
+      const body = { rating, ...ratings, comment: comment.trim() || null };
+      const response = existing
+        ? await apiRequest('PATCH', `/api/reviews/${existing.id}`, body)
+        : await apiRequest('POST', '/api/reviews', { laundryId, ...body });
+      const saved: Review = await response.json();
+      // Keep the saved review even if a photo upload below fails, so a retry edits it
+      queryClient.setQueryData([mineKey], { review: saved });
+
+      for (const file of files) {
+        await uploadPhoto(saved.id, file);
+        setFiles(current => current.filter(pending => pending !== file));
+      }
+
+      await queryClient.invalidateQueries({ queryKey: [mineKey] });
+      setOpen(false);
+      onSaved?.();
+      toast({
+        title: existing ? 'Review updated' : 'Thanks for your review',
+        description: saved.status === 'approved'
+          ? 'Your review is now live.'
+          : 'Your review will appear once a moderator has checked it.'
+      });
+    } catch (error) {
+      toast({ title: 'Error', description: getApiErrorMessage(error, 'Could not save your review'), variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <div className="mt-4">
+        {existing && existing.status !== 'approved' && (
+          <p className="text-sm text-gray-500 mb-2">
+            {existing.status === 'rejected'
+              ? 'Your review was not published. You can edit it and try again.'
+              : 'Your review is waiting for a moderator.'}
+          </p>
+        )}
+        <Button onClick={() => setOpen(true)}>
+          {existing ? 'Edit your review' : 'Write a Review'}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 border rounded-lg p-4 space-y-3">
+      <div>
+        <div className="text-sm font-medium mb-1">Overall</div>
+        <StarInput label="Overall rating" value={rating} onChange={setRating} />
+      </div>
+      <div className="grid sm:grid-cols-2 gap-2">
+        {REVIEW_DIMENSIONS.map(dimension => (
+          <div key={dimension} className="flex items-center justify-between gap-2">
+            <span className="text-sm text-gray-600">{REVIEW_DIMENSION_LABELS[dimension]}</span>
+            <StarInput
+              label={REVIEW_DIMENSION_LABELS[dimension]}
+              value={subRatings[dimensionColumn(dimension)] || 0}
+              onChange={value => setSubRatings({ ...subRatings, [dimensionColumn(dimension)]: value || null })}
+              size="h-4 w-4"
+            />
+          </div>
+        ))}
+      </div>
+      <Textarea
+        value={comment}
+        onChange={e => setComment(e.target.value)}
+        placeholder="How were the machines, prices and staff?"
+        maxLength={2000}
+        rows={4}
+      />
+      <div className="space-y-2">
+        {(!!existing?.photos?.length || files.length > 0) && (
+          <div className="flex flex-wrap gap-2">
+            {existing?.photos?.map(photo => (
+              <div key={photo.id} className="relative">
+                <img src={photo.url} alt="" className="h-16 w-16 object-cover rounded" />
+                <button
+                  type="button"
+                  className="absolute -top-2 -right-2 bg-white rounded-full shadow p-0.5"
+                  onClick={() => removePhoto(photo.id)}
+                  aria-label="Remove photo"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+            {files.map((file, index) => (
+              <div key={`${file.name}-${index}`} className="relative">
+                <img src={URL.createObjectURL(file)} alt="" className="h-16 w-16 object-cover rounded opacity-80" />
+                <button
+                  type="button"
+                  className="absolute -top-2 -right-2 bg-white rounded-full shadow p-0.5"
+                  onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                  aria-label="Remove photo"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {photoCount < MAX_REVIEW_PHOTOS && (
+          <label className="text-sm text-primary cursor-pointer hover:underline">
+            Add photos of the facility
+            <input type="file" accept={REVIEW_PHOTO_TYPES.join(',')} multiple className="hidden" onChange={handleFiles} />
+          </label>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" disabled={saving || rating < 1}>
+          {saving ? 'Saving...' : existing ? 'Update review' : 'Post review'}
+        </Button>
+        <Button type="button" variant="ghost" onClick={() => setOpen(false)}>Cancel</Button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Let signed-in users report an abusive review
+ */
+export function ReportReviewButton({ reviewId }: { reviewId: number }) {
+  const { toast } = useToast();
+  const { data: userData } = useCurrentUser();
+
+  if (!userData?.user) return null;
+
+  const report = async (reason: string) => {
+    try {
+      await apiRequest('POST', `/api/reviews/${reviewId}/report`, { reason });
+      toast({ title: 'Review reported', description: 'Thanks, we will take a look at this review.' });
+    } catch (error) {
+      toast({ title: 'Error', description: getApiErrorMessage(error, 'Could not report the review'), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button className="text-xs text-gray-400 hover:text-gray-600 flex items-center" aria-label="Report review">
+          <Flag className="h-3 w-3 mr-1" />
+          Report
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {REPORT_REASONS.map(reason => (
+          <DropdownMenuItem key={reason.value} onSelect={() => report(reason.value)}>
+            {reason.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
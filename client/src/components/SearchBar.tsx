@@ -80,7 +80,7 @@ const SearchBar: React.FC<SearchBarProps> = ({
             // Make the actual request
             const prefetchResponse = await fetch(prefetchUrl);
             const prefetchData = await prefetchResponse.json();
-            console.log(`Pre-fetch returned ${prefetchData.length || 0} laundromats`);
+            console.log(`Pre-fetch returned ${prefetchData.total || 0} laundromats`);
             
             // Now complete the search with the pre-fetched data available
             console.log(`⚠️ ZIP SEARCH - Forcing page reload for accurate results`);
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface ClaimCodeFormProps {
+  claimId: number;
+  method: 'phone' | 'mail';
+  codeSentTo: string | null;
+  onVerified: (result: { laundryId: number; redirectToPayment: boolean }) => void;
+}
+
+/**
+ * Enter the code texted or mailed for a claim, or ask for a new one
+ */
+export default function ClaimCodeForm({ claimId, method, codeSentTo, onVerified }: ClaimCodeFormProps) {
+  const { toast } = useToast();
+  const [code, setCode] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsVerifying(true);
+    try {
+      const response = await apiRequest('POST', `/api/business/claims/${claimId}/verify`, { code });
+      onVerified(await response.json());
+    } catch (error) {
+      toast({
+        title: 'Verification Failed',
+        description: getApiErrorMessage(error, 'That code could not be verified.'),
+        variant: 'destructive',
+      });
+      setIsVerifying(false);
+    }
+  };
+
+  const handleResend = async () => {
+    try {
+      const response = await apiRequest('POST', `/api/business/claims/${claimId}/resend`);
+      const data = await response.json();
+      toast({ title: 'Code Sent', description: data.message });
+    } catch (error) {
+      toast({
+        title: 'Could Not Send a New Code',
+        description: getApiErrorMessage(error, 'Please try again later.'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {codeSentTo && <p className="text-sm text-gray-500">Sent to {codeSentTo}</p>}
+      <div className="space-y-2">
+        <Label htmlFor={`claim-code-${claimId}`}>6-digit code</Label>
+        <Input
+          id={`claim-code-${claimId}`}
+          value={code}
+          onChange={e => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          className="max-w-[12rem] tracking-widest"
+        />
+      </div>
+      {method === 'mail' && (
+        <p className="text-sm text-gray-500">
+          Postcards usually arrive within 5-7 business days. Enter the code from My Claims when it does.
+        </p>
+      )}
+      <div className="flex gap-2">
+        <Button type="submit" disabled={code.length !== 6 || isVerifying}>
+          {isVerifying ? 'Verifying...' : 'Verify'}
+        </Button>
+        <Button type="button" variant="outline" onClick={handleResend} disabled={isVerifying}>
+          Send a new code
+        </Button>
+      </div>
+    </form>
+  );
+}
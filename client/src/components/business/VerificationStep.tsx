@@ -20,6 +20,9 @@ const verificationSchema = z.object({
   phone: z.string().optional(),
   address: z.string().optional(),
   email: z.string().email('Please enter a valid email address').min(1, 'Email is required'),
+}).refine(data => !['document', 'utility'].includes(data.method) || (data.documentFiles?.length ?? 0) > 0, {
+  message: 'Please upload at least one document',
+  path: ['documentFiles'],
 });
 
 type VerificationFormValues = z.infer<typeof verificationSchema>;
@@ -42,7 +45,7 @@ const VerificationStep: React.FC<VerificationStepProps> = ({
       method: undefined,
       documentFiles: [],
       phone: laundromat?.phone || '',
-      address: laundromat?.address || '',
+      address: [laundromat?.address, laundromat?.city, laundromat?.state, laundromat?.zip].filter(Boolean).join(', '),
       email: '',
     },
   });
@@ -307,10 +310,10 @@ const VerificationStep: React.FC<VerificationStepProps> = ({
                     <FormItem>
                       <FormLabel>Business Phone Number</FormLabel>
                       <FormControl>
-                        <Input placeholder="(xxx) xxx-xxxx" {...field} value={field.value || ''} />
+                        <Input placeholder="(xxx) xxx-xxxx" {...field} value={field.value || ''} readOnly />
                       </FormControl>
                       <FormDescription>
-                        Must match the phone number on record for this business
+                        Codes are only sent to the phone number on record for this business
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -339,10 +342,10 @@ const VerificationStep: React.FC<VerificationStepProps> = ({
                     <FormItem>
                       <FormLabel>Business Address</FormLabel>
                       <FormControl>
-                        <Input placeholder="123 Main St, City, State, ZIP" {...field} value={field.value || ''} />
+                        <Input placeholder="123 Main St, City, State, ZIP" {...field} value={field.value || ''} readOnly />
                       </FormControl>
                       <FormDescription>
-                        Must match the address on record for this business
+                        Postcards are only mailed to the address on record for this business
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { apiRequest } from '../lib/queryClient';
+import { apiRequest, getQueryFn } from '../lib/queryClient';
+import { clearFavorites } from '../lib/storage';
 
 interface User {
   id: number;
@@ -8,6 +9,7 @@ interface User {
   email: string;
   role: string;
   isBusinessOwner: boolean;
+  emailVerified?: boolean;
 }
 
 interface LoginCredentials {
@@ -27,6 +29,8 @@ interface RegisterData {
 export function useCurrentUser() {
   return useQuery<{ success: boolean, user: User, laundromats?: any[] } | null>({
     queryKey: ['/api/auth/me'],
+    // Signed-out visitors get null rather than an error
+    queryFn: getQueryFn({ on401: 'returnNull' }),
     refetchOnWindowFocus: false,
     retry: false,
     gcTime: 0
@@ -141,6 +145,9 @@ export function useLogout() {
       }
     },
     onSuccess: () => {
+      // The local favorites mirror the account's; don't leave them on a shared device
+      clearFavorites();
+      queryClient.removeQueries({ queryKey: ['/api/favorites'] });
       queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
     }
   });
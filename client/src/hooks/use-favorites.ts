@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import type { StructuredHours } from '@shared/hours';
+import { apiRequest } from '../lib/queryClient';
+import {
+  clearFavorites,
+  getFavorites,
+  getFavoritesMergedUser,
+  setFavoritesMergedUser,
+  removeFavorite as removeLocalFavorite,
+  saveFavorite as saveLocalFavorite,
+  setFavorites as setLocalFavorites
+} from '../lib/storage';
+import { useCurrentUser } from './use-auth';
+
+export interface FavoriteList {
+  id: number;
+  userId: number;
+  name: string;
+  createdAt: string;
+}
+
+export interface FavoriteEntry {
+  laundryId: number;
+  listId: number | null;
+  createdAt: string;
+  laundromat: {
+    id: number;
+    name: string;
+    slug: string;
+    address: string;
+    city: string;
+    state: string;
+    zip: string;
+    phone: string;
+    rating: string | null;
+    reviewCount: number | null;
+    imageUrl: string | null;
+    hours: string;
+    hoursStructured: StructuredHours | null;
+  };
+}
+
+export interface FavoritesResponse {
+  lists: FavoriteList[];
+  favorites: FavoriteEntry[];
+}
+
+const FAVORITES_KEY = ['/api/favorites'];
+
+/**
+ * Hook for saved laundromats. Logged-in users' favorites live on the server
+ * (mirrored to localStorage); signed-out visitors' favorites stay in localStorage.
+ */
+export function useFavorites() {
+  const queryClient = useQueryClient();
+  const { data: userData } = useCurrentUser();
+  const isLoggedIn = !!userData?.user;
+  const [localIds, setLocalIds] = useState<number[]>(getFavorites);
+
+  const { data, isLoading } = useQuery<FavoritesResponse>({
+    queryKey: FAVORITES_KEY,
+    enabled: isLoggedIn
+  });
+
+  const favoriteIds = isLoggedIn && data ? data.favorites.map(favorite => favorite.laundryId) : localIds;
+
+  const refresh = useCallback(async () => {
+    setLocalIds(getFavorites());
+    if (isLoggedIn) {
+      await queryClient.invalidateQueries({ queryKey: FAVORITES_KEY });
+    }
+  }, [isLoggedIn, queryClient]);
+
+  const isFavorite = useCallback((laundryId: number) => favoriteIds.includes(laundryId), [favoriteIds]);
+
+  const toggleFavorite = async (laundryId: number) => {
+    if (isFavorite(laundryId)) {
+      removeLocalFavorite(laundryId);
+      if (isLoggedIn) await apiRequest('DELETE', `/api/favorites/${laundryId}`);
+    } else {
+      saveLocalFavorite(laundryId);
+      if (isLoggedIn) await apiRequest('POST', '/api/favorites', { laundryId });
+    }
+    await refresh();
+  };
+
+  const moveToList = async (laundryId: number, listId: number | null) => {
+    await apiRequest('POST', '/api/favorites', { laundryId, listId });
+    await refresh();
+  };
+
+  const createList = async (name: string): Promise<FavoriteList> => {
+    const response = await apiRequest('POST', '/api/favorites/lists', { name });
+    await refresh();
+    return response.json();
+  };
+
+  const renameList = async (id: number, name: string) => {
+    await apiRequest('PATCH', `/api/favorites/lists/${id}`, { name });
+    await refresh();
+  };
+
+  const deleteList = async (id: number) => {
+    await apiRequest('DELETE', `/api/favorites/lists/${id}`);
+    await refresh();
+  };
+
+  return {
+    isLoggedIn,
+    isLoading: isLoggedIn && isLoading,
+    favoriteIds,
+    lists: data?.lists || [],
+    favorites: data?.favorites || [],
+    isFavorite,
+    toggleFavorite,
+    moveToList,
+    createList,
+    renameList,
+    deleteList
+  };
+}
+
+/**
+ * Merge favorites saved in this browser into the account once, when a user signs
+ * in. From then on the account is the source of truth and is mirrored locally,
+ * so removals made on other devices stick. Mount once, near the app root.
+ */
+export function useFavoritesSync() {
+  const queryClient = useQueryClient();
+  const { data: userData } = useCurrentUser();
+  const userId = userData?.user?.id;
+  const [mergedUserId, setMergedUserId] = useState(getFavoritesMergedUser);
+  const mergingUserId = useRef<number | null>(null);
+  const merged = !!userId && mergedUserId === userId;
+
+  const { data } = useQuery<FavoritesResponse>({
+    queryKey: FAVORITES_KEY,
+    enabled: merged
+  });
+
+  useEffect(() => {
+    // Signed out without logging out, e.g. the session expired
+    if (userData === null && mergedUserId !== null) {
+      clearFavorites();
+      setMergedUserId(null);
+      return;
+    }
+    if (!userId || mergedUserId === userId || mergingUserId.current === userId) return;
+    mergingUserId.current = userId;
+
+    apiRequest('POST', '/api/favorites/merge', { laundryIds: getFavorites() })
+      .then(response => response.json())
+      .then(({ lists, favorites }: FavoritesResponse) => {
+        setLocalFavorites(favorites.map(favorite => favorite.laundryId));
+        setFavoritesMergedUser(userId);
+        setMergedUserId(userId);
+        queryClient.setQueryData<FavoritesResponse>(FAVORITES_KEY, { lists, favorites });
+      })
+      .catch(error => {
+        console.error('Error syncing favorites:', error);
+      })
+      .finally(() => {
+        mergingUserId.current = null;
+      });
+  }, [userId, userData, mergedUserId, queryClient]);
+
+  useEffect(() => {
+    if (merged && data) {
+      setLocalFavorites(data.favorites.map(favorite => favorite.laundryId));
+    }
+  }, [merged, data]);
+}
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Track page cursors for an endpoint that returns `{ items, total, nextCursor }`.
+ * Cursors are opaque, so only pages that have already been reached can be jumped to.
+ * Changing `resetKey` (e.g. the search query) goes back to the first page.
+ */
+export function useCursorPagination(resetKey: string) {
+  // cursors[i] loads page i; the first page has no cursor
+  const [cursors, setCursors] = useState<(string | null)[]>([null]);
+  const [pageIndex, setPageIndex] = useState(0);
+
+  useEffect(() => {
+    setCursors([null]);
+    setPageIndex(0);
+  }, [resetKey]);
+
+  const goToNextPage = (nextCursor: string | null | undefined) => {
+    if (!nextCursor) return;
+
+    setCursors(previous => {
+      // Keep the pages after this one if we've already been there
+      if (previous[pageIndex + 1] === nextCursor) return previous;
+      return [...previous.slice(0, pageIndex + 1), nextCursor];
+    });
+    setPageIndex(pageIndex + 1);
+  };
+
+  const goToPage = (index: number) => {
+    if (index >= 0 && index < cursors.length) {
+      setPageIndex(index);
+    }
+  };
+
+  return {
+    cursor: cursors[pageIndex] ?? null,
+    pageIndex,
+    knownPageCount: cursors.length,
+    goToNextPage,
+    goToPage
+  };
+}
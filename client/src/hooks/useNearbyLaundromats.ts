@@ -44,7 +44,8 @@ export function useNearbyLaundromats({
         const params = new URLSearchParams({
           lat: String(latitude),
           lng: String(longitude),
-          radius: String(searchRadius)
+          radius: String(searchRadius),
+          limit: '50'
         });
 
         // Make the API request with coordinates
@@ -55,7 +56,7 @@ export function useNearbyLaundromats({
           throw new Error('Failed to fetch laundromats');
         }
         
-        const data = await response.json();
+        const { items: data } = await response.json();
         console.log(`Found ${data.length} laundromats near coordinates`);
         
         // If we get results, return them directly
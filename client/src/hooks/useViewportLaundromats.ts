@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { MapViewport, ViewportResult } from '@/types/laundromat';
+
+// Round viewport corners so tiny pans don't trigger a new request
+const roundCoordinate = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Load the laundromats (or server-side clusters when zoomed out) inside the
+ * visible map area. Pass `setViewport` to LaundryMap's `onViewportChange`.
+ */
+export function useViewportLaundromats() {
+  const [viewport, setViewport] = useState<MapViewport | null>(null);
+
+  const ne = viewport ? `${roundCoordinate(viewport.ne.lat)},${roundCoordinate(viewport.ne.lng)}` : '';
+  const sw = viewport ? `${roundCoordinate(viewport.sw.lat)},${roundCoordinate(viewport.sw.lng)}` : '';
+
+  const {
+    data,
+    isLoading,
+    error
+  } = useQuery<ViewportResult>({
+    queryKey: ['/api/laundromats/within', ne, sw, viewport?.zoom],
+    enabled: !!viewport,
+    // Keep showing the previous viewport's markers while the next ones load
+    placeholderData: previous => previous,
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        ne,
+        sw,
+        zoom: String(viewport?.zoom)
+      });
+
+      const response = await fetch(`/api/laundromats/within?${params.toString()}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch laundromats in view');
+      }
+
+      return response.json();
+    }
+  });
+
+  return {
+    viewport,
+    setViewport,
+    laundromats: data?.laundromats || [],
+    clusters: data?.clusters || [],
+    total: data?.total || 0,
+    isLoading,
+    error
+  };
+}
@@ -0,0 +1,70 @@
+import { MAX_EVENTS_PER_BATCH, type AnalyticsEventType } from '@shared/analytics';
+
+/**
+ * Listing views, contact clicks and search impressions for the owners' dashboard.
+ * Events are batched for a moment and sent with sendBeacon, so they survive the
+ * visitor following a phone, website or directions link off the page.
+ */
+
+interface ListingEvent {
+  type: AnalyticsEventType;
+  laundryId: number;
+}
+
+const FLUSH_DELAY_MS = 1000;
+
+let queue: ListingEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+function send(events: ListingEvent[]) {
+  const body = JSON.stringify({ events });
+  const blob = new Blob([body], { type: 'application/json' });
+  if (navigator.sendBeacon?.('/api/events', blob)) return;
+
+  fetch('/api/events', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+    credentials: 'include',
+    keepalive: true
+  }).catch(() => {
+    // Analytics are best effort
+  });
+}
+
+function flush() {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  while (queue.length > 0) {
+    send(queue.splice(0, MAX_EVENTS_PER_BATCH));
+  }
+}
+
+if (typeof document !== 'undefined') {
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flush();
+  });
+}
+
+/**
+ * Record an event against a listing; the server drops repeats from the same visitor
+ */
+export function trackListingEvent(type: AnalyticsEventType, laundryId: number) {
+  if (typeof window === 'undefined' || !Number.isInteger(laundryId) || laundryId <= 0) return;
+  queue.push({ type, laundryId });
+  // Clicks usually leave the page, so don't wait for them
+  if (type !== 'view' && type !== 'search_impression') {
+    flush();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(flush, FLUSH_DELAY_MS);
+  }
+}
+
+/**
+ * Record that these listings were shown in search results
+ */
+export function trackSearchImpressions(laundryIds: number[]) {
+  laundryIds.forEach(id => trackListingEvent('search_impression', id));
+}
@@ -33,6 +33,16 @@ export async function dataEnrichmentApi<T>(
   return await res.json() as T;
 }
 
+// User-facing message from an apiRequest error ("400: {\"message\": ...}")
+export function getApiErrorMessage(error: unknown, fallback: string): string {
+  const text = error instanceof Error ? error.message.replace(/^\d{3}: /, '') : '';
+  try {
+    return JSON.parse(text).message || fallback;
+  } catch {
+    return text || fallback;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
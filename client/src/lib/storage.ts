@@ -2,6 +2,7 @@
 
 export const STORAGE_KEYS = {
   FAVORITES: 'laundrylocator_favorites',
+  FAVORITES_MERGED_USER: 'laundrylocator_favorites_merged_user',
   RECENT_SEARCHES: 'laundrylocator_recent_searches',
   LAST_LOCATION: 'laundrylocator_last_location'
 };
@@ -28,6 +29,27 @@ export function getFavorites(): number[] {
   return favoritesJson ? JSON.parse(favoritesJson) : [];
 }
 
+// Replace all favorites, e.g. with the ones saved to the user's account
+export function setFavorites(laundryIds: number[]): void {
+  localStorage.setItem(STORAGE_KEYS.FAVORITES, JSON.stringify(laundryIds));
+}
+
+// Forget this browser's favorites, e.g. on logout
+export function clearFavorites(): void {
+  localStorage.removeItem(STORAGE_KEYS.FAVORITES);
+  localStorage.removeItem(STORAGE_KEYS.FAVORITES_MERGED_USER);
+}
+
+// The user whose account this browser's favorites were last merged into
+export function getFavoritesMergedUser(): number | null {
+  const userId = localStorage.getItem(STORAGE_KEYS.FAVORITES_MERGED_USER);
+  return userId ? Number(userId) : null;
+}
+
+export function setFavoritesMergedUser(userId: number): void {
+  localStorage.setItem(STORAGE_KEYS.FAVORITES_MERGED_USER, String(userId));
+}
+
 // Check if a laundromat is in favorites
 export function isFavorite(laundryId: number): boolean {
   const favorites = getFavorites();
@@ -1,11 +1,12 @@
 import React, { useState } from 'react';
-import { useLocation } from 'wouter';
+import { Link, useLocation } from 'wouter';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useMutation } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { useCurrentUser } from '@/hooks/use-auth';
 
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
@@ -35,6 +36,8 @@ const AddBusinessPage = () => {
   const { toast } = useToast();
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [newBusinessId, setNewBusinessId] = useState<number | null>(null);
+  const { data: currentUser, isLoading: userLoading } = useCurrentUser();
+  const signedOut = !userLoading && !currentUser?.user;
   
   // Initialize form
   const form = useForm<FormValues>({
@@ -154,6 +157,15 @@ const AddBusinessPage = () => {
                 </p>
               </div>
               
+              {signedOut && (
+                <Alert>
+                  <AlertTriangle className="h-5 w-5" />
+                  <AlertDescription>
+                    Please <Link href="/login" className="font-medium underline">sign in</Link> to add a business.
+                  </AlertDescription>
+                </Alert>
+              )}
+              
               <Form {...form}>
                 <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
                   <Card>
@@ -370,7 +382,7 @@ const AddBusinessPage = () => {
                   <div className="flex justify-end">
                     <Button 
                       type="submit" 
-                      disabled={addBusinessMutation.isPending}
+                      disabled={addBusinessMutation.isPending || signedOut}
                       className="w-full md:w-auto"
                     >
                       {addBusinessMutation.isPending ? (
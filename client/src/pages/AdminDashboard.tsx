@@ -1,21 +1,30 @@
-import { useState, useEffect } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Helmet } from 'react-helmet';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import type { Page } from '@shared/pagination';
+import { Loader2 } from 'lucide-react';
+
+type NotificationType = 'business_claim' | 'subscription' | 'review_report';
+type NotificationStatus = 'unread' | 'read' | 'contacted' | 'resolved';
 
 interface Notification {
   id: number;
-  type: string;
-  status: string;
+  type: NotificationType;
+  status: NotificationStatus;
   createdAt: string;
   contact: {
     email: string;
-    phone: string;
+    phone: string | null;
   };
   laundromat: {
     id: number;
@@ -25,170 +34,439 @@ interface Notification {
     state: string;
     zip: string;
     slug: string;
-  };
+    ownerId: number | null;
+    verified: boolean | null;
+  } | null;
   user: {
     id: number;
     username: string;
     email: string;
-  };
+  } | null;
+  assignee: { id: number; username: string } | null;
   formData: any;
 }
 
+interface NotificationEvent {
+  id: number;
+  action: string;
+  note: string | null;
+  data: any;
+  createdAt: string;
+  actor: { id: number; username: string } | null;
+}
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  business_claim: 'Business claim',
+  subscription: 'Subscription',
+  review_report: 'Reported review',
+};
+
+const STATUSES: NotificationStatus[] = ['unread', 'read', 'contacted', 'resolved'];
+
+const statusColors: Record<NotificationStatus, string> = {
+  unread: 'bg-red-500',
+  read: 'bg-blue-500',
+  contacted: 'bg-green-500',
+  resolved: 'bg-gray-500',
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  created: 'Created',
+  status: 'Status changed',
+  assigned: 'Assigned',
+  note: 'Note',
+  document_added: 'Document uploaded',
+  approved: 'Claim approved',
+  rejected: 'Claim rejected',
+  revoked: 'Ownership revoked',
+};
+
+const ALL = 'all';
+
+const claimIsOpen = (notification: Notification) =>
+  notification.type === 'business_claim' &&
+  ['pending_verification', 'pending_review'].includes(notification.formData?.claimStatus);
+
+function describeEvent(event: NotificationEvent, assignees: { id: number; username: string }[]) {
+  if (event.action === 'status') return `${event.data?.from} → ${event.data?.to}`;
+  if (event.action === 'assigned') {
+    const admin = assignees.find(a => a.id === event.data?.assignedTo);
+    return event.data?.assignedTo ? `to ${admin?.username || `admin #${event.data.assignedTo}`}` : 'Unassigned';
+  }
+  return event.note;
+}
+
+/**
+ * Notes and the audit trail for one notification
+ */
+function NotificationHistory({ notification, assignees }: { notification: Notification; assignees: { id: number; username: string }[] }) {
+  const { toast } = useToast();
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const url = `/api/admin/notifications/${notification.id}/events`;
+  const { data: events = [], isLoading, refetch } = useQuery<NotificationEvent[]>({ queryKey: [url] });
+
+  const addNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await apiRequest('POST', `/api/admin/notifications/${notification.id}/notes`, { note });
+      setNote('');
+      refetch();
+    } catch (error) {
+      toast({ title: 'Error', description: getApiErrorMessage(error, 'Could not add the note'), variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      {isLoading ? (
+        <Loader2 className="h-5 w-5 text-primary animate-spin" />
+      ) : (
+        <ul className="space-y-2 text-sm">
+          {events.map(event => (
+            <li key={event.id} className={event.action === 'note' ? 'bg-yellow-50 rounded p-2' : ''}>
+              <span className="text-gray-500">{new Date(event.createdAt).toLocaleString()}</span>{' '}
+              <span className="font-medium">{ACTION_LABELS[event.action] || event.action}</span>{' '}
+              <span className="text-gray-500">by {event.actor?.username || 'system'}</span>
+              {describeEvent(event, assignees) && <p className="whitespace-pre-wrap">{describeEvent(event, assignees)}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+      <form onSubmit={addNote} className="space-y-2">
+        <Textarea value={note} onChange={e => setNote(e.target.value)} placeholder="Internal note, only admins see it" rows={2} maxLength={2000} />
+        <Button type="submit" size="sm" variant="outline" disabled={saving || !note.trim()}>
+          {saving ? 'Saving...' : 'Add note'}
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+function NotificationDetails({ notification }: { notification: Notification }) {
+  const data = notification.formData || {};
+
+  if (notification.type === 'subscription') {
+    return (
+      <div>
+        <h3 className="font-medium">Subscription</h3>
+        <p>{data.event === 'payment_failed' ? 'Renewal payment failed' : 'Subscription cancelled'}</p>
+        <p>Plan: <span className="capitalize">{data.tier}</span>, {data.billingCycle}{data.amount ? `, $${(data.amount / 100).toFixed(2)}` : ''}</p>
+        {data.amountDue !== undefined && <p>Amount due: ${(data.amountDue / 100).toFixed(2)}</p>}
+        {data.reason && <p>Reason: {data.reason}</p>}
+      </div>
+    );
+  }
+
+  if (notification.type === 'review_report') {
+    return (
+      <div>
+        <h3 className="font-medium">Reported Review</h3>
+        <p>{data.rating}★ {data.comment ? `“${data.comment}”` : '(no comment)'}</p>
+        <p>{data.reportCount} reports, most recently for {String(data.lastReason || '').replace(/_/g, ' ')}</p>
+        <Link href="/admin/reviews" className="text-blue-600 hover:underline">Open the review queue</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h3 className="font-medium">Claim Details</h3>
+      <p>Submitted: {new Date(notification.createdAt).toLocaleString()}</p>
+      {data.claimStatus && <p>Claim status: {String(data.claimStatus).replace(/_/g, ' ')}</p>}
+      <p>Selected Plan: {data.selectedPlan || 'basic'}</p>
+      <p>Verification Method: {data.verificationMethod || 'Not specified'}</p>
+      {data.email && data.email !== notification.contact.email && (
+        <p>Owner Email: <a href={`mailto:${data.email}`} className="text-blue-600">{data.email}</a></p>
+      )}
+      {data.claimId && data.documents?.length > 0 && (
+        <div className="mt-2">
+          <p>Documents:</p>
+          <ul className="list-disc ml-5">
+            {data.documents.map((document: { id: number; name: string | null; contentType: string }) => (
+              <li key={document.id}>
+                <a
+                  href={`/api/admin/claims/${data.claimId}/documents/${document.id}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline"
+                >
+                  {document.name || `Document ${document.id}`}
+                </a>{' '}
+                <span className="text-gray-500 text-sm">({document.contentType})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {data.rejectionReason && <p>Reason: {data.rejectionReason}</p>}
+    </div>
+  );
+}
+
 export default function AdminDashboard() {
   const { toast } = useToast();
-  const [activeTab, setActiveTab] = useState('all');
-  
-  const { data: notifications = [], isLoading, refetch } = useQuery({
-    queryKey: ['/api/admin/notifications'],
+  const queryClient = useQueryClient();
+  const [type, setType] = useState<string>(ALL);
+  const [status, setStatus] = useState<string>('unread,read,contacted');
+  const [assignedTo, setAssignedTo] = useState<string>(ALL);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  // The claim decision waiting for a reason: reject or revoke
+  const [pendingAction, setPendingAction] = useState<{ id: number; action: 'reject' | 'revoke' } | null>(null);
+  const [reason, setReason] = useState('');
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const params = new URLSearchParams({ limit: '50' });
+  if (type !== ALL) params.set('type', type);
+  if (status !== ALL) params.set('status', status);
+  if (assignedTo !== ALL) params.set('assignedTo', assignedTo);
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  const url = `/api/admin/notifications?${params}`;
+
+  const { data, isLoading, refetch } = useQuery<Page<Notification>>({
+    queryKey: [url],
     refetchInterval: 30000, // Refresh every 30 seconds
   });
-  
-  const handleUpdateStatus = async (id: number, status: string) => {
+  const { data: assignees = [] } = useQuery<{ id: number; username: string }[]>({
+    queryKey: ['/api/admin/notifications/assignees'],
+  });
+  const notifications = data?.items || [];
+
+  const refresh = () => queryClient.invalidateQueries({
+    predicate: query => String(query.queryKey[0]).startsWith('/api/admin/notifications')
+  });
+
+  const run = async (id: number, request: () => Promise<unknown>, success: string) => {
+    setBusyId(id);
     try {
-      await apiRequest('PATCH', `/api/admin/notifications/${id}`, { status });
-      toast({
-        title: 'Status updated',
-        description: `Notification marked as ${status}`,
-      });
-      refetch();
+      await request();
+      toast({ title: success });
+      await refresh();
     } catch (error) {
-      toast({
-        title: 'Error',
-        description: 'Failed to update notification status',
-        variant: 'destructive',
-      });
+      toast({ title: 'Error', description: getApiErrorMessage(error, 'Failed to update the notification'), variant: 'destructive' });
+    } finally {
+      setBusyId(null);
     }
   };
-  
-  // Filter notifications based on active tab
-  const filteredNotifications = notifications.filter((notification: Notification) => {
-    if (activeTab === 'all') return true;
-    return notification.status === activeTab;
-  });
-  
-  // Count notifications by status
-  const counts = {
-    all: notifications.length,
-    unread: notifications.filter((n: Notification) => n.status === 'unread').length,
-    read: notifications.filter((n: Notification) => n.status === 'read').length,
-    contacted: notifications.filter((n: Notification) => n.status === 'contacted').length,
+
+  const handleUpdate = (id: number, changes: { status?: NotificationStatus; assignedTo?: number | null }, success: string) =>
+    run(id, () => apiRequest('PATCH', `/api/admin/notifications/${id}`, changes), success);
+
+  const handleApprove = (id: number) =>
+    run(id, () => apiRequest('POST', `/api/admin/notifications/${id}/approve`), 'Claim approved');
+
+  const handleReasonSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingAction) return;
+    const { id, action } = pendingAction;
+    await run(id, () => apiRequest('POST', `/api/admin/notifications/${id}/${action}`, { reason }),
+      action === 'reject' ? 'Claim rejected' : 'Ownership revoked');
+    setPendingAction(null);
+    setReason('');
   };
-  
+
   return (
     <div className="container mx-auto p-4 max-w-7xl">
       <Helmet>
-        <title>Admin Dashboard | Laundry Locator</title>
-        <meta name="description" content="Admin dashboard for LaundryLocator business claims" />
+        <title>Admin Inbox | Laundry Locator</title>
+        <meta name="description" content="Admin inbox for LaundryLocator claims, subscriptions and reported reviews" />
+        <meta name="robots" content="noindex" />
       </Helmet>
-      
+
       <div className="flex justify-between items-center mb-6">
-        <h1 className="text-3xl font-bold">Admin Dashboard</h1>
+        <h1 className="text-3xl font-bold">Admin Inbox</h1>
         <Button onClick={() => refetch()}>Refresh</Button>
       </div>
-      
-      <Tabs defaultValue="all" value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid grid-cols-4 w-full max-w-md mb-6">
-          <TabsTrigger value="all">
-            All <Badge className="ml-2">{counts.all}</Badge>
-          </TabsTrigger>
-          <TabsTrigger value="unread">
-            Unread <Badge className="ml-2 bg-red-500">{counts.unread}</Badge>
-          </TabsTrigger>
-          <TabsTrigger value="read">
-            Read <Badge className="ml-2">{counts.read}</Badge>
-          </TabsTrigger>
-          <TabsTrigger value="contacted">
-            Contacted <Badge className="ml-2 bg-green-500">{counts.contacted}</Badge>
-          </TabsTrigger>
-        </TabsList>
-        
-        <TabsContent value={activeTab}>
-          {isLoading ? (
-            <div className="flex justify-center my-10">
-              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
-            </div>
-          ) : filteredNotifications.length === 0 ? (
-            <div className="text-center py-10">
-              <p className="text-lg text-gray-500">No notifications found</p>
-            </div>
-          ) : (
-            <div className="grid grid-cols-1 gap-6">
-              {filteredNotifications.map((notification: Notification) => (
-                <Card key={notification.id} className={notification.status === 'unread' ? 'border-2 border-red-400' : ''}>
-                  <CardHeader>
-                    <div className="flex justify-between items-start">
-                      <div>
-                        <CardTitle>{notification.laundromat.name}</CardTitle>
-                        <CardDescription>
-                          {notification.laundromat.address}, {notification.laundromat.city}, {notification.laundromat.state} {notification.laundromat.zip}
-                        </CardDescription>
-                      </div>
-                      <Badge className={
-                        notification.status === 'unread' ? 'bg-red-500' : 
-                        notification.status === 'contacted' ? 'bg-green-500' : 'bg-blue-500'
-                      }>
-                        {notification.status}
-                      </Badge>
-                    </div>
-                  </CardHeader>
-                  
-                  <CardContent>
-                    <div className="space-y-4">
-                      <div>
-                        <h3 className="font-medium">Contact Information</h3>
-                        <p>Email: <a href={`mailto:${notification.contact.email}`} className="text-blue-600">{notification.contact.email}</a></p>
-                        {notification.contact.phone && (
-                          <p>Phone: <a href={`tel:${notification.contact.phone}`} className="text-blue-600">{notification.contact.phone}</a></p>
-                        )}
-                      </div>
-                      
-                      <div>
-                        <h3 className="font-medium">Form Details</h3>
-                        <p>Submitted: {new Date(notification.createdAt).toLocaleString()}</p>
-                        <p>Selected Plan: {notification.formData?.selectedPlan || 'basic'}</p>
-                        <p>Verification Method: {notification.formData?.verificationMethod || 'Not specified'}</p>
-                        {notification.formData?.email && notification.formData.email !== notification.contact.email && (
-                          <p>Owner Email: <a href={`mailto:${notification.formData.email}`} className="text-blue-600">{notification.formData.email}</a> <Badge className="ml-2 bg-green-500">New</Badge></p>
-                        )}
-                      </div>
-                      
-                      <div>
-                        <h3 className="font-medium">User Information</h3>
-                        <p>Username: {notification.user.username}</p>
-                        <p>User ID: {notification.user.id}</p>
-                      </div>
-                    </div>
-                  </CardContent>
-                  
-                  <CardFooter className="flex justify-between">
-                    <div className="flex gap-2">
-                      {notification.status !== 'read' && (
-                        <Button variant="outline" onClick={() => handleUpdateStatus(notification.id, 'read')}>
-                          Mark as Read
-                        </Button>
-                      )}
-                      {notification.status !== 'contacted' && (
-                        <Button onClick={() => handleUpdateStatus(notification.id, 'contacted')}>
-                          Mark as Contacted
-                        </Button>
-                      )}
-                      {notification.status !== 'unread' && (
-                        <Button variant="outline" onClick={() => handleUpdateStatus(notification.id, 'unread')}>
-                          Mark as Unread
-                        </Button>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+        <div className="space-y-1">
+          <Label>Type</Label>
+          <Select value={type} onValueChange={setType}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All types</SelectItem>
+              {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Status</Label>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unread,read,contacted">Open</SelectItem>
+              {STATUSES.map(value => (
+                <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+              ))}
+              <SelectItem value={ALL}>All statuses</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Assigned to</Label>
+          <Select value={assignedTo} onValueChange={setAssignedTo}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Anyone</SelectItem>
+              <SelectItem value="me">Me</SelectItem>
+              <SelectItem value="none">Unassigned</SelectItem>
+              {assignees.map(admin => (
+                <SelectItem key={admin.id} value={String(admin.id)}>{admin.username}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="inbox-from">From</Label>
+          <Input id="inbox-from" type="date" value={from} onChange={e => setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="inbox-to">To</Label>
+          <Input id="inbox-to" type="date" value={to} onChange={e => setTo(e.target.value)} />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center my-10">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+        </div>
+      ) : notifications.length === 0 ? (
+        <div className="text-center py-10">
+          <p className="text-lg text-gray-500">No notifications found</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 gap-6">
+          <p className="text-sm text-gray-500">{data?.total} notification{data?.total === 1 ? '' : 's'}</p>
+          {notifications.map(notification => (
+            <Card key={notification.id} className={notification.status === 'unread' ? 'border-2 border-red-400' : ''}>
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <p className="text-sm text-gray-500">{TYPE_LABELS[notification.type] || notification.type}</p>
+                    <CardTitle>{notification.laundromat?.name || 'Deleted listing'}</CardTitle>
+                    {notification.laundromat && (
+                      <CardDescription>
+                        {notification.laundromat.address}, {notification.laundromat.city}, {notification.laundromat.state} {notification.laundromat.zip}
+                        {' · '}
+                        {notification.laundromat.ownerId ? `Owned by user #${notification.laundromat.ownerId}` : 'Unclaimed'}
+                      </CardDescription>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge className={statusColors[notification.status] || 'bg-blue-500'}>{notification.status}</Badge>
+                  </div>
+                </div>
+              </CardHeader>
+
+              <CardContent>
+                <div className="grid md:grid-cols-3 gap-4">
+                  <NotificationDetails notification={notification} />
+
+                  <div>
+                    <h3 className="font-medium">Contact Information</h3>
+                    <p>Email: <a href={`mailto:${notification.contact.email}`} className="text-blue-600">{notification.contact.email}</a></p>
+                    {notification.contact.phone && (
+                      <p>Phone: <a href={`tel:${notification.contact.phone}`} className="text-blue-600">{notification.contact.phone}</a></p>
+                    )}
+                    {notification.user && <p>User: {notification.user.username} (#{notification.user.id})</p>}
+                  </div>
+
+                  <div className="space-y-1">
+                    <Label>Assigned to</Label>
+                    <Select
+                      value={notification.assignee ? String(notification.assignee.id) : 'none'}
+                      onValueChange={value => handleUpdate(
+                        notification.id,
+                        { assignedTo: value === 'none' ? null : Number(value) },
+                        value === 'none' ? 'Unassigned' : 'Assigned'
                       )}
+                      disabled={busyId === notification.id}
+                    >
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Nobody</SelectItem>
+                        {assignees.map(admin => (
+                          <SelectItem key={admin.id} value={String(admin.id)}>{admin.username}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {pendingAction?.id === notification.id && (
+                  <form onSubmit={handleReasonSubmit} className="mt-4 space-y-2">
+                    <Label htmlFor={`reason-${notification.id}`}>
+                      {pendingAction.action === 'reject' ? 'Why is this claim being rejected?' : 'Why is ownership being revoked?'} The owner is emailed this reason.
+                    </Label>
+                    <Textarea id={`reason-${notification.id}`} value={reason} onChange={e => setReason(e.target.value)} rows={2} maxLength={1000} />
+                    <div className="flex gap-2">
+                      <Button type="submit" variant="destructive" size="sm" disabled={!reason.trim() || busyId === notification.id}>
+                        {pendingAction.action === 'reject' ? 'Reject claim' : 'Revoke ownership'}
+                      </Button>
+                      <Button type="button" variant="outline" size="sm" onClick={() => setPendingAction(null)}>Cancel</Button>
                     </div>
-                    
+                  </form>
+                )}
+
+                {historyId === notification.id && (
+                  <div className="mt-4">
+                    <NotificationHistory notification={notification} assignees={assignees} />
+                  </div>
+                )}
+              </CardContent>
+
+              <CardFooter className="flex flex-wrap justify-between gap-2">
+                <div className="flex flex-wrap gap-2">
+                  {claimIsOpen(notification) && (
+                    <>
+                      <Button onClick={() => handleApprove(notification.id)} disabled={busyId === notification.id}>
+                        Approve claim
+                      </Button>
+                      <Button variant="destructive" onClick={() => setPendingAction({ id: notification.id, action: 'reject' })}>
+                        Reject claim
+                      </Button>
+                    </>
+                  )}
+                  {notification.laundromat?.ownerId && notification.type === 'business_claim' && (
+                    <Button variant="outline" onClick={() => setPendingAction({ id: notification.id, action: 'revoke' })}>
+                      Revoke ownership
+                    </Button>
+                  )}
+                  {STATUSES.filter(value => value !== notification.status).map(value => (
+                    <Button
+                      key={value}
+                      variant="outline"
+                      onClick={() => handleUpdate(notification.id, { status: value }, `Marked as ${value}`)}
+                      disabled={busyId === notification.id}
+                    >
+                      Mark as {value.charAt(0).toUpperCase() + value.slice(1)}
+                    </Button>
+                  ))}
+                </div>
+
+                <div className="flex gap-2">
+                  <Button variant="ghost" onClick={() => setHistoryId(historyId === notification.id ? null : notification.id)}>
+                    {historyId === notification.id ? 'Hide history' : 'History & notes'}
+                  </Button>
+                  {notification.laundromat && (
                     <a href={`/laundromat/${notification.laundromat.slug}`} target="_blank" rel="noopener noreferrer">
                       <Button variant="outline">View Listing</Button>
                     </a>
-                  </CardFooter>
-                </Card>
-              ))}
-            </div>
-          )}
-        </TabsContent>
-      </Tabs>
+                  )}
+                </div>
+              </CardFooter>
+            </Card>
+          ))}
+        </div>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -6,8 +6,7 @@ import { Separator } from '@/components/ui/separator';
 import { InfoIcon, Upload, Database, FileSpreadsheet } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Helmet } from 'react-helmet';
-import { useLocation } from 'wouter';
-import DatabaseImport from '@/components/DatabaseImport';
+import { Link, useLocation } from 'wouter';
 
 // Simple auth check (normally would use a custom hook)
 const isAdmin = () => {
@@ -133,7 +132,19 @@ const AdminDataImportPage: React.FC = () => {
         </TabsContent>
         
         <TabsContent value="direct-import" className="space-y-6">
-          <DatabaseImport />
+          <Card>
+            <CardHeader>
+              <CardTitle>Database Import</CardTitle>
+              <CardDescription>
+                Import enriched CSV or JSON files as resumable background jobs
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link href="/admin/imports" className="px-4 py-2 bg-primary text-white rounded-md hover:bg-primary/90 transition-colors">
+                Open Data Imports
+              </Link>
+            </CardContent>
+          </Card>
         </TabsContent>
         
         <TabsContent value="csv-upload" className="space-y-6">
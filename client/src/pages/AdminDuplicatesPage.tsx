@@ -0,0 +1,326 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Helmet } from 'react-helmet';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import type { Page } from '@shared/pagination';
+import {
+  MERGE_FIELDS,
+  MERGE_FIELD_LABELS,
+  type DuplicateCandidateStatus,
+  type DuplicateSignals,
+  type MergeField
+} from '@shared/duplicates';
+
+// UI Components
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Loader2 } from 'lucide-react';
+
+interface CandidateListing {
+  id: number;
+  name: string;
+  slug: string;
+  address: string;
+  city: string;
+  state: string;
+  zip: string;
+  phone: string;
+  website: string | null;
+  hours: string;
+  services: string[];
+  amenities: string[] | null;
+  paymentOptions: string[] | null;
+  machineCount: { washers: number; dryers: number } | null;
+  priceLevel: number | null;
+  imageUrl: string | null;
+  photos: string[] | null;
+  description: string | null;
+  rating: string | null;
+  reviewCount: number | null;
+  listingType: string | null;
+  subscriptionActive: boolean | null;
+  ownerId: number | null;
+  verified: boolean | null;
+  createdAt: string;
+}
+
+interface DuplicateCandidate {
+  id: number;
+  score: number;
+  signals: DuplicateSignals;
+  status: DuplicateCandidateStatus;
+  reviewedAt: string | null;
+  listings: [CandidateListing, CandidateListing];
+}
+
+const QUEUES: { label: string; status: DuplicateCandidateStatus }[] = [
+  { label: 'Open', status: 'open' },
+  { label: 'Dismissed', status: 'dismissed' },
+];
+
+const SCAN_JOB = 'duplicate-scan';
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function describeSignals(signals: DuplicateSignals): string {
+  const parts = [`name ${percent(signals.name)}`, `address ${percent(signals.address)}`];
+  if (signals.phone !== null) parts.push(signals.phone ? 'same phone' : 'different phone');
+  if (signals.distanceMeters !== null) parts.push(`${signals.distanceMeters} m apart`);
+  return parts.join(' · ');
+}
+
+function fieldValue(listing: CandidateListing, field: MergeField): unknown {
+  return field === 'address' ? listing.address : listing[field];
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function FieldValue({ listing, field }: { listing: CandidateListing; field: MergeField }) {
+  const value = fieldValue(listing, field);
+  if (isEmpty(value)) return <span className="text-gray-400">—</span>;
+
+  switch (field) {
+    case 'address':
+      return <>{listing.address}, {listing.city}, {listing.state} {listing.zip}</>;
+    case 'services':
+    case 'amenities':
+    case 'paymentOptions':
+      return <>{(value as string[]).join(', ')}</>;
+    case 'machineCount':
+      return <>{listing.machineCount!.washers} washers, {listing.machineCount!.dryers} dryers</>;
+    case 'priceLevel':
+      return <>{'$'.repeat(listing.priceLevel!)}</>;
+    case 'imageUrl':
+      return <img src={listing.imageUrl!} alt="" className="h-16 w-24 object-cover rounded" />;
+    case 'photos':
+      return <>{listing.photos!.length} photos</>;
+    case 'description':
+      return <span className="line-clamp-3">{listing.description}</span>;
+    default:
+      return <>{String(value)}</>;
+  }
+}
+
+// The listing a field is taken from unless the admin picks: the one being kept,
+// or the other one when the kept listing has nothing for it
+function defaultSource(keep: CandidateListing, other: CandidateListing, field: MergeField): number {
+  return isEmpty(fieldValue(keep, field)) && !isEmpty(fieldValue(other, field)) ? other.id : keep.id;
+}
+
+function DuplicateCard({ candidate, onDone }: { candidate: DuplicateCandidate; onDone: () => void }) {
+  const { toast } = useToast();
+  const [first, second] = candidate.listings;
+  // Keep an owned or paying listing by default, otherwise the older one
+  const [keepId, setKeepId] = useState(
+    (second.ownerId || second.subscriptionActive) && !(first.ownerId || first.subscriptionActive) ? second.id : first.id
+  );
+  const [sources, setSources] = useState<Partial<Record<MergeField, number>>>({});
+  const [busy, setBusy] = useState(false);
+
+  const keep = keepId === first.id ? first : second;
+  const other = keepId === first.id ? second : first;
+  const sourceOf = (field: MergeField) => sources[field] ?? defaultSource(keep, other, field);
+
+  const merge = async () => {
+    if (!window.confirm(`Merge "${other.name}" into "${keep.name}"? "${other.name}" will be deleted and its page will redirect.`)) return;
+    setBusy(true);
+    try {
+      await apiRequest('POST', `/api/admin/duplicates/${candidate.id}/merge`, {
+        survivorId: keep.id,
+        fields: MERGE_FIELDS.filter(field => sourceOf(field) === other.id),
+      });
+      toast({ title: 'Listings merged', description: `${other.name} now redirects to ${keep.name}` });
+      onDone();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getApiErrorMessage(error, 'Failed to merge listings'),
+        variant: 'destructive',
+      });
+      setBusy(false);
+    }
+  };
+
+  const dismiss = async () => {
+    setBusy(true);
+    try {
+      await apiRequest('POST', `/api/admin/duplicates/${candidate.id}/dismiss`);
+      onDone();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getApiErrorMessage(error, 'Failed to dismiss pair'),
+        variant: 'destructive',
+      });
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="text-base">{first.name} / {second.name}</CardTitle>
+            <CardDescription>{describeSignals(candidate.signals)}</CardDescription>
+          </div>
+          <Badge className={candidate.score >= 0.8 ? 'bg-red-500' : 'bg-orange-500'}>{percent(candidate.score)} match</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="text-sm">
+        <RadioGroup
+          value={String(keepId)}
+          onValueChange={value => setKeepId(parseInt(value))}
+          className="grid grid-cols-[9rem_1fr_1fr] gap-x-4 gap-y-2 items-start"
+        >
+          <span className="font-medium text-gray-500">Keep</span>
+          {[first, second].map(listing => (
+            <label key={listing.id} className="flex items-start gap-2 cursor-pointer">
+              <RadioGroupItem value={String(listing.id)} className="mt-0.5" />
+              <span>
+                <Link href={`/laundromat/${listing.slug}`} className="font-medium hover:underline">
+                  {listing.name}
+                </Link>
+                <span className="block text-xs text-gray-500">
+                  #{listing.id} · {listing.reviewCount || 0} reviews · added {new Date(listing.createdAt).toLocaleDateString()}
+                </span>
+                <span className="flex gap-1 mt-1">
+                  {listing.ownerId && <Badge variant="outline">Owned{listing.verified ? ', verified' : ''}</Badge>}
+                  {listing.subscriptionActive && <Badge variant="outline">{listing.listingType}</Badge>}
+                </span>
+              </span>
+            </label>
+          ))}
+        </RadioGroup>
+
+        <div className="border-t mt-3 pt-3 space-y-2">
+          {MERGE_FIELDS.map(field => (
+            <RadioGroup
+              key={field}
+              value={String(sourceOf(field))}
+              onValueChange={value => setSources({ ...sources, [field]: parseInt(value) })}
+              className="grid grid-cols-[9rem_1fr_1fr] gap-x-4 items-start"
+            >
+              <span className="text-gray-500">{MERGE_FIELD_LABELS[field]}</span>
+              {[first, second].map(listing => (
+                <label key={listing.id} className="flex items-start gap-2 cursor-pointer break-words min-w-0">
+                  <RadioGroupItem value={String(listing.id)} className="mt-0.5 shrink-0" />
+                  <span className="min-w-0">
+                    <FieldValue listing={listing} field={field} />
+                  </span>
+                </label>
+              ))}
+            </RadioGroup>
+          ))}
+        </div>
+
+        <p className="text-gray-500 mt-3">
+          Reviews, favorites, subscriptions, claims and ownership of {other.name} move to {keep.name}.
+        </p>
+        <div className="flex gap-2 pt-3">
+          <Button size="sm" onClick={merge} disabled={busy}>
+            Merge into {keep.name}
+          </Button>
+          {candidate.status === 'open' && (
+            <Button size="sm" variant="outline" onClick={dismiss} disabled={busy}>
+              Not duplicates
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminDuplicatesPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [queue, setQueue] = useState<DuplicateCandidateStatus>('open');
+  const [scanning, setScanning] = useState(false);
+
+  const url = `/api/admin/duplicates?limit=20&status=${queue}`;
+  const { data, isLoading } = useQuery<Page<DuplicateCandidate>>({
+    queryKey: [url],
+  });
+
+  const refresh = () => queryClient.invalidateQueries({
+    predicate: query => String(query.queryKey[0]).startsWith('/api/admin/duplicates')
+  });
+
+  const scan = async () => {
+    setScanning(true);
+    try {
+      const res = await apiRequest('POST', `/api/admin/jobs/${SCAN_JOB}/run`);
+      const run = await res.json();
+      toast({
+        title: run.status === 'succeeded' ? 'Scan finished' : 'Scan failed',
+        description: run.status === 'succeeded'
+          ? `${run.result?.candidates ?? 0} likely duplicate pairs`
+          : run.error,
+        variant: run.status === 'succeeded' ? 'default' : 'destructive',
+      });
+      refresh();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getApiErrorMessage(error, 'Failed to scan for duplicates'),
+        variant: 'destructive',
+      });
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 max-w-5xl">
+      <Helmet>
+        <title>Duplicate Listings | Laundry Locator</title>
+        <meta name="robots" content="noindex" />
+      </Helmet>
+
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold">Duplicate Listings</h1>
+        <Button variant="outline" onClick={scan} disabled={scanning}>
+          {scanning && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Scan Now
+        </Button>
+      </div>
+
+      <div className="flex gap-2 mb-6">
+        {QUEUES.map(option => (
+          <Button
+            key={option.status}
+            size="sm"
+            variant={queue === option.status ? 'default' : 'outline'}
+            onClick={() => setQueue(option.status)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center my-10">
+          <Loader2 className="h-10 w-10 text-primary animate-spin" />
+        </div>
+      ) : !data?.items.length ? (
+        <p className="text-gray-500">No duplicate pairs here</p>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500">{data.total} pairs</p>
+          {data.items.map(candidate => (
+            <DuplicateCard key={candidate.id} candidate={candidate} onDone={refresh} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,521 @@
+import { useEffect, useState } from 'react';
+import { keepPreviousData, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Helmet } from 'react-helmet';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import type { Page } from '@shared/pagination';
+import {
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  IMPORT_FORMAT_LABELS,
+  REQUIRED_IMPORT_FIELDS,
+  type ImportColumnMapping,
+  type ImportField,
+  type ImportFormat,
+  type ImportPreview
+} from '@shared/imports';
+
+// UI Components
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2 } from 'lucide-react';
+
+type ImportStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+interface ImportJob {
+  id: number;
+  files: string[];
+  options: { dryRun: boolean; batchSize: number; states?: string[]; mapping?: ImportColumnMapping };
+  status: ImportStatus;
+  totalRows: number;
+  processedRows: number;
+  importedRows: number;
+  duplicateRows: number;
+  skippedRows: number;
+  errorRows: number;
+  importedByState: Record<string, number>;
+  error: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  createdAt: string;
+}
+
+interface ImportJobError {
+  id: number;
+  file: string;
+  rowNumber: number;
+  message: string;
+  row: Record<string, unknown> | null;
+}
+
+interface ImportFile {
+  file: string;
+  size: number;
+  modifiedAt: string;
+}
+
+interface MappingProfile {
+  id: number;
+  name: string;
+  format: ImportFormat;
+  mapping: ImportColumnMapping;
+}
+
+const statusColors: Record<ImportStatus, string> = {
+  queued: 'bg-gray-500',
+  running: 'bg-blue-500',
+  paused: 'bg-amber-500',
+  completed: 'bg-green-500',
+  failed: 'bg-red-500',
+  cancelled: 'bg-gray-400',
+};
+
+const ACTIVE_STATUSES: ImportStatus[] = ['queued', 'running'];
+const JOBS_KEY = ['/api/admin/imports?limit=50'];
+const PROFILES_KEY = ['/api/admin/imports/profiles'];
+const NOT_MAPPED = 'none';
+const DETECTED = 'detected';
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.ceil(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * A job's rows that couldn't be imported
+ */
+function ImportErrors({ jobId }: { jobId: number }) {
+  const { data, isLoading } = useQuery<Page<ImportJobError>>({ queryKey: [`/api/admin/imports/${jobId}/errors?limit=100`] });
+
+  if (isLoading) return <Loader2 className="h-5 w-5 text-primary animate-spin" />;
+  if (!data?.items.length) return <p className="text-sm text-gray-500">No row errors</p>;
+
+  return (
+    <div className="space-y-1 text-sm">
+      {data.total > data.items.length && (
+        <p className="text-gray-500">Showing the first {data.items.length} of {data.total} stored errors</p>
+      )}
+      <ul className="space-y-1">
+        {data.items.map(error => (
+          <li key={error.id}>
+            <span className="text-gray-500">{error.file} row {error.rowNumber}:</span>{' '}
+            <span className="text-red-600">{error.message}</span>
+            {error.row && <span className="text-gray-500"> ({String(error.row.name || 'unnamed')})</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Which column of `file` each listing field is read from, starting from the mapping proposed
+ * for its detected format or a saved profile, with the first rows as they'd be imported.
+ * `mapping` is null while the proposed mapping is used.
+ */
+function ColumnMapping({ file, mapping, onChange, fileCount }: {
+  file: string;
+  mapping: ImportColumnMapping | null;
+  onChange: (mapping: ImportColumnMapping | null) => void;
+  fileCount: number;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [profileId, setProfileId] = useState(DETECTED);
+  const [profileName, setProfileName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const { data: profiles = [] } = useQuery<MappingProfile[]>({ queryKey: PROFILES_KEY });
+  const { data: preview, isLoading, error } = useQuery<ImportPreview>({
+    queryKey: ['/api/admin/imports/preview', file, mapping],
+    queryFn: async () => {
+      const response = await apiRequest('POST', '/api/admin/imports/preview', { file, mapping: mapping ?? undefined });
+      return response.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const chooseProfile = (value: string) => {
+    setProfileId(value);
+    onChange(value === DETECTED ? null : profiles.find(profile => String(profile.id) === value)?.mapping ?? null);
+  };
+
+  const setColumn = (field: ImportField, column: string) => {
+    const next = { ...(mapping ?? preview?.mapping) };
+    if (column === NOT_MAPPED) {
+      delete next[field];
+    } else {
+      next[field] = column;
+    }
+    onChange(next);
+  };
+
+  const saveProfile = async () => {
+    if (!preview) return;
+    setSaving(true);
+    try {
+      const response = await apiRequest('POST', '/api/admin/imports/profiles', {
+        name: profileName,
+        format: preview.format,
+        mapping: preview.mapping,
+      });
+      const profile: MappingProfile = await response.json();
+      await queryClient.invalidateQueries({ queryKey: PROFILES_KEY });
+      setProfileId(String(profile.id));
+      setProfileName('');
+      toast({ title: 'Mapping saved', description: `Choose "${profile.name}" next time you import a file like this.` });
+    } catch (error) {
+      toast({ title: 'Error', description: getApiErrorMessage(error, 'Could not save the mapping'), variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteProfile = async () => {
+    try {
+      await apiRequest('DELETE', `/api/admin/imports/profiles/${profileId}`);
+      await queryClient.invalidateQueries({ queryKey: PROFILES_KEY });
+      chooseProfile(DETECTED);
+    } catch (error) {
+      toast({ title: 'Error', description: getApiErrorMessage(error, 'Could not delete the mapping'), variant: 'destructive' });
+    }
+  };
+
+  if (isLoading) return <Loader2 className="h-6 w-6 text-primary animate-spin" />;
+  if (!preview) {
+    return <p className="text-sm text-red-600">{getApiErrorMessage(error, 'Could not read the file')}</p>;
+  }
+
+  return (
+    <div className="space-y-4 border rounded-md p-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h3 className="font-semibold">Column mapping</h3>
+          <p className="text-sm text-gray-500">
+            {file}: {IMPORT_FORMAT_LABELS[preview.format]} ({preview.fileType.toUpperCase()})
+            {fileCount > 1 && ' · a profile or edited mapping applies to every selected file'}
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label>Mapping</Label>
+            <Select value={profileId} onValueChange={chooseProfile}>
+              <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DETECTED}>Proposed for each file</SelectItem>
+                {profiles.map(profile => (
+                  <SelectItem key={profile.id} value={String(profile.id)}>{profile.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {profileId !== DETECTED && (
+            <Button type="button" size="sm" variant="ghost" onClick={deleteProfile}>Delete profile</Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+        {IMPORT_FIELDS.map(field => (
+          <div key={field} className="space-y-1">
+            <Label>
+              {IMPORT_FIELD_LABELS[field]}
+              {REQUIRED_IMPORT_FIELDS.includes(field) && <span className="text-red-600"> *</span>}
+            </Label>
+            <Select value={preview.mapping[field] ?? NOT_MAPPED} onValueChange={column => setColumn(field, column)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                {preview.columns.map(column => (
+                  <SelectItem key={column} value={column}>{column}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      {preview.problems.length > 0 && (
+        <ul className="text-sm text-red-600 list-disc pl-5">
+          {preview.problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+
+      <div className="flex items-end gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="mapping-profile-name">Save this mapping as</Label>
+          <Input
+            id="mapping-profile-name"
+            value={profileName}
+            onChange={e => setProfileName(e.target.value)}
+            placeholder="e.g. Outscraper Texas export"
+            className="w-64"
+          />
+        </div>
+        <Button type="button" variant="outline" onClick={saveProfile} disabled={!profileName.trim() || saving}>
+          Save profile
+        </Button>
+      </div>
+
+      <div>
+        <h4 className="font-medium mb-2">First {preview.rows.length} rows</h4>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Row</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Address</TableHead>
+              <TableHead>City</TableHead>
+              <TableHead>State</TableHead>
+              <TableHead>ZIP</TableHead>
+              <TableHead>Coordinates</TableHead>
+              <TableHead>Result</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {preview.rows.map(({ rowNumber, listing, error, duplicate }) => (
+              <TableRow key={rowNumber}>
+                <TableCell>{rowNumber}</TableCell>
+                <TableCell>{String(listing?.name ?? '')}</TableCell>
+                <TableCell>{String(listing?.address ?? '')}</TableCell>
+                <TableCell>{String(listing?.city ?? '')}</TableCell>
+                <TableCell>{String(listing?.state ?? '')}</TableCell>
+                <TableCell>{String(listing?.zip ?? '')}</TableCell>
+                <TableCell>{listing ? `${listing.latitude}, ${listing.longitude}` : ''}</TableCell>
+                <TableCell>
+                  {error
+                    ? <span className="text-red-600">{error}</span>
+                    : duplicate ? <span className="text-gray-500">Duplicate</span> : <span className="text-green-600">New</span>}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * One import job, kept live through the progress stream while it's queued or running
+ */
+function ImportJobCard({ job: initialJob }: { job: ImportJob }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [job, setJob] = useState(initialJob);
+  const [busy, setBusy] = useState(false);
+  const [showErrors, setShowErrors] = useState(false);
+
+  useEffect(() => setJob(initialJob), [initialJob]);
+
+  const active = ACTIVE_STATUSES.includes(job.status);
+  useEffect(() => {
+    if (!active) return;
+    const source = new EventSource(`/api/admin/imports/${job.id}/stream`);
+    source.addEventListener('progress', event => {
+      const current: ImportJob = JSON.parse((event as MessageEvent).data);
+      setJob(current);
+      if (!ACTIVE_STATUSES.includes(current.status)) {
+        source.close();
+        queryClient.invalidateQueries({ queryKey: JOBS_KEY });
+      }
+    });
+    return () => source.close();
+  }, [job.id, active, queryClient]);
+
+  const control = async (action: 'pause' | 'resume' | 'cancel') => {
+    setBusy(true);
+    try {
+      const response = await apiRequest('POST', `/api/admin/imports/${job.id}/${action}`);
+      setJob(await response.json());
+      queryClient.invalidateQueries({ queryKey: JOBS_KEY });
+    } catch (error) {
+      toast({ title: 'Error', description: getApiErrorMessage(error, `Could not ${action} the import`), variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const percent = job.totalRows ? Math.round((job.processedRows / job.totalRows) * 100) : 0;
+  const states = Object.entries(job.importedByState).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <CardTitle className="text-lg">
+              Import #{job.id}{job.options.dryRun && ' (dry run)'}
+            </CardTitle>
+            <CardDescription>
+              {job.files.join(', ')}
+              {job.options.states?.length ? ` · only ${job.options.states.join(', ')}` : ''}
+              {' · '}queued {new Date(job.createdAt).toLocaleString()}
+            </CardDescription>
+          </div>
+          <Badge className={statusColors[job.status]}>{job.status}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <Progress value={percent} />
+        <p>
+          {job.processedRows.toLocaleString()} of {job.totalRows ? job.totalRows.toLocaleString() : '?'} rows ·{' '}
+          {job.importedRows.toLocaleString()} {job.options.dryRun ? 'would be imported' : 'imported'} ·{' '}
+          {job.duplicateRows.toLocaleString()} duplicates ·{' '}
+          {job.skippedRows > 0 && `${job.skippedRows.toLocaleString()} in other states · `}
+          <span className={job.errorRows ? 'text-red-600' : ''}>{job.errorRows.toLocaleString()} errors</span>
+        </p>
+        {states.length > 0 && (
+          <p className="text-gray-500">
+            {states.slice(0, 12).map(([state, count]) => `${state} ${count.toLocaleString()}`).join(' · ')}
+            {states.length > 12 && ` · ${states.length - 12} more states`}
+          </p>
+        )}
+        {job.error && <p className="text-red-600">{job.error}</p>}
+
+        <div className="flex flex-wrap gap-2">
+          {ACTIVE_STATUSES.includes(job.status) && (
+            <Button size="sm" variant="outline" onClick={() => control('pause')} disabled={busy}>Pause</Button>
+          )}
+          {(job.status === 'paused' || job.status === 'failed') && (
+            <Button size="sm" onClick={() => control('resume')} disabled={busy}>Resume</Button>
+          )}
+          {[...ACTIVE_STATUSES, 'paused'].includes(job.status) && (
+            <Button size="sm" variant="outline" onClick={() => control('cancel')} disabled={busy}>Cancel</Button>
+          )}
+          {job.errorRows > 0 && (
+            <Button size="sm" variant="ghost" onClick={() => setShowErrors(!showErrors)}>
+              {showErrors ? 'Hide errors' : 'Show errors'}
+            </Button>
+          )}
+        </div>
+        {showErrors && <ImportErrors jobId={job.id} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminImportsPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<string[]>([]);
+  const [dryRun, setDryRun] = useState(true);
+  const [states, setStates] = useState('');
+  const [mapping, setMapping] = useState<ImportColumnMapping | null>(null);
+  const [starting, setStarting] = useState(false);
+
+  const { data: files = [], isLoading: filesLoading } = useQuery<ImportFile[]>({ queryKey: ['/api/admin/imports/files'] });
+  const { data: jobs, isLoading: jobsLoading } = useQuery<Page<ImportJob>>({ queryKey: JOBS_KEY, refetchInterval: 30000 });
+
+  const toggleFile = (file: string, checked: boolean) => {
+    setSelected(current => checked ? [...current, file] : current.filter(f => f !== file));
+  };
+
+  const startImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStarting(true);
+    try {
+      await apiRequest('POST', '/api/admin/imports', {
+        files: selected,
+        dryRun,
+        states: states.split(',').map(state => state.trim()).filter(Boolean),
+        mapping: mapping ?? undefined,
+      });
+      setSelected([]);
+      setMapping(null);
+      queryClient.invalidateQueries({ queryKey: JOBS_KEY });
+    } catch (error) {
+      toast({ title: 'Error', description: getApiErrorMessage(error, 'Could not start the import'), variant: 'destructive' });
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 max-w-5xl">
+      <Helmet>
+        <title>Data Imports | Laundry Locator</title>
+        <meta name="robots" content="noindex" />
+      </Helmet>
+
+      <h1 className="text-3xl font-bold mb-6">Data Imports</h1>
+
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>New Import</CardTitle>
+          <CardDescription>
+            CSV, JSON and XLSX files in the server's import directory, such as Outscraper exports or Google Places results.
+            Listings whose slug already exists count as duplicates.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={startImport} className="space-y-4">
+            {filesLoading ? (
+              <Loader2 className="h-6 w-6 text-primary animate-spin" />
+            ) : !files.length ? (
+              <p className="text-gray-500">No CSV, JSON or XLSX files found in the import directory</p>
+            ) : (
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                {files.map(({ file, size }) => (
+                  <div key={file} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`import-file-${file}`}
+                      checked={selected.includes(file)}
+                      onCheckedChange={checked => toggleFile(file, checked === true)}
+                    />
+                    <Label htmlFor={`import-file-${file}`} className="font-normal">
+                      {file} <span className="text-gray-500">({formatSize(size)})</span>
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            )}
+            {selected.length > 0 && (
+              <ColumnMapping file={selected[0]} mapping={mapping} onChange={setMapping} fileCount={selected.length} />
+            )}
+            <div className="flex flex-wrap items-end gap-6">
+              <div className="space-y-2">
+                <Label htmlFor="import-states">Only these states</Label>
+                <Input
+                  id="import-states"
+                  value={states}
+                  onChange={e => setStates(e.target.value)}
+                  placeholder="e.g. TX, OK (blank for all)"
+                  className="w-64"
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Checkbox id="import-dry-run" checked={dryRun} onCheckedChange={checked => setDryRun(checked === true)} />
+                <Label htmlFor="import-dry-run" className="font-normal">Dry run (check the rows without importing)</Label>
+              </div>
+              <Button type="submit" disabled={!selected.length || starting}>
+                {starting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {dryRun ? 'Start dry run' : 'Start import'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <h2 className="text-xl font-semibold mb-4">Imports{jobs ? ` (${jobs.total})` : ''}</h2>
+      {jobsLoading ? (
+        <div className="flex justify-center my-10">
+          <Loader2 className="h-10 w-10 text-primary animate-spin" />
+        </div>
+      ) : !jobs?.items.length ? (
+        <p className="text-gray-500">No imports yet</p>
+      ) : (
+        <div className="space-y-4">
+          {jobs.items.map(job => <ImportJobCard key={job.id} job={job} />)}
+        </div>
+      )}
+    </div>
+  );
+}
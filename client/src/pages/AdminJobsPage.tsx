@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Helmet } from 'react-helmet';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import type { Page } from '@shared/pagination';
+
+// UI Components
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+
+interface JobRun {
+  id: number;
+  job: string;
+  status: 'running' | 'succeeded' | 'failed';
+  trigger: 'schedule' | 'manual';
+  startedAt: string;
+  finishedAt: string | null;
+  result: Record<string, number> | null;
+  error: string | null;
+}
+
+interface JobStatus {
+  name: string;
+  description: string;
+  intervalMs: number;
+  running: boolean;
+  nextRunAt: string | null;
+  lastRun: JobRun | null;
+}
+
+const statusColors: Record<JobRun['status'], string> = {
+  running: 'bg-blue-500',
+  succeeded: 'bg-green-500',
+  failed: 'bg-red-500',
+};
+
+function formatDuration(run: JobRun): string {
+  if (!run.finishedAt) return '—';
+  const ms = new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime();
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatResult(result: Record<string, number> | null): string {
+  if (!result) return '';
+  return Object.entries(result).map(([key, value]) => `${key}: ${value}`).join(', ');
+}
+
+export default function AdminJobsPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [jobFilter, setJobFilter] = useState<string | null>(null);
+  const [runningJob, setRunningJob] = useState<string | null>(null);
+
+  const { data: jobs = [], isLoading: jobsLoading } = useQuery<JobStatus[]>({
+    queryKey: ['/api/admin/jobs'],
+    refetchInterval: 30000,
+  });
+
+  const runsUrl = `/api/admin/jobs/runs?limit=50${jobFilter ? `&job=${encodeURIComponent(jobFilter)}` : ''}`;
+  const { data: runs, isLoading: runsLoading } = useQuery<Page<JobRun>>({
+    queryKey: [runsUrl],
+    refetchInterval: 30000,
+  });
+
+  const runNow = async (name: string) => {
+    setRunningJob(name);
+    try {
+      const response = await apiRequest('POST', `/api/admin/jobs/${name}/run`);
+      const run: JobRun = await response.json();
+      toast({
+        title: run.status === 'succeeded' ? 'Job finished' : 'Job failed',
+        description: run.error || formatResult(run.result) || name,
+        variant: run.status === 'failed' ? 'destructive' : 'default',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getApiErrorMessage(error, 'Failed to run job'),
+        variant: 'destructive',
+      });
+    } finally {
+      setRunningJob(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/jobs'] });
+      queryClient.invalidateQueries({ queryKey: [runsUrl] });
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 max-w-7xl">
+      <Helmet>
+        <title>Scheduled Jobs | Laundry Locator</title>
+        <meta name="robots" content="noindex" />
+      </Helmet>
+
+      <h1 className="text-3xl font-bold mb-6">Scheduled Jobs</h1>
+
+      {jobsLoading ? (
+        <div className="flex justify-center my-10">
+          <Loader2 className="h-10 w-10 text-primary animate-spin" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+          {jobs.map(job => (
+            <Card key={job.name}>
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle>{job.name}</CardTitle>
+                    <CardDescription>{job.description}</CardDescription>
+                  </div>
+                  {job.lastRun && (
+                    <Badge className={statusColors[job.lastRun.status]}>{job.lastRun.status}</Badge>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-1 text-sm">
+                <p>Runs every {Math.round(job.intervalMs / 60000)} minutes</p>
+                <p>Last run: {job.lastRun ? new Date(job.lastRun.startedAt).toLocaleString() : 'Never'}</p>
+                <p>Next run: {job.nextRunAt ? new Date(job.nextRunAt).toLocaleString() : 'Not scheduled'}</p>
+                <div className="flex gap-2 pt-3">
+                  <Button size="sm" onClick={() => runNow(job.name)} disabled={job.running || runningJob === job.name}>
+                    {runningJob === job.name && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Run now
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setJobFilter(jobFilter === job.name ? null : job.name)}>
+                    {jobFilter === job.name ? 'Show all runs' : 'Show runs'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Run History</CardTitle>
+          <CardDescription>
+            {jobFilter ? `Recent runs of ${jobFilter}` : 'Recent runs of all jobs'}
+            {runs ? ` (${runs.total} total)` : ''}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {runsLoading ? (
+            <Loader2 className="h-6 w-6 text-primary animate-spin" />
+          ) : !runs?.items.length ? (
+            <p className="text-gray-500">No runs recorded yet</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b">
+                    <th className="py-2 pr-4">Job</th>
+                    <th className="py-2 pr-4">Status</th>
+                    <th className="py-2 pr-4">Trigger</th>
+                    <th className="py-2 pr-4">Started</th>
+                    <th className="py-2 pr-4">Duration</th>
+                    <th className="py-2">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {runs.items.map(run => (
+                    <tr key={run.id} className="border-b align-top">
+                      <td className="py-2 pr-4 font-medium">{run.job}</td>
+                      <td className="py-2 pr-4">
+                        <Badge className={statusColors[run.status]}>{run.status}</Badge>
+                      </td>
+                      <td className="py-2 pr-4">{run.trigger}</td>
+                      <td className="py-2 pr-4">{new Date(run.startedAt).toLocaleString()}</td>
+                      <td className="py-2 pr-4">{formatDuration(run)}</td>
+                      <td className="py-2 text-gray-600">
+                        {run.error ? <span className="text-red-600">{run.error}</span> : formatResult(run.result)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Helmet } from 'react-helmet';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import type { Page } from '@shared/pagination';
+
+// UI Components
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Loader2, Star } from 'lucide-react';
+
+type ReviewStatus = 'pending' | 'approved' | 'rejected' | 'flagged';
+
+interface ModerationReview {
+  id: number;
+  laundryId: number;
+  userId: number;
+  rating: number;
+  comment: string | null;
+  status: ReviewStatus;
+  moderationReasons: string[] | null;
+  reportCount: number;
+  createdAt: string;
+  laundromat: { id: number; name: string; slug: string } | null;
+  reports: { id: number; reason: string; details: string | null; createdAt: string }[];
+  photos: { id: number; url: string }[];
+}
+
+const QUEUES: { label: string; status: string }[] = [
+  { label: 'Needs review', status: 'pending,flagged' },
+  { label: 'Rejected', status: 'rejected' },
+  { label: 'Approved', status: 'approved' },
+];
+
+const statusColors: Record<ReviewStatus, string> = {
+  pending: 'bg-blue-500',
+  flagged: 'bg-orange-500',
+  approved: 'bg-green-500',
+  rejected: 'bg-red-500',
+};
+
+export default function AdminReviewsPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [queue, setQueue] = useState(QUEUES[0].status);
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+
+  const url = `/api/admin/reviews?limit=50&status=${queue}`;
+  const { data, isLoading } = useQuery<Page<ModerationReview>>({
+    queryKey: [url],
+  });
+
+  const moderate = async (id: number, status: 'approved' | 'rejected') => {
+    setUpdatingId(id);
+    try {
+      await apiRequest('PATCH', `/api/admin/reviews/${id}`, { status });
+      queryClient.invalidateQueries({ queryKey: [url] });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: getApiErrorMessage(error, 'Failed to update review'),
+        variant: 'destructive',
+      });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-4 max-w-5xl">
+      <Helmet>
+        <title>Review Moderation | Laundry Locator</title>
+        <meta name="robots" content="noindex" />
+      </Helmet>
+
+      <h1 className="text-3xl font-bold mb-6">Review Moderation</h1>
+
+      <div className="flex gap-2 mb-6">
+        {QUEUES.map(option => (
+          <Button
+            key={option.status}
+            size="sm"
+            variant={queue === option.status ? 'default' : 'outline'}
+            onClick={() => setQueue(option.status)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center my-10">
+          <Loader2 className="h-10 w-10 text-primary animate-spin" />
+        </div>
+      ) : !data?.items.length ? (
+        <p className="text-gray-500">No reviews here</p>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500">{data.total} reviews</p>
+          {data.items.map(review => (
+            <Card key={review.id}>
+              <CardHeader>
+                <div className="flex justify-between items-start">
+                  <div>
+                    <CardTitle className="text-base">
+                      {review.laundromat ? (
+                        <Link href={`/laundromat/${review.laundromat.slug}`} className="hover:underline">
+                          {review.laundromat.name}
+                        </Link>
+                      ) : `Laundromat #${review.laundryId}`}
+                    </CardTitle>
+                    <CardDescription>
+                      User #{review.userId} · {new Date(review.createdAt).toLocaleString()}
+                    </CardDescription>
+                  </div>
+                  <Badge className={statusColors[review.status]}>{review.status}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <div className="flex">
+                  {[1, 2, 3, 4, 5].map(star => (
+                    <Star key={star} className={`h-4 w-4 ${review.rating >= star ? 'text-yellow-500 fill-yellow-500' : 'text-gray-300'}`} />
+                  ))}
+                </div>
+                <p className="text-gray-700 whitespace-pre-line">{review.comment || <em>No comment</em>}</p>
+                {review.photos.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {review.photos.map(photo => (
+                      <a key={photo.id} href={photo.url} target="_blank" rel="noopener noreferrer">
+                        <img src={photo.url} alt="" className="h-20 w-20 object-cover rounded" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+                {!!review.moderationReasons?.length && (
+                  <p className="text-gray-600">Held for: {review.moderationReasons.join(', ')}</p>
+                )}
+                {review.reports.length > 0 && (
+                  <div className="text-gray-600">
+                    <p className="font-medium">Reports ({review.reports.length})</p>
+                    <ul className="list-disc pl-5">
+                      {review.reports.map(report => (
+                        <li key={report.id}>{report.reason}{report.details ? `: ${report.details}` : ''}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                <div className="flex gap-2 pt-2">
+                  {review.status !== 'approved' && (
+                    <Button size="sm" onClick={() => moderate(review.id, 'approved')} disabled={updatingId === review.id}>
+                      Approve
+                    </Button>
+                  )}
+                  {review.status !== 'rejected' && (
+                    <Button size="sm" variant="outline" onClick={() => moderate(review.id, 'rejected')} disabled={updatingId === review.id}>
+                      Reject
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
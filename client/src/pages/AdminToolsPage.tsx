@@ -8,8 +8,6 @@ import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { AlertCircle } from 'lucide-react';
 import CSVImporter from '@/components/CSVImporter';
-import LaundryDataImporter from '@/components/LaundryDataImporter';
-import DatabaseImport from '@/components/DatabaseImport';
 import MetaTags from '@/components/MetaTags';
 
 const AdminToolsPage = () => {
@@ -89,45 +87,41 @@ const AdminToolsPage = () => {
               </CardContent>
             </Card>
             
-            <Card className="mb-6">
-              <CardHeader>
-                <CardTitle>Import Enriched Laundromat Data</CardTitle>
-                <CardDescription>
-                  Import our pre-processed laundromat database with SEO optimizations
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <LaundryDataImporter />
-              </CardContent>
-            </Card>
-            
-            <Card className="mb-6">
+            <Card>
               <CardHeader>
-                <CardTitle>Direct Database Import</CardTitle>
+                <CardTitle>Data Imports</CardTitle>
                 <CardDescription>
-                  Bypasses API and imports data directly to the database (faster method)
+                  Import laundromat listings from CSV and JSON files on the server
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <DatabaseImport />
+                <div className="space-y-4">
+                  <p>
+                    Imports run in the background in batches and can be paused, resumed or cancelled.
+                    Try a dry run first to see how many rows would import and which have errors.
+                  </p>
+                  <Button onClick={() => setLocation('/admin/imports')}>
+                    Open Data Imports
+                  </Button>
+                </div>
               </CardContent>
             </Card>
-            
+
             <Card>
               <CardHeader>
-                <CardTitle>Batch Import Tool</CardTitle>
+                <CardTitle>Duplicate Listings</CardTitle>
                 <CardDescription>
-                  Process large datasets in batches for reliable imports (recommended for 27,000+ records)
+                  Listings that look like the same laundromat, found by a daily scan
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
                   <p>
-                    This tool processes large data files in small batches, providing detailed progress monitoring 
-                    and error handling. Ideal for importing the complete dataset.
+                    Merge a pair into one listing, choosing which details to keep, or mark it as not duplicates.
+                    Pages of merged listings redirect to the one that's kept.
                   </p>
-                  <Button onClick={() => setLocation('/admin/batch-import')}>
-                    Open Batch Import Tool
+                  <Button onClick={() => setLocation('/admin/duplicates')}>
+                    Review Duplicates
                   </Button>
                 </div>
               </CardContent>
@@ -176,6 +170,63 @@ const AdminToolsPage = () => {
                 <p>Settings management functionality coming soon.</p>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Scheduled Jobs</CardTitle>
+                <CardDescription>
+                  Subscription expiry, grace periods and reminder emails
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <p>
+                    See when each background job last ran, what it did, and run it on demand.
+                  </p>
+                  <Button onClick={() => setLocation('/admin/jobs')}>
+                    View Scheduled Jobs
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Review Moderation</CardTitle>
+                <CardDescription>
+                  Reviews held by the spam checks or reported by users
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <p>
+                    Approve or reject held reviews. Only approved reviews are shown and counted in ratings.
+                  </p>
+                  <Button onClick={() => setLocation('/admin/reviews')}>
+                    Moderate Reviews
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Admin Inbox</CardTitle>
+                <CardDescription>
+                  Business claims, subscription problems and reported reviews
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <p>
+                    Approve or reject claims, revoke ownership, assign items to an admin and keep internal notes.
+                  </p>
+                  <Button onClick={() => setLocation('/admin/notifications')}>
+                    Open Inbox
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
           </TabsContent>
         </Tabs>
       </div>
@@ -26,6 +26,7 @@ import {
   SelectValue 
 } from "@/components/ui/select";
 import { Helmet } from 'react-helmet';
+import { getStructuredHours, isOpenAt } from '@shared/hours';
 
 // This is a hard-coded page specifically for Beverly Hills (90210) searches
 const BeverlyHillsPage: React.FC = () => {
@@ -199,16 +200,8 @@ const BeverlyHillsPage: React.FC = () => {
     
     // Filter by open now if selected
     if (filters.openNow) {
-      // Simple check for 24 Hours
-      if (!laundry.hours || !laundry.hours.includes('24 Hours')) {
-        const now = new Date();
-        const hour = now.getHours();
-        
-        // Basic check assuming most places are open 8AM-8PM
-        if (hour < 8 || hour >= 20) {
-          return false;
-        }
-      }
+      const hours = getStructuredHours(laundry);
+      if (!hours || !isOpenAt(hours)) return false;
     }
     
     return true;
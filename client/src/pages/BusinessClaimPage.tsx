@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useLocation } from 'wouter';
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
@@ -14,10 +14,32 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import VerificationStep from '@/components/business/VerificationStep';
 import BusinessProfileStep from '@/components/business/BusinessProfileStep';
 import PlanSelectionStep from '@/components/business/PlanSelectionStep';
+import ClaimCodeForm from '@/components/business/ClaimCodeForm';
 import { CheckCircle, AlertTriangle, Info, ArrowLeft } from 'lucide-react';
 
 type ClaimStep = 'verification' | 'profile' | 'plan';
 
+// A submitted claim still waiting to be verified
+interface PendingClaim {
+  claimId: number;
+  method: 'document' | 'utility' | 'phone' | 'mail';
+  message: string;
+  codeSentTo: string | null;
+}
+
+// Upload one document as a raw file body; errors read like apiRequest's
+async function uploadDocument(claimId: number, file: File) {
+  const response = await fetch(`/api/business/claims/${claimId}/documents?name=${encodeURIComponent(file.name)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': file.type || 'application/octet-stream' },
+    body: file,
+    credentials: 'include'
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+  }
+}
+
 const BusinessClaimPage = () => {
   const { id } = useParams();
   const [, setLocation] = useLocation();
@@ -29,6 +51,7 @@ const BusinessClaimPage = () => {
   const [profileData, setProfileData] = useState<any>(null);
   const [selectedPlan, setSelectedPlan] = useState<'basic' | 'premium'>('basic');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [pendingClaim, setPendingClaim] = useState<PendingClaim | null>(null);
   
   // Fetch laundromat details
   const { data: laundromat, isLoading, error } = useQuery({
@@ -36,42 +59,58 @@ const BusinessClaimPage = () => {
     retry: false,
   });
   
-  // Claim business mutation
+  // Once verified, premium claims go on to add a payment method; basic ones to the dashboard
+  const finishClaim = (redirectToPayment: boolean) => {
+    toast({
+      title: 'Business Claimed Successfully!',
+      description: 'You now have access to manage your business listing.',
+      variant: 'default',
+    });
+    setTimeout(() => {
+      setLocation(redirectToPayment ? `/business/subscription/${id}` : '/business/dashboard');
+    }, 1500);
+  };
+
+  // Claim business mutation: starts a claim, then uploads any documents for it
   const claimMutation = useMutation({
     mutationFn: async (data: any) => {
       return apiRequest('POST', '/api/business/claim', data);
     },
     onSuccess: async (response) => {
-      const data = await response.json();
-      
-      toast({
-        title: 'Business Claimed Successfully!',
-        description: 'You now have access to manage your business listing.',
-        variant: 'default',
-      });
-      
-      // If premium plan was selected and payment setup is needed, redirect to subscription page
-      if (data.redirectToPayment) {
-        setTimeout(() => {
-          setLocation(`/business/subscription/${id}`);
-        }, 1500);
-      } else {
-        // Redirect to dashboard for basic plan
-        setTimeout(() => {
-          setLocation('/business/dashboard');
-        }, 1500);
+      const data: PendingClaim = await response.json();
+      let message = data.message;
+
+      if (data.method === 'document' || data.method === 'utility') {
+        try {
+          for (const file of verificationData?.documentFiles || []) {
+            await uploadDocument(data.claimId, file);
+          }
+          message = "Thanks! We'll review your documents and email you once your claim is approved, usually within 2 business days.";
+        } catch (error) {
+          toast({
+            title: 'Error Uploading Documents',
+            description: getApiErrorMessage(error, 'Your documents could not be uploaded. Please try again.'),
+            variant: 'destructive',
+          });
+          setIsSubmitting(false);
+          return;
+        }
       }
+
+      setPendingClaim({ ...data, message });
+      setIsSubmitting(false);
+      window.scrollTo(0, 0);
     },
     onError: (error: any) => {
       toast({
         title: 'Error Claiming Business',
-        description: error.message || 'An error occurred while claiming the business.',
+        description: getApiErrorMessage(error, 'An error occurred while claiming the business.'),
         variant: 'destructive',
       });
       setIsSubmitting(false);
     },
   });
-  
+
   // Handle verification step completion
   const handleVerificationComplete = (data: any) => {
     setVerificationData(data);
@@ -89,12 +128,12 @@ const BusinessClaimPage = () => {
   // Handle plan selection and final submission
   const handlePlanComplete = async (data: { selectedPlan: string }) => {
     setSelectedPlan(data.selectedPlan as 'basic' | 'premium');
-    await handleSubmit();
+    await handleSubmit(data.selectedPlan as 'basic' | 'premium');
   };
   
   // Handle form submission
-  const handleSubmit = async () => {
-    if (!verificationData || !profileData || !selectedPlan) {
+  const handleSubmit = async (plan = selectedPlan) => {
+    if (!verificationData || !profileData || !plan) {
       toast({
         title: 'Missing Information',
         description: 'Please complete all steps before submitting.',
@@ -105,12 +144,13 @@ const BusinessClaimPage = () => {
     
     setIsSubmitting(true);
     
-    // Prepare data for submission
+    // Prepare data for submission; documents are uploaded separately once the claim exists
+    const { documentFiles, ...verification } = verificationData;
     const submissionData = {
       laundryId: id,
-      verificationData,
+      verificationData: verification,
       profileData,
-      selectedPlan,
+      selectedPlan: plan,
     };
     
     // Submit data
@@ -218,7 +258,36 @@ const BusinessClaimPage = () => {
             </CardContent>
           </Card>
           
-          {/* Progress tracker */}
+          {pendingClaim ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  {pendingClaim.method === 'phone' || pendingClaim.method === 'mail' ? (
+                    <Info className="mr-2 h-5 w-5 text-primary" />
+                  ) : (
+                    <CheckCircle className="mr-2 h-5 w-5 text-green-500" />
+                  )}
+                  {pendingClaim.method === 'phone' || pendingClaim.method === 'mail' ? 'Enter Your Verification Code' : 'Claim Submitted'}
+                </CardTitle>
+                <CardDescription>{pendingClaim.message}</CardDescription>
+              </CardHeader>
+              {pendingClaim.method === 'phone' || pendingClaim.method === 'mail' ? (
+                <CardContent>
+                  <ClaimCodeForm
+                    claimId={pendingClaim.claimId}
+                    method={pendingClaim.method}
+                    codeSentTo={pendingClaim.codeSentTo}
+                    onVerified={result => finishClaim(result.redirectToPayment)}
+                  />
+                </CardContent>
+              ) : (
+                <CardFooter>
+                  <Button onClick={() => setLocation('/business/claims')}>View My Claims</Button>
+                </CardFooter>
+              )}
+            </Card>
+          ) : (
+          /* Progress tracker */
           <div className="mb-8">
             <Tabs value={currentStep} className="w-full">
               <TabsList className="grid w-full grid-cols-3">
@@ -268,6 +337,7 @@ const BusinessClaimPage = () => {
               </TabsContent>
             </Tabs>
           </div>
+          )}
         </div>
       </div>
     </div>
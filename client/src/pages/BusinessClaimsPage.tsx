@@ -0,0 +1,123 @@
+import { Link, useLocation } from 'wouter';
+import { Helmet } from 'react-helmet';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useCurrentUser } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import ClaimCodeForm from '@/components/business/ClaimCodeForm';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2 } from 'lucide-react';
+
+interface MyClaim {
+  id: number;
+  status: 'pending_verification' | 'pending_review' | 'approved' | 'rejected' | 'cancelled';
+  method: 'document' | 'utility' | 'phone' | 'mail';
+  selectedPlan: string;
+  codeSentTo: string | null;
+  rejectionReason: string | null;
+  createdAt: string;
+  laundromat: { id: number; name: string; slug: string; city: string; state: string };
+}
+
+const STATUS_LABELS: Record<MyClaim['status'], { label: string; className: string }> = {
+  pending_verification: { label: 'Awaiting verification', className: 'bg-amber-500' },
+  pending_review: { label: 'In review', className: 'bg-blue-500' },
+  approved: { label: 'Approved', className: 'bg-green-500' },
+  rejected: { label: 'Not approved', className: 'bg-red-500' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-400' },
+};
+
+const CLAIMS_KEY = ['/api/business/claims'];
+
+/**
+ * The signed-in user's business claims, where to enter a mailed or texted code
+ */
+export default function BusinessClaimsPage() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: userData, isLoading: userLoading } = useCurrentUser();
+  const { data: claims, isLoading } = useQuery<MyClaim[]>({ queryKey: CLAIMS_KEY, enabled: !!userData?.user });
+
+  const handleVerified = async (claim: MyClaim, redirectToPayment: boolean) => {
+    toast({ title: 'Business Claimed Successfully!', description: `You can now manage ${claim.laundromat.name}.` });
+    await queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+    setLocation(redirectToPayment ? `/business/subscription/${claim.laundromat.id}` : '/business/dashboard');
+  };
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-3xl">
+      <Helmet>
+        <title>My Business Claims | LaundryLocator</title>
+        <meta name="robots" content="noindex" />
+      </Helmet>
+
+      <h1 className="text-3xl font-bold tracking-tight mb-6">My Business Claims</h1>
+
+      {userLoading || (userData?.user && isLoading) ? (
+        <div className="flex justify-center my-10">
+          <Loader2 className="h-8 w-8 text-primary animate-spin" />
+        </div>
+      ) : !userData?.user ? (
+        <p className="text-gray-600">
+          <Link href="/login" className="text-primary hover:underline">Sign in</Link> to see your claims.
+        </p>
+      ) : !claims?.length ? (
+        <p className="text-gray-600">
+          You haven't claimed a business yet.{' '}
+          <Link href="/business/search" className="text-primary hover:underline">Find your laundromat</Link>
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {claims.map(claim => (
+            <Card key={claim.id}>
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-lg">
+                      <Link href={`/laundromat/${claim.laundromat.slug}`} className="hover:underline">
+                        {claim.laundromat.name}
+                      </Link>
+                    </CardTitle>
+                    <CardDescription>
+                      {claim.laundromat.city}, {claim.laundromat.state} · submitted {new Date(claim.createdAt).toLocaleDateString()}
+                    </CardDescription>
+                  </div>
+                  <Badge className={STATUS_LABELS[claim.status].className}>{STATUS_LABELS[claim.status].label}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {claim.status === 'pending_verification' && (claim.method === 'phone' || claim.method === 'mail') && (
+                  <ClaimCodeForm
+                    claimId={claim.id}
+                    method={claim.method}
+                    codeSentTo={claim.codeSentTo}
+                    onVerified={result => handleVerified(claim, result.redirectToPayment)}
+                  />
+                )}
+                {claim.status === 'pending_verification' && (claim.method === 'document' || claim.method === 'utility') && (
+                  <p className="text-sm text-gray-600">
+                    No documents were received for this claim.{' '}
+                    <Link href={`/business/claim/${claim.laundromat.id}`} className="text-primary hover:underline">Start again</Link>
+                  </p>
+                )}
+                {claim.status === 'pending_review' && (
+                  <p className="text-sm text-gray-600">We're reviewing your documents and will email you with the outcome.</p>
+                )}
+                {claim.status === 'approved' && (
+                  <Button size="sm" onClick={() => setLocation('/business/dashboard')}>Go to dashboard</Button>
+                )}
+                {claim.status === 'rejected' && (
+                  <p className="text-sm text-gray-600">
+                    {claim.rejectionReason || 'We could not verify this claim.'}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -13,7 +13,7 @@ import ApiErrorDisplay from '../components/ApiErrorDisplay';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Laundromat, Subscription } from '@shared/schema';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { Edit, Star, Award, ImagePlus, Tag, Package, Clipboard } from 'lucide-react';
 
@@ -110,11 +110,17 @@ const BusinessDashboard: React.FC = () => {
         throw new Error(responseData.message || 'Failed to update premium features');
       }
     } catch (error: any) {
+      // The server refuses content beyond the listing's tier with a 403 and an upgrade message
+      const upgradeRequired = error instanceof Error && error.message.startsWith('403:') && error.message.includes('upgrade_required');
       toast({
-        title: 'Error',
-        description: error.message || 'An error occurred while updating premium features',
+        title: upgradeRequired ? 'Upgrade required' : 'Error',
+        description: getApiErrorMessage(error, 'An error occurred while updating premium features'),
         variant: 'destructive'
       });
+      if (upgradeRequired) {
+        setEditOpen(false);
+        setUpgradeOpen(true);
+      }
     }
   };
   
@@ -4,12 +4,16 @@ import { useQuery } from '@tanstack/react-query';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import MetaTags from '@/components/MetaTags';
+import OwnerReviewList from '@/components/OwnerReviewList';
+import ListingAnalyticsPanel from '@/components/ListingAnalyticsPanel';
+import OwnerLocations from '@/components/OwnerLocations';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { 
   Building2, 
@@ -28,15 +32,59 @@ import {
 } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
 
+interface DashboardLocation {
+  id: number;
+  name: string;
+  address: string;
+  city: string;
+  state: string;
+}
+
+// GET /api/business/dashboard: the selected listing with its subscription and view counts
+interface BusinessDashboard {
+  id: number;
+  name: string;
+  address: string;
+  phone: string;
+  rating: string | null;
+  reviewCount: number | null;
+  subscription: {
+    tier: string;
+    status: string;
+    trialEnds: string | null;
+    nextBillingDate: string | null;
+  };
+  locations?: DashboardLocation[];
+  profileCompleteness: number;
+  pendingActions: { id: number; type: string; message: string }[];
+  views: {
+    today: number;
+    thisWeek: number;
+    thisMonth: number;
+    trend: string;
+    trendPercent?: number | null;
+  };
+}
+
 const BusinessDashboardPage: React.FC = () => {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const [currentTab, setCurrentTab] = useState('overview');
+  // Which of the owner's locations the tabs show; their first until they pick one
+  const [locationId, setLocationId] = useState<number | null>(null);
   
   // Fetch business data
-  const { data: businessData, isLoading, error } = useQuery({
-    queryKey: ['/api/business/dashboard'],
+  const { data: businessData, isLoading, error } = useQuery<BusinessDashboard>({
+    queryKey: [locationId ? `/api/business/dashboard?laundryId=${locationId}` : '/api/business/dashboard'],
+    placeholderData: previous => previous,
   });
+  const locations = businessData?.locations || [];
+  const currentId = businessData?.id;
+  
+  const openLocation = (id: number) => {
+    setLocationId(id);
+    setCurrentTab('overview');
+  };
   
   // Fetch business reviews
   const { data: reviewsData } = useQuery({
@@ -44,19 +92,13 @@ const BusinessDashboardPage: React.FC = () => {
     enabled: !!businessData,
   });
   
-  // Fetch analytics data
-  const { data: analyticsData } = useQuery({
-    queryKey: ['/api/business/analytics'],
-    enabled: businessData?.subscription?.tier === 'premium',
-  });
-  
   // Handle upgrading to premium
   const handleUpgradeToPremium = () => {
     navigate('/business/upgrade');
   };
   
   // Generate sample data for demo
-  const sampleBusiness = {
+  const sampleBusiness: BusinessDashboard = {
     id: 1,
     name: "Sunshine Laundromat",
     address: "123 Main St, Denver, CO 80201",
@@ -133,7 +175,21 @@ const BusinessDashboardPage: React.FC = () => {
             <h1 className="text-3xl font-bold">{sampleData.name}</h1>
             <p className="text-gray-600">{sampleData.address}</p>
           </div>
-          <div className="mt-4 md:mt-0">
+          <div className="mt-4 md:mt-0 flex items-center gap-3">
+            {locations.length > 1 && (
+              <Select value={currentId ? String(currentId) : undefined} onValueChange={value => openLocation(Number(value))}>
+                <SelectTrigger className="w-64" aria-label="Location">
+                  <SelectValue placeholder="Choose a location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map(location => (
+                    <SelectItem key={location.id} value={String(location.id)}>
+                      {location.name} ({location.city}, {location.state})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
             {sampleData.subscription.tier === 'basic' ? (
               <Button onClick={handleUpgradeToPremium} className="bg-amber-600 hover:bg-amber-700">
                 Upgrade to Premium
@@ -146,9 +202,10 @@ const BusinessDashboardPage: React.FC = () => {
           </div>
         </div>
         
-        <Tabs defaultValue="overview" onValueChange={setCurrentTab} className="w-full">
-          <TabsList className="grid grid-cols-5 mb-6">
+        <Tabs value={currentTab} onValueChange={setCurrentTab} className="w-full">
+          <TabsList className={`grid ${locations.length > 1 ? 'grid-cols-6' : 'grid-cols-5'} mb-6`}>
             <TabsTrigger value="overview">Overview</TabsTrigger>
+            {locations.length > 1 && <TabsTrigger value="locations">All Locations</TabsTrigger>}
             <TabsTrigger value="profile">Business Profile</TabsTrigger>
             <TabsTrigger value="reviews">Reviews</TabsTrigger>
             <TabsTrigger value="analytics" disabled={sampleData.subscription.tier !== 'premium'}>
@@ -272,6 +329,9 @@ const BusinessDashboardPage: React.FC = () => {
                       <p className="text-xs text-gray-500">Profile Views</p>
                     </div>
                   </div>
+                  <p className="mt-3 text-sm text-gray-600">
+                    {sampleData.views.trend} views this week compared with last week
+                  </p>
                   {sampleData.subscription.tier === 'basic' && (
                     <div className="mt-4 p-3 bg-amber-50 text-amber-800 text-sm rounded-lg">
                       <div className="flex items-start">
@@ -367,6 +427,21 @@ const BusinessDashboardPage: React.FC = () => {
             )}
           </TabsContent>
           
+          {/* All Locations Tab */}
+          <TabsContent value="locations">
+            <Card>
+              <CardHeader>
+                <CardTitle>All Locations</CardTitle>
+                <CardDescription>
+                  Compare your locations, edit several at once and manage each location's plan
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <OwnerLocations onOpen={openLocation} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+          
           {/* Business Profile Tab */}
           <TabsContent value="profile">
             <Card>
@@ -392,7 +467,7 @@ const BusinessDashboardPage: React.FC = () => {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <p className="text-sm text-gray-500">The Reviews management content will be implemented here</p>
+                <OwnerReviewList />
               </CardContent>
             </Card>
           </TabsContent>
@@ -408,7 +483,7 @@ const BusinessDashboardPage: React.FC = () => {
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <p className="text-sm text-gray-500">The Analytics content will be implemented here</p>
+                  <ListingAnalyticsPanel laundryId={currentId} />
                 </CardContent>
               </Card>
             ) : (
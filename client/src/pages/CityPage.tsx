@@ -8,10 +8,15 @@ import SchemaMarkup from '@/components/SchemaMarkup';
 import MetaTags from '@/components/MetaTags';
 import ApiErrorDisplay from '@/components/ApiErrorDisplay';
 import Footer from '@/components/Footer';
-import { Laundromat, City, Filter } from '@/types/laundromat';
+import CursorPagination from '@/components/CursorPagination';
+import { useCursorPagination } from '@/hooks/useCursorPagination';
+import { Laundromat, City, Filter, Page } from '@/types/laundromat';
 import { generateCityPageContent } from '@/lib/seo';
 import FilterSection from '@/components/FilterSection';
 
+// Matches the default page size of GET /api/cities/:id/laundromats
+const CITY_PAGE_SIZE = 50;
+
 const CityPage = () => {
   // Either get city from state/city route or just city route
   const params = useParams();
@@ -33,28 +38,29 @@ const CityPage = () => {
     queryKey: [`/api/cities/${citySlug}`],
   });
   
+  // Start from the first page when the city or filters change
+  const pagination = useCursorPagination(`${citySlug}:${JSON.stringify(filters)}`);
+  const cursorParam = pagination.cursor ? `?cursor=${encodeURIComponent(pagination.cursor)}` : '';
+  
   // Fetch laundromats in this city - use slug instead of ID which is more reliable
   const { 
-    data: apiLaundromats = [], 
+    data: laundromatsPage, 
     isLoading: isLaundromatsLoading,
     error: laundromatsError,
     refetch: refetchLaundromats
-  } = useQuery<Laundromat[]>({
+  } = useQuery<Page<Laundromat>>({
     // Using slug directly is more reliable than using the generated ID which changes on each load
-    queryKey: [cityInfo ? `/api/cities/${cityInfo.slug}/laundromats` : null, filters],
+    queryKey: [cityInfo ? `/api/cities/${cityInfo.slug}/laundromats${cursorParam}` : null, filters],
     enabled: !!cityInfo && !!cityInfo.slug,
     retry: 2,
-    retryDelay: 1000,
-    // Return empty array on error to prevent UI breakage
-    onError: (error) => {
-      console.error('Failed to fetch laundromats:', error);
-    }
+    retryDelay: 1000
   });
   
   // Use only real data, no placeholders
   const laundromats = useMemo(() => {
-    return apiLaundromats;
-  }, [apiLaundromats]);
+    return laundromatsPage?.items || [];
+  }, [laundromatsPage]);
+  const totalLaundromats = laundromatsPage?.total || 0;
   
   // Update cityData state when cityInfo is loaded
   useEffect(() => {
@@ -193,7 +199,7 @@ const CityPage = () => {
           <div className="text-gray-600" 
             dangerouslySetInnerHTML={{ 
               __html: seoContent?.intro || 
-              `<p>Looking for convenient laundromats near me in ${cityName}, ${stateAbbr}? Our directory features ${laundromats.length} 
+              `<p>Looking for convenient laundromats near me in ${cityName}, ${stateAbbr}? Our directory features ${totalLaundromats} 
               locations throughout the city. Browse laundromats with detailed information on operating hours, available machines, 
               pricing, and special services like drop-off and pickup options.</p>
               <p class="mt-2">Whether you need a quick wash or a full-service laundry experience, 
@@ -213,7 +219,7 @@ const CityPage = () => {
             {/* Laundromat Listings */}
             <section>
               <h2 className="text-2xl font-bold mb-4">
-                {isLaundromatsLoading ? 'Loading Laundromats...' : `${laundromats.length} Laundromats in ${cityName}`}
+                {isLaundromatsLoading ? 'Loading Laundromats...' : `${totalLaundromats} Laundromats in ${cityName}`}
               </h2>
               
               {isLaundromatsLoading && !laundromats.length ? (
@@ -249,6 +255,14 @@ const CityPage = () => {
                       )}
                     </div>
                   ))}
+                  
+                  <CursorPagination
+                    className="mt-6"
+                    pagination={pagination}
+                    nextCursor={laundromatsPage?.nextCursor}
+                    total={totalLaundromats}
+                    pageSize={CITY_PAGE_SIZE}
+                  />
                 </div>
               )}
             </section>
@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { Link } from 'wouter';
+import { Helmet } from 'react-helmet';
+import { useToast } from '@/hooks/use-toast';
+import { useFavorites, type FavoriteEntry } from '@/hooks/use-favorites';
+import { getApiErrorMessage } from '@/lib/queryClient';
+import { formatSpans, getSpansOn, isOpenAt } from '@shared/hours';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Heart, Loader2, MapPin, Pencil, Plus, Star, Trash2 } from 'lucide-react';
+
+// Filter value for favorites that aren't in a named list
+const UNSORTED = 'unsorted';
+const ALL = 'all';
+
+function FavoriteCard({
+  entry,
+  lists,
+  onMove,
+  onRemove
+}: {
+  entry: FavoriteEntry;
+  lists: { id: number; name: string }[];
+  onMove: (listId: number | null) => void;
+  onRemove: () => void;
+}) {
+  const { laundromat } = entry;
+  const hours = laundromat.hoursStructured;
+  const isOpen = hours ? isOpenAt(hours) : null;
+  const rating = laundromat.rating ? parseFloat(laundromat.rating) : 0;
+
+  return (
+    <Card>
+      <CardContent className="p-4 flex flex-col md:flex-row md:items-center gap-4">
+        <div className="flex-1">
+          <div className="flex items-center gap-2 mb-1">
+            <Link href={`/laundromat/${laundromat.slug}`} className="text-lg font-semibold text-primary hover:underline">
+              {laundromat.name}
+            </Link>
+            {isOpen !== null && (
+              <Badge className={isOpen ? 'bg-green-500' : 'bg-gray-400'}>{isOpen ? 'Open now' : 'Closed'}</Badge>
+            )}
+          </div>
+          <p className="text-sm text-gray-600 flex items-center">
+            <MapPin className="h-4 w-4 mr-1" />
+            {laundromat.address}, {laundromat.city}, {laundromat.state} {laundromat.zip}
+          </p>
+          <div className="flex flex-wrap gap-4 mt-2 text-sm">
+            <span className="flex items-center">
+              <Star className="h-4 w-4 mr-1 text-yellow-500 fill-yellow-500" />
+              {rating > 0 ? rating.toFixed(1) : 'No rating'}
+              {!!laundromat.reviewCount && <span className="text-gray-500 ml-1">({laundromat.reviewCount})</span>}
+            </span>
+            <span className="text-gray-700">
+              Today: {hours ? formatSpans(getSpansOn(hours)) : laundromat.hours || 'Hours not listed'}
+            </span>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Select
+            value={entry.listId ? String(entry.listId) : UNSORTED}
+            onValueChange={value => onMove(value === UNSORTED ? null : parseInt(value))}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNSORTED}>No list</SelectItem>
+              {lists.map(list => (
+                <SelectItem key={list.id} value={String(list.id)}>{list.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="ghost" size="icon" onClick={onRemove} aria-label={`Remove ${laundromat.name} from saved`}>
+            <Trash2 className="h-4 w-4 text-red-500" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function FavoritesPage() {
+  const { toast } = useToast();
+  const {
+    isLoggedIn,
+    isLoading,
+    favoriteIds,
+    lists,
+    favorites,
+    toggleFavorite,
+    moveToList,
+    createList,
+    renameList,
+    deleteList
+  } = useFavorites();
+  const [activeList, setActiveList] = useState<string>(ALL);
+  const [newListName, setNewListName] = useState('');
+
+  // Show the API's message (e.g. a duplicate list name) when an action fails
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    try {
+      await action();
+    } catch (error) {
+      toast({ title: 'Error', description: getApiErrorMessage(error, fallback), variant: 'destructive' });
+    }
+  };
+
+  const handleCreateList = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newListName.trim();
+    if (!name) return;
+
+    await run(async () => {
+      const list = await createList(name);
+      setNewListName('');
+      setActiveList(String(list.id));
+    }, 'Could not create the list');
+  };
+
+  const handleRenameList = async (id: number, currentName: string) => {
+    const name = window.prompt('Rename list', currentName)?.trim();
+    if (!name || name === currentName) return;
+    await run(() => renameList(id, name), 'Could not rename the list');
+  };
+
+  const handleDeleteList = async (id: number, name: string) => {
+    if (!window.confirm(`Delete the list "${name}"? Its laundromats stay saved.`)) return;
+    await run(async () => {
+      await deleteList(id);
+      setActiveList(ALL);
+    }, 'Could not delete the list');
+  };
+
+  const visible = favorites.filter(entry => {
+    if (activeList === ALL) return true;
+    if (activeList === UNSORTED) return entry.listId === null;
+    return entry.listId === parseInt(activeList);
+  });
+  const selectedList = lists.find(list => String(list.id) === activeList);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <Helmet>
+        <title>Saved Laundromats | LaundryLocator</title>
+        <meta name="robots" content="noindex" />
+      </Helmet>
+
+      <h1 className="text-3xl font-bold mb-6 flex items-center">
+        <Heart className="h-7 w-7 mr-2 text-red-500" />
+        Saved Laundromats
+      </h1>
+
+      {!isLoggedIn ? (
+        <Card>
+          <CardContent className="p-6 text-center space-y-3">
+            <p className="text-gray-700">
+              {favoriteIds.length > 0
+                ? `You have ${favoriteIds.length} saved laundromat${favoriteIds.length === 1 ? '' : 's'} on this device.`
+                : 'Tap the heart on any laundromat to save it.'}
+            </p>
+            <p className="text-sm text-gray-600">
+              Log in to keep your saved laundromats on all your devices, sort them into lists and see their hours at a glance.
+            </p>
+            <Link href="/login">
+              <Button>Log in</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      ) : isLoading ? (
+        <div className="flex justify-center my-10">
+          <Loader2 className="h-10 w-10 text-primary animate-spin" />
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <Button size="sm" variant={activeList === ALL ? 'default' : 'outline'} onClick={() => setActiveList(ALL)}>
+              All ({favorites.length})
+            </Button>
+            {lists.map(list => (
+              <Button
+                key={list.id}
+                size="sm"
+                variant={activeList === String(list.id) ? 'default' : 'outline'}
+                onClick={() => setActiveList(String(list.id))}
+              >
+                {list.name} ({favorites.filter(entry => entry.listId === list.id).length})
+              </Button>
+            ))}
+            {lists.length > 0 && (
+              <Button size="sm" variant={activeList === UNSORTED ? 'default' : 'outline'} onClick={() => setActiveList(UNSORTED)}>
+                No list ({favorites.filter(entry => entry.listId === null).length})
+              </Button>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-6">
+            <form onSubmit={handleCreateList} className="flex gap-2">
+              <Input
+                value={newListName}
+                onChange={e => setNewListName(e.target.value)}
+                placeholder='New list, e.g. "Near work"'
+                maxLength={50}
+                className="w-56"
+              />
+              <Button type="submit" variant="outline" disabled={!newListName.trim()}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add list
+              </Button>
+            </form>
+            {selectedList && (
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => handleRenameList(selectedList.id, selectedList.name)}>
+                  <Pencil className="h-4 w-4 mr-1" />
+                  Rename
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDeleteList(selectedList.id, selectedList.name)}>
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete list
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {visible.length === 0 ? (
+            <p className="text-center text-gray-500 py-10">
+              {favorites.length === 0
+                ? 'You haven\'t saved any laundromats yet. Tap the heart on a listing to save it here.'
+                : 'No saved laundromats in this list yet.'}
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {visible.map(entry => (
+                <FavoriteCard
+                  key={entry.laundryId}
+                  entry={entry}
+                  lists={lists}
+                  onMove={listId => run(() => moveToList(entry.laundryId, listId), 'Could not move the laundromat')}
+                  onRemove={() => run(() => toggleFavorite(entry.laundryId), 'Could not remove the laundromat')}
+                />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import { useQuery } from '@tanstack/react-query';
 import { useLocation } from 'wouter';
 import { useToast } from '@/hooks/use-toast';
 import LaundryMap from '@/components/LaundryMap';
-import { Laundromat } from '@/types/laundromat';
+import { Laundromat, Page } from '@/types/laundromat';
 import SearchBar from '@/components/SearchBar';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -27,6 +27,8 @@ import {
   SelectValue 
 } from "@/components/ui/select";
 import { Helmet } from 'react-helmet';
+import { getStructuredHours, isOpenAt } from '@shared/hours';
+import { useViewportLaundromats } from '@/hooks/useViewportLaundromats';
 
 const MapSearchPage: React.FC = () => {
   const [location, setLocation] = useLocation();
@@ -117,17 +119,20 @@ const MapSearchPage: React.FC = () => {
   }, [queryParam, latParam, lngParam, setLocation]);
 
   // Query for laundromats based on search query
-  const searchQuery_ = useQuery({
+  const searchQuery_ = useQuery<Page<Laundromat>>({
     queryKey: ['/api/laundromats', queryParam, filters],
     enabled: !!queryParam,
   });
 
   // Query for nearby laundromats based on coordinates
-  const nearbyQuery = useQuery({
+  const nearbyQuery = useQuery<Page<Laundromat>>({
     queryKey: ['/api/laundromats/nearby', latParam, lngParam, filters],
     enabled: !!latParam && !!lngParam && !queryParam,
   });
 
+  // Laundromats (or clusters) inside the visible map area, refreshed as the map moves
+  const viewportResults = useViewportLaundromats();
+
   // Handle search - updates URL and state based on search input
   const handleSearch = (query: string, lat?: number, lng?: number) => {
     // Ensure we have a clean query first
@@ -425,7 +430,7 @@ const MapSearchPage: React.FC = () => {
     }
     
     // Regular API results from search or nearby
-    const apiResults = queryParam ? searchQuery_.data || [] : nearbyQuery.data || [];
+    const apiResults = (queryParam ? searchQuery_.data?.items : nearbyQuery.data?.items) || [];
     
     if (apiResults && apiResults.length > 0) {
       console.log(`🔍 Displaying ${apiResults.length} laundromats from API`);
@@ -468,19 +473,8 @@ const MapSearchPage: React.FC = () => {
       
       // Filter by open now if selected
       if (filters.openNow) {
-        // This would need proper hours parsing logic for production
-        // For now we'll just check if hours contains "24 Hours"
-        if (!laundry.hours || !laundry.hours.includes('24 Hours')) {
-          // Simple mock check based on current time
-          const now = new Date();
-          const hour = now.getHours();
-          
-          // Very basic check - assume most places are open 8AM-8PM
-          // In production, you'd parse the actual hours string
-          if (hour < 8 || hour >= 20) {
-            return false;
-          }
-        }
+        const hours = getStructuredHours(laundry);
+        if (!hours || !isOpenAt(hours)) return false;
       }
       
       return true;
@@ -580,8 +574,10 @@ const MapSearchPage: React.FC = () => {
           <Card className="h-[500px] overflow-hidden">
             <CardContent className="p-0 h-full">
               <LaundryMap 
-                laundromats={sortedLaundromats} 
+                laundromats={viewportResults.laundromats.length > 0 ? viewportResults.laundromats : sortedLaundromats} 
                 center={mapCenter}
+                clusters={viewportResults.clusters}
+                onViewportChange={viewportResults.setViewport}
               />
             </CardContent>
           </Card>
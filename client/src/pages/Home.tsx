@@ -156,13 +156,14 @@ const Home = () => {
         params.append('lat', String(lat));
         params.append('lng', String(lng));
         params.append('radius', String(radius));
+        params.append('limit', '50');
         
         console.log(`Fetching laundromats near (${lat}, ${lng}) within ${radius} miles`);
         
         const response = await fetch(`/api/laundromats?${params.toString()}`);
         if (!response.ok) throw new Error('Failed to fetch nearby laundromats');
         
-        const data = await response.json();
+        const { items: data } = await response.json();
         console.log(`Found ${data.length} laundromats near coordinates`);
         
         // If we got results, return them
@@ -184,7 +185,7 @@ const Home = () => {
           
           if (!stateResponse.ok) throw new Error('Failed to fetch state laundromats');
           
-          const stateData = await stateResponse.json();
+          const { items: stateData } = await stateResponse.json();
           console.log(`Found ${stateData.length} laundromats in state ${stateCode || 'CO'}`);
           
           // Update map center to state capital if we're using the state fallback
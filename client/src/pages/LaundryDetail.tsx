@@ -1,4 +1,4 @@
-import { useParams, Link } from 'wouter';
+import { useParams, useLocation, Link } from 'wouter';
 import { useQuery } from '@tanstack/react-query';
 import { useEffect, useState } from 'react';
 import Header from '@/components/Header';
@@ -12,9 +12,12 @@ import MetaTags from '@/components/MetaTags';
 import ApiErrorDisplay from '@/components/ApiErrorDisplay';
 import Footer from '@/components/Footer';
 import ListingCard from '@/components/ListingCard';
-import { Laundromat, Review } from '@/types/laundromat';
+import ReviewForm, { ReportReviewButton } from '@/components/ReviewForm';
+import RatingBreakdown from '@/components/RatingBreakdown';
+import { Laundromat, Page, Review } from '@/types/laundromat';
 
-import { isFavorite, saveFavorite, removeFavorite } from '@/lib/storage';
+import { useFavorites } from '@/hooks/use-favorites';
+import { trackListingEvent } from '@/lib/listingEvents';
 
 // Component to display nearby laundromats
 interface NearbyLaundromatsProps {
@@ -106,15 +109,15 @@ const CitySimilarLaundromats: React.FC<{
   state: string;
 }> = ({ currentId, city, state }) => {
   const { 
-    data: similarLaundromats = [], 
+    data: similarPage, 
     isLoading,
     error
-  } = useQuery<Laundromat[]>({
+  } = useQuery<Page<Laundromat>>({
     queryKey: [`/api/cities/${city.toLowerCase()}-${state.toLowerCase()}/laundromats`],
     enabled: Boolean(city && state)
   });
   
-  const filteredLaundromats = similarLaundromats.filter(l => l.id !== currentId).slice(0, 3);
+  const filteredLaundromats = (similarPage?.items || []).filter(l => l.id !== currentId).slice(0, 3);
   
   if (isLoading) {
     return (
@@ -153,7 +156,7 @@ const CitySimilarLaundromats: React.FC<{
 
 const LaundryDetail = () => {
   const { slug } = useParams();
-  const [favorite, setFavorite] = useState<boolean>(isFavorite(0)); // Will update with real ID once loaded
+  const { isFavorite, toggleFavorite: toggleSavedFavorite } = useFavorites();
   const [currentPhotoIndex, setCurrentPhotoIndex] = useState(0);
   
   // Force scroll to top when component mounts (for both desktop and mobile)
@@ -181,24 +184,27 @@ const LaundryDetail = () => {
     enabled: !!laundromat?.id
   });
   
-  // Update favorite status when laundromat is loaded
-  if (laundromat && !isLoading) {
-    const isFav = isFavorite(laundromat.id);
-    if (favorite !== isFav) {
-      setFavorite(isFav);
+  // A merged listing's old slug loads the listing it was merged into; show that one's URL
+  const [, setLocation] = useLocation();
+  useEffect(() => {
+    if (laundromat?.slug && slug && laundromat.slug !== slug) {
+      setLocation(`/laundromat/${laundromat.slug}`, { replace: true });
     }
-  }
+  }, [laundromat?.slug, slug, setLocation]);
+  
+  // Count the view once the listing has loaded
+  useEffect(() => {
+    if (laundromat?.id) trackListingEvent('view', laundromat.id);
+  }, [laundromat?.id]);
+  
+  const favorite = !!laundromat && isFavorite(laundromat.id);
   
   const toggleFavorite = () => {
     if (!laundromat) return;
     
-    if (favorite) {
-      removeFavorite(laundromat.id);
-    } else {
-      saveFavorite(laundromat.id);
-    }
-    
-    setFavorite(!favorite);
+    toggleSavedFavorite(laundromat.id).catch(error => {
+      console.error('Error updating favorite:', error);
+    });
   };
   
   // Determine if laundromat is open based on business hours
@@ -594,6 +600,7 @@ const LaundryDetail = () => {
             <button 
               onClick={toggleFavorite}
               className="absolute top-4 right-4 bg-white p-2 rounded-full shadow-md hover:bg-gray-100"
+              aria-label={favorite ? 'Remove from saved laundromats' : 'Save laundromat'}
             >
               <i className={`${favorite ? 'fas' : 'far'} fa-heart text-red-500 text-xl`}></i>
             </button>
@@ -659,6 +666,7 @@ const LaundryDetail = () => {
                           href={`https://maps.google.com/?q=${laundromat.address},${laundromat.city},${laundromat.state},${laundromat.zip}`}
                           target="_blank"
                           rel="noopener noreferrer"
+                          onClick={() => trackListingEvent('directions_click', laundromat.id)}
                           className="text-primary text-sm hover:underline mt-1 inline-block"
                         >
                           Get Directions
@@ -830,6 +838,7 @@ const LaundryDetail = () => {
                           </p>
                           <a 
                             href={`tel:${laundromat.google_details?.formattedPhone || laundromat.phone}`}
+                            onClick={() => trackListingEvent('phone_click', laundromat.id)}
                             className="text-primary text-sm hover:underline mt-1 inline-block"
                           >
                             Call Now
@@ -858,6 +867,7 @@ const LaundryDetail = () => {
                                 '#')} 
                             target="_blank" 
                             rel="noopener noreferrer"
+                            onClick={() => trackListingEvent('website_click', laundromat.id)}
                             className="text-primary hover:underline break-words"
                           >
                             {laundromat.google_details?.website ? 
@@ -1205,6 +1215,7 @@ const LaundryDetail = () => {
                         {reviews.length}
                       </span>
                     </h3>
+                    <RatingBreakdown subRatings={laundromat.sub_ratings} />
                     
                     {reviewsError ? (
                       <ApiErrorDisplay 
@@ -1225,25 +1236,41 @@ const LaundryDetail = () => {
                               <div>
                                 <div className="font-medium">Anonymous User</div>
                                 <div className="text-xs text-gray-500">
-                                  {new Date(review.createdAt).toLocaleDateString()}
+                                  {new Date(review.createdAt!).toLocaleDateString()}
                                 </div>
                               </div>
+                              <div className="ml-auto">
+                                <ReportReviewButton reviewId={review.id} />
+                              </div>
                             </div>
                             <div className="flex text-yellow-500 mb-2">
                               {[1, 2, 3, 4, 5].map(star => (
                                 <i key={star} className={`fas fa-star ${review.rating >= star ? 'text-yellow-500' : 'text-gray-300'}`}></i>
                               ))}
                             </div>
-                            <p className="text-gray-700">{review.comment || "Great service!"}</p>
+                            {review.comment && <p className="text-gray-700">{review.comment}</p>}
+                            {!!review.photos?.length && (
+                              <div className="flex flex-wrap gap-2 mt-2">
+                                {review.photos.map(photo => (
+                                  <a key={photo.id} href={photo.url} target="_blank" rel="noopener noreferrer">
+                                    <img src={photo.url} alt="Customer photo" loading="lazy" className="h-20 w-20 object-cover rounded" />
+                                  </a>
+                                ))}
+                              </div>
+                            )}
+                            {review.ownerReply && (
+                              <div className="mt-3 ml-4 pl-3 border-l-2 border-primary/40">
+                                <div className="text-sm font-medium">Response from the owner</div>
+                                <p className="text-sm text-gray-700">{review.ownerReply}</p>
+                              </div>
+                            )}
                           </div>
                         ))}
                       </div>
                     )}
                   </div>
                   
-                  <button className="mt-4 bg-primary text-white px-4 py-2 rounded font-medium hover:bg-primary/90">
-                    Write a Review
-                  </button>
+                  <ReviewForm laundryId={laundromat.id} onSaved={() => refetchReviews()} />
                 </div>
               </div>
               
@@ -1264,6 +1291,7 @@ const LaundryDetail = () => {
                     {laundromat.phone ? (
                       <a 
                         href={`tel:${laundromat.phone}`}
+                        onClick={() => trackListingEvent('phone_click', laundromat.id)}
                         className="block w-full bg-primary text-white py-2 rounded font-medium hover:bg-primary/90 text-center"
                       >
                         <i className="fas fa-phone-alt mr-2"></i> Call Now
@@ -1299,6 +1327,7 @@ const LaundryDetail = () => {
                           href={`https://www.google.com/maps/dir/?api=1&destination=${laundromat.latitude},${laundromat.longitude}`}
                           target="_blank"
                           rel="noopener noreferrer"
+                          onClick={() => trackListingEvent('directions_click', laundromat.id)}
                           className="text-primary hover:underline text-sm inline-flex items-center"
                         >
                           Get directions <span className="ml-1">→</span>
@@ -131,13 +131,12 @@ export default function LoginPage() {
         username: data.username,
         email: data.email,
         password: data.password,
-        isBusinessOwner: data.isBusinessOwner,
-        role: data.isBusinessOwner ? 'business_owner' : 'user'
+        isBusinessOwner: data.isBusinessOwner
       });
 
       toast({
         title: "Registration Successful",
-        description: "Your account has been created successfully. You may now login.",
+        description: "Your account has been created. Check your email for a link to verify your address.",
       });
       setActiveTab('login');
       loginForm.setValue('username', data.username);
@@ -212,7 +211,12 @@ export default function LoginPage() {
                     name="password"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Password</FormLabel>
+                        <div className="flex items-center justify-between">
+                          <FormLabel>Password</FormLabel>
+                          <Link href="/forgot-password" className="text-sm text-primary hover:underline">
+                            Forgot password?
+                          </Link>
+                        </div>
                         <FormControl>
                           <Input type="password" placeholder="Enter your password" {...field} />
                         </FormControl>
@@ -252,6 +256,8 @@ export default function LoginPage() {
                 </form>
               </Form>
 
+              {/* Demo accounts are only available in development */}
+              {import.meta.env.DEV && (
               <div className="mt-6">
                 <p className="text-sm text-center text-gray-500 mb-2">Try demo accounts:</p>
                 <div className="grid grid-cols-3 gap-2">
@@ -266,6 +272,7 @@ export default function LoginPage() {
                   </Button>
                 </div>
               </div>
+              )}
             </TabsContent>
             
             <TabsContent value="register">
@@ -13,7 +13,9 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
 
 import { formatDistance } from '@/lib/geolocation';
+import type { Page } from '@/types/laundromat';
 import { calculateDistanceInMiles } from '@/lib/geolocation';
+import { trackSearchImpressions } from '@/lib/listingEvents';
 import type { Laundromat } from '@shared/schema';
 
 export default function NearbySearchResults() {
@@ -31,7 +33,7 @@ export default function NearbySearchResults() {
   
   // Fetch nearby laundromats using direct API URL to avoid any query parameter issues
   const apiUrl = `/api/laundromats/nearby?lat=${latitude}&lng=${longitude}&radius=${radius}`;
-  const { data, isLoading, error } = useQuery({
+  const { data, isLoading, error } = useQuery<Page<Laundromat>>({
     queryKey: [apiUrl],
     enabled: !!latitude && !!longitude
   });
@@ -43,7 +45,7 @@ export default function NearbySearchResults() {
   // Process laundromat data
   const laundromats = React.useMemo(() => {
     // First, ensure we have an array of laundromats to work with
-    const laundromatArray = Array.isArray(data) ? data : [];
+    const laundromatArray = data?.items || [];
     console.log("Laundromat array length:", laundromatArray.length);
     
     if (laundromatArray.length === 0) {
@@ -77,6 +79,11 @@ export default function NearbySearchResults() {
       return distA - distB;
     });
   }, [data, userLocation]);
+  
+  // Count the results as search impressions for the listings shown
+  useEffect(() => {
+    if (data?.items.length) trackSearchImpressions(data.items.map(laundromat => laundromat.id));
+  }, [data]);
 
   // Render SEO metadata
   const renderMeta = () => {
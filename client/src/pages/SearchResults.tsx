@@ -11,9 +11,20 @@ import SchemaMarkup from '@/components/SchemaMarkup';
 import MetaTags from '@/components/MetaTags';
 import ApiErrorDisplay from '@/components/ApiErrorDisplay';
 import Footer from '@/components/Footer';
-import { Laundromat, Filter } from '@/types/laundromat';
+import CursorPagination from '@/components/CursorPagination';
+import { useCursorPagination } from '@/hooks/useCursorPagination';
+import { Laundromat, Filter, FacetCounts, FacetedPage } from '@/types/laundromat';
 import { saveLastLocation, saveRecentSearch } from '@/lib/storage';
-import { isZipCode, hasFallbackDataForZip, getFallbackDataForZip } from '@/lib/zipFallbackData';
+import { trackSearchImpressions } from '@/lib/listingEvents';
+import { isZipCode, hasFallbackDataForZip, getFallbackDataForZip, FallbackLaundromat } from '@/lib/zipFallbackData';
+
+// Matches the default page size of GET /api/laundromats
+const SEARCH_PAGE_SIZE = 20;
+
+// A hard-coded ZIP code listing in the shape search results come in
+function fallbackToLaundromat({ createdAt, ...fallback }: FallbackLaundromat): Laundromat {
+  return { ...fallback, createdAt: createdAt ?? undefined };
+}
 
 const SearchResults = () => {
   const [location] = useLocation();
@@ -72,7 +83,9 @@ const SearchResults = () => {
   const fallbackLaundromat = hasFallbackData ? getFallbackDataForZip(searchQuery) : null;
   
   // Initialize with fallback data if available
-  const initialData = fallbackLaundromat ? [fallbackLaundromat] : [];
+  const initialData: FacetedPage<Laundromat> = fallbackLaundromat
+    ? { items: [fallbackToLaundromat(fallbackLaundromat)], total: 1, nextCursor: null }
+    : { items: [], total: 0, nextCursor: null };
   
   // Check if we have coordinates from a ZIP search
   const hasSearchCoordinates = !!(searchParams.get('lat') && searchParams.get('lng'));
@@ -88,57 +101,71 @@ const SearchResults = () => {
     }
   }, [hasFallbackData, fallbackLaundromat, isZipSearch, hasSearchCoordinates, searchQuery]);
   
+  const searchKey = { 
+    q: searchParams.get('q') || searchParams.get('location') || '',
+    lat: searchParams.get('lat') || undefined,
+    lng: searchParams.get('lng') || undefined,
+    ...filters
+  };
+  
+  // Start from the first page whenever the search or filters change
+  const pagination = useCursorPagination(JSON.stringify(searchKey));
+  
   const { 
-    data: laundromats = initialData, 
+    data: searchPage = initialData, 
     isLoading,
     error: searchError,
     refetch: refetchSearch 
-  } = useQuery<Laundromat[]>({
-    queryKey: ['/api/laundromats', { 
-      q: searchParams.get('q') || searchParams.get('location') || '',
-      lat: searchParams.get('lat') || undefined,
-      lng: searchParams.get('lng') || undefined,
-      ...filters
-    }],
-    queryFn: async ({ queryKey }) => {
+  } = useQuery<FacetedPage<Laundromat>>({
+    queryKey: ['/api/laundromats', { ...searchKey, cursor: pagination.cursor }],
+    queryFn: async ({ queryKey }): Promise<FacetedPage<Laundromat>> => {
       const [, params] = queryKey as [string, any];
       
       // If we're using the ZIP fallback system and have fallback data for this ZIP
       const query = params.q as string;
       if (useZipFallback && query && isZipCode(query) && hasFallbackDataForZip(query)) {
         console.log(`Using fallback data for ZIP ${query}`);
-        return [getFallbackDataForZip(query)!];
+        return { items: [fallbackToLaundromat(getFallbackDataForZip(query)!)], total: 1, nextCursor: null };
       }
       
       const queryParams = new URLSearchParams();
       if (query) queryParams.append('q', query);
+      if (params.cursor) queryParams.append('cursor', params.cursor);
       if (params.lat && params.lng) {
         queryParams.append('lat', String(params.lat));
         queryParams.append('lng', String(params.lng));
       }
       if (params.openNow) queryParams.append('openNow', 'true');
       if (params.services?.length) queryParams.append('services', params.services.join(','));
-      if (params.rating) queryParams.append('rating', String(params.rating));
+      if (params.amenities?.length) queryParams.append('amenities', params.amenities.join(','));
+      if (params.paymentOptions?.length) queryParams.append('paymentOptions', params.paymentOptions.join(','));
+      if (params.rating) queryParams.append('minRating', String(params.rating));
+      if (params.minMachines) queryParams.append('minMachines', String(params.minMachines));
+      if (params.verified) queryParams.append('verified', 'true');
+      if (params.minPrice) queryParams.append('minPrice', String(params.minPrice));
+      if (params.maxPrice) queryParams.append('maxPrice', String(params.maxPrice));
+      // Counts for the filter buttons
+      if (!params.cursor) queryParams.append('facets', 'true');
       
       const response = await fetch(`/api/laundromats?${queryParams.toString()}`);
       if (!response.ok) throw new Error('Failed to fetch laundromats');
-      const responseData = await response.json();
+      const responseData: FacetedPage<Laundromat> = await response.json();
       
       // If we have an empty result for a ZIP code, check if we have fallback data
-      if (responseData.length === 0 && query && isZipCode(query) && hasFallbackDataForZip(query)) {
+      if (responseData.total === 0 && query && isZipCode(query) && hasFallbackDataForZip(query)) {
         console.log(`No results from API for ZIP ${query}, using fallback data`);
-        return [getFallbackDataForZip(query)!];
+        return { items: [fallbackToLaundromat(getFallbackDataForZip(query)!)], total: 1, nextCursor: null };
       }
       
-      // If we have results but none in the exact ZIP code, add fallback data
-      if (responseData.length > 0 && query && isZipCode(query) && hasFallbackDataForZip(query)) {
+      // If we have results but none in the exact ZIP code, add fallback data to the first page
+      if (responseData.items.length > 0 && !params.cursor && query && isZipCode(query) && hasFallbackDataForZip(query)) {
         // Check if any result has the exact ZIP code
-        const hasExactZipMatch = responseData.some(item => item.zip === query);
+        const hasExactZipMatch = responseData.items.some(item => item.zip === query);
         
         if (!hasExactZipMatch) {
           console.log(`Adding fallback data for ZIP ${query} to complement existing results`);
-          const fallbackData = getFallbackDataForZip(query)!;
-          return [...responseData, fallbackData];
+          const fallbackData = fallbackToLaundromat(getFallbackDataForZip(query)!);
+          return { ...responseData, items: [...responseData.items, fallbackData] };
         }
       }
       
@@ -148,6 +175,21 @@ const SearchResults = () => {
     enabled: !!searchParams.get('location') || !!(searchParams.get('lat') && searchParams.get('lng')) || !!searchParams.get('q')
   });
   
+  const laundromats = searchPage.items;
+  
+  // Count each page of results once as search impressions for the listings on it
+  const resultIds = laundromats.map((laundromat: Laundromat) => laundromat.id).join(',');
+  useEffect(() => {
+    if (resultIds) trackSearchImpressions(resultIds.split(',').map(Number));
+  }, [resultIds]);
+  
+  // Facets only come back with the first page, so keep the last counts while paging
+  const pageFacets = (searchPage as FacetedPage<Laundromat>).facets;
+  const [facets, setFacets] = useState<FacetCounts | undefined>();
+  useEffect(() => {
+    if (pageFacets) setFacets(pageFacets);
+  }, [pageFacets]);
+  
   const handleFilterChange = (newFilters: Filter) => {
     setFilters(newFilters);
   };
@@ -182,6 +224,7 @@ const SearchResults = () => {
         <FilterSection 
           onFilterChange={handleFilterChange} 
           currentLocation={currentLocation} 
+          facets={facets}
         />
         
         <div className="flex flex-col lg:flex-row gap-8">
@@ -189,7 +232,7 @@ const SearchResults = () => {
             {/* Search Results */}
             <section>
               <h2 className="text-2xl font-bold mb-4">
-                {isLoading ? 'Searching...' : `Found ${laundromats.length} Laundromats`}
+                {isLoading ? 'Searching...' : `Found ${searchPage.total} Laundromats`}
               </h2>
               
               {isLoading ? (
@@ -323,6 +366,14 @@ const SearchResults = () => {
                       </div>
                     ))}
                   </div>
+                  
+                  <CursorPagination
+                    className="mt-6"
+                    pagination={pagination}
+                    nextCursor={searchPage.nextCursor}
+                    total={searchPage.total}
+                    pageSize={SEARCH_PAGE_SIZE}
+                  />
                 </>
               )}
             </section>
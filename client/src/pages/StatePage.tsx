@@ -7,9 +7,14 @@ import SchemaMarkup from '@/components/SchemaMarkup';
 import MetaTags from '@/components/MetaTags';
 import ApiErrorDisplay from '@/components/ApiErrorDisplay';
 import Footer from '@/components/Footer';
-import { State, City, Laundromat } from '@/types/laundromat';
+import CursorPagination from '@/components/CursorPagination';
+import { useCursorPagination } from '@/hooks/useCursorPagination';
+import { State, City, Laundromat, Page } from '@/types/laundromat';
 import { generateStatePageContent } from '@/lib/seo';
 
+// Matches the default page size of GET /api/states/:abbr/cities
+const CITIES_PAGE_SIZE = 100;
+
 const StatePage = () => {
   const { state: stateSlug } = useParams();
   const [stateData, setStateData] = useState<State | null>(null);
@@ -33,27 +38,40 @@ const StatePage = () => {
     }
   }, [stateInfo]);
   
-  // Fetch cities in this state
+  // Fetch cities in this state, one page at a time
+  const pagination = useCursorPagination(stateSlug || '');
+  const cursorParam = pagination.cursor ? `?cursor=${encodeURIComponent(pagination.cursor)}` : '';
+  
   const { 
-    data: cities = [], 
+    data: citiesPage, 
     isLoading: isCitiesLoading,
     error: citiesError,
     refetch: refetchCities
-  } = useQuery<City[]>({
-    queryKey: [stateData ? `/api/states/${stateData.abbr}/cities` : null],
+  } = useQuery<Page<City>>({
+    queryKey: [stateData ? `/api/states/${stateData.abbr}/cities${cursorParam}` : null],
     enabled: !!stateData && !!stateData.abbr,
     retry: 3,
     retryDelay: 1000
   });
+  const cities = citiesPage?.items || [];
+  const totalCities = citiesPage?.total || 0;
+  
+  // Cities with the most laundromats (the endpoint sorts by laundromat count)
+  const { data: popularCitiesPage } = useQuery<Page<City>>({
+    queryKey: [stateData ? `/api/states/${stateData.abbr}/cities?limit=8` : null],
+    enabled: !!stateData && !!stateData.abbr
+  });
+  const popularCities = popularCitiesPage?.items || [];
   
   // Fetch laundromats in this state for SEO content generation
   const {
-    data: laundromats = [],
+    data: laundromatsPage,
     isLoading: isLaundromatsLoading
-  } = useQuery<Laundromat[]>({
+  } = useQuery<Page<Laundromat>>({
     queryKey: [stateData ? `/api/laundromats?state=${stateData.abbr}` : null],
     enabled: !!stateData,
   });
+  const laundromats = laundromatsPage?.items || [];
   
   // Generate dynamic SEO content
   const seoContent = useMemo(() => {
@@ -188,7 +206,7 @@ const StatePage = () => {
             __html: seoContent?.intro || `
               <p>Find the best laundromats in ${stateName} with our comprehensive directory. 
               Browse ${stateData?.laundryCount || '100+'} coin-operated, 24-hour, and self-service 
-              laundry locations across ${cities.length} cities.</p>
+              laundry locations across ${totalCities} cities.</p>
             `}} 
           />
         </div>
@@ -215,14 +233,12 @@ const StatePage = () => {
                   />
                 </div>
               </div>
-            ) : cities.length === 0 ? (
+            ) : popularCities.length === 0 ? (
               <div className="col-span-full bg-white rounded-lg p-8 text-center border">
                 <p className="text-gray-600">No cities found for this state. Please try another state.</p>
               </div>
             ) : (
-              cities
-                .sort((a, b) => (b.laundryCount || 0) - (a.laundryCount || 0))
-                .slice(0, 8)
+              popularCities
                 .map(city => (
                   <Link 
                     key={city.id}
@@ -288,6 +304,14 @@ const StatePage = () => {
                       </div>
                     ))}
                   </div>
+                  
+                  <CursorPagination
+                    className="mt-6"
+                    pagination={pagination}
+                    nextCursor={citiesPage?.nextCursor}
+                    total={totalCities}
+                    pageSize={CITIES_PAGE_SIZE}
+                  />
                 </div>
               )}
             </section>
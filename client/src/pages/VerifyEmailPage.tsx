@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link } from 'wouter';
+import { useQueryClient } from '@tanstack/react-query';
+import { apiRequest, getApiErrorMessage } from '@/lib/queryClient';
+import { useCurrentUser } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+
+// UI Components
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { CheckCircle2, Loader2, XCircle } from 'lucide-react';
+
+type VerifyStatus = 'verifying' | 'verified' | 'failed';
+
+export default function VerifyEmailPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: userData } = useCurrentUser();
+  const [status, setStatus] = useState<VerifyStatus>('verifying');
+  const [message, setMessage] = useState('');
+  const [isResending, setIsResending] = useState(false);
+  // Tokens are single use, so only submit once even if the effect runs twice
+  const submitted = useRef(false);
+
+  const token = new URLSearchParams(window.location.search).get('token');
+
+  useEffect(() => {
+    if (submitted.current) return;
+    submitted.current = true;
+
+    if (!token) {
+      setStatus('failed');
+      setMessage('This verification link is incomplete. Please use the link from your email.');
+      return;
+    }
+
+    apiRequest('POST', '/api/auth/verify-email', { token })
+      .then(() => {
+        setStatus('verified');
+        queryClient.invalidateQueries({ queryKey: ['/api/auth/me'] });
+      })
+      .catch(error => {
+        setStatus('failed');
+        setMessage(getApiErrorMessage(error, 'This verification link is invalid or has expired.'));
+      });
+  }, [token, queryClient]);
+
+  const resendVerification = async () => {
+    setIsResending(true);
+    try {
+      const response = await apiRequest('POST', '/api/auth/verify-email/request');
+      const data = await response.json();
+      toast({ title: "Verification Email", description: data.message });
+    } catch (error) {
+      toast({
+        title: "Request Failed",
+        description: getApiErrorMessage(error, "Could not send a verification email. Please try again."),
+        variant: "destructive"
+      });
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-md">
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold text-center">Email Verification</CardTitle>
+          <CardDescription className="text-center">Confirming your email address</CardDescription>
+        </CardHeader>
+        <CardContent className="text-center space-y-3">
+          {status === 'verifying' && (
+            <Loader2 className="h-10 w-10 text-primary mx-auto animate-spin" />
+          )}
+          {status === 'verified' && (
+            <>
+              <CheckCircle2 className="h-10 w-10 text-green-600 mx-auto" />
+              <p className="text-sm text-gray-600">Thanks! Your email address has been verified.</p>
+            </>
+          )}
+          {status === 'failed' && (
+            <>
+              <XCircle className="h-10 w-10 text-red-600 mx-auto" />
+              <p className="text-sm text-gray-600">{message}</p>
+              {userData?.user && (
+                <Button variant="outline" onClick={resendVerification} disabled={isResending}>
+                  {isResending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Send a new link
+                </Button>
+              )}
+            </>
+          )}
+        </CardContent>
+        <CardFooter className="justify-center">
+          <Link href={userData?.user ? '/' : '/login'} className="text-sm text-primary hover:underline">
+            {userData?.user ? 'Continue to LaundryLocator' : 'Go to login'}
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
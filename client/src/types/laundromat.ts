@@ -1,3 +1,13 @@
+import type { StructuredHours } from '@shared/hours';
+import type { LaundromatFilters } from '@shared/filters';
+import type { SubRatingAggregates, SubRatings } from '@shared/reviews';
+
+// Paginated list response: { items, total, nextCursor }
+export type { Page } from '@shared/pagination';
+
+// Search results with facet counts: { items, total, nextCursor, facets }
+export type { FacetCounts, FacetedPage } from '@shared/filters';
+
 // User types
 export interface User {
   id: number;
@@ -64,6 +74,8 @@ export interface Laundromat {
   rating?: string | null;
   reviewCount?: number;
   hours: string;
+  hoursStructured?: StructuredHours | null;
+  hours_structured?: StructuredHours | null;
   services: string[];
   imageUrl?: string | null;
   description?: string | null;
@@ -72,6 +84,9 @@ export interface Laundromat {
   // Text-based Places data (to replace direct API calls)
   places_text_data?: PlacesTextData;
   
+  // Per-dimension averages of approved reviews (detail API only)
+  sub_ratings?: SubRatingAggregates | null;
+  
   // Nearby places from Google API
   nearby_places?: {
     restaurants?: NearbyPlace[];
@@ -126,6 +141,7 @@ export interface Laundromat {
   isFeatured?: boolean;
   isPremium?: boolean;
   subscriptionActive?: boolean;
+  subscriptionStatus?: string | null;
   subscriptionExpiry?: Date | null;
   featuredRank?: number | null;
   promotionalText?: string | null;
@@ -146,21 +162,53 @@ export interface Laundromat {
   createdAt?: Date;
 }
 
+// Map viewport types (GET /api/laundromats/within)
+export interface MapViewport {
+  ne: { lat: number; lng: number };
+  sw: { lat: number; lng: number };
+  zoom: number;
+}
+
+export interface LaundromatCluster {
+  id: string;
+  count: number;
+  position: { lat: number; lng: number };
+  bounds: { north: number; south: number; east: number; west: number };
+}
+
+export interface ViewportResult {
+  zoom: number;
+  clustered: boolean;
+  total: number;
+  truncated?: boolean;
+  clusters: LaundromatCluster[];
+  laundromats: Laundromat[];
+}
+
 // Review types
-export interface Review {
+export interface ReviewPhoto {
+  id: number;
+  url: string;
+}
+
+export interface Review extends SubRatings {
   id: number;
   laundryId: number;
-  userId: number;
   rating: number;
   comment?: string | null;
+  photos?: ReviewPhoto[];
   createdAt?: Date;
+  updatedAt?: Date;
+  ownerReply?: string | null;
+  ownerReplyAt?: Date | null;
+  // Only on the author's own review
+  status?: 'pending' | 'approved' | 'rejected' | 'flagged';
 }
 
 // Filter interface
-export interface Filter {
+export interface Filter extends LaundromatFilters {
   openNow?: boolean;
   rating?: number;
-  services?: string[];
   [key: string]: any;
 }
 
@@ -8,6 +8,8 @@ export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "postgresql",
+  // Leave PostGIS-owned tables such as spatial_ref_sys alone on push
+  extensionsFilters: ["postgis"],
   dbCredentials: {
     url: process.env.DATABASE_URL,
   },
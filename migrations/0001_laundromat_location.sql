@@ -0,0 +1,60 @@
+-- PostGIS location column for laundromats
+--
+-- Adds a geography point built from the text latitude/longitude columns,
+-- a GiST index for radius / nearest / bounding-box searches (see server/geo.ts),
+-- and a trigger that keeps the point in sync whenever latitude or longitude change.
+-- Safe to run more than once.
+
+CREATE EXTENSION IF NOT EXISTS postgis;
+
+ALTER TABLE laundromats
+  ADD COLUMN IF NOT EXISTS location geography(Point, 4326);
+
+-- Build a point from the text coordinates, ignoring blanks, garbage and the 0,0 placeholder
+CREATE OR REPLACE FUNCTION laundromat_point(lat text, lng text)
+RETURNS geography AS $$
+DECLARE
+  lat_value double precision;
+  lng_value double precision;
+BEGIN
+  IF lat IS NULL OR lng IS NULL
+     OR btrim(lat) !~ '^-?[0-9]+(\.[0-9]+)?$'
+     OR btrim(lng) !~ '^-?[0-9]+(\.[0-9]+)?$' THEN
+    RETURN NULL;
+  END IF;
+
+  lat_value := btrim(lat)::double precision;
+  lng_value := btrim(lng)::double precision;
+
+  IF lat_value NOT BETWEEN -90 AND 90
+     OR lng_value NOT BETWEEN -180 AND 180
+     OR (lat_value = 0 AND lng_value = 0) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN ST_SetSRID(ST_MakePoint(lng_value, lat_value), 4326)::geography;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION laundromats_sync_location()
+RETURNS trigger AS $$
+BEGIN
+  NEW.location := laundromat_point(NEW.latitude, NEW.longitude);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS laundromats_sync_location ON laundromats;
+CREATE TRIGGER laundromats_sync_location
+  BEFORE INSERT OR UPDATE OF latitude, longitude ON laundromats
+  FOR EACH ROW EXECUTE FUNCTION laundromats_sync_location();
+
+-- Backfill existing rows
+UPDATE laundromats
+SET location = laundromat_point(latitude, longitude)
+WHERE location IS NULL;
+
+CREATE INDEX IF NOT EXISTS laundromats_location_idx
+  ON laundromats USING gist (location);
+
+ANALYZE laundromats;
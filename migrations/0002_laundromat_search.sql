@@ -0,0 +1,64 @@
+-- Full-text and fuzzy search for laundromats
+--
+-- Adds a weighted tsvector document (name > city/state/zip > address > services/amenities),
+-- trigram indexes on name and city for typo-tolerant matching, and a trigger that
+-- rebuilds the document whenever a searchable column changes. Queried by server/search.ts.
+-- Safe to run more than once.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE laundromats
+  ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+-- Join a jsonb array of strings, ignoring anything that isn't an array
+CREATE OR REPLACE FUNCTION laundromat_jsonb_text(value jsonb)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(value) = 'array'
+      THEN (SELECT string_agg(item, ' ') FROM jsonb_array_elements_text(value) AS item)
+    ELSE ''
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION laundromat_search_document(
+  name text, address text, city text, state text, zip text, services jsonb, amenities jsonb
+)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(city, '') || ' ' || coalesce(state, '') || ' ' || coalesce(zip, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(address, '')), 'C') ||
+    setweight(to_tsvector('english',
+      coalesce(laundromat_jsonb_text(services), '') || ' ' || coalesce(laundromat_jsonb_text(amenities), '')), 'D');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION laundromats_sync_search_vector()
+RETURNS trigger AS $$
+BEGIN
+  NEW.search_vector := laundromat_search_document(
+    NEW.name, NEW.address, NEW.city, NEW.state, NEW.zip, NEW.services, NEW.amenities
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS laundromats_sync_search_vector ON laundromats;
+CREATE TRIGGER laundromats_sync_search_vector
+  BEFORE INSERT OR UPDATE OF name, address, city, state, zip, services, amenities ON laundromats
+  FOR EACH ROW EXECUTE FUNCTION laundromats_sync_search_vector();
+
+-- Backfill existing rows
+UPDATE laundromats
+SET search_vector = laundromat_search_document(name, address, city, state, zip, services, amenities)
+WHERE search_vector IS NULL;
+
+CREATE INDEX IF NOT EXISTS laundromats_search_vector_idx
+  ON laundromats USING gin (search_vector);
+
+CREATE INDEX IF NOT EXISTS laundromats_name_trgm_idx
+  ON laundromats USING gin (name gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS laundromats_city_trgm_idx
+  ON laundromats USING gin (city gin_trgm_ops);
+
+ANALYZE laundromats;
@@ -0,0 +1,34 @@
+-- Faceted search filters for laundromats
+--
+-- Adds a price level column (1 = $ to 4 = $$$$, backfilled from the Google Places
+-- price_level where we have one) and jsonb_path_ops GIN indexes so the services,
+-- amenities and payment option filters in server/filters.ts can use containment (@>).
+-- Safe to run more than once.
+
+ALTER TABLE laundromats
+  ADD COLUMN IF NOT EXISTS price_level smallint;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'laundromats_price_level_check'
+  ) THEN
+    ALTER TABLE laundromats
+      ADD CONSTRAINT laundromats_price_level_check CHECK (price_level BETWEEN 1 AND 4);
+  END IF;
+END $$;
+
+-- Google uses 0 (free) to 4 (very expensive); free and inexpensive both become $
+UPDATE laundromats
+SET price_level = GREATEST((google_data->>'price_level')::int, 1)
+WHERE price_level IS NULL
+  AND google_data->>'price_level' ~ '^[0-4]$';
+
+CREATE INDEX IF NOT EXISTS laundromats_services_idx
+  ON laundromats USING gin (services jsonb_path_ops);
+
+CREATE INDEX IF NOT EXISTS laundromats_amenities_idx
+  ON laundromats USING gin (amenities jsonb_path_ops);
+
+CREATE INDEX IF NOT EXISTS laundromats_payment_options_idx
+  ON laundromats USING gin (payment_options jsonb_path_ops);
@@ -0,0 +1,61 @@
+-- Review moderation, one review per user per laundromat, reports and owner replies
+--
+-- Reviews written before moderation existed were already public, so they are
+-- marked approved; new reviews start out pending. Where a user reviewed the same
+-- laundromat more than once, only their latest review is kept. Ratings are then
+-- recomputed from approved reviews. Safe to run more than once, and before
+-- `npm run db:push` when the reviews table has duplicates.
+
+ALTER TABLE reviews
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'approved',
+  ADD COLUMN IF NOT EXISTS moderation_reasons jsonb,
+  ADD COLUMN IF NOT EXISTS moderated_by integer REFERENCES users(id),
+  ADD COLUMN IF NOT EXISTS moderated_at timestamp,
+  ADD COLUMN IF NOT EXISTS report_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS owner_reply text,
+  ADD COLUMN IF NOT EXISTS owner_reply_at timestamp,
+  ADD COLUMN IF NOT EXISTS updated_at timestamp DEFAULT NOW();
+
+ALTER TABLE reviews
+  ALTER COLUMN status SET DEFAULT 'pending';
+
+DELETE FROM reviews r
+USING reviews newer
+WHERE newer.user_id = r.user_id
+  AND newer.laundry_id = r.laundry_id
+  AND (newer.created_at, newer.id) > (r.created_at, r.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS reviews_user_laundry_idx
+  ON reviews (user_id, laundry_id);
+
+CREATE INDEX IF NOT EXISTS reviews_laundry_status_idx
+  ON reviews (laundry_id, status);
+
+CREATE INDEX IF NOT EXISTS reviews_status_idx
+  ON reviews (status);
+
+CREATE TABLE IF NOT EXISTS review_reports (
+  id serial PRIMARY KEY,
+  review_id integer NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+  user_id integer NOT NULL REFERENCES users(id),
+  reason text NOT NULL,
+  details text,
+  created_at timestamp DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS review_reports_review_user_idx
+  ON review_reports (review_id, user_id);
+
+-- Only listings with approved reviews of our own; the rest keep their imported rating
+UPDATE laundromats l
+SET rating = agg.rating,
+    review_count = agg.review_count
+FROM (
+  SELECT laundry_id,
+         ROUND(AVG(rating), 1)::text AS rating,
+         COUNT(*)::int AS review_count
+  FROM reviews
+  WHERE status = 'approved'
+  GROUP BY laundry_id
+) agg
+WHERE l.id = agg.laundry_id;
@@ -0,0 +1,56 @@
+-- Slug history for laundromats, cities, states and laundry tips
+--
+-- Whenever a row's slug changes, whether from the app or a script, a trigger records
+-- the old slug in slug_history so its URLs can redirect to the current slug (see
+-- server/slug-history.ts). A slug that comes back into use for the same kind of page
+-- is dropped from the history. Safe to run more than once.
+
+CREATE TABLE IF NOT EXISTS slug_history (
+  id serial PRIMARY KEY,
+  entity_type text NOT NULL,
+  entity_id integer NOT NULL,
+  slug text NOT NULL,
+  created_at timestamp DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS slug_history_type_slug_idx
+  ON slug_history (entity_type, slug);
+CREATE INDEX IF NOT EXISTS slug_history_entity_idx
+  ON slug_history (entity_type, entity_id);
+
+-- TG_ARGV[0] is the entity type: 'laundromat', 'city', 'state' or 'tip'
+CREATE OR REPLACE FUNCTION record_slug_change()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.slug IS DISTINCT FROM OLD.slug THEN
+    INSERT INTO slug_history (entity_type, entity_id, slug)
+    VALUES (TG_ARGV[0], OLD.id, OLD.slug)
+    ON CONFLICT (entity_type, slug) DO UPDATE
+      SET entity_id = EXCLUDED.entity_id, created_at = NOW();
+
+    DELETE FROM slug_history
+    WHERE entity_type = TG_ARGV[0] AND slug = NEW.slug;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS laundromats_record_slug_change ON laundromats;
+CREATE TRIGGER laundromats_record_slug_change
+  AFTER UPDATE OF slug ON laundromats
+  FOR EACH ROW EXECUTE FUNCTION record_slug_change('laundromat');
+
+DROP TRIGGER IF EXISTS cities_record_slug_change ON cities;
+CREATE TRIGGER cities_record_slug_change
+  AFTER UPDATE OF slug ON cities
+  FOR EACH ROW EXECUTE FUNCTION record_slug_change('city');
+
+DROP TRIGGER IF EXISTS states_record_slug_change ON states;
+CREATE TRIGGER states_record_slug_change
+  AFTER UPDATE OF slug ON states
+  FOR EACH ROW EXECUTE FUNCTION record_slug_change('state');
+
+DROP TRIGGER IF EXISTS laundry_tips_record_slug_change ON laundry_tips;
+CREATE TRIGGER laundry_tips_record_slug_change
+  AFTER UPDATE OF slug ON laundry_tips
+  FOR EACH ROW EXECUTE FUNCTION record_slug_change('tip');
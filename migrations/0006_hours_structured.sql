@@ -0,0 +1,9 @@
+-- Structured opening hours for laundromats
+--
+-- Adds the hours_structured column that the open-now filter and the listing page read
+-- (see shared/hours.ts). New and edited listings fill it in as they're saved; existing
+-- rows stay null until `npm run db:backfill-hours` parses their free-text hours.
+-- Safe to run more than once.
+
+ALTER TABLE laundromats
+  ADD COLUMN IF NOT EXISTS hours_structured jsonb;
@@ -0,0 +1,28 @@
+-- Named favorite lists and one favorite per user per laundromat
+--
+-- Adds favorite_lists and the favorites.list_id column that files a favorite under
+-- a list. Where a user saved the same laundromat more than once, only their first
+-- favorite is kept, so the one-favorite-per-user index can be created. Safe to run
+-- more than once, and before `npm run db:push` when the favorites table has duplicates.
+
+CREATE TABLE IF NOT EXISTS favorite_lists (
+  id serial PRIMARY KEY,
+  user_id integer NOT NULL REFERENCES users(id),
+  name text NOT NULL,
+  created_at timestamp DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS favorite_lists_user_name_idx
+  ON favorite_lists (user_id, name);
+
+ALTER TABLE favorites
+  ADD COLUMN IF NOT EXISTS list_id integer REFERENCES favorite_lists(id) ON DELETE SET NULL;
+
+DELETE FROM favorites f
+USING favorites older
+WHERE older.user_id = f.user_id
+  AND older.laundry_id = f.laundry_id
+  AND (older.created_at, older.id) < (f.created_at, f.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS favorites_user_laundry_idx
+  ON favorites (user_id, laundry_id);
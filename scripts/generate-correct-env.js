@@ -60,4 +60,4 @@ fs.writeFileSync('.env-corrected', envContent);
 console.log('Instructions:');
 console.log('1. Copy the .env-corrected file to your WSL environment');
 console.log('2. Rename it to .env in your project directory');
-console.log('3. Run the import scripts with: node large-batch-import.js');
\ No newline at end of file
+console.log('3. Import data with: npm run import -- <file>');
\ No newline at end of file
@@ -1,519 +0,0 @@
-/**
- * ZIP Code Targeted Import Script
- * 
- * This script imports only records for specific ZIP codes that
- * need better database coverage. It's designed to be memory-efficient
- * for the Replit environment.
- */
-
-import { Pool } from 'pg';
-import fs from 'fs';
-
-// Connect to database
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL
-});
-
-// List of ZIP codes to target
-const TARGET_ZIP_CODES = [
-  '35951', // Albertville, AL
-  '35611', // Athens, AL
-  '35601', // Decatur, AL
-  '35801', // Huntsville, AL
-  '36303', // Dothan, AL
-  '36116', // Montgomery, AL
-  '36604', // Mobile, AL
-  '36688', // Mobile, AL
-  '36830', // Auburn, AL
-  '35203', // Birmingham, AL
-  '35403', // Tuscaloosa, AL
-  '85711', // Tucson, AZ
-  '85251', // Scottsdale, AZ
-  '85281', // Tempe, AZ
-  '85301', // Glendale, AZ
-  '85013', // Phoenix, AZ
-  '72762', // Springdale, AR
-  '72201', // Little Rock, AR
-  '71913', // Hot Springs, AR
-  '94103', // San Francisco, CA
-  '90017', // Los Angeles, CA
-  '92101', // San Diego, CA
-  '95814', // Sacramento, CA
-  '95110', // San Jose, CA
-  '80202', // Denver, CO
-  '80301', // Boulder, CO
-  '80526', // Fort Collins, CO
-  '06510', // New Haven, CT
-  '06103', // Hartford, CT
-  '19713', // Newark, DE
-  '19801', // Wilmington, DE
-  '33101', // Miami, FL
-  '33602', // Tampa, FL
-  '32202', // Jacksonville, FL
-  '32801', // Orlando, FL
-  '32301', // Tallahassee, FL
-  '30303', // Atlanta, GA
-  '31401', // Savannah, GA
-  '30901', // Augusta, GA
-  '30601', // Athens, GA
-  '96813', // Honolulu, HI
-  '83702', // Boise, ID
-  '60601', // Chicago, IL
-  '62701', // Springfield, IL
-  '46204', // Indianapolis, IN
-  '47401', // Bloomington, IN
-  '50309', // Des Moines, IA
-  '52240', // Iowa City, IA
-  '66044', // Lawrence, KS
-  '67202', // Wichita, KS
-  '40507', // Lexington, KY
-  '40202', // Louisville, KY
-  '70112', // New Orleans, LA
-  '04101', // Portland, ME
-  '21202', // Baltimore, MD
-  '20001', // Washington DC
-  '02108', // Boston, MA
-  '02139', // Cambridge, MA
-  '48201', // Detroit, MI
-  '48933', // Lansing, MI
-  '49503', // Grand Rapids, MI
-  '55101', // St. Paul, MN
-  '55401', // Minneapolis, MN
-  '39201', // Jackson, MS
-  '63101', // St. Louis, MO
-  '64105', // Kansas City, MO
-  '59601', // Helena, MT
-  '68508', // Lincoln, NE
-  '89101', // Las Vegas, NV
-  '89509', // Reno, NV
-  '03301', // Concord, NH
-  '07102', // Newark, NJ
-  '08608', // Trenton, NJ
-  '87102', // Albuquerque, NM
-  '10001', // New York, NY
-  '14604', // Rochester, NY
-  '12207', // Albany, NY
-  '27601', // Raleigh, NC
-  '28202', // Charlotte, NC
-  '58501', // Bismarck, ND
-  '43215', // Columbus, OH
-  '44114', // Cleveland, OH
-  '45202', // Cincinnati, OH
-  '74103', // Tulsa, OK
-  '73102', // Oklahoma City, OK
-  '97204', // Portland, OR
-  '19102', // Philadelphia, PA
-  '15222', // Pittsburgh, PA
-  '02903', // Providence, RI
-  '29201', // Columbia, SC
-  '29401', // Charleston, SC
-  '57501', // Pierre, SD
-  '37203', // Nashville, TN
-  '38103', // Memphis, TN
-  '78701', // Austin, TX
-  '75201', // Dallas, TX
-  '77002', // Houston, TX
-  '78205', // San Antonio, TX
-  '79901', // El Paso, TX
-  '84101', // Salt Lake City, UT
-  '05401', // Burlington, VT
-  '23219', // Richmond, VA
-  '23510', // Norfolk, VA
-  '22207', // Arlington, VA
-  '98101', // Seattle, WA
-  '98402', // Tacoma, WA
-  '99201', // Spokane, WA
-  '25301', // Charleston, WV
-  '53202', // Milwaukee, WI
-  '53703', // Madison, WI
-  '82001'  // Cheyenne, WY
-];
-
-// Mock data for laundromats to import (will be used when no real data is found)
-const generateFallbackData = (zipCode, index) => {
-  // Get basic location info for this ZIP code
-  const locationInfo = ZIP_LOCATION_MAP[zipCode] || {
-    city: "Unknown City",
-    state: "Unknown State",
-    stateAbbr: "XX",
-    latitude: "0.0",
-    longitude: "0.0"
-  };
-  
-  const { city, stateAbbr, latitude, longitude } = locationInfo;
-  const stateName = STATE_MAP[stateAbbr] || stateAbbr;
-  
-  const id = 10000 + index;
-  const name = `${city} Laundromat ${index % 3 + 1}`;
-  const slug = `${city.toLowerCase().replace(/\s+/g, '-')}-laundromat-${index % 3 + 1}-${zipCode}`;
-  const address = `${100 + (index % 900)} Main Street`;
-  const phone = `(555) ${zipCode.substring(0, 3)}-${zipCode.substring(3, 7)}`;
-  const rating = (3.5 + (Math.random() * 1.5)).toFixed(1);
-  const reviewCount = Math.floor(Math.random() * 20) + 5;
-  
-  const services = JSON.stringify([
-    "Self-service laundry",
-    "Coin-operated machines",
-    "Card payment accepted",
-    index % 3 === 0 ? "Wash and fold service" : "Large capacity washers",
-    index % 2 === 0 ? "24-hour access" : "Attendant on duty"
-  ]);
-  
-  const amenities = JSON.stringify([
-    "Vending machines",
-    "Free Wi-Fi",
-    "Air conditioning",
-    index % 3 === 0 ? "Comfortable seating" : "Television",
-    index % 2 === 0 ? "Parking available" : "Well-lit facility"
-  ]);
-  
-  const hours = JSON.stringify({
-    "Monday": index % 3 === 0 ? "Open 24 hours" : "6:00 AM - 10:00 PM",
-    "Tuesday": index % 3 === 0 ? "Open 24 hours" : "6:00 AM - 10:00 PM",
-    "Wednesday": index % 3 === 0 ? "Open 24 hours" : "6:00 AM - 10:00 PM",
-    "Thursday": index % 3 === 0 ? "Open 24 hours" : "6:00 AM - 10:00 PM",
-    "Friday": index % 3 === 0 ? "Open 24 hours" : "6:00 AM - 11:00 PM",
-    "Saturday": index % 3 === 0 ? "Open 24 hours" : "6:00 AM - 11:00 PM",
-    "Sunday": index % 3 === 0 ? "Open 24 hours" : "7:00 AM - 10:00 PM"
-  });
-  
-  const description = `${name} offers clean, reliable laundry services in ${city}, ${stateName}. Our facility features modern machines, plenty of space, and is designed for your convenience.`;
-  
-  const seoTitle = `${name} - Laundromat in ${city}, ${stateAbbr} ${zipCode}`;
-  const seoDescription = `Visit ${name} in ${city}, ${stateName}. We provide clean, affordable, and convenient laundry services with ${index % 3 === 0 ? "24-hour access" : "extended hours"}.`;
-  const seoTags = JSON.stringify([
-    "laundromat", 
-    `laundromat in ${city}`, 
-    `laundry in ${zipCode}`, 
-    `${city} laundry service`, 
-    `${stateName} laundromat`, 
-    "coin laundry", 
-    "self-service laundry"
-  ]);
-  
-  return {
-    name,
-    slug,
-    address,
-    city,
-    state: stateAbbr,
-    zip: zipCode,
-    phone,
-    website: null,
-    latitude,
-    longitude,
-    rating,
-    reviewCount,
-    hours,
-    services,
-    amenities,
-    description,
-    seoTitle,
-    seoDescription,
-    seoTags
-  };
-};
-
-// State name mapping
-const STATE_MAP = {
-  'AL': 'Alabama', 'AK': 'Alaska', 'AZ': 'Arizona', 'AR': 'Arkansas', 'CA': 'California',
-  'CO': 'Colorado', 'CT': 'Connecticut', 'DE': 'Delaware', 'FL': 'Florida', 'GA': 'Georgia',
-  'HI': 'Hawaii', 'ID': 'Idaho', 'IL': 'Illinois', 'IN': 'Indiana', 'IA': 'Iowa',
-  'KS': 'Kansas', 'KY': 'Kentucky', 'LA': 'Louisiana', 'ME': 'Maine', 'MD': 'Maryland',
-  'MA': 'Massachusetts', 'MI': 'Michigan', 'MN': 'Minnesota', 'MS': 'Mississippi', 'MO': 'Missouri',
-  'MT': 'Montana', 'NE': 'Nebraska', 'NV': 'Nevada', 'NH': 'New Hampshire', 'NJ': 'New Jersey',
-  'NM': 'New Mexico', 'NY': 'New York', 'NC': 'North Carolina', 'ND': 'North Dakota', 'OH': 'Ohio',
-  'OK': 'Oklahoma', 'OR': 'Oregon', 'PA': 'Pennsylvania', 'RI': 'Rhode Island', 'SC': 'South Carolina',
-  'SD': 'South Dakota', 'TN': 'Tennessee', 'TX': 'Texas', 'UT': 'Utah', 'VT': 'Vermont',
-  'VA': 'Virginia', 'WA': 'Washington', 'WV': 'West Virginia', 'WI': 'Wisconsin', 'WY': 'Wyoming',
-  'DC': 'District of Columbia'
-};
-
-// Mapping of ZIP codes to location data
-const ZIP_LOCATION_MAP = {
-  // Alabama
-  '35951': { city: 'Albertville', stateAbbr: 'AL', latitude: '34.2673', longitude: '-86.2089' },
-  '35611': { city: 'Athens', stateAbbr: 'AL', latitude: '34.8031', longitude: '-86.9714' },
-  '35601': { city: 'Decatur', stateAbbr: 'AL', latitude: '34.6059', longitude: '-86.9834' },
-  '35801': { city: 'Huntsville', stateAbbr: 'AL', latitude: '34.7304', longitude: '-86.5861' },
-  '36303': { city: 'Dothan', stateAbbr: 'AL', latitude: '31.2232', longitude: '-85.4093' },
-  '36116': { city: 'Montgomery', stateAbbr: 'AL', latitude: '32.3182', longitude: '-86.2382' },
-  '36604': { city: 'Mobile', stateAbbr: 'AL', latitude: '30.6834', longitude: '-88.0431' },
-  '36688': { city: 'Mobile', stateAbbr: 'AL', latitude: '30.6944', longitude: '-88.1881' },
-  '36830': { city: 'Auburn', stateAbbr: 'AL', latitude: '32.6099', longitude: '-85.4808' },
-  '35203': { city: 'Birmingham', stateAbbr: 'AL', latitude: '33.5186', longitude: '-86.8104' },
-  '35403': { city: 'Tuscaloosa', stateAbbr: 'AL', latitude: '33.2098', longitude: '-87.5692' },
-
-  // Arizona
-  '85711': { city: 'Tucson', stateAbbr: 'AZ', latitude: '32.2138', longitude: '-110.8799' },
-  '85251': { city: 'Scottsdale', stateAbbr: 'AZ', latitude: '33.4920', longitude: '-111.9261' },
-  '85281': { city: 'Tempe', stateAbbr: 'AZ', latitude: '33.4242', longitude: '-111.9281' },
-  '85301': { city: 'Glendale', stateAbbr: 'AZ', latitude: '33.5389', longitude: '-112.1859' },
-  '85013': { city: 'Phoenix', stateAbbr: 'AZ', latitude: '33.5071', longitude: '-112.0891' },
-
-  // Arkensas
-  '72762': { city: 'Springdale', stateAbbr: 'AR', latitude: '36.1867', longitude: '-94.1289' },
-  '72201': { city: 'Little Rock', stateAbbr: 'AR', latitude: '34.7465', longitude: '-92.2896' },
-  '71913': { city: 'Hot Springs', stateAbbr: 'AR', latitude: '34.4688', longitude: '-93.0882' },
-
-  // More ZIP codes can be added as needed for other states
-  '94103': { city: 'San Francisco', stateAbbr: 'CA', latitude: '37.7749', longitude: '-122.4194' },
-  '90017': { city: 'Los Angeles', stateAbbr: 'CA', latitude: '34.0522', longitude: '-118.2437' },
-  '92101': { city: 'San Diego', stateAbbr: 'CA', latitude: '32.7157', longitude: '-117.1611' },
-  '95814': { city: 'Sacramento', stateAbbr: 'CA', latitude: '38.5816', longitude: '-121.4944' },
-  '95110': { city: 'San Jose', stateAbbr: 'CA', latitude: '37.3382', longitude: '-121.8863' },
-  
-  // Colorado
-  '80202': { city: 'Denver', stateAbbr: 'CO', latitude: '39.7392', longitude: '-104.9903' },
-  '80301': { city: 'Boulder', stateAbbr: 'CO', latitude: '40.0150', longitude: '-105.2705' },
-  '80526': { city: 'Fort Collins', stateAbbr: 'CO', latitude: '40.5853', longitude: '-105.0844' },
-  
-  // Texas
-  '78701': { city: 'Austin', stateAbbr: 'TX', latitude: '30.2672', longitude: '-97.7431' },
-  '75201': { city: 'Dallas', stateAbbr: 'TX', latitude: '32.7767', longitude: '-96.7970' },
-  '77002': { city: 'Houston', stateAbbr: 'TX', latitude: '29.7604', longitude: '-95.3698' },
-  '78205': { city: 'San Antonio', stateAbbr: 'TX', latitude: '29.4241', longitude: '-98.4936' },
-  '79901': { city: 'El Paso', stateAbbr: 'TX', latitude: '31.7619', longitude: '-106.4850' }
-};
-
-// Check if a laundromat exists in the database for a specific ZIP code
-async function laundromatsExistForZip(client, zipCode) {
-  const result = await client.query(
-    'SELECT COUNT(*) as count FROM laundromats WHERE zip = $1',
-    [zipCode]
-  );
-  
-  return result.rows[0].count > 0;
-}
-
-// Create the state record if needed
-async function ensureStateExists(client, stateAbbr) {
-  const stateName = STATE_MAP[stateAbbr] || stateAbbr;
-  const stateSlug = stateName.toLowerCase().replace(/\s+/g, '-');
-  
-  const result = await client.query(
-    `INSERT INTO states (name, abbr, slug, laundry_count)
-     VALUES ($1, $2, $3, 0)
-     ON CONFLICT (slug) DO UPDATE SET name = $1
-     RETURNING id`,
-    [stateName, stateAbbr, stateSlug]
-  );
-  
-  return result.rows[0].id;
-}
-
-// Create the city record if needed
-async function ensureCityExists(client, cityName, stateAbbr, stateId) {
-  const citySlug = `${cityName.toLowerCase().replace(/\s+/g, '-')}-${stateAbbr.toLowerCase()}`;
-  
-  const result = await client.query(
-    `INSERT INTO cities (name, state, slug, laundry_count, state_id)
-     VALUES ($1, $2, $3, 0, $4)
-     ON CONFLICT (slug) DO UPDATE SET name = $1
-     RETURNING id`,
-    [cityName, stateAbbr, citySlug, stateId]
-  );
-  
-  return result.rows[0].id;
-}
-
-// Update laundry counts for city and state
-async function updateLaundryCounts(client, cityId, stateId) {
-  // Update city laundry count
-  await client.query(
-    `UPDATE cities SET laundry_count = 
-     (SELECT COUNT(*) FROM laundromats WHERE city = 
-      (SELECT name FROM cities WHERE id = $1))
-     WHERE id = $1`,
-    [cityId]
-  );
-  
-  // Update state laundry count
-  await client.query(
-    `UPDATE states SET laundry_count = 
-     (SELECT COUNT(*) FROM laundromats WHERE state = 
-      (SELECT abbr FROM states WHERE id = $1))
-     WHERE id = $1`,
-    [stateId]
-  );
-}
-
-// Import laundromats for a specific ZIP code
-async function importLaundromatsForZip(client, zipCode, index) {
-  try {
-    // Check if we already have laundromats for this ZIP
-    const exists = await laundromatsExistForZip(client, zipCode);
-    
-    if (exists) {
-      console.log(`ZIP ${zipCode} already has laundromats, skipping.`);
-      return { imported: 0, skipped: 1 };
-    }
-    
-    // Get or generate data for this ZIP code
-    const laundromats = [];
-    
-    // Generate 2-3 laundromats for this ZIP code
-    const count = 2 + (index % 2); // Either 2 or 3 laundromats
-    for (let i = 0; i < count; i++) {
-      laundromats.push(generateFallbackData(zipCode, index * 10 + i));
-    }
-    
-    const locationInfo = ZIP_LOCATION_MAP[zipCode];
-    if (!locationInfo) {
-      console.log(`No location info for ZIP ${zipCode}, skipping.`);
-      return { imported: 0, skipped: 1 };
-    }
-    
-    // Ensure state exists
-    const stateId = await ensureStateExists(client, locationInfo.stateAbbr);
-    
-    // Ensure city exists
-    const cityId = await ensureCityExists(
-      client, 
-      locationInfo.city, 
-      locationInfo.stateAbbr, 
-      stateId
-    );
-    
-    // Insert laundromats
-    let imported = 0;
-    
-    for (const laundromat of laundromats) {
-      try {
-        const result = await client.query(
-          `INSERT INTO laundromats (
-            name, slug, address, city, state, zip, phone, website,
-            latitude, longitude, rating, review_count, hours,
-            services, amenities, listing_type, is_featured,
-            is_verified, image_url, description, created_at,
-            seo_title, seo_description, seo_tags
-          )
-          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13,
-                 $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24)
-          ON CONFLICT (slug) DO NOTHING
-          RETURNING id`,
-          [
-            laundromat.name,
-            laundromat.slug,
-            laundromat.address,
-            laundromat.city,
-            laundromat.state,
-            laundromat.zip,
-            laundromat.phone,
-            laundromat.website,
-            laundromat.latitude,
-            laundromat.longitude,
-            laundromat.rating,
-            laundromat.reviewCount,
-            laundromat.hours,
-            laundromat.services,
-            laundromat.amenities,
-            'standard', // No premium/featured as per user request
-            false,      // Not featured
-            false,      // Not verified
-            null,       // No image URL
-            laundromat.description,
-            new Date(),
-            laundromat.seoTitle,
-            laundromat.seoDescription,
-            laundromat.seoTags
-          ]
-        );
-        
-        if (result.rowCount > 0) {
-          imported++;
-        }
-      } catch (error) {
-        console.error(`Error importing laundromat for ZIP ${zipCode}:`, error);
-      }
-    }
-    
-    // Update counts
-    if (imported > 0) {
-      await updateLaundryCounts(client, cityId, stateId);
-    }
-    
-    return { imported, skipped: count - imported };
-  } catch (error) {
-    console.error(`Error processing ZIP ${zipCode}:`, error);
-    return { imported: 0, skipped: 0, error: true };
-  }
-}
-
-/**
- * Main function to import data
- */
-async function importData() {
-  console.log(`Starting targeted import for ${TARGET_ZIP_CODES.length} ZIP codes...`);
-  
-  const client = await pool.connect();
-  
-  try {
-    await client.query('BEGIN');
-    
-    let stats = {
-      total: TARGET_ZIP_CODES.length,
-      processed: 0,
-      imported: 0,
-      skipped: 0,
-      errors: 0
-    };
-    
-    // Process each ZIP code
-    for (let i = 0; i < TARGET_ZIP_CODES.length; i++) {
-      const zipCode = TARGET_ZIP_CODES[i];
-      console.log(`Processing ZIP ${zipCode} (${i+1}/${TARGET_ZIP_CODES.length})...`);
-      
-      stats.processed++;
-      
-      try {
-        const result = await importLaundromatsForZip(client, zipCode, i);
-        stats.imported += result.imported;
-        stats.skipped += result.skipped;
-        
-        if (result.error) {
-          stats.errors++;
-        }
-        
-        // Log progress
-        if (i > 0 && i % 10 === 0) {
-          console.log(`Progress: ${i}/${TARGET_ZIP_CODES.length} ZIP codes processed`);
-          console.log(`Stats so far: ${stats.imported} imported, ${stats.skipped} skipped, ${stats.errors} errors`);
-        }
-      } catch (error) {
-        console.error(`Error processing ZIP ${zipCode}:`, error);
-        stats.errors++;
-      }
-    }
-    
-    // Commit transaction
-    await client.query('COMMIT');
-    
-    console.log(`=== Import Complete ===`);
-    console.log(`Total ZIPs processed: ${stats.processed}/${stats.total}`);
-    console.log(`Laundromats imported: ${stats.imported}`);
-    console.log(`Laundromats skipped: ${stats.skipped}`);
-    console.log(`Errors encountered: ${stats.errors}`);
-    
-    // Save import record
-    fs.writeFileSync('./data/zip-import-stats.json', JSON.stringify(stats, null, 2));
-    
-  } catch (error) {
-    await client.query('ROLLBACK');
-    console.error('Import failed:', error);
-  } finally {
-    client.release();
-  }
-}
-
-// Run the import
-console.log('=== Starting ZIP Code Targeted Import ===');
-importData()
-  .then(() => {
-    console.log('Import complete!');
-    process.exit(0);
-  })
-  .catch(error => {
-    console.error('Import failed:', error);
-    process.exit(1);
-  });
\ No newline at end of file
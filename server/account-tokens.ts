@@ -0,0 +1,80 @@
+/**
+ * Account Tokens
+ *
+ * Expiring, single-use tokens for email verification and password reset links.
+ * Tokens are random 32-byte values sent only in the email; the user_tokens table
+ * keeps their SHA-256 hash, so a leaked database can't be used to take over accounts.
+ * Issuing a new token cancels any earlier unused token of the same type.
+ */
+import crypto from 'crypto';
+import { and, eq, gt, isNull, sql } from 'drizzle-orm';
+import { db } from './db';
+import { userTokens } from '@shared/schema';
+
+export type AccountTokenType = 'email_verification' | 'password_reset';
+
+// How long each kind of link stays valid
+export const TOKEN_TTL_MS: Record<AccountTokenType, number> = {
+  email_verification: 24 * 60 * 60 * 1000, // 24 hours
+  password_reset: 60 * 60 * 1000 // 1 hour
+};
+
+// Most tokens of one type a user can be sent per hour
+const MAX_TOKENS_PER_HOUR = 3;
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue a token for the user. Returns null when too many have been requested in the last hour.
+ */
+export async function createAccountToken(userId: number, type: AccountTokenType): Promise<string | null> {
+  const [{ recent }] = await db
+    .select({ recent: sql<number>`count(*)::int` })
+    .from(userTokens)
+    .where(and(
+      eq(userTokens.userId, userId),
+      eq(userTokens.type, type),
+      gt(userTokens.createdAt, new Date(Date.now() - 60 * 60 * 1000))
+    ));
+
+  if (recent >= MAX_TOKENS_PER_HOUR) {
+    return null;
+  }
+
+  // Only the most recent link works
+  await db.update(userTokens)
+    .set({ usedAt: new Date() })
+    .where(and(eq(userTokens.userId, userId), eq(userTokens.type, type), isNull(userTokens.usedAt)));
+
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  await db.insert(userTokens).values({
+    userId,
+    type,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + TOKEN_TTL_MS[type])
+  });
+
+  return token;
+}
+
+/**
+ * Use up a token, returning the id of the user it was issued to,
+ * or null if it is unknown, expired or already used
+ */
+export async function consumeAccountToken(token: string, type: AccountTokenType): Promise<number | null> {
+  // A single conditional update, so the same token can't be used twice concurrently
+  const [used] = await db.update(userTokens)
+    .set({ usedAt: new Date() })
+    .where(and(
+      eq(userTokens.tokenHash, hashToken(token)),
+      eq(userTokens.type, type),
+      isNull(userTokens.usedAt),
+      gt(userTokens.expiresAt, new Date())
+    ))
+    .returning({ userId: userTokens.userId });
+
+  return used ? used.userId : null;
+}
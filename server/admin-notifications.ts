@@ -0,0 +1,172 @@
+/**
+ * Admin Notifications
+ *
+ * The admin inbox at /admin/notifications collects things that need an admin:
+ *   - business_claim: a claim on a listing (see server/claims.ts)
+ *   - subscription:   a failed renewal payment or a cancelled subscription
+ *   - review_report:  a review hidden after enough users reported it
+ * Notifications can be assigned to an admin and carry an audit trail of status
+ * changes, assignments, decisions and internal notes in admin_notification_events.
+ */
+import { and, eq, gte, inArray, isNull, lt, sql, type SQL } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { db, type Transaction } from './db';
+import {
+  adminNotificationEvents,
+  adminNotifications,
+  laundromats,
+  users,
+  type AdminNotification,
+  type AdminNotificationStatus,
+  type AdminNotificationType,
+  type InsertAdminNotification
+} from '@shared/schema';
+
+export const NOTIFICATION_TYPES: AdminNotificationType[] = ['business_claim', 'subscription', 'review_report'];
+export const NOTIFICATION_STATUSES: AdminNotificationStatus[] = ['unread', 'read', 'contacted', 'resolved'];
+
+type Executor = typeof db | Transaction;
+
+export interface NotificationFilters {
+  types?: AdminNotificationType[];
+  statuses?: AdminNotificationStatus[];
+  assignedTo?: number | 'none';
+  from?: Date; // Created on or after
+  to?: Date; // Created before
+}
+
+/**
+ * Record an action on a notification. `actorId` is null for things the system did.
+ */
+export async function logNotificationEvent(
+  notificationId: number,
+  actorId: number | null,
+  action: string,
+  details: { note?: string | null; data?: Record<string, unknown> } = {},
+  executor: Executor = db
+) {
+  const [event] = await executor.insert(adminNotificationEvents).values({
+    notificationId,
+    actorId,
+    action,
+    note: details.note ?? null,
+    data: details.data ?? null,
+  }).returning();
+  return event;
+}
+
+/**
+ * Add a notification to the inbox. Pass the transaction when it belongs with other writes.
+ */
+export async function createNotification(
+  values: Omit<InsertAdminNotification, 'status'>,
+  actorId: number | null = null,
+  executor: Executor = db
+): Promise<AdminNotification> {
+  const [notification] = await executor.insert(adminNotifications)
+    .values({ ...values, status: 'unread' })
+    .returning();
+  await logNotificationEvent(notification.id, actorId, 'created', {}, executor);
+  return notification;
+}
+
+/**
+ * Change a notification's status, logging it unless it is already there
+ */
+export async function setNotificationStatus(
+  notificationId: number,
+  status: AdminNotificationStatus,
+  actorId: number | null,
+  executor: Executor = db
+): Promise<AdminNotification | undefined> {
+  const [current] = await executor.select().from(adminNotifications).where(eq(adminNotifications.id, notificationId));
+  if (!current || current.status === status) return current;
+
+  const [updated] = await executor.update(adminNotifications)
+    .set({ status, updatedAt: new Date() })
+    .where(eq(adminNotifications.id, notificationId))
+    .returning();
+  await logNotificationEvent(notificationId, actorId, 'status', { data: { from: current.status, to: status } }, executor);
+  return updated;
+}
+
+function filterClause(filters: NotificationFilters): SQL | undefined {
+  const conditions: SQL[] = [];
+  if (filters.types?.length) conditions.push(inArray(adminNotifications.type, filters.types));
+  if (filters.statuses?.length) conditions.push(inArray(adminNotifications.status, filters.statuses));
+  if (filters.assignedTo === 'none') conditions.push(isNull(adminNotifications.assignedTo));
+  else if (filters.assignedTo) conditions.push(eq(adminNotifications.assignedTo, filters.assignedTo));
+  if (filters.from) conditions.push(gte(adminNotifications.createdAt, filters.from));
+  if (filters.to) conditions.push(lt(adminNotifications.createdAt, filters.to));
+  return conditions.length ? and(...conditions) : undefined;
+}
+
+/**
+ * One page of the inbox, newest first, with the listing, the user it's about and the assignee
+ */
+export async function listNotifications(filters: NotificationFilters, limit: number, offset: number) {
+  const assignee = alias(users, 'assignee');
+  const where = filterClause(filters);
+
+  const [rows, [{ total }]] = await Promise.all([
+    db.select({
+      notification: adminNotifications,
+      laundromat: {
+        id: laundromats.id,
+        name: laundromats.name,
+        address: laundromats.address,
+        city: laundromats.city,
+        state: laundromats.state,
+        zip: laundromats.zip,
+        slug: laundromats.slug,
+        ownerId: laundromats.ownerId,
+        verified: laundromats.verified
+      },
+      user: { id: users.id, username: users.username, email: users.email },
+      assignee: { id: assignee.id, username: assignee.username },
+    })
+      .from(adminNotifications)
+      .leftJoin(laundromats, eq(laundromats.id, adminNotifications.laundryId))
+      .leftJoin(users, eq(users.id, adminNotifications.userId))
+      .leftJoin(assignee, eq(assignee.id, adminNotifications.assignedTo))
+      .where(where)
+      .orderBy(sql`${adminNotifications.createdAt} DESC`, sql`${adminNotifications.id} DESC`)
+      .limit(limit)
+      .offset(offset),
+    db.select({ total: sql<number>`COUNT(*)::int` }).from(adminNotifications).where(where)
+  ]);
+
+  return {
+    items: rows.map(({ notification, laundromat, user, assignee }) => ({
+      id: notification.id,
+      type: notification.type,
+      status: notification.status,
+      createdAt: notification.createdAt,
+      updatedAt: notification.updatedAt,
+      contact: { email: notification.email || user?.email || '', phone: notification.phone },
+      laundromat,
+      user,
+      assignee: assignee?.id ? assignee : null,
+      formData: notification.data
+    })),
+    total
+  };
+}
+
+/**
+ * A notification's history, oldest first, with who did each thing
+ */
+export async function getNotificationEvents(notificationId: number) {
+  return db.select({
+    id: adminNotificationEvents.id,
+    action: adminNotificationEvents.action,
+    note: adminNotificationEvents.note,
+    data: adminNotificationEvents.data,
+    createdAt: adminNotificationEvents.createdAt,
+    actor: { id: users.id, username: users.username },
+  })
+    .from(adminNotificationEvents)
+    .leftJoin(users, eq(users.id, adminNotificationEvents.actorId))
+    .where(eq(adminNotificationEvents.notificationId, notificationId))
+    .orderBy(adminNotificationEvents.createdAt, adminNotificationEvents.id);
+}
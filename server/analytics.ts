@@ -0,0 +1,241 @@
+/**
+ * Listing Analytics
+ *
+ * Records visitor events from the site (listing views, phone / website / directions
+ * clicks and search impressions) and answers the business dashboard's questions about them.
+ *
+ * Events are cheap to ingest: known bots and scripts are dropped by user agent, each
+ * visitor counts once per listing and event type within DEDUP_WINDOW_MS, and what's left
+ * is added straight onto the daily rollup (listing_daily_stats) - raw events aren't kept.
+ * Views and clicks also bump the lifetime view_count / click_count on the listing.
+ * Events from the listing's own owner aren't counted.
+ *
+ * The dedup window lives in memory, so a restart lets a visitor count again early.
+ */
+import { createHash } from 'crypto';
+import { pool } from './db';
+import {
+  ANALYTICS_EVENT_TYPES,
+  CLICK_EVENT_TYPES,
+  trendPercent,
+  type AnalyticsEventType,
+  type DailyEventCounts,
+  type EventCounts,
+  type ListingAnalytics
+} from '@shared/analytics';
+
+export interface AnalyticsEvent {
+  type: AnalyticsEventType;
+  laundryId: number;
+}
+
+export interface ViewSummary {
+  today: number;
+  thisWeek: number;
+  thisMonth: number;
+  trend: number | null; // Last 7 days against the 7 before
+}
+
+// A visitor counts once per listing and event type in this window
+export const DEDUP_WINDOW_MS = 30 * 60 * 1000;
+
+// Upper bound on remembered (visitor, listing, event) keys
+const MAX_TRACKED_KEYS = 100_000;
+
+// Crawlers, link previewers, uptime checkers and HTTP libraries
+const BOT_PATTERN = /bot|crawl|spider|slurp|mediapartners|facebookexternalhit|embedly|preview|headless|phantomjs|lighthouse|pingdom|uptime|monitor|curl|wget|python-|axios|node-fetch|go-http-client|java\/|okhttp|libwww|httpclient|scrapy/i;
+
+// key -> time (ms) until which repeats are ignored, oldest first
+const recentEvents = new Map<string, number>();
+
+/**
+ * Whether a request looks automated; requests without a user agent count as bots
+ */
+export function isBot(userAgent: string | undefined): boolean {
+  return !userAgent || BOT_PATTERN.test(userAgent);
+}
+
+/**
+ * Stable, non-reversible key for a visitor: the user id when signed in, else a hash of
+ * the IP. The user agent is left out since a client can change it with every request.
+ */
+export function visitorKey(ip: string | undefined, userId?: number): string {
+  if (userId) return `user:${userId}`;
+  return createHash('sha256').update(ip || '').digest('hex').slice(0, 24);
+}
+
+function pruneRecentEvents(now: number) {
+  recentEvents.forEach((expiresAt, key) => {
+    if (expiresAt <= now) recentEvents.delete(key);
+  });
+  // Still full of live keys: forget the oldest rather than grow without bound
+  const keys = recentEvents.keys();
+  while (recentEvents.size > MAX_TRACKED_KEYS) {
+    recentEvents.delete(keys.next().value!);
+  }
+}
+
+function eventKey(event: AnalyticsEvent, visitor: string): string {
+  return `${visitor}:${event.laundryId}:${event.type}`;
+}
+
+/**
+ * The events this visitor hasn't already sent within the dedup window, each once
+ */
+function dedupe(events: AnalyticsEvent[], visitor: string, now = Date.now()): AnalyticsEvent[] {
+  const seen = new Set<string>();
+  return events.filter(event => {
+    const key = eventKey(event, visitor);
+    const expiresAt = recentEvents.get(key);
+    if ((expiresAt && expiresAt > now) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Start the dedup window for events once they've been stored, so a failed
+ * write doesn't stop the visitor's retry from counting
+ */
+function markRecorded(events: AnalyticsEvent[], visitor: string, now = Date.now()) {
+  for (const event of events) {
+    const key = eventKey(event, visitor);
+    // Re-insert so the map stays ordered by expiry
+    recentEvents.delete(key);
+    recentEvents.set(key, now + DEDUP_WINDOW_MS);
+  }
+  if (recentEvents.size > MAX_TRACKED_KEYS) pruneRecentEvents(now);
+}
+
+/**
+ * Add a visitor's events to today's rollup. Returns how many were counted after
+ * deduplication; events for unknown listings, or from the listing's owner, are dropped.
+ */
+export async function recordEvents(events: AnalyticsEvent[], visitor: string, userId?: number): Promise<number> {
+  const fresh = dedupe(events, visitor);
+  if (fresh.length === 0) return 0;
+
+  const laundryIds = fresh.map(event => event.laundryId);
+  const types = fresh.map(event => event.type);
+
+  // One statement: the rollup and the lifetime counters move together
+  const result = await pool.query(`
+    WITH counted AS (
+      -- Events for known listings, minus the owner's own
+      SELECT e.laundry_id, e.event_type
+      FROM unnest($1::int[], $2::text[]) AS e(laundry_id, event_type)
+      JOIN laundromats l ON l.id = e.laundry_id
+      WHERE $3::int IS NULL OR l.owner_id IS DISTINCT FROM $3
+    ),
+    rollup AS (
+      INSERT INTO listing_daily_stats (laundry_id, event_type, day, count)
+      SELECT laundry_id, event_type, CURRENT_DATE, COUNT(*) FROM counted
+      GROUP BY laundry_id, event_type
+      ON CONFLICT (laundry_id, event_type, day)
+      DO UPDATE SET count = listing_daily_stats.count + EXCLUDED.count
+    ),
+    lifetime AS (
+      UPDATE laundromats l
+      SET view_count = COALESCE(l.view_count, 0) + c.views,
+          click_count = COALESCE(l.click_count, 0) + c.clicks,
+          last_viewed = CASE WHEN c.views > 0 THEN NOW() ELSE l.last_viewed END
+      FROM (
+        SELECT laundry_id,
+          COUNT(*) FILTER (WHERE event_type = 'view') AS views,
+          COUNT(*) FILTER (WHERE event_type = ANY($4::text[])) AS clicks
+        FROM counted
+        GROUP BY laundry_id
+      ) c
+      WHERE l.id = c.laundry_id AND (c.views > 0 OR c.clicks > 0)
+    )
+    SELECT COUNT(*) AS counted FROM counted
+  `, [laundryIds, types, userId ?? null, CLICK_EVENT_TYPES]);
+
+  markRecorded(fresh, visitor);
+  return Number(result.rows[0].counted);
+}
+
+function emptyCounts(): EventCounts {
+  return Object.fromEntries(ANALYTICS_EVENT_TYPES.map(type => [type, 0])) as EventCounts;
+}
+
+function sumCounts(days: DailyEventCounts[]): EventCounts {
+  const totals = emptyCounts();
+  for (const day of days) {
+    for (const type of ANALYTICS_EVENT_TYPES) totals[type] += day[type];
+  }
+  return totals;
+}
+
+/**
+ * Daily event counts for the last `days` days (today included), with totals and
+ * trends against the `days` days before that. Several listings are added together.
+ */
+export async function getListingAnalytics(laundryIds: number[], days: number): Promise<ListingAnalytics> {
+  const result = await pool.query(`
+    SELECT to_char(d.day, 'YYYY-MM-DD') AS day, s.event_type, SUM(s.count) AS count
+    FROM generate_series(CURRENT_DATE - ($2::int * 2 - 1), CURRENT_DATE, interval '1 day') AS d(day)
+    LEFT JOIN listing_daily_stats s ON s.day = d.day::date AND s.laundry_id = ANY($1::int[])
+    GROUP BY d.day, s.event_type
+    ORDER BY d.day
+  `, [laundryIds, days]);
+
+  const byDay = new Map<string, DailyEventCounts>();
+  for (const row of result.rows) {
+    let counts = byDay.get(row.day);
+    if (!counts) {
+      counts = { day: row.day, ...emptyCounts() };
+      byDay.set(row.day, counts);
+    }
+    if (row.event_type && ANALYTICS_EVENT_TYPES.includes(row.event_type)) {
+      counts[row.event_type as AnalyticsEventType] = Number(row.count);
+    }
+  }
+
+  const allDays = Array.from(byDay.values());
+  const series = allDays.slice(-days);
+  const totals = sumCounts(series);
+  const previousTotals = sumCounts(allDays.slice(0, allDays.length - days));
+  const trends = Object.fromEntries(ANALYTICS_EVENT_TYPES.map(type => [
+    type,
+    trendPercent(totals[type], previousTotals[type])
+  ])) as ListingAnalytics['trends'];
+
+  return { laundryIds, days, series, totals, previousTotals, trends };
+}
+
+/**
+ * Views today, over the last 7 and 30 days, and the week-on-week trend, for one or more listings together
+ */
+export async function getViewSummary(laundryIds: number[]): Promise<ViewSummary> {
+  const { series } = await getListingAnalytics(laundryIds, 30);
+  const views = series.map(day => day.view);
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  const thisWeek = sum(views.slice(-7));
+
+  return {
+    today: views[views.length - 1] || 0,
+    thisWeek,
+    thisMonth: sum(views),
+    trend: trendPercent(thisWeek, sum(views.slice(-14, -7))),
+  };
+}
+
+/**
+ * Each listing's views over the last 7 days and the 7 before, in one query for an owner's locations
+ */
+export async function getWeeklyViews(laundryIds: number[]): Promise<Map<number, { thisWeek: number; lastWeek: number }>> {
+  const result = await pool.query(`
+    SELECT laundry_id,
+      COALESCE(SUM(count) FILTER (WHERE day > CURRENT_DATE - 7), 0) AS this_week,
+      COALESCE(SUM(count) FILTER (WHERE day <= CURRENT_DATE - 7), 0) AS last_week
+    FROM listing_daily_stats
+    WHERE laundry_id = ANY($1::int[]) AND event_type = 'view' AND day > CURRENT_DATE - 14
+    GROUP BY laundry_id
+  `, [laundryIds]);
+
+  return new Map(result.rows.map(row => [
+    row.laundry_id,
+    { thisWeek: Number(row.this_week), lastWeek: Number(row.last_week) }
+  ]));
+}
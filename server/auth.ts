@@ -1,19 +1,66 @@
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import { storage } from './storage';
-import { type InsertUser } from '@shared/schema';
+import { APP_URL, mailer } from './mail';
+import { createAccountToken, consumeAccountToken, TOKEN_TTL_MS } from './account-tokens';
+import { type InsertUser, type User, type UserRole } from '@shared/schema';
 
-// Secret for JWT signing - in production, use environment variable
-const JWT_SECRET = process.env.JWT_SECRET || 'laundromat-directory-secret-key';
+// Development-only fallback secret; production must set JWT_SECRET
+const DEV_JWT_SECRET = 'laundromat-directory-secret-key';
+
+if (process.env.NODE_ENV === 'production' && (!process.env.JWT_SECRET || process.env.JWT_SECRET === DEV_JWT_SECRET)) {
+  throw new Error(
+    "JWT_SECRET must be set to a private value in production.",
+  );
+}
+
+const JWT_SECRET = process.env.JWT_SECRET || DEV_JWT_SECRET;
 const JWT_EXPIRY = '7d'; // Token expires in 7 days
+const AUTH_COOKIE = 'auth_token';
+const AUTH_COOKIE_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+const MIN_PASSWORD_LENGTH = 6; // Matches the LoginPage form
+
+// Each role can do everything the roles before it can
+const ROLE_RANK: Record<UserRole, number> = {
+  user: 0,
+  owner: 1,
+  admin: 2
+};
+
+/**
+ * Map a stored role onto a known role ('business_owner' is the old name for 'owner')
+ */
+export function normalizeRole(role: string | null | undefined): UserRole {
+  if (role === 'admin') return 'admin';
+  if (role === 'owner' || role === 'business_owner') return 'owner';
+  return 'user';
+}
+
+/**
+ * Sign a session token for the user and set it as the auth cookie
+ */
+export function setAuthCookie(res: Response, user: Pick<User, 'id' | 'username' | 'role'>) {
+  const token = jwt.sign(
+    { id: user.id, username: user.username, role: normalizeRole(user.role) },
+    JWT_SECRET,
+    { expiresIn: JWT_EXPIRY }
+  );
+  
+  res.cookie(AUTH_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: AUTH_COOKIE_MAX_AGE
+  });
+}
 
 /**
  * Register a new user
  */
 export async function registerUser(req: Request, res: Response) {
   try {
-    const { username, email, password, isBusinessOwner = false, role = 'user' } = req.body;
+    const { username, email, password, isBusinessOwner = false } = req.body;
     
     // Validate required fields
     if (!username || !email || !password) {
@@ -23,6 +70,13 @@ export async function registerUser(req: Request, res: Response) {
       });
     }
     
+    if (String(password).length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+      });
+    }
+    
     // Check if username already exists
     const existingUser = await storage.getUserByUsername(username);
     if (existingUser) {
@@ -32,34 +86,39 @@ export async function registerUser(req: Request, res: Response) {
       });
     }
     
+    // Check if email is already registered
+    const existingEmail = await storage.getUserByEmail(email);
+    if (existingEmail) {
+      return res.status(409).json({
+        success: false,
+        message: 'An account with this email already exists'
+      });
+    }
+    
     // Hash the password
     const saltRounds = 10;
     const hashedPassword = await bcrypt.hash(password, saltRounds);
     
-    // Create user in database
+    // Create user in database. The role isn't taken from the request - owners are
+    // promoted when they claim a business and admins are set up by hand.
     const userData: InsertUser = {
       username,
       email,
       password: hashedPassword,
       isBusinessOwner: !!isBusinessOwner,
-      role: role || 'user'
+      role: 'user'
     };
     
     const newUser = await storage.createUser(userData);
     
-    // Generate JWT token
-    const token = jwt.sign(
-      { id: newUser.id, username: newUser.username, role: newUser.role },
-      JWT_SECRET,
-      { expiresIn: JWT_EXPIRY }
-    );
-    
-    // Set JWT as cookie
-    res.cookie('auth_token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
-    });
+    setAuthCookie(res, newUser);
+    
+    // A mail failure shouldn't fail the sign up - the user can ask for another link
+    try {
+      await sendVerificationEmail(newUser);
+    } catch (error) {
+      console.error('Error sending verification email:', error);
+    }
     
     // Return success with user data (excluding password)
     const { password: _, ...userWithoutPassword } = newUser;
@@ -109,19 +168,7 @@ export async function loginUser(req: Request, res: Response) {
       });
     }
     
-    // Generate JWT token
-    const token = jwt.sign(
-      { id: user.id, username: user.username, role: user.role },
-      JWT_SECRET,
-      { expiresIn: JWT_EXPIRY }
-    );
-    
-    // Set JWT as cookie
-    res.cookie('auth_token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
-    });
+    setAuthCookie(res, user);
     
     // Get user's laundromats if they are a business owner
     let laundromats = [];
@@ -169,7 +216,7 @@ export async function demoLogin(req: Request, res: Response) {
       // Set role based on user type
       let role = 'user';
       if (userType === 'owner') {
-        role = 'business_owner';
+        role = 'owner';
       } else if (userType === 'admin') {
         role = 'admin';
       }
@@ -208,19 +255,7 @@ export async function demoLogin(req: Request, res: Response) {
       }
     }
     
-    // Generate JWT token
-    const token = jwt.sign(
-      { id: user.id, username: user.username, role: user.role },
-      JWT_SECRET,
-      { expiresIn: JWT_EXPIRY }
-    );
-    
-    // Set JWT as cookie
-    res.cookie('auth_token', token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
-    });
+    setAuthCookie(res, user);
     
     // Get user's laundromats if they are a business owner
     let laundromats = [];
@@ -249,7 +284,7 @@ export async function demoLogin(req: Request, res: Response) {
  */
 export async function logoutUser(req: Request, res: Response) {
   // Clear the auth cookie
-  res.clearCookie('auth_token');
+  res.clearCookie(AUTH_COOKIE);
   
   return res.json({
     success: true,
@@ -279,7 +314,12 @@ export async function getCurrentUser(req: Request, res: Response) {
         message: 'User not found'
       });
     }
-    
+
+    // The role can change without a new sign-in (e.g. an approved business claim)
+    if (normalizeRole(user.role) !== req.user.role) {
+      setAuthCookie(res, user);
+    }
+
     // Get user's laundromats if they are a business owner
     let laundromats = [];
     if (user.isBusinessOwner) {
@@ -303,44 +343,267 @@ export async function getCurrentUser(req: Request, res: Response) {
 }
 
 /**
- * Middleware to authenticate requests
+ * Email the user a link to verify their address.
+ * Returns false when too many links have been requested recently.
+ */
+async function sendVerificationEmail(user: User): Promise<boolean> {
+  const token = await createAccountToken(user.id, 'email_verification');
+  if (!token) return false;
+  
+  const link = `${APP_URL}/verify-email?token=${encodeURIComponent(token)}`;
+  const hours = TOKEN_TTL_MS.email_verification / (60 * 60 * 1000);
+  
+  await mailer.send({
+    to: user.email,
+    subject: 'Verify your LaundryLocator email address',
+    text: `Hi ${user.username},\n\nPlease confirm your email address by opening this link:\n\n${link}\n\nThe link expires in ${hours} hours. If you didn't create an account, you can ignore this email.`
+  });
+  return true;
+}
+
+/**
+ * Email the user a link to choose a new password.
+ * Returns false when too many links have been requested recently.
+ */
+async function sendPasswordResetEmail(user: User): Promise<boolean> {
+  const token = await createAccountToken(user.id, 'password_reset');
+  if (!token) return false;
+  
+  const link = `${APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+  const minutes = TOKEN_TTL_MS.password_reset / (60 * 1000);
+  
+  await mailer.send({
+    to: user.email,
+    subject: 'Reset your LaundryLocator password',
+    text: `Hi ${user.username},\n\nSomeone asked to reset the password for your account. To choose a new password, open this link:\n\n${link}\n\nThe link expires in ${minutes} minutes. If you didn't ask for this, you can ignore this email - your password won't change.`
+  });
+  return true;
+}
+
+/**
+ * Send the signed-in user a new email verification link
+ */
+export async function requestEmailVerification(req: Request, res: Response) {
+  try {
+    const user = req.user && await storage.getUser(req.user.id);
+    
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+    
+    if (user.emailVerified) {
+      return res.json({
+        success: true,
+        message: 'Your email address is already verified'
+      });
+    }
+    
+    if (!await sendVerificationEmail(user)) {
+      return res.status(429).json({
+        success: false,
+        message: 'Too many verification emails requested. Please try again later.'
+      });
+    }
+    
+    return res.json({
+      success: true,
+      message: `Verification email sent to ${user.email}`
+    });
+  } catch (error) {
+    console.error('Error in requestEmailVerification:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error sending verification email'
+    });
+  }
+}
+
+/**
+ * Mark an email address as verified using the token from a verification link
  */
-export function authenticate(req: Request, res: Response, next: Function) {
+export async function verifyEmail(req: Request, res: Response) {
   try {
-    // Get token from cookies
-    const token = req.cookies.auth_token;
+    const { token } = req.body;
     
     if (!token) {
-      return res.status(401).json({
+      return res.status(400).json({
         success: false,
-        message: 'Authentication required'
+        message: 'Verification token is required'
       });
     }
     
-    // Verify the token
-    const decoded = verify(token, JWT_SECRET);
+    const userId = await consumeAccountToken(String(token), 'email_verification');
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        message: 'This verification link is invalid or has expired'
+      });
+    }
     
-    // Add the user data to the request object
-    req.user = decoded;
+    await storage.updateUser(userId, { emailVerified: true });
     
-    next();
+    return res.json({
+      success: true,
+      message: 'Email address verified'
+    });
   } catch (error) {
-    return res.status(401).json({
+    console.error('Error in verifyEmail:', error);
+    return res.status(500).json({
       success: false,
-      message: 'Invalid or expired token'
+      message: 'Error verifying email'
     });
   }
 }
 
-// Helper to verify JWT token
-function verify(token: string, secret: string): any {
+/**
+ * Email a password reset link. Always reports success, so the response
+ * doesn't reveal which email addresses have accounts.
+ */
+export async function forgotPassword(req: Request, res: Response) {
   try {
-    return jwt.verify(token, secret);
+    const { email } = req.body;
+    
+    if (!email) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email is required'
+      });
+    }
+    
+    const user = await storage.getUserByEmail(String(email).trim());
+    if (user) {
+      const sent = await sendPasswordResetEmail(user);
+      if (!sent) {
+        console.log(`Password reset rate limit reached for user ${user.id}`);
+      }
+    }
+    
+    return res.json({
+      success: true,
+      message: 'If an account exists for that email, we sent a link to reset the password'
+    });
   } catch (error) {
-    throw new Error('Invalid token');
+    console.error('Error in forgotPassword:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error requesting password reset'
+    });
   }
 }
 
+/**
+ * Set a new password using the token from a reset link, and sign the user in
+ */
+export async function resetPassword(req: Request, res: Response) {
+  try {
+    const { token, password } = req.body;
+    
+    if (!token || !password) {
+      return res.status(400).json({
+        success: false,
+        message: 'Token and new password are required'
+      });
+    }
+    
+    if (String(password).length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+      });
+    }
+    
+    const userId = await consumeAccountToken(String(token), 'password_reset');
+    if (!userId) {
+      return res.status(400).json({
+        success: false,
+        message: 'This password reset link is invalid or has expired'
+      });
+    }
+    
+    // Receiving the link also proves the user owns the email address
+    const user = await storage.updateUser(userId, {
+      password: await bcrypt.hash(password, 10),
+      emailVerified: true
+    });
+    
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        message: 'User not found'
+      });
+    }
+    
+    setAuthCookie(res, user);
+    
+    return res.json({
+      success: true,
+      message: 'Your password has been reset'
+    });
+  } catch (error) {
+    console.error('Error in resetPassword:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Error resetting password'
+    });
+  }
+}
+
+/**
+ * Global middleware: sets `req.user` from the auth cookie when it holds a valid
+ * token. Requests without one carry on anonymously; use requireRole to guard routes.
+ */
+export function loadUser(req: Request, res: Response, next: NextFunction) {
+  const token = req.cookies?.[AUTH_COOKIE];
+  
+  if (token) {
+    try {
+      const decoded = jwt.verify(token, JWT_SECRET) as any;
+      req.user = {
+        id: decoded.id,
+        username: decoded.username,
+        role: normalizeRole(decoded.role)
+      };
+    } catch (error) {
+      // Expired or tampered token - drop it so the client stops sending it
+      res.clearCookie(AUTH_COOKIE);
+    }
+  }
+  
+  next();
+}
+
+/**
+ * Middleware to require a signed-in user with at least the given role
+ * ('user' < 'owner' < 'admin')
+ */
+export function requireRole(role: UserRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+    
+    if (ROLE_RANK[normalizeRole(req.user.role)] < ROLE_RANK[role]) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have permission to do this'
+      });
+    }
+    
+    next();
+  };
+}
+
+/**
+ * Middleware to require any signed-in user
+ */
+export const authenticate = requireRole('user');
+
 // Extend the Express Request interface to include user property
 declare global {
   namespace Express {
@@ -348,8 +611,10 @@ declare global {
       user?: {
         id: number;
         username: string;
-        role: string;
+        role: UserRole;
       };
+      // Unparsed JSON request body, see server/index.ts
+      rawBody?: Buffer;
     }
   }
 }
\ No newline at end of file
@@ -1,5 +1,8 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { pool } from './db';
+import { findCurrentSlug } from './slug-history';
+import type { Page } from '@shared/pagination';
+import { PageRequest, parsePageQuery, toPage, withWindowTotal } from './utils/pagination';
 
 export function addCityRoutes(app: Express, apiRouter: string): void {
   // Get city by slug
@@ -8,6 +11,13 @@ export function addCityRoutes(app: Express, apiRouter: string): void {
       const { slug } = req.params;
       console.log(`Looking for city with slug: ${slug}`);
       
+      // Check for a renamed city first, since the name match below is loose enough
+      // to find the wrong city for an old slug
+      const currentSlug = await findCurrentSlug('city', slug);
+      if (currentSlug) {
+        return res.redirect(301, `${apiRouter}/cities/${encodeURIComponent(currentSlug)}`);
+      }
+      
       // Extract city name and state abbreviation from the slug (e.g., "atlanta-ga")
       const parts = slug.split('-');
       let stateAbbr = '';
@@ -78,72 +88,82 @@ export function addCityRoutes(app: Express, apiRouter: string): void {
     try {
       const { id } = req.params;
       
+      let page: PageRequest;
+      try {
+        page = parsePageQuery(req.query, { defaultLimit: 50 });
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+      
+      // Pagination for the lookups below, ordered by rating with id as a stable tie-breaker
+      const pageClause = `
+        ORDER BY 
+          CASE WHEN rating IS NULL THEN 0 ELSE CAST(rating AS FLOAT) END DESC,
+          id ASC
+        LIMIT ${page.limit}
+        OFFSET ${page.offset}
+      `;
+      
       // For direct data access from the database
-      const directDatabaseLookup = async (cityName: string, stateAbbr: string) => {
+      const directDatabaseLookup = async (cityName: string, stateAbbr: string): Promise<Page<any>> => {
         console.log(`Searching for: city=${cityName}, state=${stateAbbr}`);
         
-        // Let's verify what we're searching for
-        console.log(`EXACT LOOKUP - Searching for state=${stateAbbr}, city=${cityName}`);
-        
-        // First try exact match - IMPORTANT! We need to output the SQL we're running
-        let exactQuery = `
-          SELECT * 
+        // First try exact match
+        const exactQuery = `
+          SELECT *, COUNT(*) OVER () AS total_count
           FROM laundromats
           WHERE 
             state = $1 AND 
             city = $2
-          ORDER BY 
-            CASE WHEN rating IS NULL THEN 0 ELSE CAST(rating AS FLOAT) END DESC
-          LIMIT 50
+          ${pageClause}
         `;
         
-        // Print the actual query we're running for debugging
         console.log(`Running exact match query for ${cityName}, ${stateAbbr}`);
         
-        let result = await pool.query(exactQuery, [stateAbbr, cityName]);
-        console.log(`Exact match found ${result.rows.length} laundromats`);
+        let result = withWindowTotal((await pool.query(exactQuery, [stateAbbr, cityName])).rows);
+        console.log(`Exact match found ${result.total} laundromats`);
         
-        if (result.rows.length > 0) {
-          return result.rows;
+        if (result.total > 0) {
+          return toPage(result.items, result.total, page);
         }
         
         // Try fuzzy match
-        let fuzzyQuery = `
-          SELECT * 
+        const fuzzyQuery = `
+          SELECT *, COUNT(*) OVER () AS total_count
           FROM laundromats
           WHERE 
             LOWER(state) = LOWER($1) AND 
             LOWER(city) LIKE LOWER($2)
-          ORDER BY 
-            CASE WHEN rating IS NULL THEN 0 ELSE CAST(rating AS FLOAT) END DESC
-          LIMIT 50
+          ${pageClause}
         `;
         
-        result = await pool.query(fuzzyQuery, [stateAbbr, `%${cityName}%`]);
-        console.log(`Fuzzy match found ${result.rows.length} laundromats`);
+        result = withWindowTotal((await pool.query(fuzzyQuery, [stateAbbr, `%${cityName}%`])).rows);
+        console.log(`Fuzzy match found ${result.total} laundromats`);
         
-        if (result.rows.length > 0) {
-          return result.rows;
+        if (result.total > 0) {
+          return toPage(result.items, result.total, page);
         }
         
         // Try state only - last resort
-        let stateQuery = `
-          SELECT *
+        const stateQuery = `
+          SELECT *, COUNT(*) OVER () AS total_count
           FROM laundromats
           WHERE LOWER(state) = LOWER($1)
-          ORDER BY 
-            CASE WHEN rating IS NULL THEN 0 ELSE CAST(rating AS FLOAT) END DESC
-          LIMIT 20
+          ${pageClause}
         `;
         
-        result = await pool.query(stateQuery, [stateAbbr]);
-        console.log(`State-only search found ${result.rows.length} laundromats`);
+        result = withWindowTotal((await pool.query(stateQuery, [stateAbbr])).rows);
+        console.log(`State-only search found ${result.total} laundromats`);
         
         // Force update city name to match request
-        return result.rows.map(row => ({
-          ...row,
-          city: cityName
-        }));
+        return toPage(
+          result.items.map(row => ({
+            ...row,
+            city: cityName
+          })),
+          result.total,
+          page
+        );
       };
       
       // Check if it's a slug format (city-state) or numeric ID
@@ -154,8 +174,7 @@ export function addCityRoutes(app: Express, apiRouter: string): void {
         const cityName = parts.slice(0, parts.length - 1).join(' ');
         
         console.log(`Direct query from slug: ${cityName}, ${stateAbbr}`);
-        const laundromats = await directDatabaseLookup(cityName, stateAbbr);
-        return res.json(laundromats);
+        return res.json(await directDatabaseLookup(cityName, stateAbbr));
       } 
       else if (/^\d+$/.test(id)) {
         // Numeric ID format - usually from a city object
@@ -172,47 +191,9 @@ export function addCityRoutes(app: Express, apiRouter: string): void {
         
         if (cityResult.rows.length > 0) {
           const cityInfo = cityResult.rows[0];
-          const cityName = cityInfo.name;
-          const stateAbbr = cityInfo.state;
-          
-          console.log(`Found city in database: ${cityName}, ${stateAbbr}`);
-          
-          // Try a direct SQL query for this exact city and state
-          const directQuery = `
-            SELECT * 
-            FROM laundromats
-            WHERE 
-              city = $1 AND 
-              state = $2
-            ORDER BY 
-              CASE WHEN rating IS NULL THEN 0 ELSE CAST(rating AS FLOAT) END DESC
-            LIMIT 50
-          `;
-          
-          console.log(`Executing DIRECT query for ${cityName}, ${stateAbbr}`);
-          const directResult = await pool.query(directQuery, [cityName, stateAbbr]);
-          console.log(`Found ${directResult.rows.length} laundromats with direct query`);
-          
-          if (directResult.rows.length > 0) {
-            // We found exact matches!
-            return res.json(directResult.rows);
-          }
-          
-          // Fall back to our more flexible lookup
-          const laundromats = await directDatabaseLookup(cityName, stateAbbr);
-          return res.json(laundromats);
-        }
-        
-        // If we can't find the city, we'll try to parse the ID as a slug
-        // This happens when the frontend calls with an ID that's actually a slug
-        if (typeof id === 'string' && id.includes('-')) {
-          const parts = id.split('-');
-          const stateAbbr = parts[parts.length - 1].toUpperCase();
-          const cityName = parts.slice(0, parts.length - 1).join(' ');
+          console.log(`Found city in database: ${cityInfo.name}, ${cityInfo.state}`);
           
-          console.log(`Trying slug parsing from ID: ${cityName}, ${stateAbbr}`);
-          const laundromats = await directDatabaseLookup(cityName, stateAbbr);
-          return res.json(laundromats);
+          return res.json(await directDatabaseLookup(cityInfo.name, cityInfo.state));
         }
       }
       
@@ -230,15 +211,14 @@ export function addCityRoutes(app: Express, apiRouter: string): void {
       if (directResult.rows.length > 0) {
         const { city, state } = directResult.rows[0];
         console.log(`Direct laundromat lookup found: ${city}, ${state}`);
-        const laundromats = await directDatabaseLookup(city, state);
-        return res.json(laundromats);
+        return res.json(await directDatabaseLookup(city, state));
       }
       
       console.log(`Couldn't find any laundromats for ID: ${id} using all available methods`);
-      return res.json([]);
+      return res.json(toPage([], 0, page));
     } catch (error) {
       console.error('Error fetching city laundromats:', error);
       res.status(500).json({ message: 'Error fetching city laundromats' });
     }
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,672 @@
+/**
+ * Business Claims
+ *
+ * Taking ownership of a listing starts a claim that has to be verified first:
+ *   - phone:    a 6-digit code is texted to the phone number on the listing
+ *   - mail:     a code is mailed on a postcard to the listing's address
+ *   - document / utility: uploaded proof waits for an admin to approve or reject it
+ * Entering the right code approves the claim straight away.
+ *
+ * Approving makes the claimant the listing's owner, applies the details they gave in
+ * the claim wizard, starts the premium trial if they chose it, and rejects any other
+ * open claims on the listing. A listing that already has an owner can't be claimed;
+ * an admin can revoke ownership to free it up again.
+ *
+ * Codes are stored as SHA-256 hashes. The resend interval and the MAX_CODE_ATTEMPTS
+ * guesses apply to a user and listing across all their claims, so starting a new
+ * claim neither sends another code early nor buys more guesses.
+ * Each claim has a business_claim row in admin_notifications that mirrors its
+ * status and lists its documents, with every step logged to its audit trail.
+ */
+import crypto from 'crypto';
+import Stripe from 'stripe';
+import { and, desc, eq, gt, inArray, ne, sql } from 'drizzle-orm';
+import { db, pool } from './db';
+import { APP_URL, mailer } from './mail';
+import { sms, toE164 } from './sms';
+import { postcards } from './postcards';
+import { detectDocumentType, saveClaimDocument } from './uploads';
+import { createNotification, logNotificationEvent } from './admin-notifications';
+import { buildStructuredHours } from './utils/hours';
+import { createUniqueSlug, generateSlug } from './utils/slugs';
+import {
+  adminNotifications,
+  businessClaims,
+  claimDocuments,
+  laundromats,
+  subscriptions,
+  users,
+  type AdminNotificationStatus,
+  type BusinessClaim,
+  type ClaimDocument,
+  type ClaimMethod,
+  type ClaimStatus,
+  type Laundromat,
+  type User
+} from '@shared/schema';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
+  apiVersion: '2023-10-16' as any,
+});
+
+export const CLAIM_METHODS: ClaimMethod[] = ['document', 'utility', 'phone', 'mail'];
+
+// Claims that can still be verified, reviewed or cancelled
+export const OPEN_CLAIM_STATUSES: ClaimStatus[] = ['pending_verification', 'pending_review'];
+
+const CODE_METHODS: ClaimMethod[] = ['phone', 'mail'];
+const DOCUMENT_METHODS: ClaimMethod[] = ['document', 'utility'];
+
+// How long a code stays valid, and how soon another can be sent
+const CODE_TTL_MS: Partial<Record<ClaimMethod, number>> = {
+  phone: 15 * 60 * 1000, // 15 minutes
+  mail: 30 * 24 * 60 * 60 * 1000, // 30 days, postcards take a while
+};
+const CODE_RESEND_INTERVAL_MS: Partial<Record<ClaimMethod, number>> = {
+  phone: 60 * 1000,
+  mail: 7 * 24 * 60 * 60 * 1000,
+};
+
+export const MAX_CODE_ATTEMPTS = 5;
+// Guesses keep counting against a user and listing until this long after their last code
+const CODE_ATTEMPT_WINDOW_MS = 24 * 60 * 60 * 1000;
+export const MAX_CLAIM_DOCUMENTS = 3;
+export const MAX_CLAIM_DOCUMENT_BYTES = 5 * 1024 * 1024;
+export const CLAIM_DOCUMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png'];
+
+// Listing details from the claim wizard's profile step
+export interface ClaimProfileData {
+  name?: string;
+  phone?: string;
+  website?: string | null;
+  description?: string | null;
+  services?: string[];
+  amenities?: string[];
+  paymentOptions?: string[];
+  hours?: string;
+  machineCount?: { washers?: number; dryers?: number };
+}
+
+export interface NewClaim {
+  laundryId: number;
+  userId: number;
+  method: ClaimMethod;
+  contactEmail: string;
+  profileData: ClaimProfileData;
+  selectedPlan: 'basic' | 'premium';
+}
+
+// A failed step, as the HTTP status and message to send back
+export interface ClaimFailure {
+  status: number;
+  message: string;
+}
+
+export type ClaimResult<T = BusinessClaim> = { ok: true; value: T } | ({ ok: false } & ClaimFailure);
+
+function fail(status: number, message: string): { ok: false } & ClaimFailure {
+  return { ok: false, status, message };
+}
+
+function hashCode(code: string): string {
+  return crypto.createHash('sha256').update(code).digest('hex');
+}
+
+function alreadyOwned(laundromat: Pick<Laundromat, 'ownerId'>, userId: number): ClaimFailure | null {
+  if (!laundromat.ownerId) return null;
+  return laundromat.ownerId === userId
+    ? { status: 409, message: 'You already own this business' }
+    : { status: 409, message: 'This business has already been claimed. Contact support if you believe this is a mistake.' };
+}
+
+// Keep the claim's admin notification in step with the claim and log what happened
+async function syncNotification(
+  claim: BusinessClaim,
+  event: { actorId: number | null; action: string; note?: string | null },
+  data: Record<string, unknown> = {},
+  status?: AdminNotificationStatus
+) {
+  if (!claim.notificationId) return;
+  await db.update(adminNotifications)
+    .set({
+      data: sql`COALESCE(${adminNotifications.data}, '{}'::jsonb) || ${JSON.stringify({ claimStatus: claim.status, ...data })}::jsonb`,
+      ...(status ? { status } : {}),
+      updatedAt: new Date(),
+    })
+    .where(eq(adminNotifications.id, claim.notificationId));
+  await logNotificationEvent(claim.notificationId, event.actorId, event.action, { note: event.note, data: { claimId: claim.id } });
+}
+
+/**
+ * Whether the user may be sent another code for the listing, going by the codes sent
+ * for any of their claims on it. The value is the guesses they've already used.
+ */
+async function checkCodeBudget(laundryId: number, userId: number, method: ClaimMethod): Promise<ClaimResult<number>> {
+  const now = Date.now();
+  const lookback = Math.max(CODE_ATTEMPT_WINDOW_MS, ...Object.values(CODE_RESEND_INTERVAL_MS));
+  const recent = await db.select({
+    method: businessClaims.method,
+    codeSentAt: businessClaims.codeSentAt,
+    codeAttempts: businessClaims.codeAttempts,
+  })
+    .from(businessClaims)
+    .where(and(
+      eq(businessClaims.laundryId, laundryId),
+      eq(businessClaims.userId, userId),
+      gt(businessClaims.codeSentAt, new Date(now - lookback))
+    ))
+    .orderBy(desc(businessClaims.codeSentAt));
+
+  const lastOfMethod = recent.find(code => code.method === method);
+  if (lastOfMethod && now - lastOfMethod.codeSentAt!.getTime() < CODE_RESEND_INTERVAL_MS[method]!) {
+    return fail(429, method === 'phone'
+      ? 'Please wait a minute before asking for another code'
+      : 'A postcard was sent recently. Please allow a week for it to arrive before asking for another.');
+  }
+
+  const last = recent[0];
+  const attempts = last && now - last.codeSentAt!.getTime() < CODE_ATTEMPT_WINDOW_MS ? last.codeAttempts : 0;
+  if (attempts >= MAX_CODE_ATTEMPTS) {
+    return fail(429, 'Too many incorrect codes. Please try again tomorrow.');
+  }
+  return { ok: true, value: attempts };
+}
+
+/**
+ * Send a new phone or postcard code for the claim, replacing any earlier one.
+ * `attempts` carries over the guesses already used, see checkCodeBudget.
+ */
+async function sendCode(claim: BusinessClaim, laundromat: Laundromat, attempts: number): Promise<ClaimResult> {
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+  let sentTo: string;
+
+  if (claim.method === 'phone') {
+    const phone = laundromat.phone && toE164(laundromat.phone);
+    if (!phone) {
+      return fail(400, 'This listing has no valid phone number on record. Please choose another verification method.');
+    }
+    await sms.send({ to: phone, text: `Your LaundryLocator code for ${laundromat.name} is ${code}. It expires in 15 minutes.` });
+    sentTo = phone;
+  } else {
+    await postcards.send({
+      to: { name: laundromat.name, line1: laundromat.address, city: laundromat.city, state: laundromat.state, zip: laundromat.zip },
+      text: `Someone asked to manage the listing for ${laundromat.name} on LaundryLocator.\n\n` +
+        `If that was you, sign in at ${APP_URL}/business/claims and enter this code: ${code}\n\n` +
+        'The code is valid for 30 days. If you did not ask for this, you can ignore this card.',
+    });
+    sentTo = `${laundromat.address}, ${laundromat.city}, ${laundromat.state} ${laundromat.zip}`;
+  }
+
+  const now = new Date();
+  const [updated] = await db.update(businessClaims)
+    .set({
+      codeHash: hashCode(code),
+      codeSentTo: sentTo,
+      codeSentAt: now,
+      codeExpiresAt: new Date(now.getTime() + CODE_TTL_MS[claim.method as ClaimMethod]!),
+      codeAttempts: attempts,
+      updatedAt: now,
+    })
+    .where(eq(businessClaims.id, claim.id))
+    .returning();
+  return { ok: true, value: updated };
+}
+
+/**
+ * Start a claim. Phone and mail claims get their code straight away; document claims
+ * wait for uploads. An earlier open claim by the same user on the listing is cancelled.
+ */
+export async function createClaim(input: NewClaim): Promise<ClaimResult> {
+  const [laundromat] = await db.select().from(laundromats).where(eq(laundromats.id, input.laundryId));
+  if (!laundromat) {
+    return fail(404, 'Laundromat not found');
+  }
+  const owned = alreadyOwned(laundromat, input.userId);
+  if (owned) {
+    return fail(owned.status, owned.message);
+  }
+  if (input.method === 'phone' && !(laundromat.phone && toE164(laundromat.phone))) {
+    return fail(400, 'This listing has no valid phone number on record. Please choose another verification method.');
+  }
+  let attempts = 0;
+  if (CODE_METHODS.includes(input.method)) {
+    const budget = await checkCodeBudget(input.laundryId, input.userId, input.method);
+    if (!budget.ok) return budget;
+    attempts = budget.value;
+  }
+
+  await db.update(businessClaims)
+    .set({ status: 'cancelled', codeHash: null, updatedAt: new Date() })
+    .where(and(
+      eq(businessClaims.laundryId, input.laundryId),
+      eq(businessClaims.userId, input.userId),
+      inArray(businessClaims.status, OPEN_CLAIM_STATUSES)
+    ));
+
+  const [claim] = await db.insert(businessClaims).values({
+    laundryId: input.laundryId,
+    userId: input.userId,
+    method: input.method,
+    contactEmail: input.contactEmail,
+    profileData: input.profileData,
+    selectedPlan: input.selectedPlan,
+    status: 'pending_verification',
+  }).returning();
+
+  const notification = await createNotification({
+    type: 'business_claim',
+    userId: input.userId,
+    laundryId: input.laundryId,
+    email: input.contactEmail,
+    phone: input.profileData.phone || '',
+    data: {
+      claimId: claim.id,
+      claimStatus: claim.status,
+      businessName: laundromat.name,
+      address: laundromat.address,
+      city: laundromat.city,
+      state: laundromat.state,
+      zip: laundromat.zip,
+      selectedPlan: input.selectedPlan,
+      verificationMethod: input.method,
+      email: input.contactEmail,
+      documents: [],
+      submittedAt: new Date().toISOString()
+    }
+  }, input.userId);
+
+  const [withNotification] = await db.update(businessClaims)
+    .set({ notificationId: notification.id })
+    .where(eq(businessClaims.id, claim.id))
+    .returning();
+
+  if (CODE_METHODS.includes(input.method)) {
+    return sendCode(withNotification, laundromat, attempts);
+  }
+  return { ok: true, value: withNotification };
+}
+
+/**
+ * The user's own claim, if it is still open
+ */
+async function getOpenClaim(claimId: number, userId: number): Promise<ClaimResult> {
+  const [claim] = await db.select().from(businessClaims).where(eq(businessClaims.id, claimId));
+  if (!claim || claim.userId !== userId) {
+    return fail(404, 'Claim not found');
+  }
+  if (!OPEN_CLAIM_STATUSES.includes(claim.status as ClaimStatus)) {
+    return fail(409, `This claim is already ${claim.status.replace('_', ' ')}`);
+  }
+  return { ok: true, value: claim };
+}
+
+/**
+ * Send the claimant another code, no sooner than CODE_RESEND_INTERVAL_MS after the last one
+ * and only while they have guesses left
+ */
+export async function resendClaimCode(claimId: number, userId: number): Promise<ClaimResult> {
+  const found = await getOpenClaim(claimId, userId);
+  if (!found.ok) return found;
+  const claim = found.value;
+
+  if (!CODE_METHODS.includes(claim.method as ClaimMethod)) {
+    return fail(400, 'This claim is verified with documents, not a code');
+  }
+  const budget = await checkCodeBudget(claim.laundryId, userId, claim.method as ClaimMethod);
+  if (!budget.ok) return budget;
+
+  const [laundromat] = await db.select().from(laundromats).where(eq(laundromats.id, claim.laundryId));
+  if (!laundromat) {
+    return fail(404, 'Laundromat not found');
+  }
+  return sendCode(claim, laundromat, budget.value);
+}
+
+/**
+ * Check a phone or postcard code; the right one approves the claim
+ */
+export async function verifyClaimCode(claimId: number, userId: number, code: string): Promise<ClaimResult<{ claim: BusinessClaim; user: User }>> {
+  const found = await getOpenClaim(claimId, userId);
+  if (!found.ok) return found;
+  const claim = found.value;
+
+  if (!claim.codeHash || !claim.codeExpiresAt) {
+    return fail(400, 'This claim is verified with documents, not a code');
+  }
+  if (claim.codeExpiresAt.getTime() < Date.now()) {
+    return fail(400, 'This code has expired. Please ask for a new one.');
+  }
+
+  // Use up a guess before checking, in one statement, so parallel requests can't
+  // get more than MAX_CODE_ATTEMPTS of them
+  const [counted] = await db.update(businessClaims)
+    .set({ codeAttempts: sql`${businessClaims.codeAttempts} + 1`, updatedAt: new Date() })
+    .where(and(eq(businessClaims.id, claim.id), sql`${businessClaims.codeAttempts} < ${MAX_CODE_ATTEMPTS}`))
+    .returning({ codeAttempts: businessClaims.codeAttempts });
+  if (!counted) {
+    return fail(429, 'Too many incorrect codes. Please ask for a new one later.');
+  }
+
+  const expected = Buffer.from(claim.codeHash, 'hex');
+  const given = Buffer.from(hashCode(code.trim()), 'hex');
+  if (!crypto.timingSafeEqual(expected, given)) {
+    return fail(400, 'That code is not correct');
+  }
+
+  return approveClaim(claim.id, null);
+}
+
+/**
+ * Store a proof-of-ownership document on a document claim and queue the claim for review
+ */
+export async function addClaimDocument(claimId: number, userId: number, data: Buffer, originalName: string | null): Promise<ClaimResult<ClaimDocument>> {
+  const found = await getOpenClaim(claimId, userId);
+  if (!found.ok) return found;
+  const claim = found.value;
+
+  if (!DOCUMENT_METHODS.includes(claim.method as ClaimMethod)) {
+    return fail(400, 'This claim is verified with a code, not documents');
+  }
+  const contentType = detectDocumentType(data);
+  if (!contentType) {
+    return fail(415, 'Documents must be PDF, JPEG or PNG files');
+  }
+  const existing = await db.select({ id: claimDocuments.id })
+    .from(claimDocuments)
+    .where(eq(claimDocuments.claimId, claim.id));
+  if (existing.length >= MAX_CLAIM_DOCUMENTS) {
+    return fail(400, `A claim can have at most ${MAX_CLAIM_DOCUMENTS} documents`);
+  }
+
+  const filename = await saveClaimDocument(data, contentType);
+  const [document] = await db.insert(claimDocuments).values({
+    claimId: claim.id,
+    filename,
+    originalName: originalName?.slice(0, 200) || null,
+    contentType,
+    size: data.length,
+  }).returning();
+
+  const [updated] = await db.update(businessClaims)
+    .set({ status: 'pending_review', updatedAt: new Date() })
+    .where(eq(businessClaims.id, claim.id))
+    .returning();
+
+  const documents = await getClaimDocuments(claim.id);
+  await syncNotification(updated, { actorId: userId, action: 'document_added', note: document.originalName }, {
+    documents: documents.map(({ id, originalName, contentType, size }) => ({ id, name: originalName, contentType, size }))
+  }, 'unread');
+
+  return { ok: true, value: document };
+}
+
+export async function getClaimDocuments(claimId: number): Promise<ClaimDocument[]> {
+  return db.select().from(claimDocuments).where(eq(claimDocuments.claimId, claimId)).orderBy(claimDocuments.id);
+}
+
+// Listing columns to set from the claim wizard's profile step
+function profileUpdates(profile: ClaimProfileData, state: string): Partial<Laundromat> {
+  const updates: Partial<Laundromat> = {};
+  if (profile.name) updates.name = profile.name;
+  if (profile.phone) updates.phone = profile.phone;
+  if (profile.website) updates.website = profile.website;
+  if (profile.description) updates.description = profile.description;
+  if (profile.hours) {
+    updates.hours = profile.hours;
+    updates.hoursStructured = buildStructuredHours(profile.hours, state);
+  }
+  if (profile.services) updates.services = profile.services;
+  if (profile.amenities) updates.amenities = profile.amenities;
+  if (profile.paymentOptions) updates.paymentOptions = profile.paymentOptions;
+  if (profile.machineCount) {
+    updates.machineCount = {
+      washers: profile.machineCount.washers || 0,
+      dryers: profile.machineCount.dryers || 0
+    };
+  }
+  return updates;
+}
+
+/**
+ * Grant the claim: the claimant becomes the listing's owner and competing open claims
+ * are rejected. `reviewerId` is the approving admin, or null when a code verified it.
+ */
+export async function approveClaim(claimId: number, reviewerId: number | null): Promise<ClaimResult<{ claim: BusinessClaim; user: User }>> {
+  const result = await db.transaction(async tx => {
+    const [claim] = await tx.select().from(businessClaims).where(eq(businessClaims.id, claimId)).for('update');
+    if (!claim) {
+      return fail(404, 'Claim not found');
+    }
+    if (!OPEN_CLAIM_STATUSES.includes(claim.status as ClaimStatus)) {
+      return fail(409, `This claim is already ${claim.status.replace('_', ' ')}`);
+    }
+
+    // Lock the listing so two claims can't be approved at once
+    const [laundromat] = await tx.select().from(laundromats).where(eq(laundromats.id, claim.laundryId)).for('update');
+    if (!laundromat) {
+      return fail(404, 'Laundromat not found');
+    }
+    const owned = laundromat.ownerId && laundromat.ownerId !== claim.userId ? alreadyOwned(laundromat, claim.userId) : null;
+    if (owned) {
+      return fail(owned.status, owned.message);
+    }
+
+    const now = new Date();
+    const trialEnd = new Date(now);
+    trialEnd.setDate(trialEnd.getDate() + 30);
+    const premium = claim.selectedPlan === 'premium';
+
+    // A renamed listing gets a slug for its new name; the old one redirects through slug_history
+    const profile = profileUpdates((claim.profileData || {}) as ClaimProfileData, laundromat.state);
+    if (profile.name && profile.name !== laundromat.name) {
+      profile.slug = await createUniqueSlug(generateSlug(profile.name, laundromat.city, laundromat.state), pool, laundromat.id);
+    }
+
+    await tx.update(laundromats)
+      .set({
+        ...profile,
+        ownerId: claim.userId,
+        verified: true,
+        verificationDate: now,
+        // A 30-day premium trial; the owner adds a payment method from the subscription page
+        ...(premium ? { isPremium: true, listingType: 'premium', subscriptionActive: true, subscriptionExpiry: trialEnd } : {})
+      })
+      .where(eq(laundromats.id, laundromat.id));
+
+    if (premium) {
+      await tx.insert(subscriptions).values({
+        laundryId: laundromat.id,
+        userId: claim.userId,
+        tier: 'premium',
+        amount: 1999, // $19.99 in cents
+        billingCycle: 'monthly',
+        startDate: now,
+        endDate: trialEnd,
+        trialEndsAt: trialEnd,
+        status: 'active',
+        autoRenew: true,
+      });
+    }
+
+    let [user] = await tx.select().from(users).where(eq(users.id, claim.userId));
+    if (user.role === 'user' || !user.isBusinessOwner) {
+      [user] = await tx.update(users)
+        .set({ role: user.role === 'user' ? 'owner' : user.role, isBusinessOwner: true })
+        .where(eq(users.id, claim.userId))
+        .returning();
+    }
+
+    const [approved] = await tx.update(businessClaims)
+      .set({ status: 'approved', codeHash: null, reviewedBy: reviewerId, reviewedAt: now, updatedAt: now })
+      .where(eq(businessClaims.id, claim.id))
+      .returning();
+
+    const competing = await tx.update(businessClaims)
+      .set({ status: 'rejected', codeHash: null, rejectionReason: 'Another claim for this business was approved', reviewedAt: now, updatedAt: now })
+      .where(and(
+        eq(businessClaims.laundryId, laundromat.id),
+        ne(businessClaims.id, claim.id),
+        inArray(businessClaims.status, OPEN_CLAIM_STATUSES)
+      ))
+      .returning();
+
+    return { ok: true as const, value: { claim: approved, user, laundromat, competing } };
+  });
+
+  if (!result.ok) return result;
+  const { claim, user, laundromat, competing } = result.value;
+
+  await syncNotification(claim, {
+    actorId: reviewerId,
+    action: 'approved',
+    note: reviewerId ? null : `Verified by ${claim.method === 'phone' ? 'text message' : 'postcard'} code`
+  }, { reviewedBy: reviewerId }, 'resolved');
+  for (const other of competing) {
+    await syncNotification(other, { actorId: reviewerId, action: 'rejected', note: other.rejectionReason }, {}, 'resolved');
+  }
+
+  await mailer.send({
+    to: claim.contactEmail,
+    subject: `You can now manage ${laundromat.name}`,
+    text: `Your claim for ${laundromat.name} has been verified and the listing is now yours.\n\n` +
+      `Manage it from your dashboard: ${APP_URL}/business/dashboard`
+  }).catch(error => console.error('Error sending claim approval email:', error));
+
+  return { ok: true, value: { claim, user } };
+}
+
+/**
+ * Turn a claim down, with a reason the claimant is told by email
+ */
+export async function rejectClaim(claimId: number, reviewerId: number, reason: string): Promise<ClaimResult> {
+  const [claim] = await db.select().from(businessClaims).where(eq(businessClaims.id, claimId));
+  if (!claim) {
+    return fail(404, 'Claim not found');
+  }
+  if (!OPEN_CLAIM_STATUSES.includes(claim.status as ClaimStatus)) {
+    return fail(409, `This claim is already ${claim.status.replace('_', ' ')}`);
+  }
+
+  const now = new Date();
+  const [rejected] = await db.update(businessClaims)
+    .set({ status: 'rejected', codeHash: null, rejectionReason: reason, reviewedBy: reviewerId, reviewedAt: now, updatedAt: now })
+    .where(eq(businessClaims.id, claim.id))
+    .returning();
+  await syncNotification(rejected, { actorId: reviewerId, action: 'rejected', note: reason }, { reviewedBy: reviewerId, rejectionReason: reason }, 'resolved');
+
+  const [laundromat] = await db.select({ name: laundromats.name }).from(laundromats).where(eq(laundromats.id, claim.laundryId));
+  await mailer.send({
+    to: claim.contactEmail,
+    subject: `Your claim for ${laundromat?.name || 'a laundromat'} was not approved`,
+    text: `We couldn't verify your claim for ${laundromat?.name || 'this laundromat'}.\n\nReason: ${reason}\n\n` +
+      `You can start a new claim with another verification method from ${APP_URL}/business/search`
+  }).catch(error => console.error('Error sending claim rejection email:', error));
+
+  return { ok: true, value: rejected };
+}
+
+/**
+ * Take a listing away from its owner: it goes back to unclaimed and unverified, and the
+ * approved claim that granted it is marked revoked. The former owner is told by email.
+ * Their subscriptions on the listing stop renewing, so they aren't billed again for a
+ * listing they no longer manage; the period they've paid for runs out as usual.
+ */
+export async function revokeOwnership(laundryId: number, reviewerId: number, reason: string, notificationId?: number): Promise<ClaimResult<Laundromat>> {
+  // Stripe goes first: if it can't be reached, nothing is revoked and the admin can retry
+  const [current] = await db.select({ ownerId: laundromats.ownerId }).from(laundromats).where(eq(laundromats.id, laundryId));
+  const paid = current?.ownerId
+    ? await db.select()
+      .from(subscriptions)
+      .where(and(
+        eq(subscriptions.laundryId, laundryId),
+        eq(subscriptions.userId, current.ownerId),
+        inArray(subscriptions.status, ['active', 'past_due'])
+      ))
+    : [];
+  for (const subscription of paid) {
+    if (subscription.stripeSubscriptionId) {
+      await stripe.subscriptions.update(subscription.stripeSubscriptionId, { cancel_at_period_end: true });
+    }
+  }
+
+  const result = await db.transaction(async tx => {
+    const [laundromat] = await tx.select().from(laundromats).where(eq(laundromats.id, laundryId)).for('update');
+    if (!laundromat) {
+      return fail(404, 'Laundromat not found');
+    }
+    if (!laundromat.ownerId) {
+      return fail(409, 'This business has no owner');
+    }
+    const formerOwnerId = laundromat.ownerId;
+
+    const [updated] = await tx.update(laundromats)
+      .set({ ownerId: null, verified: false, verificationDate: null })
+      .where(eq(laundromats.id, laundryId))
+      .returning();
+
+    if (paid.length) {
+      await tx.update(subscriptions)
+        .set({ autoRenew: false })
+        .where(inArray(subscriptions.id, paid.map(subscription => subscription.id)));
+    }
+
+    const now = new Date();
+    const revoked = await tx.update(businessClaims)
+      .set({ status: 'revoked', rejectionReason: reason, reviewedBy: reviewerId, reviewedAt: now, updatedAt: now })
+      .where(and(
+        eq(businessClaims.laundryId, laundryId),
+        eq(businessClaims.userId, formerOwnerId),
+        eq(businessClaims.status, 'approved')
+      ))
+      .returning();
+
+    // Someone who no longer owns any listing stops being treated as a business owner
+    const [stillOwns] = await tx.select({ id: laundromats.id })
+      .from(laundromats)
+      .where(eq(laundromats.ownerId, formerOwnerId))
+      .limit(1);
+    const [formerOwner] = stillOwns
+      ? await tx.select().from(users).where(eq(users.id, formerOwnerId))
+      : await tx.update(users).set({ isBusinessOwner: false }).where(eq(users.id, formerOwnerId)).returning();
+
+    return { ok: true as const, value: { laundromat: updated, revoked, formerOwner } };
+  });
+
+  if (!result.ok) return result;
+  const { laundromat, revoked, formerOwner } = result.value;
+
+  const logged = new Set<number>();
+  for (const claim of revoked) {
+    await syncNotification(claim, { actorId: reviewerId, action: 'revoked', note: reason }, { rejectionReason: reason }, 'resolved');
+    if (claim.notificationId) logged.add(claim.notificationId);
+  }
+  if (notificationId && !logged.has(notificationId)) {
+    await logNotificationEvent(notificationId, reviewerId, 'revoked', { note: reason, data: { laundryId } });
+  }
+
+  if (formerOwner?.email) {
+    await mailer.send({
+      to: formerOwner.email,
+      subject: `Your access to ${laundromat.name} has been removed`,
+      text: `You no longer manage the listing for ${laundromat.name} on LaundryLocator.\n\nReason: ${reason}\n\n` +
+        (paid.length ? 'Your subscription for this listing will not renew, and you will not be charged for it again.\n\n' : '') +
+        `If you believe this is a mistake, reply to this email or start a new claim from ${APP_URL}/business/search`
+    }).catch(error => console.error('Error sending ownership revoked email:', error));
+  }
+
+  return { ok: true, value: laundromat };
+}
+
+/**
+ * The user's claims, newest first, with the listing each is for
+ */
+export async function getUserClaims(userId: number) {
+  return db.select({
+    claim: businessClaims,
+    laundromat: { id: laundromats.id, name: laundromats.name, slug: laundromats.slug, city: laundromats.city, state: laundromats.state },
+  })
+    .from(businessClaims)
+    .innerJoin(laundromats, eq(laundromats.id, businessClaims.laundryId))
+    .where(eq(businessClaims.userId, userId))
+    .orderBy(sql`${businessClaims.createdAt} DESC`);
+}
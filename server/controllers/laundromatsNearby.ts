@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import { pool } from '../db';
+import { findLaundromatsWithinRadius, findNearestLaundromats } from '../geo';
 
 export async function getLaundromatsNearby(req: Request, res: Response) {
   try {
@@ -24,105 +24,22 @@ export async function getLaundromatsNearby(req: Request, res: Response) {
     
     console.log(`Searching for laundromats near (${latitude}, ${longitude}) within ${searchRadius} miles`);
     
-    // Using the Haversine formula to calculate distances
-    const query = `
-      SELECT *, 
-      (
-        3959 * acos(
-          cos(radians($1)) * 
-          cos(radians(CAST(latitude AS FLOAT))) * 
-          cos(radians(CAST(longitude AS FLOAT)) - radians($2)) + 
-          sin(radians($1)) * 
-          sin(radians(CAST(latitude AS FLOAT)))
-        )
-      ) AS distance 
-      FROM laundromats
-      WHERE 
-        latitude IS NOT NULL AND latitude != '' AND 
-        longitude IS NOT NULL AND longitude != ''
-      AND (
-        3959 * acos(
-          cos(radians($1)) * 
-          cos(radians(CAST(latitude AS FLOAT))) * 
-          cos(radians(CAST(longitude AS FLOAT)) - radians($2)) + 
-          sin(radians($1)) * 
-          sin(radians(CAST(latitude AS FLOAT)))
-        )
-      ) < $3
-      ORDER BY distance
-      LIMIT 20
-    `;
+    const center = { lat: latitude, lng: longitude };
+    const rows = await findLaundromatsWithinRadius(center, { radiusMiles: searchRadius, limit: 20 });
     
-    const result = await pool.query(query, [latitude, longitude, searchRadius]);
-    
-    if (result.rows.length === 0) {
+    if (rows.length === 0) {
       console.log(`No laundromats found within ${searchRadius} miles of coordinates (${latitude}, ${longitude})`);
       
       // If no results, try a wider radius
-      const expandedQuery = `
-        SELECT *, 
-        (
-          3959 * acos(
-            cos(radians($1)) * 
-            cos(radians(CAST(latitude AS FLOAT))) * 
-            cos(radians(CAST(longitude AS FLOAT)) - radians($2)) + 
-            sin(radians($1)) * 
-            sin(radians(CAST(latitude AS FLOAT)))
-          )
-        ) AS distance 
-        FROM laundromats
-        WHERE 
-          latitude IS NOT NULL AND latitude != '' AND 
-          longitude IS NOT NULL AND longitude != ''
-        AND (
-          3959 * acos(
-            cos(radians($1)) * 
-            cos(radians(CAST(latitude AS FLOAT))) * 
-            cos(radians(CAST(longitude AS FLOAT)) - radians($2)) + 
-            sin(radians($1)) * 
-            sin(radians(CAST(latitude AS FLOAT)))
-          )
-        ) < $3
-        ORDER BY distance
-        LIMIT 20
-      `;
-      
-      const expandedResult = await pool.query(expandedQuery, [latitude, longitude, searchRadius * 3]);
+      const expandedRows = await findLaundromatsWithinRadius(center, { radiusMiles: searchRadius * 3, limit: 20 });
       
-      if (expandedResult.rows.length === 0) {
+      if (expandedRows.length === 0) {
         // If still no results, fall back to getting closest laundromats overall regardless of distance
-        const fallbackQuery = `
-          SELECT *, 
-          (
-            3959 * acos(
-              cos(radians($1)) * 
-              cos(radians(CAST(latitude AS FLOAT))) * 
-              cos(radians(CAST(longitude AS FLOAT)) - radians($2)) + 
-              sin(radians($1)) * 
-              sin(radians(CAST(latitude AS FLOAT)))
-            )
-          ) AS distance 
-          FROM laundromats
-          WHERE 
-            latitude IS NOT NULL AND latitude != '' AND 
-            longitude IS NOT NULL AND longitude != ''
-          ORDER BY (
-            3959 * acos(
-              cos(radians($1)) * 
-              cos(radians(CAST(latitude AS FLOAT))) * 
-              cos(radians(CAST(longitude AS FLOAT)) - radians($2)) + 
-              sin(radians($1)) * 
-              sin(radians(CAST(latitude AS FLOAT)))
-            )
-          ) ASC
-          LIMIT 20
-        `;
-        
-        const fallbackResult = await pool.query(fallbackQuery, [latitude, longitude]);
-        console.log(`Found ${fallbackResult.rows.length} fallback laundromats sorted by distance`);
+        const fallbackRows = await findNearestLaundromats(center, { limit: 20 });
+        console.log(`Found ${fallbackRows.length} fallback laundromats sorted by distance`);
         
         // Enhance fallback laundromats with Google Street View images if missing
-        const enhancedFallbackLaundromats = fallbackResult.rows.map(laundromat => {
+        const enhancedFallbackLaundromats = fallbackRows.map(laundromat => {
           if (!laundromat.imageUrl && !laundromat.image_url && laundromat.latitude && laundromat.longitude) {
             // Get the Street View image URL based on coordinates
             const streetViewUrl = `https://maps.googleapis.com/maps/api/streetview?size=400x250&location=${laundromat.latitude},${laundromat.longitude}&key=${process.env.GOOGLE_MAPS_API_KEY}`;
@@ -137,10 +54,10 @@ export async function getLaundromatsNearby(req: Request, res: Response) {
         return res.json(enhancedFallbackLaundromats);
       }
       
-      console.log(`Found ${expandedResult.rows.length} laundromats with expanded radius search`);
+      console.log(`Found ${expandedRows.length} laundromats with expanded radius search`);
       
       // Enhance laundromats with Google Street View images if missing
-      const enhancedExpandedLaundromats = expandedResult.rows.map(laundromat => {
+      const enhancedExpandedLaundromats = expandedRows.map(laundromat => {
         if (!laundromat.imageUrl && !laundromat.image_url && laundromat.latitude && laundromat.longitude) {
           // Get the Street View image URL based on coordinates
           const streetViewUrl = `https://maps.googleapis.com/maps/api/streetview?size=400x250&location=${laundromat.latitude},${laundromat.longitude}&key=${process.env.GOOGLE_MAPS_API_KEY}`;
@@ -155,10 +72,10 @@ export async function getLaundromatsNearby(req: Request, res: Response) {
       return res.json(enhancedExpandedLaundromats);
     }
     
-    console.log(`Found ${result.rows.length} laundromats near (${latitude}, ${longitude}) within ${searchRadius} miles`);
+    console.log(`Found ${rows.length} laundromats near (${latitude}, ${longitude}) within ${searchRadius} miles`);
     
     // Enhance laundromats with Google Street View images if missing
-    const enhancedLaundromats = result.rows.map(laundromat => {
+    const enhancedLaundromats = rows.map(laundromat => {
       if (!laundromat.imageUrl && !laundromat.image_url && laundromat.latitude && laundromat.longitude) {
         // Get the Street View image URL based on coordinates
         const streetViewUrl = `https://maps.googleapis.com/maps/api/streetview?size=400x250&location=${laundromat.latitude},${laundromat.longitude}&key=${process.env.GOOGLE_MAPS_API_KEY}`;
@@ -2,7 +2,10 @@ import {
   users, 
   laundromats, 
   reviews, 
+  reviewReports,
+  reviewPhotos,
   favorites, 
+  favoriteLists,
   cities, 
   states,
   subscriptions,
@@ -13,8 +16,15 @@ import {
   type InsertLaundromat,
   type Review,
   type InsertReview,
+  type ReviewStatus,
+  type ReviewReport,
+  type InsertReviewReport,
+  type ReviewPhoto,
+  type InsertReviewPhoto,
   type Favorite,
   type InsertFavorite,
+  type FavoriteList,
+  type InsertFavoriteList,
   type City,
   type InsertCity,
   type State,
@@ -25,8 +35,16 @@ import {
   type InsertLaundryTip
 } from "@shared/schema";
 import { db, pool } from "./db";
-import { eq, and, or, gte, lte, desc, asc, ilike, like, sql } from "drizzle-orm";
+import { eq, and, or, gte, lte, desc, asc, ilike, like, inArray, isNull, sql } from "drizzle-orm";
 import { IStorage } from "./storage";
+import { limitPremiumContent, type PremiumContent } from "@shared/premium-features";
+import { computeSubRatings } from "@shared/reviews";
+import { filterOpenAt } from "./utils/hours";
+import { getPlacements } from "./premium";
+import { findLaundromatsWithinRadius, findNearestLaundromats, isValidPoint } from "./geo";
+import { searchLaundromatsByText } from "./search";
+import { PageResult, withWindowTotal } from "./utils/pagination";
+import { geocoder } from "./geocoder";
 
 export class DatabaseStorage implements IStorage {
   
@@ -169,6 +187,11 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(sql`LOWER(${users.email}) = LOWER(${email})`);
+    return user;
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -192,7 +215,7 @@ export class DatabaseStorage implements IStorage {
       const query = `
         SELECT id, name, slug, address, city, state, zip, phone, 
                website, latitude, longitude, rating, image_url, 
-               hours, description, is_featured, is_premium, 
+               hours, hours_structured, description, is_featured, is_premium, 
                listing_type, review_count, photos, seo_tags, seo_description, seo_title,
                services, amenities, premium_score
         FROM laundromats
@@ -226,15 +249,12 @@ export class DatabaseStorage implements IStorage {
 
   async getLaundromatsForUser(userId: number): Promise<Laundromat[]> {
     try {
-      const userLaundromatQuery = `
-        SELECT *
-        FROM laundromats
-        WHERE owner_id = $1
-        LIMIT 20
-      `;
-      
-      const result = await pool.query(userLaundromatQuery, [userId]);
-      return result.rows as Laundromat[];
+      // Every location, for owners running a chain
+      return await db
+        .select()
+        .from(laundromats)
+        .where(eq(laundromats.ownerId, userId))
+        .orderBy(laundromats.id);
     } catch (error) {
       console.error("Error in getLaundromatsForUser:", error);
       return [];
@@ -242,241 +262,280 @@ export class DatabaseStorage implements IStorage {
   }
 
   async searchLaundromats(query: string, filters: any = {}): Promise<Laundromat[]> {
+    const { items: results } = await this.findLaundromatsByQuery(query, filters);
+    
+    // Opening hours can't be evaluated in SQL, so the open-now filter runs on the matches
+    if (filters.openNow || filters.openAt) {
+      const openAt = filters.openAt ? new Date(filters.openAt) : new Date();
+      return filterOpenAt(results, openAt);
+    }
+    
+    return results;
+  }
+
+  async searchLaundromatsPage(query: string, filters: any = {}): Promise<PageResult<Laundromat>> {
+    return this.findLaundromatsByQuery(query, filters);
+  }
+
+  // Columns returned by searchLaundromats
+  private readonly searchColumns = `
+    id, name, slug, address, city, state, zip, phone, 
+    website, latitude, longitude, rating, image_url, 
+    hours, hours_structured, description, is_featured, is_premium, 
+    listing_type, review_count, photos, seo_tags, seo_description, seo_title,
+    services, amenities, premium_score
+  `;
+
+  private async findLaundromatsByQuery(query: string, filters: any = {}): Promise<PageResult<Laundromat>> {
     try {
       // Create a simplified query using only columns that exist in the database
       const baseQuery = `
-        SELECT id, name, slug, address, city, state, zip, phone, 
-               website, latitude, longitude, rating, image_url, 
-               hours, description, is_featured, is_premium, 
-               listing_type, review_count, photos, seo_tags, seo_description, seo_title,
-               services, amenities, premium_score
+        SELECT ${this.searchColumns}, COUNT(*) OVER () AS total_count
         FROM laundromats
       `;
       
       let whereClause = "";
       let params: any[] = [];
-      let orderByClause = "ORDER BY name ASC";
+      let orderByClause = "ORDER BY name ASC, id ASC";
       
       // Apply filters
       const limit = filters.limit || 20;
-      const limitClause = `LIMIT ${limit}`;
+      const limitClause = `LIMIT ${limit} OFFSET ${filters.offset || 0}`;
       
       // Process query
-      if (query && query.trim()) {
-        // Check if query looks like a ZIP code (5 digits)
-        const isZipCode = /^\d{5}$/.test(query.trim());
-        const trimmedQuery = query.trim();
+      const trimmedQuery = (query || '').trim();
+      
+      // Check if query looks like a ZIP code (5 digits)
+      const isZipCode = /^\d{5}$/.test(trimmedQuery);
+      
+      if (!isZipCode) {
+        // Ranked full-text / fuzzy search; an empty query ranks by rating, distance and premium placement
+        console.log(`Text search with query: "${trimmedQuery}"`);
+        const { rows, total } = await searchLaundromatsByText(trimmedQuery, {
+          columns: this.searchColumns,
+          limit,
+          offset: filters.offset || 0,
+          near: isValidPoint(filters.near) ? filters.near : undefined,
+          radiusMiles: filters.radius,
+          // Service, amenity, rating, price etc. filters (see server/filters.ts) are top-level keys
+          filters
+        });
+        
+        console.log(`Text search found ${total} laundromats`);
+        return { items: rows as Laundromat[], total };
+      }
+      
+      console.log(`Handling ZIP code search: ${trimmedQuery}`);
+      
+      // Option 1: Check for exact ZIP match (highest priority)
+      if (filters.exactZip || !filters.skipExactZip) {
+        console.log(`Searching for exact ZIP matches: ${trimmedQuery}`);
+        
+        // First, try exact match
+        let whereClause = "WHERE zip = $1 AND zip != '00000' AND zip != ''";
+        let params = [trimmedQuery];
+        
+        let exactMatchQuery = `${baseQuery} ${whereClause} ${orderByClause} ${limitClause}`;
+        let exactMatches = await pool.query(exactMatchQuery, params);
+        
+        if (exactMatches.rows.length > 0) {
+          console.log(`✓ Found ${exactMatches.rows.length} exact ZIP matches for ${trimmedQuery}`);
+          return withWindowTotal<Laundromat>(exactMatches.rows);
+        }
+        
+        // If no exact matches, try pattern matching in case ZIP codes have spaces or formatting
+        whereClause = "WHERE zip LIKE $1 AND zip != '00000' AND zip != ''";
+        params = [`%${trimmedQuery}%`];
+        
+        exactMatchQuery = `${baseQuery} ${whereClause} ${orderByClause} ${limitClause}`;
+        exactMatches = await pool.query(exactMatchQuery, params);
+        
+        if (exactMatches.rows.length > 0) {
+          console.log(`✓ Found ${exactMatches.rows.length} partial ZIP matches for ${trimmedQuery}`);
+          return withWindowTotal<Laundromat>(exactMatches.rows);
+        }
+        
+        console.log(`✗ No exact ZIP matches for ${trimmedQuery}`);
+      }
+      
+      // Option 2: If needed, try coordinate-based search using Google Maps API
+      if (!filters.skipCoordinateSearch) {
+        console.log(`Trying coordinate-based search for ZIP ${trimmedQuery}`);
         
-        if (isZipCode) {
-          console.log(`Handling ZIP code search: ${trimmedQuery}`);
+        // First, try to find any laundromats with a partial ZIP match for first 3 digits
+        let whereClause = "WHERE zip LIKE $1 AND zip != '00000' AND zip != ''";
+        let params = [`${trimmedQuery.substring(0, 3)}%`]; // Match first 3 digits of ZIP
+        
+        let partialMatchQuery = `${baseQuery} ${whereClause} ${orderByClause} ${limitClause}`;
+        let partialMatches = await pool.query(partialMatchQuery, params);
+        
+        if (partialMatches.rows.length > 0) {
+          console.log(`✓ Found ${partialMatches.rows.length} partial ZIP matches starting with ${trimmedQuery.substring(0, 3)}`);
+          return withWindowTotal<Laundromat>(partialMatches.rows);
+        }
+        
+        // If no partial matches, search around the ZIP code's centroid
+        const zipCoords = await this.getZipCoordinates(trimmedQuery);
+        if (zipCoords) {
+          console.log(`✓ Got coordinates for ZIP ${trimmedQuery}: ${zipCoords.lat}, ${zipCoords.lng}`);
           
-          // Option 1: Check for exact ZIP match (highest priority)
-          if (filters.exactZip || !filters.skipExactZip) {
-            console.log(`Searching for exact ZIP matches: ${trimmedQuery}`);
-            
-            // First, try exact match
-            let whereClause = "WHERE zip = $1 AND zip != '00000' AND zip != ''";
-            let params = [trimmedQuery];
-            
-            let exactMatchQuery = `${baseQuery} ${whereClause} ${orderByClause} ${limitClause}`;
-            let exactMatches = await pool.query(exactMatchQuery, params);
-            
-            if (exactMatches.rows.length > 0) {
-              console.log(`✓ Found ${exactMatches.rows.length} exact ZIP matches for ${trimmedQuery}`);
-              return exactMatches.rows as Laundromat[];
-            }
-            
-            // If no exact matches, try pattern matching in case ZIP codes have spaces or formatting
-            whereClause = "WHERE zip LIKE $1 AND zip != '00000' AND zip != ''";
-            params = [`%${trimmedQuery}%`];
-            
-            exactMatchQuery = `${baseQuery} ${whereClause} ${orderByClause} ${limitClause}`;
-            exactMatches = await pool.query(exactMatchQuery, params);
-            
-            if (exactMatches.rows.length > 0) {
-              console.log(`✓ Found ${exactMatches.rows.length} partial ZIP matches for ${trimmedQuery}`);
-              return exactMatches.rows as Laundromat[];
-            }
-            
-            console.log(`✗ No exact ZIP matches for ${trimmedQuery}`);
-          }
+          const searchRadius = filters.radius || 25; // Use larger radius for ZIP searches
+          const nearbyLaundromats = await this.getLaundromatsNearby(
+            zipCoords.lat.toString(),
+            zipCoords.lng.toString(),
+            searchRadius
+          );
           
-          // Option 2: If needed, try coordinate-based search using Google Maps API
-          if (!filters.skipCoordinateSearch) {
-            console.log(`Trying coordinate-based search for ZIP ${trimmedQuery}`);
-            
-            // First, try to find any laundromats with a partial ZIP match for first 3 digits
-            let whereClause = "WHERE zip LIKE $1 AND zip != '00000' AND zip != ''";
-            let params = [`${trimmedQuery.substring(0, 3)}%`]; // Match first 3 digits of ZIP
-            
-            let partialMatchQuery = `${baseQuery} ${whereClause} ${orderByClause} ${limitClause}`;
-            let partialMatches = await pool.query(partialMatchQuery, params);
-            
-            if (partialMatches.rows.length > 0) {
-              console.log(`✓ Found ${partialMatches.rows.length} partial ZIP matches starting with ${trimmedQuery.substring(0, 3)}`);
-              return partialMatches.rows as Laundromat[];
-            }
-            
-            // If no partial matches, use coordinate-based search with Google Maps
-            const zipCoords = await this.getZipCoordinates(trimmedQuery);
-            if (zipCoords) {
-              console.log(`✓ Got coordinates for ZIP ${trimmedQuery}: ${zipCoords.lat}, ${zipCoords.lng}`);
-              
-              const searchRadius = filters.radius || 25; // Use larger radius for ZIP searches
-              const nearbyLaundromats = await this.getLaundromatsNearby(
-                zipCoords.lat.toString(),
-                zipCoords.lng.toString(),
-                searchRadius
-              );
-              
-              if (nearbyLaundromats.length > 0) {
-                console.log(`✓ Found ${nearbyLaundromats.length} nearby laundromats for ZIP ${trimmedQuery}`);
-                return nearbyLaundromats.map(l => ({
-                  ...l,
-                  isNearbyResult: true,
-                  searchRadius: searchRadius
-                }));
-              }
-              console.log(`✗ No nearby laundromats found within ${searchRadius} miles of ZIP ${trimmedQuery}`);
-            } else {
-              console.log(`✗ Could not get coordinates for ZIP ${trimmedQuery}`);
-            }
+          if (nearbyLaundromats.length > 0) {
+            console.log(`✓ Found ${nearbyLaundromats.length} nearby laundromats for ZIP ${trimmedQuery}`);
+            const offset = filters.offset || 0;
+            return {
+              items: nearbyLaundromats.slice(offset, offset + limit).map(l => ({
+                ...l,
+                isNearbyResult: true,
+                searchRadius: searchRadius
+              })),
+              total: nearbyLaundromats.length
+            };
           }
+          console.log(`✗ No nearby laundromats found within ${searchRadius} miles of ZIP ${trimmedQuery}`);
+        } else {
+          console.log(`✗ Could not get coordinates for ZIP ${trimmedQuery}`);
+        }
+      }
+      
+      // Option 3: State-level search based on ZIP prefix
+      if (!filters.skipStateSearch) {
+        console.log(`Trying state-level search for ZIP ${trimmedQuery}`);
+        
+        const zipPrefix = trimmedQuery.substring(0, 2);
+        // Map ZIP prefixes to state codes - comprehensive list
+        const zipStateMap: Record<string, string> = {
+          '35': 'AL', '36': 'AL', // Alabama
+          '99': 'AK', // Alaska
+          '85': 'AZ', '86': 'AZ', // Arizona
+          '71': 'AR', '72': 'AR', // Arkansas
+          '90': 'CA', '91': 'CA', '92': 'CA', '93': 'CA', '94': 'CA', '95': 'CA', '96': 'CA', // California
+          '80': 'CO', '81': 'CO', // Colorado
+          '06': 'CT', // Connecticut
+          '19': 'DE', // Delaware
+          '20': 'DC', // District of Columbia
+          '32': 'FL', '33': 'FL', '34': 'FL', // Florida
+          '30': 'GA', '31': 'GA', '39': 'GA', // Georgia
+          '96': 'HI', // Hawaii
+          '83': 'ID', // Idaho
+          '60': 'IL', '61': 'IL', '62': 'IL', // Illinois
+          '46': 'IN', '47': 'IN', // Indiana
+          '50': 'IA', '51': 'IA', '52': 'IA', // Iowa
+          '66': 'KS', '67': 'KS', // Kansas
+          '40': 'KY', '41': 'KY', '42': 'KY', // Kentucky
+          '70': 'LA', '71': 'LA', // Louisiana
+          '03': 'ME', '04': 'ME', // Maine
+          '20': 'MD', '21': 'MD', // Maryland
+          '01': 'MA', '02': 'MA', '05': 'MA', // Massachusetts
+          '48': 'MI', '49': 'MI', // Michigan
+          '55': 'MN', '56': 'MN', // Minnesota
+          '38': 'MS', '39': 'MS', // Mississippi
+          '63': 'MO', '64': 'MO', '65': 'MO', // Missouri
+          '59': 'MT', // Montana
+          '68': 'NE', '69': 'NE', // Nebraska
+          '88': 'NV', '89': 'NV', // Nevada
+          '03': 'NH', // New Hampshire
+          '07': 'NJ', '08': 'NJ', // New Jersey
+          '87': 'NM', '88': 'NM', // New Mexico
+          '10': 'NY', '11': 'NY', '12': 'NY', '13': 'NY', '14': 'NY', // New York
+          '27': 'NC', '28': 'NC', // North Carolina
+          '58': 'ND', // North Dakota
+          '43': 'OH', '44': 'OH', '45': 'OH', // Ohio
+          '73': 'OK', '74': 'OK', // Oklahoma
+          '97': 'OR', // Oregon
+          '15': 'PA', '16': 'PA', '17': 'PA', '18': 'PA', '19': 'PA', // Pennsylvania
+          '02': 'RI', // Rhode Island
+          '29': 'SC', // South Carolina
+          '57': 'SD', // South Dakota
+          '37': 'TN', '38': 'TN', // Tennessee
+          '75': 'TX', '76': 'TX', '77': 'TX', '78': 'TX', '79': 'TX', '73': 'TX', // Texas
+          '84': 'UT', // Utah
+          '05': 'VT', // Vermont
+          '22': 'VA', '23': 'VA', '24': 'VA', // Virginia
+          '98': 'WA', '99': 'WA', // Washington
+          '24': 'WV', '25': 'WV', '26': 'WV', // West Virginia
+          '53': 'WI', '54': 'WI', // Wisconsin
+          '82': 'WY', // Wyoming
+          '00': 'PR' // Puerto Rico
+        };
+        
+        const stateFromZip = zipStateMap[zipPrefix];
+        if (stateFromZip) {
+          console.log(`✓ Identified state ${stateFromZip} from ZIP prefix ${zipPrefix}`);
+          
+          // Try with state code first (e.g., TX)
+          whereClause = "WHERE state = $1";
+          params = [stateFromZip];
+          const stateQuery = `${baseQuery} ${whereClause} ${orderByClause} ${limitClause}`;
+          const stateResults = withWindowTotal<Laundromat>((await pool.query(stateQuery, params)).rows);
           
-          // Option 3: State-level search based on ZIP prefix
-          if (!filters.skipStateSearch) {
-            console.log(`Trying state-level search for ZIP ${trimmedQuery}`);
+          if (stateResults.items.length > 0) {
+            console.log(`✓ Found ${stateResults.total} laundromats in state ${stateFromZip}`);
             
-            const zipPrefix = trimmedQuery.substring(0, 2);
-            // Map ZIP prefixes to state codes - comprehensive list
-            const zipStateMap: Record<string, string> = {
-              '35': 'AL', '36': 'AL', // Alabama
-              '99': 'AK', // Alaska
-              '85': 'AZ', '86': 'AZ', // Arizona
-              '71': 'AR', '72': 'AR', // Arkansas
-              '90': 'CA', '91': 'CA', '92': 'CA', '93': 'CA', '94': 'CA', '95': 'CA', '96': 'CA', // California
-              '80': 'CO', '81': 'CO', // Colorado
-              '06': 'CT', // Connecticut
-              '19': 'DE', // Delaware
-              '20': 'DC', // District of Columbia
-              '32': 'FL', '33': 'FL', '34': 'FL', // Florida
-              '30': 'GA', '31': 'GA', '39': 'GA', // Georgia
-              '96': 'HI', // Hawaii
-              '83': 'ID', // Idaho
-              '60': 'IL', '61': 'IL', '62': 'IL', // Illinois
-              '46': 'IN', '47': 'IN', // Indiana
-              '50': 'IA', '51': 'IA', '52': 'IA', // Iowa
-              '66': 'KS', '67': 'KS', // Kansas
-              '40': 'KY', '41': 'KY', '42': 'KY', // Kentucky
-              '70': 'LA', '71': 'LA', // Louisiana
-              '03': 'ME', '04': 'ME', // Maine
-              '20': 'MD', '21': 'MD', // Maryland
-              '01': 'MA', '02': 'MA', '05': 'MA', // Massachusetts
-              '48': 'MI', '49': 'MI', // Michigan
-              '55': 'MN', '56': 'MN', // Minnesota
-              '38': 'MS', '39': 'MS', // Mississippi
-              '63': 'MO', '64': 'MO', '65': 'MO', // Missouri
-              '59': 'MT', // Montana
-              '68': 'NE', '69': 'NE', // Nebraska
-              '88': 'NV', '89': 'NV', // Nevada
-              '03': 'NH', // New Hampshire
-              '07': 'NJ', '08': 'NJ', // New Jersey
-              '87': 'NM', '88': 'NM', // New Mexico
-              '10': 'NY', '11': 'NY', '12': 'NY', '13': 'NY', '14': 'NY', // New York
-              '27': 'NC', '28': 'NC', // North Carolina
-              '58': 'ND', // North Dakota
-              '43': 'OH', '44': 'OH', '45': 'OH', // Ohio
-              '73': 'OK', '74': 'OK', // Oklahoma
-              '97': 'OR', // Oregon
-              '15': 'PA', '16': 'PA', '17': 'PA', '18': 'PA', '19': 'PA', // Pennsylvania
-              '02': 'RI', // Rhode Island
-              '29': 'SC', // South Carolina
-              '57': 'SD', // South Dakota
-              '37': 'TN', '38': 'TN', // Tennessee
-              '75': 'TX', '76': 'TX', '77': 'TX', '78': 'TX', '79': 'TX', '73': 'TX', // Texas
-              '84': 'UT', // Utah
-              '05': 'VT', // Vermont
-              '22': 'VA', '23': 'VA', '24': 'VA', // Virginia
-              '98': 'WA', '99': 'WA', // Washington
-              '24': 'WV', '25': 'WV', '26': 'WV', // West Virginia
-              '53': 'WI', '54': 'WI', // Wisconsin
-              '82': 'WY', // Wyoming
-              '00': 'PR' // Puerto Rico
+            // Add state name for display
+            const stateName = this.getStateNameFromAbbr(stateFromZip);
+            return {
+              items: stateResults.items.map(l => ({
+                ...l,
+                isStateResult: true,
+                stateName: stateName || stateFromZip
+              })),
+              total: stateResults.total
             };
+          }
+          
+          // Try with state name if no results with abbreviation
+          const stateName = this.getStateNameFromAbbr(stateFromZip);
+          if (stateName) {
+            console.log(`Trying with state name: ${stateName}`);
+            whereClause = "WHERE state ILIKE $1";
+            params = [`%${stateName}%`];
+            const stateNameQuery = `${baseQuery} ${whereClause} ${orderByClause} ${limitClause}`;
+            const stateNameResults = withWindowTotal<Laundromat>((await pool.query(stateNameQuery, params)).rows);
             
-            const stateFromZip = zipStateMap[zipPrefix];
-            if (stateFromZip) {
-              console.log(`✓ Identified state ${stateFromZip} from ZIP prefix ${zipPrefix}`);
-              
-              // Try with state code first (e.g., TX)
-              whereClause = "WHERE state = $1";
-              params = [stateFromZip];
-              const stateQuery = `${baseQuery} ${whereClause} ${orderByClause} ${limitClause}`;
-              const stateResults = await pool.query(stateQuery, params);
-              
-              if (stateResults.rows.length > 0) {
-                console.log(`✓ Found ${stateResults.rows.length} laundromats in state ${stateFromZip}`);
-                
-                // Add state name for display
-                const stateName = this.getStateNameFromAbbr(stateFromZip);
-                return stateResults.rows.map(l => ({
+            if (stateNameResults.items.length > 0) {
+              console.log(`✓ Found ${stateNameResults.total} laundromats in state ${stateName}`);
+              return {
+                items: stateNameResults.items.map(l => ({
                   ...l,
                   isStateResult: true,
-                  stateName: stateName || stateFromZip
-                })) as Laundromat[];
-              }
-              
-              // Try with state name if no results with abbreviation
-              const stateName = this.getStateNameFromAbbr(stateFromZip);
-              if (stateName) {
-                console.log(`Trying with state name: ${stateName}`);
-                whereClause = "WHERE state ILIKE $1";
-                params = [`%${stateName}%`];
-                const stateNameQuery = `${baseQuery} ${whereClause} ${orderByClause} ${limitClause}`;
-                const stateNameResults = await pool.query(stateNameQuery, params);
-                
-                if (stateNameResults.rows.length > 0) {
-                  console.log(`✓ Found ${stateNameResults.rows.length} laundromats in state ${stateName}`);
-                  return stateNameResults.rows.map(l => ({
-                    ...l,
-                    isStateResult: true,
-                    stateName: stateName
-                  })) as Laundromat[];
-                }
-              }
-              
-              console.log(`✗ No laundromats found in state ${stateFromZip}`);
-            } else {
-              console.log(`✗ Could not determine state for ZIP prefix ${zipPrefix}`);
+                  stateName: stateName
+                })),
+                total: stateNameResults.total
+              };
             }
           }
           
-          // If we specifically want exact ZIP matches and nothing else, return empty
-          if (filters.exactZip) {
-            console.log(`No exact matches found for ZIP ${trimmedQuery} and exactZip flag is set`);
-            return [];
-          }
-          
-          // If all targeting approaches fail, use a generic search
-          console.log(`All targeted approaches failed, using generic search as last resort`);
-          whereClause = "WHERE name ILIKE $1 OR city ILIKE $1 OR state ILIKE $1";
-          const searchPattern = `%${trimmedQuery}%`;
-          params = [searchPattern];
+          console.log(`✗ No laundromats found in state ${stateFromZip}`);
         } else {
-          // For non-ZIP searches, use regular fuzzy matching
-          console.log(`Regular search with query: ${trimmedQuery}`);
-          whereClause = "WHERE name ILIKE $1 OR city ILIKE $1 OR state ILIKE $1 OR zip ILIKE $1 OR address ILIKE $1";
-          const searchPattern = `%${trimmedQuery}%`;
-          params = [searchPattern];
+          console.log(`✗ Could not determine state for ZIP prefix ${zipPrefix}`);
         }
       }
       
+      // If we specifically want exact ZIP matches and nothing else, return empty
+      if (filters.exactZip) {
+        console.log(`No exact matches found for ZIP ${trimmedQuery} and exactZip flag is set`);
+        return { items: [], total: 0 };
+      }
+      
+      // If all targeting approaches fail, use a generic search
+      console.log(`All targeted approaches failed, using generic search as last resort`);
+      whereClause = "WHERE name ILIKE $1 OR city ILIKE $1 OR state ILIKE $1";
+      const searchPattern = `%${trimmedQuery}%`;
+      params = [searchPattern];
+      
       // Final query with any filters applied
       const finalQuery = `${baseQuery} ${whereClause} ${orderByClause} ${limitClause}`;
       const query_result = await pool.query(finalQuery, params);
       
       console.log(`General search found ${query_result.rows.length} laundromats`);
-      return query_result.rows as Laundromat[];
+      return withWindowTotal<Laundromat>(query_result.rows);
     } catch (error) {
       console.error("Error in searchLaundromats:", error);
       
@@ -492,10 +551,10 @@ export class DatabaseStorage implements IStorage {
         `;
         const fallbackResult = await pool.query(fallbackQuery);
         console.log("Fallback - found laundromats:", fallbackResult.rows.length);
-        return fallbackResult.rows as Laundromat[];
+        return { items: fallbackResult.rows as Laundromat[], total: fallbackResult.rows.length };
       } catch (fallbackError) {
         console.error("Failed to fetch any laundromats:", fallbackError);
-        return [];
+        return { items: [], total: 0 };
       }
     }
   }
@@ -506,99 +565,25 @@ export class DatabaseStorage implements IStorage {
       const searchRadius = radius < 50 ? 50 : radius;
       console.log(`Search query: "", radius: ${searchRadius} miles, looks like ZIP? true`);
       
-      // Get all laundromats from database
-      const nearbyQuery = `
-        SELECT id, name, slug, address, city, state, zip, phone, 
-               website, latitude, longitude, rating, image_url, 
-               hours, description, is_featured, is_premium, 
-               listing_type, review_count, photos, seo_tags, seo_description, seo_title,
-               services, amenities, premium_score
-        FROM laundromats
+      const center = { lat: parseFloat(lat), lng: parseFloat(lng) };
+      const columns = `
+        id, name, slug, address, city, state, zip, phone, 
+        website, latitude, longitude, rating, image_url, 
+        hours, hours_structured, description, is_featured, is_premium, 
+        listing_type, review_count, photos, seo_tags, seo_description, seo_title,
+        services, amenities, premium_score
       `;
       
-      const result = await pool.query(nearbyQuery);
-      
-      // Check for Beverly Hills specifically if searching in that area
-      const latFloat = parseFloat(lat);
-      const lngFloat = parseFloat(lng);
-      const isBeverlyHillsArea = 
-        Math.abs(latFloat - 34.0736) < 0.1 && 
-        Math.abs(lngFloat - (-118.4004)) < 0.1;
-      
-      if (isBeverlyHillsArea) {
-        console.log("Beverly Hills area detected (90210)!");
-        
-        // Try to get Beverly Hills laundromats by ZIP first
-        const beverlyHillsQuery = `
-          SELECT id, name, slug, address, city, state, zip, phone, 
-                 website, latitude, longitude, rating, image_url, 
-                 hours, description, is_featured, is_premium, 
-                 listing_type, review_count, photos, seo_tags, seo_description, seo_title,
-                 services, amenities, premium_score
-          FROM laundromats
-          WHERE zip = '90210' OR city = 'Beverly Hills'
-        `;
-        
-        const beverlyHillsResult = await pool.query(beverlyHillsQuery);
-        
-        if (beverlyHillsResult.rows.length > 0) {
-          console.log(`Found ${beverlyHillsResult.rows.length} laundromats in Beverly Hills (90210)`);
-          
-          // Calculate distance for each Beverly Hills laundromat
-          const beverlyHillsLaundromats = beverlyHillsResult.rows
-            .map(l => {
-              const distance = this.calculateDistance(
-                latFloat, 
-                lngFloat, 
-                parseFloat(l.latitude || "0"), 
-                parseFloat(l.longitude || "0")
-              );
-              
-              return { ...l, distance };
-            })
-            .sort((a, b) => a.distance - b.distance);
-            
-          return beverlyHillsLaundromats;
-        }
-      }
-      
-      // If we didn't find Beverly Hills results or it's not Beverly Hills,
-      // calculate distance for each laundromat in the database
-      console.log("Calculating distances for all laundromats...");
-      
-      // Calculate distances and filter by radius
-      let nearbyLaundromats = result.rows
-        .map(l => {
-          // Calculate distance using Haversine formula
-          const distance = this.calculateDistance(
-            latFloat, 
-            lngFloat, 
-            parseFloat(l.latitude || "0"), 
-            parseFloat(l.longitude || "0")
-          );
-          
-          return { ...l, distance };
-        })
-        .filter(l => l.distance <= searchRadius)
-        .sort((a, b) => a.distance - b.distance);
+      let nearbyLaundromats = await findLaundromatsWithinRadius(center, {
+        radiusMiles: searchRadius,
+        limit: 200,
+        columns
+      });
       
       // If we still don't have any results, just return the 5 closest laundromats
       if (nearbyLaundromats.length === 0) {
         console.log("No laundromats found within radius, returning closest 5 regardless of distance");
-        
-        nearbyLaundromats = result.rows
-          .map(l => {
-            const distance = this.calculateDistance(
-              latFloat, 
-              lngFloat, 
-              parseFloat(l.latitude || "0"), 
-              parseFloat(l.longitude || "0")
-            );
-            
-            return { ...l, distance };
-          })
-          .sort((a, b) => a.distance - b.distance)
-          .slice(0, 5);
+        nearbyLaundromats = await findNearestLaundromats(center, { limit: 5, columns });
       }
       
       console.log("Found laundromats:", nearbyLaundromats.length);
@@ -635,35 +620,22 @@ export class DatabaseStorage implements IStorage {
   async getNearbyLaundromats(currentId: number, lat: number, lng: number, radius = 5): Promise<Laundromat[]> {
     try {
       // Get nearby laundromats excluding the current one
-      const nearbyQuery = `
-        SELECT id, name, slug, address, city, state, zip, phone, 
-               website, latitude, longitude, rating, image_url, 
-               hours, description, is_featured, is_premium, 
-               listing_type, review_count, photos, services,
-               seo_tags, seo_description, seo_title, 
-               amenities, premium_score
-        FROM laundromats
-        WHERE id != $1
-        LIMIT 50
-      `;
-      
-      const result = await pool.query(nearbyQuery, [currentId]);
-      console.log(`Looking for nearby laundromats around ID ${currentId} - found ${result.rows.length} candidates`);
+      const candidates = await findLaundromatsWithinRadius({ lat, lng }, {
+        radiusMiles: radius,
+        limit: 50,
+        excludeId: currentId,
+        columns: `
+          id, name, slug, address, city, state, zip, phone, 
+          website, latitude, longitude, rating, image_url, 
+          hours, description, is_featured, is_premium, 
+          listing_type, review_count, photos, services,
+          seo_tags, seo_description, seo_title, 
+          amenities, premium_score
+        `
+      });
+      console.log(`Looking for nearby laundromats around ID ${currentId} - found ${candidates.length} candidates`);
       
-      // Calculate distance for each laundromat
-      const nearbyLaundromats = result.rows
-        .map(l => {
-          // Simple distance calculation
-          const distance = this.calculateDistance(
-            lat, 
-            lng, 
-            parseFloat(l.latitude || "0"), 
-            parseFloat(l.longitude || "0")
-          );
-          
-          return { ...l, distance };
-        })
-        .filter(l => l.distance <= radius)
+      const nearbyLaundromats = candidates
         .sort((a, b) => {
           // Sort by premium status first, then by distance
           if (a.is_premium && !b.is_premium) return -1;
@@ -682,327 +654,31 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
-  // Calculate distance between two points using Haversine formula
-  private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 3958.8; // Earth's radius in miles
-    const dLat = this.deg2rad(lat2 - lat1);
-    const dLon = this.deg2rad(lon2 - lon1);
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(this.deg2rad(lat1)) * Math.cos(this.deg2rad(lat2)) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2); 
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a)); 
-    const distance = R * c; // Distance in miles
-    return distance;
-  }
-  
-  private deg2rad(deg: number): number {
-    return deg * (Math.PI/180);
-  }
-  
   // Get ZIP code coordinates using Google Maps API
   async getZipCoordinates(zipCode: string): Promise<{lat: number, lng: number} | null> {
     try {
-      // Special handling for Albertville, Alabama (ZIP 35951)
-      if (zipCode === '35951') {
-        console.log(`✓ Special handling for Albertville ZIP ${zipCode}`);
-        return { lat: 34.2673, lng: -86.2089 };
-      }
-      
-      // First check if we have coordinates from a laundromat with this ZIP
-      const laundryQuery = `
-        SELECT latitude, longitude 
-        FROM laundromats 
-        WHERE zip = $1 AND latitude IS NOT NULL AND longitude IS NOT NULL AND latitude != '' AND longitude != ''
-        LIMIT 1
-      `;
-      
-      const laundryResult = await pool.query(laundryQuery, [zipCode]);
-      
-      if (laundryResult.rows.length > 0) {
-        console.log(`✓ Found coordinates from laundromat with ZIP ${zipCode}`);
-        return {
-          lat: parseFloat(laundryResult.rows[0].latitude),
-          lng: parseFloat(laundryResult.rows[0].longitude)
-        };
-      }
-      
-      // Next, check if we have the ZIP code in our database
-      const query = `
-        SELECT latitude, longitude 
-        FROM zip_codes 
-        WHERE zip = $1
-      `;
-      
-      const result = await pool.query(query, [zipCode]);
-      
-      if (result.rows.length > 0) {
-        console.log(`Found ZIP ${zipCode} in our database`);
-        return {
-          lat: parseFloat(result.rows[0].latitude),
-          lng: parseFloat(result.rows[0].longitude)
-        };
-      }
-      
-      // If not in our database, use Google Maps Geocoding API
-      const googleMapsApiKey = process.env.GOOGLE_MAPS_API_KEY;
-      
-      if (!googleMapsApiKey) {
-        console.warn("Google Maps API key is not set. Using fallback coordinates.");
-        // Use a central US location as fallback
-        return { lat: 34.2293, lng: -86.0903 };
-      }
+      // Resolved from zip_coordinates / our own listings, with Google only as an optional fallback
+      const location = await geocoder.geocode({ type: 'zip', zip: zipCode });
       
-      console.log(`Looking up ZIP ${zipCode} with Google Maps API`);
-      const geocodingUrl = `https://maps.googleapis.com/maps/api/geocode/json?address=${zipCode}&key=${googleMapsApiKey}`;
-      
-      const response = await fetch(geocodingUrl);
-      const data = await response.json();
-      
-      if (data.status === 'OK' && data.results && data.results.length > 0) {
-        const location = data.results[0].geometry.location;
-        console.log(`Google Maps found coordinates for ZIP ${zipCode}: ${location.lat}, ${location.lng}`);
-        
-        // Save to our database for future use
-        try {
-          const insertQuery = `
-            INSERT INTO zip_codes (zip, latitude, longitude, city, state, country)
-            VALUES ($1, $2, $3, $4, $5, $6)
-            ON CONFLICT (zip) DO NOTHING
-          `;
-          
-          // Extract address components
-          const addressComponents = data.results[0].address_components;
-          let city = '';
-          let state = '';
-          let country = 'USA';
-          
-          for (const component of addressComponents) {
-            if (component.types.includes('locality')) {
-              city = component.long_name;
-            } else if (component.types.includes('administrative_area_level_1')) {
-              state = component.short_name;
-            } else if (component.types.includes('country')) {
-              country = component.long_name;
-            }
-          }
-          
-          await pool.query(insertQuery, [
-            zipCode,
-            location.lat.toString(),
-            location.lng.toString(),
-            city,
-            state,
-            country
-          ]);
-          
-          console.log(`Saved ZIP ${zipCode} to database for future use`);
-        } catch (saveError) {
-          console.error(`Error saving ZIP code to database: ${saveError}`);
-          // Continue even if saving fails
-        }
-        
-        return { lat: location.lat, lng: location.lng };
-      } else {
-        console.warn(`Google Maps API couldn't find coordinates for ZIP ${zipCode}: ${data.status}`);
-        
-        // Fallback to some known coordinates for specific ZIP ranges
-        const zipPrefix = zipCode.substring(0, 2);
-        const zipPrefixMap: Record<string, [number, number]> = {
-          '35': [34.2673, -86.2089], // Alabama
-          '80': [40.5853, -105.0844], // Colorado
-          '90': [34.0522, -118.2437], // Los Angeles
-          '10': [40.7128, -74.0060], // New York
-        };
-        
-        if (zipPrefix in zipPrefixMap) {
-          const [lat, lng] = zipPrefixMap[zipPrefix];
-          console.log(`Using fallback coordinates for ZIP prefix ${zipPrefix}`);
-          return { lat, lng };
-        }
-        
+      if (!location) {
+        console.warn(`No coordinates found for ZIP ${zipCode}`);
         return null;
       }
+      
+      return { lat: location.lat, lng: location.lng };
     } catch (error) {
       console.error(`Error getting coordinates for ZIP ${zipCode}:`, error);
       return null;
     }
   }
 
+  // Featured and premium sections are chosen by subscription (see server/premium.ts)
   async getFeaturedLaundromats(): Promise<Laundromat[]> {
-    try {
-      // Use a simple SQL query with column names we know exist
-      const featuredQuery = `
-        SELECT id, name, slug, address, city, state, zip, phone, 
-               website, latitude, longitude, rating, image_url, 
-               hours, description, is_featured, is_premium, 
-               listing_type, review_count, photos, seo_tags, seo_description, seo_title,
-               services, amenities, premium_score
-        FROM laundromats
-        WHERE is_featured = true
-        ORDER BY featured_rank ASC NULLS LAST
-        LIMIT 10
-      `;
-      
-      const result = await pool.query(featuredQuery);
-      console.log("Featured laundromats found:", result.rows.length);
-      return result.rows as Laundromat[];
-    } catch (error) {
-      console.error("Error in getFeaturedLaundromats:", error);
-      
-      // Simple fallback - just return any 10 laundromats
-      try {
-        const fallbackQuery = `
-          SELECT id, name, slug, address, city, state, zip, phone, 
-                 website, latitude, longitude, rating, image_url, 
-                 hours, description
-          FROM laundromats
-          LIMIT 10
-        `;
-        const fallbackResult = await db.execute(fallbackQuery);
-        console.log("Fallback used - returning any laundromats:", fallbackResult.rows.length);
-        return fallbackResult.rows;
-      } catch (fallbackError) {
-        console.error("Complete fallback error - can't query database:", fallbackError);
-        return [];
-      }
-    }
+    return getPlacements('featured', { limit: 10, countImpressions: false });
   }
   
   async getPremiumLaundromats(): Promise<Laundromat[]> {
-    try {
-      // First, try updating scoring for specific laundromats to mark them as premium
-      // Select 4 laundromats from different states and update their premium score
-      const updatePremiumScoresQuery = `
-        UPDATE laundromats 
-        SET premium_score = 95, 
-            listing_type = 'premium',
-            is_premium = true,
-            subscription_active = true,
-            subscription_status = 'active',
-            promotional_text = CASE 
-              WHEN id = 101 THEN 'SPECIAL OFFER: 20% off on all wash loads on Tuesdays! Modern machines, free WiFi.'
-              WHEN id = 103 THEN 'MONTHLY MEMBERSHIP: Join our Wash Club for unlimited washes at $49.99/month.'
-              WHEN id = 342 THEN 'PREMIUM AMENITIES: Free detergent on your first visit! Clean facility with security.'
-              WHEN id = 515 THEN 'NEWLY RENOVATED! Comfortable waiting area with free coffee and fast WiFi.'
-            END,
-            verified = true
-        WHERE id IN (101, 103, 342, 515)
-      `;
-      
-      try {
-        await pool.query(updatePremiumScoresQuery);
-        console.log("Updated premium scores for selected laundromats");
-      } catch (updateError) {
-        console.error("Could not update premium scores:", updateError);
-      }
-      
-      // Now query for premium laundromats based on score or listing type
-      const premiumQuery = `
-        SELECT id, name, slug, address, city, state, zip, phone, 
-               website, latitude, longitude, rating, image_url, 
-               hours, description, is_featured, is_premium, 
-               listing_type, review_count, promotional_text,
-               services, photos, premium_score
-        FROM laundromats
-        WHERE is_premium = true 
-           OR listing_type = 'premium' 
-           OR premium_score >= 80
-        ORDER BY premium_score DESC NULLS LAST
-        LIMIT 4
-      `;
-      
-      const result = await pool.query(premiumQuery);
-      console.log("Premium laundromats found:", result.rows.length);
-      
-      if (result.rows && result.rows.length > 0) {
-        // Add default promotional text if not present
-        const enhancedResults = result.rows.map(laundry => ({
-          ...laundry,
-          promotional_text: laundry.promotional_text || `Top-rated laundromat in ${laundry.city}, ${laundry.state}!`,
-          listing_type: "premium" // Ensure premium listing type
-        }));
-        
-        return enhancedResults as Laundromat[];
-      }
-      
-      // Fallback: use specific laundromat IDs if scoring approach fails
-      console.log("Premium scoring approach returned no results. Using direct ID selection.");
-      
-      const directQuery = `
-        SELECT id, name, slug, address, city, state, zip, phone, 
-               website, latitude, longitude, rating, image_url, 
-               hours, description, is_featured, is_premium, 
-               listing_type, review_count, promotional_text,
-               services, photos
-        FROM laundromats
-        WHERE id IN (101, 103, 342, 515)
-        LIMIT 4
-      `;
-      
-      const directResult = await pool.query(directQuery);
-      console.log("Direct ID selection returned:", directResult.rows.length);
-      
-      if (directResult.rows && directResult.rows.length > 0) {
-        // Use professional promotional messages for these premium subscribers
-        const promotionalTexts = {
-          101: "SPECIAL OFFER: 20% off on all wash loads on Tuesdays! Modern machines, free WiFi, and children's play area.",
-          103: "MONTHLY MEMBERSHIP: Join our Wash Club for unlimited washes at $49.99/month. Newest high-efficiency equipment!",
-          342: "PREMIUM AMENITIES: Free detergent on your first visit! Clean, spacious facility with 24-hour security.",
-          515: "NEWLY RENOVATED! Enjoy our comfortable waiting area with free coffee and fast 5G WiFi while you wait."
-        };
-        
-        const enhancedDirect = directResult.rows.map(laundry => ({
-          ...laundry,
-          promotional_text: promotionalTexts[laundry.id as keyof typeof promotionalTexts] || 
-                            `Premium service at ${laundry.name}!`,
-          listing_type: "premium" // Mark as premium for display
-        }));
-        
-        return enhancedDirect as Laundromat[];
-      }
-      
-      // Final fallback: just get any laundromats with images
-      const fallbackQuery = `
-        SELECT id, name, slug, address, city, state, zip, phone, 
-               website, latitude, longitude, rating, image_url, 
-               hours, description
-        FROM laundromats
-        WHERE image_url IS NOT NULL
-        LIMIT 4
-      `;
-      
-      const fallbackResult = await pool.query(fallbackQuery);
-      console.log("Using fallback for premium laundromats:", fallbackResult.rows.length);
-      
-      // Enhance with promotional text
-      const enhancedFallback = fallbackResult.rows.map(laundry => ({
-        ...laundry,
-        promotional_text: "Quality laundromat with excellent service!",
-        listing_type: "premium" // Mark as premium for display
-      }));
-      
-      return enhancedFallback as Laundromat[];
-    } catch (error) {
-      console.error("Error in getPremiumLaundromats:", error);
-      
-      // Simplest possible query as last resort
-      try {
-        const simpleQuery = `SELECT * FROM laundromats LIMIT 4`;
-        const simpleResult = await pool.query(simpleQuery);
-        
-        const enhancedSimple = simpleResult.rows.map(laundry => ({
-          ...laundry,
-          promotional_text: "Featured laundromat with great service!",
-          listing_type: "premium"
-        }));
-        
-        return enhancedSimple as Laundromat[];
-      } catch (simpleError) {
-        console.error("Complete failure retrieving any laundromats:", simpleError);
-        return [];
-      }
-    }
+    return getPlacements('premium', { limit: 4, countImpressions: false });
   }
 
   async createLaundromat(insertLaundry: InsertLaundromat): Promise<Laundromat> {
@@ -1026,59 +702,208 @@ export class DatabaseStorage implements IStorage {
   async getReviews(laundryId: number): Promise<Review[]> {
     return db.select()
       .from(reviews)
-      .where(eq(reviews.laundryId, laundryId))
+      .where(and(eq(reviews.laundryId, laundryId), eq(reviews.status, 'approved')))
       .orderBy(desc(reviews.createdAt));
   }
 
+  async getReview(id: number): Promise<Review | undefined> {
+    const [review] = await db.select()
+      .from(reviews)
+      .where(eq(reviews.id, id));
+    return review;
+  }
+
+  async getUserReview(userId: number, laundryId: number): Promise<Review | undefined> {
+    const [review] = await db.select()
+      .from(reviews)
+      .where(and(eq(reviews.userId, userId), eq(reviews.laundryId, laundryId)));
+    return review;
+  }
+
   async createReview(insertReview: InsertReview): Promise<Review> {
     const [review] = await db
       .insert(reviews)
       .values(insertReview)
       .returning();
       
-    // Update laundromat's rating
-    await this.updateLaundryRating(review.laundryId);
+    // Pending reviews don't count towards the rating until they're approved
+    if (review.status === 'approved') {
+      await this.updateLaundryRating(review.laundryId);
+    }
     
     return review;
   }
 
-  // Favorite operations
-  async getUserFavorites(userId: number): Promise<Laundromat[]> {
-    const favoritesResult = await db.select({
-      laundryId: favorites.laundryId
-    })
-    .from(favorites)
-    .where(eq(favorites.userId, userId));
-    
-    if (favoritesResult.length === 0) return [];
+  async updateReview(id: number, changes: Partial<Review>): Promise<Review | undefined> {
+    const { id: _id, createdAt, ...values } = changes;
+    const [before] = await db
+      .select({ status: reviews.status })
+      .from(reviews)
+      .where(eq(reviews.id, id));
+    const [review] = await db
+      .update(reviews)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(reviews.id, id))
+      .returning();
     
-    const laundryIds = favoritesResult.map(f => f.laundryId);
+    // The rating changes when an approved review is edited, approved, rejected or flagged
+    if (review && (before?.status === 'approved' || review.status === 'approved')) {
+      await this.updateLaundryRating(review.laundryId);
+    }
+    return review;
+  }
+
+  async getReviewsByStatus(statuses: ReviewStatus[], limit: number, offset: number): Promise<PageResult<Review>> {
+    const where = inArray(reviews.status, statuses);
+    const [items, [{ total }]] = await Promise.all([
+      db.select()
+        .from(reviews)
+        .where(where)
+        .orderBy(asc(reviews.createdAt), asc(reviews.id))
+        .limit(limit)
+        .offset(offset),
+      db.select({ total: sql<number>`count(*)::int` })
+        .from(reviews)
+        .where(where)
+    ]);
     
+    return { items, total };
+  }
+
+  async getReviewReports(reviewId: number): Promise<ReviewReport[]> {
     return db.select()
-      .from(laundromats)
-      .where(
-        laundryIds.map(id => eq(laundromats.id, id)).reduce((a, b) => or(a, b))
-      );
+      .from(reviewReports)
+      .where(eq(reviewReports.reviewId, reviewId))
+      .orderBy(asc(reviewReports.createdAt));
+  }
+
+  async reportReview(insertReport: InsertReviewReport): Promise<Review | undefined> {
+    return db.transaction(async tx => {
+      const [report] = await tx
+        .insert(reviewReports)
+        .values(insertReport)
+        .onConflictDoNothing()
+        .returning();
+      if (!report) return undefined;
+      
+      const [review] = await tx
+        .update(reviews)
+        .set({ reportCount: sql`${reviews.reportCount} + 1` })
+        .where(eq(reviews.id, insertReport.reviewId))
+        .returning();
+      return review;
+    });
+  }
+
+  async getReviewPhotos(reviewIds: number[]): Promise<ReviewPhoto[]> {
+    if (reviewIds.length === 0) return [];
+    return db.select()
+      .from(reviewPhotos)
+      .where(inArray(reviewPhotos.reviewId, reviewIds))
+      .orderBy(asc(reviewPhotos.id));
+  }
+
+  async addReviewPhoto(insertPhoto: InsertReviewPhoto): Promise<ReviewPhoto> {
+    const [photo] = await db
+      .insert(reviewPhotos)
+      .values(insertPhoto)
+      .returning();
+    return photo;
+  }
+
+  async deleteReviewPhoto(reviewId: number, id: number): Promise<ReviewPhoto | undefined> {
+    const [photo] = await db
+      .delete(reviewPhotos)
+      .where(and(eq(reviewPhotos.id, id), eq(reviewPhotos.reviewId, reviewId)))
+      .returning();
+    return photo;
+  }
+
+  // Favorite operations
+  async getUserFavorites(userId: number): Promise<{ favorite: Favorite, laundromat: Laundromat }[]> {
+    return db.select({
+      favorite: favorites,
+      laundromat: laundromats
+    })
+    .from(favorites)
+    .innerJoin(laundromats, eq(favorites.laundryId, laundromats.id))
+    .where(eq(favorites.userId, userId))
+    .orderBy(desc(favorites.createdAt));
   }
 
   async addFavorite(insertFavorite: InsertFavorite): Promise<Favorite> {
     const [favorite] = await db
       .insert(favorites)
       .values(insertFavorite)
+      .onConflictDoUpdate({
+        target: [favorites.userId, favorites.laundryId],
+        set: { listId: insertFavorite.listId ?? null }
+      })
       .returning();
     return favorite;
   }
 
   async removeFavorite(userId: number, laundryId: number): Promise<boolean> {
-    const result = await db
+    const removed = await db
       .delete(favorites)
       .where(
         and(
           eq(favorites.userId, userId),
           eq(favorites.laundryId, laundryId)
         )
-      );
-    return !!result;
+      )
+      .returning({ id: favorites.id });
+    return removed.length > 0;
+  }
+
+  async mergeFavorites(userId: number, laundryIds: number[]): Promise<number> {
+    if (laundryIds.length === 0) return 0;
+    
+    // Skip ids that no longer match a listing
+    const existing = await db.select({ id: laundromats.id })
+      .from(laundromats)
+      .where(inArray(laundromats.id, laundryIds));
+    if (existing.length === 0) return 0;
+    
+    const added = await db
+      .insert(favorites)
+      .values(existing.map(({ id }) => ({ userId, laundryId: id })))
+      .onConflictDoNothing()
+      .returning({ id: favorites.id });
+    return added.length;
+  }
+
+  async getFavoriteLists(userId: number): Promise<FavoriteList[]> {
+    return db.select()
+      .from(favoriteLists)
+      .where(eq(favoriteLists.userId, userId))
+      .orderBy(asc(favoriteLists.name));
+  }
+
+  async createFavoriteList(list: InsertFavoriteList): Promise<FavoriteList> {
+    const [newList] = await db
+      .insert(favoriteLists)
+      .values(list)
+      .returning();
+    return newList;
+  }
+
+  async renameFavoriteList(userId: number, id: number, name: string): Promise<FavoriteList | undefined> {
+    const [list] = await db
+      .update(favoriteLists)
+      .set({ name })
+      .where(and(eq(favoriteLists.id, id), eq(favoriteLists.userId, userId)))
+      .returning();
+    return list;
+  }
+
+  async deleteFavoriteList(userId: number, id: number): Promise<boolean> {
+    // favorites.list_id is ON DELETE SET NULL, so saved laundromats stay saved
+    const deleted = await db
+      .delete(favoriteLists)
+      .where(and(eq(favoriteLists.id, id), eq(favoriteLists.userId, userId)))
+      .returning({ id: favoriteLists.id });
+    return deleted.length > 0;
   }
 
   // Subscription operations
@@ -1165,9 +990,15 @@ export class DatabaseStorage implements IStorage {
         );
         
       if (activeSubscriptions.length === 0) {
+        const [laundromat] = await db
+          .select()
+          .from(laundromats)
+          .where(eq(laundromats.id, subscription.laundryId));
+        
         await db
           .update(laundromats)
           .set({ 
+            ...(laundromat ? limitPremiumContent('basic', laundromat) : {}),
             listingType: 'basic',
             isPremium: false,
             isFeatured: false,
@@ -1180,27 +1011,35 @@ export class DatabaseStorage implements IStorage {
     return subscription;
   }
   
-  async checkExpiredSubscriptions(): Promise<void> {
+  async checkExpiredSubscriptions(): Promise<Subscription[]> {
     const now = new Date();
     
-    // Find expired subscriptions
+    // Find expired subscriptions. Stripe renews auto-renewing subscriptions itself
+    // and reports failed payments by webhook, so those are left to the grace period.
     const expiredSubscriptions = await db
       .select()
       .from(subscriptions)
       .where(
         and(
           eq(subscriptions.status, 'active'),
-          lte(subscriptions.endDate, now)
+          lte(subscriptions.endDate, now),
+          or(
+            isNull(subscriptions.stripeSubscriptionId),
+            sql`${subscriptions.autoRenew} IS NOT TRUE`
+          )
         )
       );
+    const expired: Subscription[] = [];
       
     // Update status and downgrade laundromats if needed
     for (const sub of expiredSubscriptions) {
       // Update subscription status
-      await db
+      const [updated] = await db
         .update(subscriptions)
         .set({ status: 'expired' })
-        .where(eq(subscriptions.id, sub.id));
+        .where(eq(subscriptions.id, sub.id))
+        .returning();
+      expired.push(updated);
         
       // Check if laundromat has other active subscriptions
       const activeSubscriptions = await db
@@ -1215,9 +1054,15 @@ export class DatabaseStorage implements IStorage {
         
       // Downgrade if no active subscriptions remain
       if (activeSubscriptions.length === 0) {
+        const [laundromat] = await db
+          .select()
+          .from(laundromats)
+          .where(eq(laundromats.id, sub.laundryId));
+        
         await db
           .update(laundromats)
           .set({ 
+            ...(laundromat ? limitPremiumContent('basic', laundromat) : {}),
             listingType: 'basic',
             isPremium: false,
             isFeatured: false,
@@ -1226,6 +1071,8 @@ export class DatabaseStorage implements IStorage {
           .where(eq(laundromats.id, sub.laundryId));
       }
     }
+    
+    return expired;
   }
   
   // City operations
@@ -1485,52 +1332,42 @@ export class DatabaseStorage implements IStorage {
     };
   }
   
-  async updatePremiumFeatures(laundryId: number, features: any): Promise<boolean> {
-    const [laundromat] = await db
-      .select()
-      .from(laundromats)
-      .where(eq(laundromats.id, laundryId));
-      
-    if (!laundromat) return false;
-    
-    // Only allow updating premium features if the laundromat has an active premium subscription
-    if (!laundromat.subscriptionActive) return false;
-    
-    // Update the premium features
-    await db
+  async updatePremiumFeatures(laundryId: number, features: PremiumContent): Promise<boolean> {
+    // Update only the fields that were given; null clears a field
+    const updated = await db
       .update(laundromats)
       .set({
-        promotionalText: features.promotionalText || laundromat.promotionalText,
-        amenities: features.amenities || laundromat.amenities,
-        machineCount: features.machineCount || laundromat.machineCount,
-        photos: features.photos || laundromat.photos,
-        specialOffers: features.specialOffers || laundromat.specialOffers
+        promotionalText: features.promotionalText,
+        amenities: features.amenities,
+        machineCount: features.machineCount,
+        photos: features.photos,
+        specialOffers: features.specialOffers
       })
-      .where(eq(laundromats.id, laundryId));
+      .where(eq(laundromats.id, laundryId))
+      .returning({ id: laundromats.id });
     
-    return true;
+    return updated.length > 0;
   }
   
   // Helper methods
   private async updateLaundryRating(laundryId: number): Promise<void> {
-    // Get all reviews for the laundromat
+    // Only approved reviews count; once none are left, the listing has no rating
     const reviewsForLaundry = await db
       .select()
       .from(reviews)
-      .where(eq(reviews.laundryId, laundryId));
-      
-    if (reviewsForLaundry.length === 0) return;
+      .where(and(eq(reviews.laundryId, laundryId), eq(reviews.status, 'approved')));
     
     // Calculate average rating
     const totalRating = reviewsForLaundry.reduce((sum, review) => sum + review.rating, 0);
-    const averageRating = (totalRating / reviewsForLaundry.length).toFixed(1);
+    const averageRating = reviewsForLaundry.length ? (totalRating / reviewsForLaundry.length).toFixed(1) : '0';
     
     // Update laundromat rating
     await db
       .update(laundromats)
       .set({ 
         rating: averageRating,
-        reviewCount: reviewsForLaundry.length
+        reviewCount: reviewsForLaundry.length,
+        subRatings: computeSubRatings(reviewsForLaundry)
       })
       .where(eq(laundromats.id, laundryId));
   }
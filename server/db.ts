@@ -12,4 +12,6 @@ if (!process.env.DATABASE_URL) {
 }
 
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle(pool, { schema });
\ No newline at end of file
+export const db = drizzle(pool, { schema });
+// The handle passed to db.transaction callbacks, for helpers that run inside one
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
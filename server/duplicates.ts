@@ -0,0 +1,497 @@
+/**
+ * Duplicate Listings
+ *
+ * The same laundromat often gets in more than once, from different sources or with its
+ * name or address spelled differently. A daily scan (the duplicate-scan job) pairs up
+ * listings within PROXIMITY_RADIUS_METERS of each other, or in the same ZIP code with
+ * the same phone number or a similar address, and scores each pair on:
+ *   - name       letter-pair similarity, ignoring words like "laundromat" and "coin"
+ *   - address    similarity of the normalized street line; different house numbers score 0
+ *   - phone      the same last 10 digits
+ *   - proximity  1 at the same spot, falling to 0 at PROXIMITY_RADIUS_METERS
+ * Pairs scoring MIN_DUPLICATE_SCORE or more are kept as open candidates for admins to
+ * review at /admin/duplicates. Dismissed pairs stay dismissed.
+ *
+ * Merging a pair keeps one listing, the survivor, with whichever fields the admin picked
+ * from the other. Reviews, favorites, subscriptions, claims, placement overrides, stats
+ * and ownership move to the survivor, the other listing is deleted, and its slugs are
+ * handed to the survivor so its old URLs redirect there (see slug-history.ts).
+ */
+import { and, count, desc, eq, inArray, lt, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { db, pool } from './db';
+import { registerJob } from './scheduler';
+import { transferSlugs } from './slug-history';
+import { createSlug } from './utils/helpers';
+import { houseNumber, normalizeStreetAddress, phoneDigits } from './utils/addresses';
+import type { PageRequest } from './utils/pagination';
+import { computeSubRatings } from '@shared/reviews';
+import type { DuplicateCandidateStatus, DuplicateSignals, MergeField } from '@shared/duplicates';
+import {
+  adminNotifications,
+  businessClaims,
+  cities,
+  duplicateCandidates,
+  favorites,
+  laundromatMerges,
+  laundromats,
+  listingDailyStats,
+  placementImpressions,
+  placementOverrides,
+  reviews,
+  states,
+  subscriptions,
+  type DuplicateCandidate,
+  type Laundromat,
+  type LaundromatMerge
+} from '@shared/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Listings this close together are always compared
+export const PROXIMITY_RADIUS_METERS = 400;
+// Farther apart, listings in the same ZIP code are compared when their addresses are at
+// least this similar (pg_trgm similarity) or their phone numbers match
+const MIN_ADDRESS_SIMILARITY = 0.6;
+export const MIN_DUPLICATE_SCORE = 0.55;
+
+// How much each signal counts towards the score
+const WEIGHTS = { name: 0.35, address: 0.35, phone: 0.15, proximity: 0.15 };
+
+const UPSERT_BATCH_SIZE = 500;
+
+// Words most listing names have, which say nothing about which laundromat it is
+const GENERIC_NAME_WORDS = new Set([
+  'the', 'and', 'laundromat', 'laundromats', 'laundry', 'laundries', 'coin', 'coinop', 'op',
+  'self', 'service', 'wash', 'washateria', 'washeteria', 'center', 'centre', 'llc', 'inc', 'co',
+]);
+
+// Columns each merge field takes from the chosen listing
+const MERGE_COLUMNS: Record<MergeField, Array<keyof Laundromat>> = {
+  name: ['name'],
+  address: ['address', 'city', 'state', 'zip', 'latitude', 'longitude'],
+  phone: ['phone'],
+  website: ['website'],
+  hours: ['hours', 'hoursStructured'],
+  services: ['services'],
+  amenities: ['amenities'],
+  paymentOptions: ['paymentOptions'],
+  machineCount: ['machineCount'],
+  priceLevel: ['priceLevel'],
+  imageUrl: ['imageUrl'],
+  photos: ['photos'],
+  description: ['description'],
+};
+
+// A paying listing's tier and premium content, taken over by a survivor that isn't paying
+const SUBSCRIPTION_COLUMNS: Array<keyof Laundromat> = [
+  'listingType', 'isFeatured', 'isPremium', 'subscriptionActive', 'subscriptionExpiry', 'featuredUntil',
+  'subscriptionId', 'subscriptionStatus', 'featuredRank', 'promotionalText', 'specialOffers',
+];
+
+// The second listing of a pair, when both are selected in one query
+const duplicateListing = alias(laundromats, 'duplicate');
+
+// What admins see of each listing in a pair: enough to tell them apart and pick fields
+function listingColumns(table: typeof laundromats | typeof duplicateListing) {
+  return {
+    id: table.id,
+    name: table.name,
+    slug: table.slug,
+    address: table.address,
+    city: table.city,
+    state: table.state,
+    zip: table.zip,
+    phone: table.phone,
+    website: table.website,
+    hours: table.hours,
+    services: table.services,
+    amenities: table.amenities,
+    paymentOptions: table.paymentOptions,
+    machineCount: table.machineCount,
+    priceLevel: table.priceLevel,
+    imageUrl: table.imageUrl,
+    photos: table.photos,
+    description: table.description,
+    rating: table.rating,
+    reviewCount: table.reviewCount,
+    listingType: table.listingType,
+    subscriptionActive: table.subscriptionActive,
+    ownerId: table.ownerId,
+    verified: table.verified,
+    createdAt: table.createdAt,
+  };
+}
+
+// A failed step, as the HTTP status and message to send back
+export interface DuplicateFailure {
+  status: number;
+  message: string;
+}
+
+export type DuplicateResult<T> = { ok: true; value: T } | ({ ok: false } & DuplicateFailure);
+
+function fail(status: number, message: string): { ok: false } & DuplicateFailure {
+  return { ok: false, status, message };
+}
+
+// The parts of a listing pairs are scored on
+interface ScoredListing {
+  name: string;
+  address: string;
+  phone: string | null;
+}
+
+interface PairRow {
+  a_id: number;
+  a_name: string;
+  a_address: string;
+  a_phone: string | null;
+  b_id: number;
+  b_name: string;
+  b_address: string;
+  b_phone: string | null;
+  distance: number | null;
+}
+
+// Letter pairs of a string with its spaces removed, e.g. "suds" => su, ud, ds
+function bigrams(text: string): string[] {
+  const compact = text.replace(/\s+/g, '');
+  const grams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    grams.push(compact.slice(i, i + 2));
+  }
+  return grams;
+}
+
+// Dice coefficient of the two strings' letter pairs, from 0 to 1
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  if (!gramsA.length || !gramsB.length) return 0;
+
+  const counts = new Map<string, number>();
+  for (const gram of gramsA) {
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  let shared = 0;
+  for (const gram of gramsB) {
+    const remaining = counts.get(gram);
+    if (remaining) {
+      shared++;
+      counts.set(gram, remaining - 1);
+    }
+  }
+  return (2 * shared) / (gramsA.length + gramsB.length);
+}
+
+// The words of a name that tell one laundromat from another, or all of them when
+// the name is nothing but generic words
+function distinctiveName(name: string): string {
+  const words = (name || '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  const distinctive = words.filter(word => !GENERIC_NAME_WORDS.has(word));
+  return (distinctive.length ? distinctive : words).join(' ');
+}
+
+function addressSimilarity(a: string, b: string): number {
+  const numberA = houseNumber(a);
+  const numberB = houseNumber(b);
+  if (numberA && numberB && numberA !== numberB) return 0;
+  return similarity(normalizeStreetAddress(a), normalizeStreetAddress(b));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * How alike two listings are, given the distance between them in meters (null when
+ * either has no location)
+ */
+export function scorePair(a: ScoredListing, b: ScoredListing, distanceMeters: number | null): DuplicateSignals {
+  const phoneA = phoneDigits(a.phone);
+  const phoneB = phoneDigits(b.phone);
+  const signals = {
+    name: similarity(distinctiveName(a.name), distinctiveName(b.name)),
+    address: addressSimilarity(a.address, b.address),
+    phone: phoneA && phoneB ? (phoneA === phoneB ? 1 : 0) : null,
+    proximity: distanceMeters === null ? null : Math.max(0, 1 - distanceMeters / PROXIMITY_RADIUS_METERS),
+  };
+
+  let total = 0;
+  let weights = 0;
+  for (const signal of Object.keys(WEIGHTS) as Array<keyof typeof WEIGHTS>) {
+    const value = signals[signal];
+    if (value === null) continue;
+    total += WEIGHTS[signal] * value;
+    weights += WEIGHTS[signal];
+  }
+
+  return {
+    name: round(signals.name),
+    address: round(signals.address),
+    phone: signals.phone,
+    proximity: signals.proximity === null ? null : round(signals.proximity),
+    distanceMeters: distanceMeters === null ? null : Math.round(distanceMeters),
+    score: round(total / weights),
+  };
+}
+
+// Every pair worth scoring, lower id first
+async function findPairs(): Promise<PairRow[]> {
+  const columns = `
+    a.id AS a_id, a.name AS a_name, a.address AS a_address, a.phone AS a_phone,
+    b.id AS b_id, b.name AS b_name, b.address AS b_address, b.phone AS b_phone,
+    ST_Distance(a.location, b.location) AS distance
+  `;
+  const result = await pool.query<PairRow>(`
+    SELECT ${columns}
+    FROM laundromats a
+    JOIN laundromats b ON b.id > a.id AND ST_DWithin(a.location, b.location, $1)
+    UNION
+    SELECT ${columns}
+    FROM laundromats a
+    JOIN laundromats b ON b.id > a.id AND b.zip = a.zip
+    WHERE similarity(a.address, b.address) >= $2
+      OR (length(regexp_replace(a.phone, '\\D', '', 'g')) >= 10
+        AND right(regexp_replace(a.phone, '\\D', '', 'g'), 10) = right(regexp_replace(b.phone, '\\D', '', 'g'), 10))
+  `, [PROXIMITY_RADIUS_METERS, MIN_ADDRESS_SIMILARITY]);
+  return result.rows;
+}
+
+/**
+ * Score every likely pair and keep the ones that look like duplicates as open candidates.
+ * Open candidates that no longer score high enough, e.g. after a listing was edited,
+ * are removed; dismissed ones are left alone.
+ */
+export async function scanForDuplicates() {
+  const scannedAt = new Date();
+  const pairs = await findPairs();
+
+  const found = pairs
+    .map(pair => ({
+      laundryId: pair.a_id,
+      duplicateId: pair.b_id,
+      signals: scorePair(
+        { name: pair.a_name, address: pair.a_address, phone: pair.a_phone },
+        { name: pair.b_name, address: pair.b_address, phone: pair.b_phone },
+        pair.distance === null ? null : Number(pair.distance)
+      ),
+    }))
+    .filter(pair => pair.signals.score >= MIN_DUPLICATE_SCORE);
+
+  for (let i = 0; i < found.length; i += UPSERT_BATCH_SIZE) {
+    await db.insert(duplicateCandidates)
+      .values(found.slice(i, i + UPSERT_BATCH_SIZE).map(pair => ({
+        ...pair,
+        score: pair.signals.score,
+        createdAt: scannedAt,
+        updatedAt: scannedAt,
+      })))
+      .onConflictDoUpdate({
+        target: [duplicateCandidates.laundryId, duplicateCandidates.duplicateId],
+        set: { score: sql`excluded.score`, signals: sql`excluded.signals`, updatedAt: scannedAt },
+        setWhere: eq(duplicateCandidates.status, 'open')
+      });
+  }
+
+  const removed = await db.delete(duplicateCandidates)
+    .where(and(eq(duplicateCandidates.status, 'open'), lt(duplicateCandidates.updatedAt, scannedAt)))
+    .returning({ id: duplicateCandidates.id });
+
+  return { pairs: pairs.length, candidates: found.length, removed: removed.length };
+}
+
+/**
+ * Candidate pairs with a given status, most likely duplicates first, with both listings
+ */
+export async function listDuplicateCandidates(status: DuplicateCandidateStatus, page: PageRequest) {
+  const where = eq(duplicateCandidates.status, status);
+  const [rows, [{ total }]] = await Promise.all([
+    db.select({
+      candidate: duplicateCandidates,
+      listing: listingColumns(laundromats),
+      duplicate: listingColumns(duplicateListing),
+    })
+      .from(duplicateCandidates)
+      .innerJoin(laundromats, eq(laundromats.id, duplicateCandidates.laundryId))
+      .innerJoin(duplicateListing, eq(duplicateListing.id, duplicateCandidates.duplicateId))
+      .where(where)
+      .orderBy(desc(duplicateCandidates.score), duplicateCandidates.id)
+      .limit(page.limit)
+      .offset(page.offset),
+    db.select({ total: count() }).from(duplicateCandidates).where(where)
+  ]);
+
+  return {
+    items: rows.map(({ candidate, listing, duplicate }) => ({ ...candidate, listings: [listing, duplicate] })),
+    total
+  };
+}
+
+/**
+ * Mark a pair as not duplicates, so scans leave it alone
+ */
+export async function dismissCandidate(candidateId: number, adminId: number): Promise<DuplicateResult<DuplicateCandidate>> {
+  const now = new Date();
+  const [candidate] = await db.update(duplicateCandidates)
+    .set({ status: 'dismissed', reviewedBy: adminId, reviewedAt: now, updatedAt: now })
+    .where(eq(duplicateCandidates.id, candidateId))
+    .returning();
+  if (!candidate) {
+    return fail(404, 'Duplicate candidate not found');
+  }
+  return { ok: true, value: candidate };
+}
+
+function pickColumns(listing: Laundromat, columns: Array<keyof Laundromat>): Partial<Laundromat> {
+  return Object.fromEntries(columns.map(column => [column, listing[column]]));
+}
+
+/**
+ * Merge a candidate pair into `survivorId`, one of the pair, taking `fields` from the other
+ * listing. Listings owned by different people, or both paying, can't be merged.
+ */
+export async function mergeCandidate(
+  candidateId: number,
+  survivorId: number,
+  fields: MergeField[],
+  adminId: number
+): Promise<DuplicateResult<{ laundromat: Laundromat; merge: LaundromatMerge }>> {
+  return db.transaction(async tx => {
+    const [candidate] = await tx.select().from(duplicateCandidates).where(eq(duplicateCandidates.id, candidateId)).for('update');
+    if (!candidate) {
+      return fail(404, 'Duplicate candidate not found');
+    }
+    if (survivorId !== candidate.laundryId && survivorId !== candidate.duplicateId) {
+      return fail(400, 'The listing to keep must be one of the pair');
+    }
+    const mergedId = survivorId === candidate.laundryId ? candidate.duplicateId : candidate.laundryId;
+
+    const pair = await tx.select()
+      .from(laundromats)
+      .where(inArray(laundromats.id, [survivorId, mergedId]))
+      .orderBy(laundromats.id)
+      .for('update');
+    const survivor = pair.find(listing => listing.id === survivorId);
+    const merged = pair.find(listing => listing.id === mergedId);
+    if (!survivor || !merged) {
+      return fail(404, 'Laundromat not found');
+    }
+    if (survivor.ownerId && merged.ownerId && survivor.ownerId !== merged.ownerId) {
+      return fail(409, 'Both listings have owners. Revoke one owner before merging.');
+    }
+    if (survivor.subscriptionActive && merged.subscriptionActive) {
+      return fail(409, 'Both listings have active subscriptions. Cancel one before merging.');
+    }
+
+    const updates: Partial<Laundromat> = {
+      viewCount: (survivor.viewCount || 0) + (merged.viewCount || 0),
+      clickCount: (survivor.clickCount || 0) + (merged.clickCount || 0),
+    };
+    if (merged.lastViewed && (!survivor.lastViewed || merged.lastViewed > survivor.lastViewed)) {
+      updates.lastViewed = merged.lastViewed;
+    }
+    for (const field of fields) {
+      Object.assign(updates, pickColumns(merged, MERGE_COLUMNS[field]));
+    }
+    if (merged.ownerId && !survivor.ownerId) {
+      Object.assign(updates, pickColumns(merged, ['ownerId', 'verified', 'verificationDate']));
+    }
+    if (merged.subscriptionActive && !survivor.subscriptionActive) {
+      Object.assign(updates, pickColumns(merged, SUBSCRIPTION_COLUMNS));
+    }
+
+    // One review per user per listing: where someone reviewed both, the survivor's review stays
+    await tx.delete(reviews).where(and(
+      eq(reviews.laundryId, mergedId),
+      inArray(reviews.userId, tx.select({ userId: reviews.userId }).from(reviews).where(eq(reviews.laundryId, survivorId)))
+    ));
+    await tx.update(reviews).set({ laundryId: survivorId }).where(eq(reviews.laundryId, mergedId));
+
+    // Only approved reviews count; without any, the listing with more imported reviews keeps its rating
+    const approved = await tx.select()
+      .from(reviews)
+      .where(and(eq(reviews.laundryId, survivorId), eq(reviews.status, 'approved')));
+    if (approved.length) {
+      updates.rating = (approved.reduce((sum, review) => sum + review.rating, 0) / approved.length).toFixed(1);
+      updates.reviewCount = approved.length;
+      updates.subRatings = computeSubRatings(approved);
+    } else if ((merged.reviewCount || 0) > (survivor.reviewCount || 0)) {
+      Object.assign(updates, pickColumns(merged, ['rating', 'reviewCount']));
+    }
+
+    await tx.delete(favorites).where(and(
+      eq(favorites.laundryId, mergedId),
+      inArray(favorites.userId, tx.select({ userId: favorites.userId }).from(favorites).where(eq(favorites.laundryId, survivorId)))
+    ));
+    await tx.update(favorites).set({ laundryId: survivorId }).where(eq(favorites.laundryId, mergedId));
+
+    await tx.update(subscriptions).set({ laundryId: survivorId }).where(eq(subscriptions.laundryId, mergedId));
+    await tx.update(businessClaims).set({ laundryId: survivorId }).where(eq(businessClaims.laundryId, mergedId));
+    await tx.update(placementOverrides).set({ laundryId: survivorId }).where(eq(placementOverrides.laundryId, mergedId));
+    await tx.update(adminNotifications).set({ laundryId: survivorId }).where(eq(adminNotifications.laundryId, mergedId));
+
+    // Daily counts for the same day are added together
+    await tx.execute(sql`
+      INSERT INTO listing_daily_stats (laundry_id, event_type, day, count)
+      SELECT ${survivorId}::int, event_type, day, count FROM listing_daily_stats WHERE laundry_id = ${mergedId}
+      ON CONFLICT (laundry_id, event_type, day) DO UPDATE SET count = listing_daily_stats.count + EXCLUDED.count
+    `);
+    await tx.delete(listingDailyStats).where(eq(listingDailyStats.laundryId, mergedId));
+    await tx.execute(sql`
+      INSERT INTO placement_impressions (laundry_id, placement, scope, day, impressions)
+      SELECT ${survivorId}::int, placement, scope, day, impressions FROM placement_impressions WHERE laundry_id = ${mergedId}
+      ON CONFLICT (laundry_id, placement, scope, day) DO UPDATE SET impressions = placement_impressions.impressions + EXCLUDED.impressions
+    `);
+    await tx.delete(placementImpressions).where(eq(placementImpressions.laundryId, mergedId));
+
+    // Listings merged into the merged one now count as merged into the survivor
+    await tx.update(laundromatMerges).set({ survivorId }).where(eq(laundromatMerges.survivorId, mergedId));
+
+    const { location: _location, searchVector: _searchVector, ...snapshot } = merged;
+    const [merge] = await tx.insert(laundromatMerges)
+      .values({ survivorId, mergedId, mergedSlug: merged.slug, merged: snapshot, fields, mergedBy: adminId })
+      .returning();
+
+    // The merged listing's URLs, old and current, now lead to the survivor
+    await transferSlugs(tx, 'laundromat', mergedId, survivorId, merged.slug);
+
+    await tx.delete(laundromats).where(eq(laundromats.id, mergedId));
+    const [laundromat] = await tx.update(laundromats)
+      .set(updates)
+      .where(eq(laundromats.id, survivorId))
+      .returning();
+
+    // One listing fewer where the listing that's gone was: the merged one, or the
+    // survivor's old address when it took the merged listing's
+    const gone = fields.includes('address') ? survivor : merged;
+    await tx.update(cities)
+      .set({ laundryCount: sql`GREATEST(COALESCE(${cities.laundryCount}, 0) - 1, 0)` })
+      .where(eq(cities.slug, `${createSlug(gone.city)}-${gone.state.toLowerCase()}`));
+    await tx.update(states)
+      .set({ laundryCount: sql`GREATEST(COALESCE(${states.laundryCount}, 0) - 1, 0)` })
+      .where(eq(states.abbr, gone.state));
+
+    return { ok: true as const, value: { laundromat, merge } };
+  });
+}
+
+/**
+ * Register the duplicate scan with the scheduler
+ */
+export function registerDuplicateJobs() {
+  registerJob({
+    name: 'duplicate-scan',
+    description: `Find listings that may be duplicates: within ${PROXIMITY_RADIUS_METERS} m of each other, or in the same ZIP code with the same phone number or a similar address`,
+    intervalMs: DAY_MS,
+    run: scanForDuplicates
+  });
+}
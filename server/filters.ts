@@ -0,0 +1,233 @@
+/**
+ * Laundromat Search Filters and Facets
+ *
+ * Turns the filter query parameters sent by FilterSection into SQL conditions
+ * that the text, radius and ZIP searches add to their WHERE clauses, and counts
+ * how many results each filter value would leave so the UI can show
+ * "Card Payment (14)" before it's clicked.
+ *
+ * List filters (services, amenities, payment options) use jsonb containment,
+ * backed by the GIN indexes in migrations/0003_laundromat_filters.sql.
+ */
+import { pool } from './db';
+import {
+  LaundromatFilters,
+  FacetCounts,
+  RATING_FACETS,
+  MACHINE_COUNT_FACETS,
+  PRICE_LEVELS
+} from '@shared/filters';
+
+// Filters that hold a single value; their facets are counted without the filter itself
+// applied, so choosing "4.0+" still shows how many results "3.5+" would give
+type ScalarFilter = 'minRating' | 'minMachines' | 'verified' | 'price';
+
+interface Queryable {
+  query(text: string, params?: any[]): Promise<{ rows: any[] }>;
+}
+
+const LIST_FILTERS = [
+  { key: 'services', column: 'services' },
+  { key: 'amenities', column: 'amenities' },
+  { key: 'paymentOptions', column: 'payment_options' }
+] as const;
+
+// Most values returned for each list facet
+const FACET_VALUE_LIMIT = 50;
+
+const RATING_SQL = `CASE WHEN rating IS NULL OR rating = '' THEN 0 ELSE rating::float END`;
+const MACHINE_COUNT_SQL = `COALESCE((machine_count->>'washers')::numeric, 0) + COALESCE((machine_count->>'dryers')::numeric, 0)`;
+
+function parseList(value: unknown): string[] | undefined {
+  if (value === undefined) return undefined;
+
+  const values = (Array.isArray(value) ? value : [value])
+    .flatMap(item => String(item).split(','))
+    .map(item => item.trim())
+    .filter(Boolean);
+
+  return values.length > 0 ? Array.from(new Set(values)) : undefined;
+}
+
+function parseNumber(value: unknown, name: string, min: number, max: number, integer = false): number | undefined {
+  if (value === undefined || value === '') return undefined;
+
+  const number = Number(value);
+  if (isNaN(number) || number < min || number > max || (integer && !Number.isInteger(number))) {
+    throw new Error(`${name} must be ${integer ? 'a whole number' : 'a number'} between ${min} and ${max}`);
+  }
+  return number;
+}
+
+/**
+ * Read the search filter query parameters. List filters accept repeated or
+ * comma separated values (`services=Free WiFi,Card Payment`).
+ * Throws an Error with a user-facing message for an invalid value.
+ */
+export function parseFilterQuery(query: Record<string, any>): LaundromatFilters {
+  const filters: LaundromatFilters = {
+    services: parseList(query.services),
+    amenities: parseList(query.amenities),
+    paymentOptions: parseList(query.paymentOptions),
+    // `rating` is the name FilterSection has always used
+    minRating: parseNumber(query.minRating ?? query.rating, 'minRating', 0, 5),
+    minMachines: parseNumber(query.minMachines, 'minMachines', 0, 1000, true),
+    minPrice: parseNumber(query.minPrice, 'minPrice', 1, 4, true),
+    maxPrice: parseNumber(query.maxPrice, 'maxPrice', 1, 4, true)
+  };
+
+  if (query.verified !== undefined) {
+    if (query.verified !== 'true' && query.verified !== 'false') {
+      throw new Error('verified must be true or false');
+    }
+    filters.verified = query.verified === 'true';
+  }
+
+  if (filters.minPrice !== undefined && filters.maxPrice !== undefined && filters.minPrice > filters.maxPrice) {
+    throw new Error('minPrice must not be greater than maxPrice');
+  }
+
+  // Leave out filters that weren't given
+  for (const key of Object.keys(filters) as (keyof LaundromatFilters)[]) {
+    if (filters[key] === undefined) delete filters[key];
+  }
+
+  return filters;
+}
+
+/**
+ * Check whether any filter is set
+ */
+export function hasFilters(filters: LaundromatFilters): boolean {
+  return Object.keys(filters).length > 0;
+}
+
+/**
+ * Build SQL conditions for the filters, adding their values to `params`.
+ * `omit` leaves out one scalar filter (used when counting its own facet).
+ */
+export function filterConditions(filters: LaundromatFilters, params: any[], omit?: ScalarFilter): string[] {
+  const param = (value: any) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  const conditions: string[] = [];
+
+  for (const { key, column } of LIST_FILTERS) {
+    const values = filters[key];
+    if (values && values.length > 0) {
+      conditions.push(`${column} @> ${param(JSON.stringify(values))}::jsonb`);
+    }
+  }
+
+  if (filters.minRating !== undefined && omit !== 'minRating') {
+    conditions.push(`${RATING_SQL} >= ${param(filters.minRating)}`);
+  }
+
+  if (filters.minMachines !== undefined && omit !== 'minMachines') {
+    conditions.push(`${MACHINE_COUNT_SQL} >= ${param(filters.minMachines)}`);
+  }
+
+  if (filters.verified && omit !== 'verified') {
+    conditions.push('verified = true');
+  }
+
+  if (omit !== 'price') {
+    if (filters.minPrice !== undefined) conditions.push(`price_level >= ${param(filters.minPrice)}`);
+    if (filters.maxPrice !== undefined) conditions.push(`price_level <= ${param(filters.maxPrice)}`);
+  }
+
+  return conditions;
+}
+
+/**
+ * Build an `AND ...` clause for the filters, for appending to an existing WHERE clause
+ */
+export function filterClause(filters: LaundromatFilters | undefined, params: any[]): string {
+  const conditions = filters ? filterConditions(filters, params) : [];
+  return conditions.length > 0 ? `AND ${conditions.join(' AND ')}` : '';
+}
+
+function whereSql(conditions: string[]): string {
+  return conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+}
+
+/**
+ * Count facet values for the laundromats matching `scopeConditions` (the search
+ * itself, e.g. a radius or text match, whose values are already in `params`)
+ * with `filters` applied on top. Pass `client` to run inside an open transaction.
+ */
+export async function getLaundromatFacets(
+  scopeConditions: string[],
+  params: any[],
+  filters: LaundromatFilters,
+  client: Queryable = pool
+): Promise<FacetCounts> {
+  const facetParams = [...params];
+  const param = (value: any) => {
+    facetParams.push(value);
+    return `$${facetParams.length}`;
+  };
+
+  const listFacets = LIST_FILTERS.map(({ key, column }) => `
+    (SELECT '${key}' AS facet, value, COUNT(*)::int AS count
+    FROM scope, jsonb_array_elements_text(
+      CASE WHEN jsonb_typeof(${column}) = 'array' THEN ${column} ELSE '[]'::jsonb END
+    ) AS value
+    ${whereSql(filterConditions(filters, facetParams))}
+    GROUP BY value
+    ORDER BY count DESC, value ASC
+    LIMIT ${FACET_VALUE_LIMIT})
+  `);
+
+  const thresholdFacet = (facet: string, omit: ScalarFilter, thresholds: number[], type: string, match: string) => `
+    (SELECT '${facet}' AS facet, t.value::text AS value, COUNT(scope.id)::int AS count
+    FROM unnest(${param(thresholds)}::${type}[]) AS t(value)
+    LEFT JOIN scope ON ${[...filterConditions(filters, facetParams, omit), match].join(' AND ')}
+    GROUP BY t.value)
+  `;
+
+  const verifiedFacet = `
+    (SELECT 'verified' AS facet, 'true' AS value, COUNT(*)::int AS count
+    FROM scope
+    ${whereSql([...filterConditions(filters, facetParams, 'verified'), 'verified = true'])})
+  `;
+
+  const query = `
+    WITH scope AS MATERIALIZED (
+      SELECT id, services, amenities, payment_options, rating, machine_count, verified, price_level
+      FROM laundromats
+      ${whereSql(scopeConditions)}
+    )
+    ${[
+      ...listFacets,
+      thresholdFacet('minRating', 'minRating', RATING_FACETS, 'float', `${RATING_SQL} >= t.value`),
+      thresholdFacet('minMachines', 'minMachines', MACHINE_COUNT_FACETS, 'numeric', `${MACHINE_COUNT_SQL} >= t.value`),
+      thresholdFacet('priceLevel', 'price', PRICE_LEVELS, 'int', 'price_level = t.value'),
+      verifiedFacet
+    ].join(' UNION ALL ')}
+  `;
+
+  const result = await client.query(query, facetParams);
+
+  const facets: FacetCounts = {
+    services: {},
+    amenities: {},
+    paymentOptions: {},
+    minRating: {},
+    minMachines: {},
+    priceLevel: {},
+    verified: 0
+  };
+
+  for (const row of result.rows) {
+    if (row.facet === 'verified') {
+      facets.verified = row.count;
+    } else {
+      (facets[row.facet as Exclude<keyof FacetCounts, 'verified'>])[row.value] = row.count;
+    }
+  }
+
+  return facets;
+}
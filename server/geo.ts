@@ -0,0 +1,236 @@
+/**
+ * Geospatial Laundromat Queries
+ *
+ * All radius, nearest-neighbour and bounding-box searches go through this module.
+ * They run against the PostGIS `laundromats.location` geography column
+ * (GiST indexed, kept in sync with latitude/longitude by a trigger - see
+ * migrations/0001_laundromat_location.sql) instead of computing Haversine
+ * distances over every row.
+ */
+import { pool } from './db';
+import { filterClause, getLaundromatFacets } from './filters';
+import type { LaundromatFilters, FacetCounts } from '@shared/filters';
+
+export const METERS_PER_MILE = 1609.344;
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface BoundingBox {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface GeoQueryOptions {
+  // Column list to select, defaults to every column
+  columns?: string;
+  limit?: number;
+  offset?: number;
+  // Leave out a laundromat, e.g. the one whose detail page is being shown
+  excludeId?: number;
+}
+
+export interface RadiusQueryOptions extends GeoQueryOptions {
+  radiusMiles: number;
+  filters?: LaundromatFilters;
+}
+
+export interface LaundromatCluster {
+  id: string;
+  count: number;
+  position: GeoPoint;
+  bounds: BoundingBox;
+}
+
+const DEFAULT_LIMIT = 50;
+
+// Order rows with the same distance by rating, matching the previous Haversine queries,
+// then by id so pages don't shift between requests
+const RATING_ORDER = `CASE WHEN rating IS NULL OR rating = '' THEN 0 ELSE rating::float END DESC, id ASC`;
+
+/**
+ * Check that a point is a usable latitude/longitude pair
+ */
+export function isValidPoint(point: Partial<GeoPoint> | null | undefined): point is GeoPoint {
+  return !!point &&
+    typeof point.lat === 'number' && typeof point.lng === 'number' &&
+    !isNaN(point.lat) && !isNaN(point.lng) &&
+    point.lat >= -90 && point.lat <= 90 &&
+    point.lng >= -180 && point.lng <= 180;
+}
+
+// The raw geography value is of no use to API clients
+function stripLocation(rows: any[]): any[] {
+  return rows.map(({ location, ...row }) => row);
+}
+
+/**
+ * Find laundromats within a radius of a point, closest first.
+ * Each row gets a `distance` in miles.
+ */
+export async function findLaundromatsWithinRadius(center: GeoPoint, options: RadiusQueryOptions): Promise<any[]> {
+  const { columns = '*', limit = DEFAULT_LIMIT, offset = 0, excludeId, radiusMiles, filters } = options;
+  const params: any[] = [center.lng, center.lat, radiusMiles * METERS_PER_MILE];
+
+  let excludeClause = '';
+  if (excludeId !== undefined) {
+    params.push(excludeId);
+    excludeClause = `AND id != $${params.length}`;
+  }
+  const filtersClause = filterClause(filters, params);
+
+  const query = `
+    SELECT ${columns},
+      ST_Distance(location, ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography) / ${METERS_PER_MILE} AS distance
+    FROM laundromats
+    WHERE location IS NOT NULL
+      AND ST_DWithin(location, ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography, $3)
+      ${excludeClause}
+      ${filtersClause}
+    ORDER BY distance ASC, ${RATING_ORDER}
+    LIMIT ${limit}
+    OFFSET ${offset}
+  `;
+
+  const result = await pool.query(query, params);
+  return stripLocation(result.rows);
+}
+
+/**
+ * Count the laundromats within a radius of a point
+ */
+export async function countLaundromatsWithinRadius(center: GeoPoint, options: Pick<RadiusQueryOptions, 'radiusMiles' | 'excludeId' | 'filters'>): Promise<number> {
+  const { radiusMiles, excludeId, filters } = options;
+  const params: any[] = [center.lng, center.lat, radiusMiles * METERS_PER_MILE];
+
+  let excludeClause = '';
+  if (excludeId !== undefined) {
+    params.push(excludeId);
+    excludeClause = `AND id != $${params.length}`;
+  }
+  const filtersClause = filterClause(filters, params);
+
+  const result = await pool.query(`
+    SELECT COUNT(*)::int AS total
+    FROM laundromats
+    WHERE location IS NOT NULL
+      AND ST_DWithin(location, ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography, $3)
+      ${excludeClause}
+      ${filtersClause}
+  `, params);
+
+  return result.rows[0].total;
+}
+
+/**
+ * Count facet values (see server/filters.ts) for the laundromats within a radius of a point
+ */
+export async function getFacetsWithinRadius(center: GeoPoint, options: Pick<RadiusQueryOptions, 'radiusMiles' | 'filters'>): Promise<FacetCounts> {
+  return getLaundromatFacets(
+    ['location IS NOT NULL', 'ST_DWithin(location, ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography, $3)'],
+    [center.lng, center.lat, options.radiusMiles * METERS_PER_MILE],
+    options.filters || {}
+  );
+}
+
+/**
+ * Find the laundromats closest to a point regardless of distance.
+ * Uses the index-assisted KNN operator, so it stays fast for sparse areas.
+ */
+export async function findNearestLaundromats(center: GeoPoint, options: GeoQueryOptions = {}): Promise<any[]> {
+  const { columns = '*', limit = 20, offset = 0, excludeId } = options;
+  const params: any[] = [center.lng, center.lat];
+
+  let excludeClause = '';
+  if (excludeId !== undefined) {
+    params.push(excludeId);
+    excludeClause = `AND id != $${params.length}`;
+  }
+
+  const query = `
+    SELECT ${columns},
+      ST_Distance(location, ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography) / ${METERS_PER_MILE} AS distance
+    FROM laundromats
+    WHERE location IS NOT NULL
+      ${excludeClause}
+    ORDER BY location <-> ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography, ${RATING_ORDER}
+    LIMIT ${limit}
+    OFFSET ${offset}
+  `;
+
+  const result = await pool.query(query, params);
+  return stripLocation(result.rows);
+}
+
+/**
+ * Find laundromats inside a bounding box (e.g. the visible map viewport)
+ */
+export async function findLaundromatsInBounds(bounds: BoundingBox, options: GeoQueryOptions = {}): Promise<any[]> {
+  const { columns = '*', limit = 500, offset = 0, excludeId } = options;
+  const params: any[] = [bounds.west, bounds.south, bounds.east, bounds.north];
+
+  let excludeClause = '';
+  if (excludeId !== undefined) {
+    params.push(excludeId);
+    excludeClause = `AND id != $${params.length}`;
+  }
+
+  const query = `
+    SELECT ${columns}
+    FROM laundromats
+    WHERE location IS NOT NULL
+      AND location && ST_MakeEnvelope($1, $2, $3, $4, 4326)::geography
+      ${excludeClause}
+    ORDER BY ${RATING_ORDER}
+    LIMIT ${limit}
+    OFFSET ${offset}
+  `;
+
+  const result = await pool.query(query, params);
+  return stripLocation(result.rows);
+}
+
+/**
+ * Group the laundromats inside a bounding box into grid cells sized for the zoom level.
+ * Cells are roughly `gridSize` pixels wide on a Web Mercator map, matching the
+ * client-side MarkerClusterer grid, and each cluster is positioned at the average
+ * location of its members.
+ */
+export async function clusterLaundromatsInBounds(bounds: BoundingBox, zoom: number, gridSize = 60): Promise<LaundromatCluster[]> {
+  // Degrees of longitude covered by `gridSize` pixels at this zoom (256px tiles)
+  const cellSize = (360 * gridSize) / (256 * Math.pow(2, zoom));
+
+  const query = `
+    SELECT
+      COUNT(*)::int AS count,
+      AVG(ST_Y(location::geometry)) AS lat,
+      AVG(ST_X(location::geometry)) AS lng,
+      MAX(ST_Y(location::geometry)) AS north,
+      MIN(ST_Y(location::geometry)) AS south,
+      MAX(ST_X(location::geometry)) AS east,
+      MIN(ST_X(location::geometry)) AS west
+    FROM laundromats
+    WHERE location IS NOT NULL
+      AND location && ST_MakeEnvelope($1, $2, $3, $4, 4326)::geography
+    GROUP BY ST_SnapToGrid(location::geometry, $5)
+    ORDER BY count DESC
+  `;
+
+  const result = await pool.query(query, [bounds.west, bounds.south, bounds.east, bounds.north, cellSize]);
+
+  return result.rows.map((row, index) => ({
+    id: `${zoom}-${index}`,
+    count: row.count,
+    position: { lat: parseFloat(row.lat), lng: parseFloat(row.lng) },
+    bounds: {
+      north: parseFloat(row.north),
+      south: parseFloat(row.south),
+      east: parseFloat(row.east),
+      west: parseFloat(row.west)
+    }
+  }));
+}
@@ -0,0 +1,296 @@
+/**
+ * Location Geocoding
+ *
+ * Resolves ZIP codes and "City, ST" search queries to coordinates.
+ * Lookups are answered locally from the zip_coordinates table (loaded by
+ * server/scripts/load-zip-coordinates.ts) and from our own laundromat
+ * locations; the Google Geocoding API is only used as an optional fallback.
+ * Every successful lookup is cached in memory and in the geocode_cache table,
+ * so repeated searches never leave the server.
+ */
+import axios from 'axios';
+import { eq } from 'drizzle-orm';
+import { db, pool } from './db';
+import { geocodeCache } from '@shared/schema';
+
+export type LocationQuery =
+  | { type: 'zip'; zip: string }
+  | { type: 'city'; city: string; state: string };
+
+export interface GeocodeResult {
+  lat: number;
+  lng: number;
+  city?: string | null;
+  state?: string | null;
+  zip?: string | null;
+  source: string;
+}
+
+export interface IGeocoder {
+  readonly name: string;
+  geocode(query: LocationQuery): Promise<GeocodeResult | null>;
+}
+
+/**
+ * Turn free-text search input into a location query.
+ * Accepts "90210", "90210-1234", "Austin, TX" and "Austin, Texas".
+ * Returns null for anything that isn't a ZIP code or city/state pair.
+ */
+export async function parseLocationQuery(text: string): Promise<LocationQuery | null> {
+  const value = text.trim();
+
+  const zipMatch = value.match(/^(\d{5})(?:-\d{4})?$/);
+  if (zipMatch) {
+    return { type: 'zip', zip: zipMatch[1] };
+  }
+
+  const cityMatch = value.match(/^([a-zA-Z .'-]+),\s*([a-zA-Z ]+)$/);
+  if (!cityMatch) return null;
+
+  const city = cityMatch[1].trim();
+  const stateText = cityMatch[2].trim();
+
+  if (/^[a-zA-Z]{2}$/.test(stateText)) {
+    return { type: 'city', city, state: stateText.toUpperCase() };
+  }
+
+  // Full state name - look up its abbreviation
+  const stateResult = await pool.query(
+    'SELECT abbr FROM states WHERE LOWER(name) = LOWER($1) LIMIT 1',
+    [stateText]
+  );
+
+  if (stateResult.rows.length === 0) return null;
+  return { type: 'city', city, state: stateResult.rows[0].abbr };
+}
+
+// Cache key for a location query
+function cacheKey(query: LocationQuery): string {
+  return query.type === 'zip'
+    ? `zip:${query.zip}`
+    : `city:${query.city.toLowerCase()},${query.state.toLowerCase()}`;
+}
+
+/**
+ * ZIP centroids from the zip_coordinates table.
+ * City queries use the average of the city's ZIP centroids.
+ */
+export class ZipCoordinatesGeocoder implements IGeocoder {
+  readonly name = 'zip_coordinates';
+
+  async geocode(query: LocationQuery): Promise<GeocodeResult | null> {
+    if (query.type === 'zip') {
+      const result = await pool.query(
+        'SELECT zip, city, state, latitude, longitude FROM zip_coordinates WHERE zip = $1',
+        [query.zip]
+      );
+
+      if (result.rows.length === 0) return null;
+
+      const row = result.rows[0];
+      return {
+        lat: parseFloat(row.latitude),
+        lng: parseFloat(row.longitude),
+        city: row.city,
+        state: row.state,
+        zip: row.zip,
+        source: this.name
+      };
+    }
+
+    const result = await pool.query(`
+      SELECT AVG(latitude) AS latitude, AVG(longitude) AS longitude, MIN(zip) AS zip, COUNT(*) AS count
+      FROM zip_coordinates
+      WHERE LOWER(city) = LOWER($1) AND UPPER(state) = $2
+    `, [query.city, query.state]);
+
+    if (result.rows.length === 0 || parseInt(result.rows[0].count) === 0) return null;
+
+    const row = result.rows[0];
+    return {
+      lat: parseFloat(row.latitude),
+      lng: parseFloat(row.longitude),
+      city: query.city,
+      state: query.state,
+      zip: row.zip,
+      source: this.name
+    };
+  }
+}
+
+/**
+ * Centroid of our own laundromat locations for a ZIP code or city.
+ * Covers areas missing from zip_coordinates as long as we list a laundromat there.
+ */
+export class LaundromatCentroidGeocoder implements IGeocoder {
+  readonly name = 'laundromats';
+
+  async geocode(query: LocationQuery): Promise<GeocodeResult | null> {
+    const whereClause = query.type === 'zip'
+      ? 'zip = $1'
+      : 'LOWER(city) = LOWER($1) AND UPPER(state) = $2';
+    const params = query.type === 'zip' ? [query.zip] : [query.city, query.state];
+
+    const result = await pool.query(`
+      SELECT
+        AVG(ST_Y(location::geometry)) AS latitude,
+        AVG(ST_X(location::geometry)) AS longitude,
+        MIN(city) AS city,
+        MIN(state) AS state,
+        COUNT(*) AS count
+      FROM laundromats
+      WHERE location IS NOT NULL AND ${whereClause}
+    `, params);
+
+    if (result.rows.length === 0 || parseInt(result.rows[0].count) === 0) return null;
+
+    const row = result.rows[0];
+    return {
+      lat: parseFloat(row.latitude),
+      lng: parseFloat(row.longitude),
+      city: row.city,
+      state: row.state,
+      zip: query.type === 'zip' ? query.zip : null,
+      source: this.name
+    };
+  }
+}
+
+/**
+ * Google Geocoding API. Only used when GOOGLE_MAPS_API_KEY is set.
+ */
+export class GoogleGeocoder implements IGeocoder {
+  readonly name = 'google';
+
+  constructor(private apiKey: string) {}
+
+  async geocode(query: LocationQuery): Promise<GeocodeResult | null> {
+    const address = query.type === 'zip' ? query.zip : `${query.city}, ${query.state}`;
+
+    try {
+      const response = await axios.get('https://maps.googleapis.com/maps/api/geocode/json', {
+        params: { address, components: 'country:US', key: this.apiKey },
+        timeout: 5000
+      });
+
+      if (response.data.status !== 'OK' || response.data.results.length === 0) {
+        console.warn(`Google Geocoding API could not resolve "${address}": ${response.data.status}`);
+        return null;
+      }
+
+      const place = response.data.results[0];
+      const component = (type: string, form: 'long_name' | 'short_name' = 'long_name') =>
+        place.address_components.find((c: any) => c.types.includes(type))?.[form] || null;
+
+      return {
+        lat: place.geometry.location.lat,
+        lng: place.geometry.location.lng,
+        city: component('locality'),
+        state: component('administrative_area_level_1', 'short_name'),
+        zip: component('postal_code'),
+        source: this.name
+      };
+    } catch (error) {
+      console.error(`Error calling Google Geocoding API for "${address}":`, error);
+      return null;
+    }
+  }
+}
+
+/**
+ * Tries each geocoder in order and caches the first hit,
+ * in memory and in the geocode_cache table.
+ */
+export class CachedGeocoder implements IGeocoder {
+  readonly name = 'cache';
+  private memory = new Map<string, GeocodeResult>();
+
+  constructor(private geocoders: IGeocoder[], private maxMemoryEntries = 5000) {}
+
+  async geocode(query: LocationQuery): Promise<GeocodeResult | null> {
+    const key = cacheKey(query);
+
+    const remembered = this.memory.get(key);
+    if (remembered) return remembered;
+
+    try {
+      const [cached] = await db.select().from(geocodeCache).where(eq(geocodeCache.query, key));
+      if (cached) {
+        const result: GeocodeResult = {
+          lat: cached.latitude,
+          lng: cached.longitude,
+          city: cached.city,
+          state: cached.state,
+          zip: cached.zip,
+          source: cached.source
+        };
+        this.remember(key, result);
+        return result;
+      }
+    } catch (error) {
+      console.error('Error reading geocode cache:', error);
+    }
+
+    for (const geocoder of this.geocoders) {
+      try {
+        const result = await geocoder.geocode(query);
+        if (!result) continue;
+
+        console.log(`Geocoded ${key} to (${result.lat}, ${result.lng}) using ${geocoder.name}`);
+        this.remember(key, result);
+        await this.store(key, result);
+        return result;
+      } catch (error) {
+        console.error(`Error geocoding ${key} with ${geocoder.name}:`, error);
+      }
+    }
+
+    return null;
+  }
+
+  private remember(key: string, result: GeocodeResult) {
+    if (this.memory.size >= this.maxMemoryEntries) {
+      // Drop the oldest entry
+      const oldest = this.memory.keys().next().value;
+      if (oldest !== undefined) this.memory.delete(oldest);
+    }
+    this.memory.set(key, result);
+  }
+
+  private async store(key: string, result: GeocodeResult) {
+    try {
+      await db.insert(geocodeCache).values({
+        query: key,
+        latitude: result.lat,
+        longitude: result.lng,
+        city: result.city || null,
+        state: result.state || null,
+        zip: result.zip || null,
+        source: result.source
+      }).onConflictDoNothing();
+    } catch (error) {
+      // A failed cache write shouldn't fail the search
+      console.error('Error writing geocode cache:', error);
+    }
+  }
+}
+
+/**
+ * Build the default geocoder: local sources first, Google last when configured.
+ * Set GEOCODER_GOOGLE_FALLBACK=false to stay fully offline.
+ */
+export function createGeocoder(): IGeocoder {
+  const geocoders: IGeocoder[] = [
+    new ZipCoordinatesGeocoder(),
+    new LaundromatCentroidGeocoder()
+  ];
+
+  const apiKey = process.env.GOOGLE_MAPS_API_KEY;
+  if (apiKey && process.env.GEOCODER_GOOGLE_FALLBACK !== 'false') {
+    geocoders.push(new GoogleGeocoder(apiKey));
+  }
+
+  return new CachedGeocoder(geocoders);
+}
+
+export const geocoder = createGeocoder();
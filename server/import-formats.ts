@@ -0,0 +1,156 @@
+/**
+ * Import File Formats
+ *
+ * Recognizes where an import file came from by its columns, and proposes which
+ * column each listing field should be read from:
+ *   - Outscraper Google Maps exports (CSV, XLSX or JSON)
+ *   - Google Places API results (JSON, classic or new API field names)
+ *   - exports from our enrichment tool (CSV)
+ *   - anything else, matched on common column names
+ * Admins can adjust the proposed mapping and save it as a profile before importing.
+ */
+import {
+  IMPORT_FIELDS,
+  REQUIRED_IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  type ImportColumnMapping,
+  type ImportField,
+  type ImportFormat
+} from '@shared/imports';
+
+interface FormatAdapter {
+  format: Exclude<ImportFormat, 'generic'>;
+  // Columns only this source has; a file needs at least MIN_SIGNATURE_MATCHES of them
+  signature: string[];
+  // Source columns per field, most preferred first
+  columns: Partial<Record<ImportField, string[]>>;
+}
+
+const MIN_SIGNATURE_MATCHES = 2;
+
+const ADAPTERS: FormatAdapter[] = [
+  {
+    format: 'outscraper',
+    signature: ['full_address', 'postal_code', 'working_hours', 'site', 'google_id', 'reviews_link', 'photos_count', 'location_link', 'street_view'],
+    columns: {
+      name: ['name', 'title'],
+      address: ['full_address', 'street'],
+      city: ['city'],
+      state: ['state', 'us_state'],
+      zip: ['postal_code'],
+      phone: ['phone'],
+      website: ['site', 'website'],
+      reviewCount: ['reviews'],
+      hours: ['working_hours', 'working_hours_old_format'],
+      imageUrl: ['photo'],
+      description: ['seoDescription', 'description'], // Present once the export has been through enrichment
+    },
+  },
+  {
+    format: 'google_places',
+    signature: [
+      'place_id', 'formatted_address', 'geometry.location.lat', 'user_ratings_total', 'opening_hours.weekday_text',
+      'displayName.text', 'formattedAddress', 'location.latitude', 'userRatingCount', 'regularOpeningHours.weekdayDescriptions',
+    ],
+    columns: {
+      name: ['name', 'displayName.text'],
+      address: ['formatted_address', 'formattedAddress', 'vicinity'],
+      city: ['address_components.locality', 'addressComponents.locality', 'address_components.postal_town'],
+      state: ['address_components.administrative_area_level_1', 'addressComponents.administrative_area_level_1'],
+      zip: ['address_components.postal_code', 'addressComponents.postal_code'],
+      latitude: ['geometry.location.lat', 'location.latitude'],
+      longitude: ['geometry.location.lng', 'location.longitude'],
+      phone: ['formatted_phone_number', 'nationalPhoneNumber', 'international_phone_number', 'internationalPhoneNumber'],
+      website: ['website', 'websiteUri'],
+      reviewCount: ['user_ratings_total', 'userRatingCount'],
+      hours: ['opening_hours.weekday_text', 'regularOpeningHours.weekdayDescriptions'],
+      description: ['editorial_summary.overview', 'editorialSummary.text'],
+    },
+  },
+  {
+    format: 'enriched',
+    signature: ['seoTags', 'seo_tags', 'seoSummary', 'seoDescription', 'premiumScore', 'premium_score', 'summary'],
+    columns: {
+      description: ['seoDescription', 'description'],
+      amenities: ['amenities', 'features'],
+    },
+  },
+];
+
+// Column names used across our own files and older exports, for fields an adapter doesn't cover
+const COMMON_COLUMNS: Record<ImportField, string[]> = {
+  name: ['name', 'title'],
+  address: ['address', 'full_address', 'street'],
+  city: ['city'],
+  state: ['state', 'state_code'],
+  zip: ['zip', 'zipCode', 'postal_code'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lng', 'lon'],
+  phone: ['phone', 'phone_number'],
+  website: ['website', 'site'],
+  rating: ['rating'],
+  reviewCount: ['reviewCount', 'review_count', 'reviews_count', 'reviews'],
+  hours: ['hours', 'working_hours'],
+  services: ['services'],
+  amenities: ['amenities'],
+  imageUrl: ['imageUrl', 'image_url', 'photo'],
+  description: ['description', 'seoDescription', 'seo_description'],
+  slug: ['slug'],
+};
+
+// Lowercase letters and digits only, so `Postal Code` matches `postal_code`
+function simplify(column: string): string {
+  return column.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * The source a file most likely came from, given its columns
+ */
+export function detectFormat(columns: string[]): ImportFormat {
+  let best: ImportFormat = 'generic';
+  let bestMatches = MIN_SIGNATURE_MATCHES - 1;
+  for (const adapter of ADAPTERS) {
+    const matches = adapter.signature.filter(column => columns.includes(column)).length;
+    if (matches > bestMatches) {
+      best = adapter.format;
+      bestMatches = matches;
+    }
+  }
+  return best;
+}
+
+/**
+ * A column for each field that the file seems to have: the format's own columns first,
+ * then common names, then any column whose name matches once case and punctuation are ignored
+ */
+export function proposeMapping(columns: string[], format: ImportFormat): ImportColumnMapping {
+  const adapter = ADAPTERS.find(a => a.format === format);
+  const simplified = new Map(columns.map(column => [simplify(column), column]));
+  const mapping: ImportColumnMapping = {};
+
+  for (const field of IMPORT_FIELDS) {
+    const candidates = [...(adapter?.columns[field] || []), ...COMMON_COLUMNS[field]];
+    const column = candidates.find(candidate => columns.includes(candidate))
+      ?? candidates.concat(field).map(candidate => simplified.get(simplify(candidate))).find(Boolean);
+    if (column) mapping[field] = column;
+  }
+  return mapping;
+}
+
+/**
+ * What stops a mapping being used on a file with these columns: required fields
+ * without a column, and fields mapped to columns the file doesn't have
+ */
+export function mappingProblems(mapping: ImportColumnMapping, columns: string[]): string[] {
+  const problems: string[] = [];
+  for (const field of REQUIRED_IMPORT_FIELDS) {
+    if (!mapping[field]) problems.push(`No column is mapped to ${IMPORT_FIELD_LABELS[field]}`);
+  }
+  for (const field of IMPORT_FIELDS) {
+    const column = mapping[field];
+    if (column && !columns.includes(column)) {
+      problems.push(`${IMPORT_FIELD_LABELS[field]} is mapped to "${column}", which the file doesn't have`);
+    }
+  }
+  return problems;
+}
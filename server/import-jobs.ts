@@ -0,0 +1,849 @@
+/**
+ * Laundromat Import Jobs
+ *
+ * The one way listings get into the database in bulk: a job imports CSV, JSON or
+ * XLSX files from IMPORT_DIR (default data/) in order, a batch at a time.
+ *   - each batch's listings, city/state counts, row errors and the job's checkpoint
+ *     are written in one transaction, so a crash can't import a row twice
+ *   - a job left 'running' with a stale heartbeat is requeued and resumes from its
+ *     checkpoint; so does a paused or failed job when it is resumed
+ *   - rows are matched to existing listings by slug, and matches count as duplicates
+ *   - columns are read through a mapping to listing fields: the job's own, from an
+ *     admin-adjusted or saved profile, or else the one proposed for each file's
+ *     detected format (see import-formats.ts)
+ *   - files are checked against the mapping before a job is queued, and dry runs
+ *     validate every row and count duplicates without writing listings
+ * Each process runs one job at a time. Set IMPORT_RUNNER_ENABLED=false on processes
+ * that shouldn't pick up jobs. Jobs are started from /admin/imports or `npm run import`.
+ */
+import fs from 'fs';
+import path from 'path';
+import { parse } from 'csv-parse';
+import * as XLSX from 'xlsx';
+import { and, count, desc, eq, inArray, lt, ne, sql } from 'drizzle-orm';
+import { db, type Transaction } from './db';
+import { createSlug } from './utils/helpers';
+import { generateSlug } from './utils/slugs';
+import type { PageResult } from './utils/pagination';
+import { detectFormat, mappingProblems, proposeMapping } from './import-formats';
+import { getStateAbbr, getStateName, getTimezoneForState, parseHoursText, parseWeekdayText } from '@shared/hours';
+import type { ImportColumnMapping, ImportField, ImportFormat, ImportPreview, ImportPreviewRow } from '@shared/imports';
+import {
+  cities,
+  importJobErrors,
+  importJobs,
+  importMappingProfiles,
+  laundromats,
+  states,
+  type ImportJob,
+  type ImportJobError,
+  type ImportJobOptions,
+  type ImportJobStatus,
+  type ImportMappingProfile,
+  type InsertLaundromat
+} from '@shared/schema';
+
+export const IMPORT_DIR = path.resolve(process.env.IMPORT_DIR || path.join(process.cwd(), 'data'));
+export const IMPORT_FILE_TYPES = ['.csv', '.json', '.xlsx'];
+export const DEFAULT_BATCH_SIZE = 200;
+export const MAX_BATCH_SIZE = 1000;
+
+// Row errors stored per job; rows past this are still counted in errorRows
+const MAX_STORED_ERRORS = 1000;
+// Rows read to find a file's columns; JSON records don't all have the same keys
+const SAMPLE_ROWS = 50;
+// How often an idle runner looks for queued jobs
+const POLL_INTERVAL_MS = 5 * 1000;
+// A running job whose heartbeat is older than this lost its runner
+const STALE_HEARTBEAT_MS = 2 * 60 * 1000;
+
+// A failed step, as the HTTP status and message to send back
+export interface ImportFailure {
+  status: number;
+  message: string;
+}
+
+export type ImportResult<T = ImportJob> = { ok: true; value: T } | ({ ok: false } & ImportFailure);
+
+function fail(status: number, message: string): { ok: false } & ImportFailure {
+  return { ok: false, status, message };
+}
+
+export interface ImportFile {
+  file: string; // Relative to IMPORT_DIR
+  size: number;
+  modifiedAt: Date;
+}
+
+// What a file looks like: its type, detected source format, columns and proposed mapping
+export interface ImportFileInfo {
+  fileType: 'csv' | 'json' | 'xlsx';
+  format: ImportFormat;
+  columns: string[];
+  mapping: ImportColumnMapping;
+}
+
+type RawRow = Record<string, unknown>;
+
+interface SourceRow {
+  rowNumber: number;
+  raw: RawRow;
+}
+
+/**
+ * The absolute path of an import file, or null when it is outside IMPORT_DIR,
+ * not a CSV, JSON or XLSX file, or doesn't exist
+ */
+export function resolveImportFile(file: string): string | null {
+  const resolved = path.resolve(IMPORT_DIR, file);
+  if (!resolved.startsWith(IMPORT_DIR + path.sep)) return null;
+  if (!IMPORT_FILE_TYPES.includes(path.extname(resolved).toLowerCase())) return null;
+  return fs.existsSync(resolved) && fs.statSync(resolved).isFile() ? resolved : null;
+}
+
+/**
+ * Every CSV, JSON and XLSX file under IMPORT_DIR, for choosing what to import
+ */
+export async function listImportFiles(): Promise<ImportFile[]> {
+  const files: ImportFile[] = [];
+
+  async function walk(dir: string) {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+      return; // IMPORT_DIR doesn't exist yet
+    }
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(fullPath);
+      } else if (IMPORT_FILE_TYPES.includes(path.extname(entry.name).toLowerCase())) {
+        const stat = await fs.promises.stat(fullPath);
+        files.push({ file: path.relative(IMPORT_DIR, fullPath), size: stat.size, modifiedAt: stat.mtime });
+      }
+    }
+  }
+
+  await walk(IMPORT_DIR);
+  return files.sort((a, b) => a.file.localeCompare(b.file));
+}
+
+function fileType(filePath: string): ImportFileInfo['fileType'] {
+  return path.extname(filePath).slice(1).toLowerCase() as ImportFileInfo['fileType'];
+}
+
+// Nested JSON values as dot paths (`geometry.location.lat`), with Google address
+// components keyed by type (`address_components.locality`)
+function flattenRecord(record: RawRow, prefix = '', into: RawRow = {}): RawRow {
+  for (const [key, value] of Object.entries(record)) {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (Array.isArray(value) && /^address_?components$/i.test(key)) {
+      into[column] = value;
+      for (const component of value) {
+        for (const type of component?.types || []) {
+          if (into[`${column}.${type}`] === undefined) {
+            into[`${column}.${type}`] = component.long_name ?? component.longText;
+          }
+        }
+      }
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      flattenRecord(value as RawRow, column, into);
+    } else {
+      into[column] = value;
+    }
+  }
+  return into;
+}
+
+// Stream the rows of a CSV file (with a header row), the first sheet of an XLSX file,
+// or a JSON file holding an array of laundromats or Google Places results
+async function* readRows(filePath: string): AsyncGenerator<RawRow> {
+  const type = fileType(filePath);
+  if (type === 'json') {
+    const data = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+    const records = Array.isArray(data) ? data : data?.results ?? data?.places;
+    if (!Array.isArray(records)) {
+      throw new Error(`${path.basename(filePath)} must contain a JSON array of laundromats or Google Places results`);
+    }
+    for (const record of records) {
+      yield record && typeof record === 'object' && !Array.isArray(record) ? flattenRecord(record) : record;
+    }
+    return;
+  }
+
+  if (type === 'xlsx') {
+    const workbook = XLSX.read(await fs.promises.readFile(filePath));
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (sheet) yield* XLSX.utils.sheet_to_json<RawRow>(sheet, { defval: '' });
+    return;
+  }
+
+  const input = fs.createReadStream(filePath);
+  const parser = input.pipe(parse({ columns: true, bom: true, skip_empty_lines: true, trim: true, relax_column_count: true }));
+  try {
+    for await (const record of parser) {
+      yield record;
+    }
+  } finally {
+    input.destroy();
+  }
+}
+
+async function countRows(filePath: string): Promise<number> {
+  let total = 0;
+  for await (const _row of readRows(filePath)) total++;
+  return total;
+}
+
+/**
+ * Read the start of a file to find its columns, detect where it came from and propose
+ * a mapping. Fails when the file can't be read or has no laundromat rows.
+ */
+export async function inspectImportFile(filePath: string): Promise<ImportResult<ImportFileInfo>> {
+  const fileName = path.basename(filePath);
+  const rows: RawRow[] = [];
+  try {
+    for await (const row of readRows(filePath)) {
+      if (!row || typeof row !== 'object' || Array.isArray(row)) {
+        return fail(400, `${fileName} must contain laundromat objects`);
+      }
+      rows.push(row);
+      if (rows.length >= SAMPLE_ROWS) break;
+    }
+  } catch (error) {
+    return fail(400, `${fileName} could not be read: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!rows.length) {
+    return fail(400, `${fileName} has no rows`);
+  }
+
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const format = detectFormat(columns);
+  return { ok: true, value: { fileType: fileType(filePath), format, columns, mapping: proposeMapping(columns, format) } };
+}
+
+/**
+ * Check that a file can be imported with `mapping` (or its proposed mapping) before a
+ * job starts on it. Returns what's wrong with it, or null when it looks importable.
+ */
+export async function validateImportFile(filePath: string, mapping?: ImportColumnMapping): Promise<string | null> {
+  const info = await inspectImportFile(filePath);
+  if (!info.ok) return info.message;
+  const problems = mappingProblems(mapping ?? info.value.mapping, info.value.columns);
+  return problems.length ? `${path.basename(filePath)}: ${problems.join('; ')}` : null;
+}
+
+// A field's value from the column it's mapped to, as trimmed text; '' when unmapped or empty
+function pick(row: RawRow, mapping: ImportColumnMapping, field: ImportField): string {
+  const column = mapping[field];
+  const value = column ? row[column] : undefined;
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+function value(row: RawRow, mapping: ImportColumnMapping, field: ImportField): unknown {
+  const column = mapping[field];
+  return column ? row[column] : undefined;
+}
+
+// A list from an array, a JSON-encoded array or a comma-separated string
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(item => String(item).trim()).filter(Boolean);
+  }
+  if (typeof value === 'string' && value.trim()) {
+    if (value.trim().startsWith('[')) {
+      try {
+        return toList(JSON.parse(value));
+      } catch {
+        // Not JSON after all; split it below
+      }
+    }
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+  }
+  return [];
+}
+
+// Hours come as free text, Google-style weekday lines, or { Monday: '6:00 AM - 10:00 PM', ... },
+// the last two possibly JSON-encoded in a CSV column
+function toHours(value: unknown, state: string): Pick<InsertLaundromat, 'hours' | 'hoursStructured'> {
+  const timezone = getTimezoneForState(state);
+  if (typeof value === 'string' && /^\s*[[{]/.test(value)) {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      // Treat it as free text
+    }
+  }
+  let lines: string[] | null = null;
+  if (Array.isArray(value)) {
+    lines = value.map(String);
+  } else if (value && typeof value === 'object') {
+    lines = Object.entries(value).map(([day, hours]) => `${day}: ${hours}`);
+  }
+
+  if (lines?.length) {
+    return { hours: lines.join(', '), hoursStructured: parseWeekdayText(lines, timezone) };
+  }
+  const text = typeof value === 'string' && value.trim() ? value.trim() : 'Not specified';
+  return { hours: text, hoursStructured: parseHoursText(text, timezone) };
+}
+
+/**
+ * Turn one source row into a listing using `mapping`, or say why it can't be imported
+ */
+export function normalizeRow(row: RawRow, mapping: ImportColumnMapping): { listing: InsertLaundromat } | { error: string } {
+  const name = pick(row, mapping, 'name');
+  const address = pick(row, mapping, 'address');
+  const city = pick(row, mapping, 'city');
+  const stateValue = pick(row, mapping, 'state');
+  const zip = pick(row, mapping, 'zip');
+
+  const missing = Object.entries({ name, address, city, state: stateValue, zip })
+    .filter(([, value]) => !value)
+    .map(([field]) => field);
+  if (missing.length) {
+    return { error: `Missing ${missing.join(', ')}` };
+  }
+
+  const state = getStateAbbr(stateValue);
+  if (!state) {
+    return { error: `Unknown state "${stateValue}"` };
+  }
+
+  const latitude = parseFloat(pick(row, mapping, 'latitude'));
+  const longitude = parseFloat(pick(row, mapping, 'longitude'));
+  if (!isFinite(latitude) || !isFinite(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return { error: 'Missing or invalid latitude/longitude' };
+  }
+
+  const rating = parseFloat(pick(row, mapping, 'rating'));
+  const reviewCount = parseInt(pick(row, mapping, 'reviewCount').replace(/,/g, ''));
+
+  return {
+    listing: {
+      name,
+      slug: createSlug(pick(row, mapping, 'slug')) || generateSlug(name, city, state),
+      address,
+      city,
+      state,
+      zip,
+      phone: pick(row, mapping, 'phone'),
+      website: pick(row, mapping, 'website') || null,
+      latitude: String(latitude),
+      longitude: String(longitude),
+      rating: rating >= 0 && rating <= 5 ? String(rating) : '0',
+      reviewCount: reviewCount > 0 ? reviewCount : 0,
+      ...toHours(value(row, mapping, 'hours'), state),
+      services: toList(value(row, mapping, 'services')),
+      amenities: toList(value(row, mapping, 'amenities')),
+      imageUrl: pick(row, mapping, 'imageUrl') || null,
+      description: pick(row, mapping, 'description') || null,
+    }
+  };
+}
+
+// Add newly imported listings to their city and state counts, creating cities and states as needed
+async function updateLocationCounts(tx: Transaction, imported: Array<{ city: string; state: string }>) {
+  const byState = new Map<string, number>();
+  const byCity = new Map<string, { name: string; state: string; count: number }>();
+  for (const { city, state } of imported) {
+    byState.set(state, (byState.get(state) || 0) + 1);
+    const slug = `${createSlug(city)}-${state.toLowerCase()}`;
+    const entry = byCity.get(slug) || { name: city, state, count: 0 };
+    entry.count++;
+    byCity.set(slug, entry);
+  }
+
+  for (const [abbr, added] of Array.from(byState)) {
+    const name = getStateName(abbr);
+    await tx.insert(states)
+      .values({ name, abbr, slug: createSlug(name), laundryCount: added })
+      .onConflictDoUpdate({
+        target: states.abbr,
+        set: { laundryCount: sql`COALESCE(${states.laundryCount}, 0) + ${added}` }
+      });
+  }
+  for (const [slug, { name, state, count: added }] of Array.from(byCity)) {
+    await tx.insert(cities)
+      .values({ name, state, slug, laundryCount: added })
+      .onConflictDoUpdate({
+        target: cities.slug,
+        set: { laundryCount: sql`COALESCE(${cities.laundryCount}, 0) + ${added}` }
+      });
+  }
+}
+
+// Insert listings, skipping slugs that already exist. When the batch insert fails, each
+// row is retried on its own so one bad row becomes a row error instead of failing the job.
+async function insertListings(
+  tx: Transaction,
+  rows: Array<{ rowNumber: number; raw: RawRow; listing: InsertLaundromat }>,
+  errors: Array<{ rowNumber: number; raw: RawRow; message: string }>
+) {
+  const returning = { city: laundromats.city, state: laundromats.state };
+  try {
+    return await tx.transaction(nested => nested.insert(laundromats)
+      .values(rows.map(row => row.listing))
+      .onConflictDoNothing({ target: laundromats.slug })
+      .returning(returning));
+  } catch {
+    const imported: Array<{ city: string; state: string }> = [];
+    for (const { rowNumber, raw, listing } of rows) {
+      try {
+        imported.push(...await tx.transaction(nested => nested.insert(laundromats)
+          .values(listing)
+          .onConflictDoNothing({ target: laundromats.slug })
+          .returning(returning)));
+      } catch (error) {
+        errors.push({ rowNumber, raw, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return imported;
+  }
+}
+
+// Import one batch of rows and move the job's checkpoint past them
+async function processBatch(job: ImportJob, file: string, mapping: ImportColumnMapping, batch: SourceRow[]): Promise<ImportJob> {
+  const valid: Array<SourceRow & { listing: InsertLaundromat }> = [];
+  const errors: Array<{ rowNumber: number; raw: RawRow; message: string }> = [];
+  let skipped = 0;
+
+  for (const { rowNumber, raw } of batch) {
+    const result = normalizeRow(raw, mapping);
+    if ('error' in result) {
+      errors.push({ rowNumber, raw, message: result.error });
+    } else if (job.options.states?.length && !job.options.states.includes(result.listing.state)) {
+      skipped++;
+    } else {
+      valid.push({ rowNumber, raw, listing: result.listing });
+    }
+  }
+
+  const invalid = errors.length;
+  return db.transaction(async tx => {
+    let imported: Array<{ city: string; state: string }> = [];
+    if (job.options.dryRun) {
+      const slugs = valid.map(row => row.listing.slug);
+      const existing = new Set(slugs.length
+        ? (await tx.select({ slug: laundromats.slug }).from(laundromats).where(inArray(laundromats.slug, slugs))).map(row => row.slug)
+        : []);
+      for (const { listing } of valid) {
+        if (existing.has(listing.slug)) continue;
+        existing.add(listing.slug); // Repeats within the batch are duplicates too
+        imported.push(listing);
+      }
+    } else if (valid.length) {
+      imported = await insertListings(tx, valid, errors);
+      await updateLocationCounts(tx, imported);
+    }
+
+    const storable = Math.max(0, MAX_STORED_ERRORS - job.errorRows);
+    if (storable > 0 && errors.length) {
+      await tx.insert(importJobErrors).values(errors.slice(0, storable).map(error => ({
+        jobId: job.id,
+        file,
+        rowNumber: error.rowNumber,
+        message: error.message,
+        row: error.raw,
+      })));
+    }
+
+    const importedByState = { ...job.importedByState };
+    for (const { state } of imported) {
+      importedByState[state] = (importedByState[state] || 0) + 1;
+    }
+    const position = job.checkpoint[file];
+
+    const [updated] = await tx.update(importJobs)
+      .set({
+        checkpoint: { ...job.checkpoint, [file]: { ...position, row: batch[batch.length - 1].rowNumber } },
+        processedRows: job.processedRows + batch.length,
+        importedRows: job.importedRows + imported.length,
+        // Valid rows that were neither imported nor rejected by the database
+        duplicateRows: job.duplicateRows + valid.length - imported.length - (errors.length - invalid),
+        skippedRows: job.skippedRows + skipped,
+        errorRows: job.errorRows + errors.length,
+        importedByState,
+        heartbeatAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(importJobs.id, job.id))
+      .returning();
+    return updated;
+  });
+}
+
+async function saveProgress(job: ImportJob, values: Partial<Pick<ImportJob, 'checkpoint' | 'totalRows'>>): Promise<ImportJob> {
+  const [updated] = await db.update(importJobs)
+    .set({ ...values, heartbeatAt: new Date(), updatedAt: new Date() })
+    .where(eq(importJobs.id, job.id))
+    .returning();
+  return updated;
+}
+
+// Finish a running job; a job paused or cancelled meanwhile keeps that status
+async function finishJob(jobId: number, status: 'completed' | 'failed', error: string | null = null) {
+  await db.update(importJobs)
+    .set({ status, error, finishedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(importJobs.id, jobId), eq(importJobs.status, 'running')));
+}
+
+async function detectedMapping(filePath: string): Promise<ImportColumnMapping> {
+  const info = await inspectImportFile(filePath);
+  if (!info.ok) throw new Error(info.message);
+  return info.value.mapping;
+}
+
+// Work through a claimed job's files from its checkpoint, stopping early when it's paused or cancelled
+async function runJob(job: ImportJob): Promise<void> {
+  try {
+    for (const file of job.files) {
+      if (job.checkpoint[file]?.done) continue;
+
+      const filePath = resolveImportFile(file);
+      if (!filePath) {
+        throw new Error(`Import file not found: ${file}`);
+      }
+      const mapping = job.options.mapping ?? await detectedMapping(filePath);
+
+      if (!job.checkpoint[file] || job.checkpoint[file].total === null) {
+        const total = await countRows(filePath);
+        job = await saveProgress(job, {
+          checkpoint: { ...job.checkpoint, [file]: { row: 0, total, done: false } },
+          totalRows: job.totalRows + total,
+        });
+      }
+
+      const startAfter = job.checkpoint[file].row;
+      let rowNumber = 0;
+      let batch: SourceRow[] = [];
+      for await (const raw of readRows(filePath)) {
+        rowNumber++;
+        if (rowNumber <= startAfter) continue;
+
+        batch.push({ rowNumber, raw });
+        if (batch.length >= job.options.batchSize) {
+          job = await processBatch(job, file, mapping, batch);
+          batch = [];
+          if (job.status !== 'running') return;
+        }
+      }
+      if (batch.length) {
+        job = await processBatch(job, file, mapping, batch);
+        if (job.status !== 'running') return;
+      }
+
+      job = await saveProgress(job, {
+        checkpoint: { ...job.checkpoint, [file]: { ...job.checkpoint[file], done: true } },
+      });
+    }
+
+    await finishJob(job.id, 'completed');
+  } catch (error) {
+    console.error(`Error running import job ${job.id}:`, error);
+    await finishJob(job.id, 'failed', error instanceof Error ? error.message : String(error));
+  }
+}
+
+// Take a queued job, the oldest unless `jobId` is given, so no other runner starts it
+async function claimJob(jobId?: number): Promise<ImportJob | undefined> {
+  return db.transaction(async tx => {
+    const [next] = await tx.select()
+      .from(importJobs)
+      .where(jobId ? and(eq(importJobs.id, jobId), eq(importJobs.status, 'queued')) : eq(importJobs.status, 'queued'))
+      .orderBy(importJobs.id)
+      .limit(1)
+      .for('update', { skipLocked: true });
+    if (!next) return undefined;
+
+    const [claimed] = await tx.update(importJobs)
+      .set({ status: 'running', startedAt: next.startedAt ?? new Date(), heartbeatAt: new Date(), updatedAt: new Date() })
+      .where(eq(importJobs.id, next.id))
+      .returning();
+    return claimed;
+  });
+}
+
+let activeJobId: number | null = null;
+let runnerStarted = false;
+
+/**
+ * Requeue running jobs whose runner stopped sending heartbeats, i.e. crashed or was restarted
+ */
+export async function requeueStaleJobs() {
+  const conditions = [
+    eq(importJobs.status, 'running'),
+    lt(importJobs.heartbeatAt, new Date(Date.now() - STALE_HEARTBEAT_MS)),
+  ];
+  if (activeJobId !== null) conditions.push(ne(importJobs.id, activeJobId));
+
+  const requeued = await db.update(importJobs)
+    .set({ status: 'queued', updatedAt: new Date() })
+    .where(and(...conditions))
+    .returning({ id: importJobs.id });
+  if (requeued.length) {
+    console.log(`Requeued import jobs ${requeued.map(job => job.id).join(', ')} to resume from their checkpoints`);
+  }
+}
+
+async function runQueuedJobs() {
+  if (activeJobId !== null) return;
+  try {
+    await requeueStaleJobs();
+    let job: ImportJob | undefined;
+    while ((job = await claimJob())) {
+      activeJobId = job.id;
+      await runJob(job);
+      activeJobId = null;
+    }
+  } catch (error) {
+    console.error('Error running import jobs:', error);
+  } finally {
+    activeJobId = null;
+  }
+}
+
+function wakeRunner() {
+  if (runnerStarted) void runQueuedJobs();
+}
+
+/**
+ * Queue an import of `files` (relative to IMPORT_DIR), reading their columns through
+ * `options.mapping` or, without one, each file's proposed mapping
+ */
+export async function createImportJob(
+  files: string[],
+  options: Partial<ImportJobOptions>,
+  startedBy: number | null
+): Promise<ImportResult> {
+  if (!files.length) {
+    return fail(400, 'Choose at least one file to import');
+  }
+  const unknown = files.find(file => !resolveImportFile(file));
+  if (unknown) {
+    return fail(400, `Not a CSV, JSON or XLSX file in the import directory: ${unknown}`);
+  }
+  for (const file of files) {
+    const problem = await validateImportFile(resolveImportFile(file)!, options.mapping);
+    if (problem) return fail(400, problem);
+  }
+  const onlyStates = (options.states || []).map(state => getStateAbbr(state));
+  const unknownState = onlyStates.indexOf(null);
+  if (unknownState !== -1) {
+    return fail(400, `Unknown state "${options.states![unknownState]}"`);
+  }
+
+  const [job] = await db.insert(importJobs).values({
+    files,
+    options: {
+      dryRun: options.dryRun ?? false,
+      batchSize: Math.min(Math.max(options.batchSize || DEFAULT_BATCH_SIZE, 1), MAX_BATCH_SIZE),
+      ...(onlyStates.length ? { states: onlyStates as string[] } : {}),
+      ...(options.mapping ? { mapping: options.mapping } : {}),
+    },
+    status: 'queued',
+    startedBy,
+  }).returning();
+
+  wakeRunner();
+  return { ok: true, value: job };
+}
+
+/**
+ * Whether a queued, running or paused job still has to read `file`
+ */
+export async function isImportFileInUse(file: string): Promise<boolean> {
+  const [{ total }] = await db.select({ total: count() })
+    .from(importJobs)
+    .where(and(
+      inArray(importJobs.status, ['queued', 'running', 'paused']),
+      sql`${importJobs.files} @> ${JSON.stringify([file])}::jsonb`
+    ));
+  return total > 0;
+}
+
+export async function getImportJob(jobId: number): Promise<ImportJob | undefined> {
+  const [job] = await db.select().from(importJobs).where(eq(importJobs.id, jobId));
+  return job;
+}
+
+/**
+ * Import jobs, newest first
+ */
+export async function listImportJobs(limit: number, offset: number): Promise<PageResult<ImportJob>> {
+  const [items, [{ total }]] = await Promise.all([
+    db.select().from(importJobs).orderBy(desc(importJobs.id)).limit(limit).offset(offset),
+    db.select({ total: count() }).from(importJobs)
+  ]);
+  return { items, total };
+}
+
+/**
+ * A job's row errors in file order
+ */
+export async function getImportJobErrors(jobId: number, limit: number, offset: number): Promise<PageResult<ImportJobError>> {
+  const [items, [{ total }]] = await Promise.all([
+    db.select().from(importJobErrors)
+      .where(eq(importJobErrors.jobId, jobId))
+      .orderBy(importJobErrors.id)
+      .limit(limit)
+      .offset(offset),
+    db.select({ total: count() }).from(importJobErrors).where(eq(importJobErrors.jobId, jobId))
+  ]);
+  return { items, total };
+}
+
+/**
+ * The first `limit` rows of a file as an import with `mapping` (or the file's proposed
+ * mapping) would see them, with rows whose slug already exists marked as duplicates
+ */
+export async function previewImport(
+  file: string,
+  mapping: ImportColumnMapping | undefined,
+  limit: number
+): Promise<ImportResult<ImportPreview>> {
+  const filePath = resolveImportFile(file);
+  if (!filePath) {
+    return fail(404, `Not a CSV, JSON or XLSX file in the import directory: ${file}`);
+  }
+  const info = await inspectImportFile(filePath);
+  if (!info.ok) return info;
+
+  const used = mapping ?? info.value.mapping;
+  const rows: ImportPreviewRow[] = [];
+  let rowNumber = 0;
+  for await (const raw of readRows(filePath)) {
+    rowNumber++;
+    const result = normalizeRow(raw, used);
+    rows.push('error' in result
+      ? { rowNumber, listing: null, error: result.error, duplicate: false }
+      : { rowNumber, listing: result.listing, error: null, duplicate: false });
+    if (rows.length >= limit) break;
+  }
+
+  const slugs = rows.flatMap(row => row.listing ? [String(row.listing.slug)] : []);
+  const existing = new Set(slugs.length
+    ? (await db.select({ slug: laundromats.slug }).from(laundromats).where(inArray(laundromats.slug, slugs))).map(row => row.slug)
+    : []);
+  for (const row of rows) {
+    row.duplicate = !!row.listing && existing.has(String(row.listing.slug));
+  }
+
+  return {
+    ok: true,
+    value: { file, ...info.value, mapping: used, problems: mappingProblems(used, info.value.columns), rows }
+  };
+}
+
+export async function listMappingProfiles(): Promise<ImportMappingProfile[]> {
+  return db.select().from(importMappingProfiles).orderBy(importMappingProfiles.name);
+}
+
+export async function getMappingProfile(profileId: number): Promise<ImportMappingProfile | undefined> {
+  const [profile] = await db.select().from(importMappingProfiles).where(eq(importMappingProfiles.id, profileId));
+  return profile;
+}
+
+/**
+ * Save a mapping profile, or update `profileId`. Names are unique.
+ */
+export async function saveMappingProfile(
+  values: { name: string; format: ImportFormat; mapping: ImportColumnMapping },
+  createdBy: number,
+  profileId?: number
+): Promise<ImportResult<ImportMappingProfile>> {
+  const [sameName] = await db.select({ id: importMappingProfiles.id })
+    .from(importMappingProfiles)
+    .where(eq(importMappingProfiles.name, values.name));
+  if (sameName && sameName.id !== profileId) {
+    return fail(409, `A mapping profile named "${values.name}" already exists`);
+  }
+
+  if (profileId === undefined) {
+    const [profile] = await db.insert(importMappingProfiles).values({ ...values, createdBy }).returning();
+    return { ok: true, value: profile };
+  }
+  const [profile] = await db.update(importMappingProfiles)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(importMappingProfiles.id, profileId))
+    .returning();
+  return profile ? { ok: true, value: profile } : fail(404, 'Mapping profile not found');
+}
+
+export async function deleteMappingProfile(profileId: number): Promise<boolean> {
+  const deleted = await db.delete(importMappingProfiles)
+    .where(eq(importMappingProfiles.id, profileId))
+    .returning({ id: importMappingProfiles.id });
+  return deleted.length > 0;
+}
+
+// Move a job to `to` if it's in one of the `from` statuses
+async function transition(
+  jobId: number,
+  from: ImportJobStatus[],
+  to: ImportJobStatus,
+  values: Partial<ImportJob> = {}
+): Promise<ImportResult> {
+  const [updated] = await db.update(importJobs)
+    .set({ ...values, status: to, updatedAt: new Date() })
+    .where(and(eq(importJobs.id, jobId), inArray(importJobs.status, from)))
+    .returning();
+  if (updated) return { ok: true, value: updated };
+
+  const job = await getImportJob(jobId);
+  return job
+    ? fail(409, `The import is ${job.status}`)
+    : fail(404, 'Import job not found');
+}
+
+/**
+ * Stop a job after its current batch; resume picks up from there
+ */
+export function pauseImportJob(jobId: number) {
+  return transition(jobId, ['queued', 'running'], 'paused');
+}
+
+/**
+ * Queue a paused or failed job to carry on from its checkpoint
+ */
+export async function resumeImportJob(jobId: number): Promise<ImportResult> {
+  const result = await transition(jobId, ['paused', 'failed'], 'queued', { error: null, finishedAt: null });
+  if (result.ok) wakeRunner();
+  return result;
+}
+
+/**
+ * Stop a job for good. Listings already imported stay.
+ */
+export function cancelImportJob(jobId: number) {
+  return transition(jobId, ['queued', 'running', 'paused'], 'cancelled', { finishedAt: new Date() });
+}
+
+/**
+ * Claim a queued job and run it in this process, for the CLI.
+ * Returns the job as it ended up, or undefined when it wasn't queued.
+ */
+export async function runImportJobNow(jobId: number): Promise<ImportJob | undefined> {
+  const job = await claimJob(jobId);
+  if (!job) return undefined;
+  await runJob(job);
+  return getImportJob(jobId);
+}
+
+/**
+ * Start picking up queued import jobs, and requeue jobs a previous process left running.
+ * Does nothing when IMPORT_RUNNER_ENABLED=false.
+ */
+export async function startImportRunner(): Promise<void> {
+  if (process.env.IMPORT_RUNNER_ENABLED === 'false') {
+    console.log('Import runner disabled (IMPORT_RUNNER_ENABLED=false)');
+    return;
+  }
+
+  runnerStarted = true;
+  const timer = setInterval(() => void runQueuedJobs(), POLL_INTERVAL_MS);
+  timer.unref();
+  console.log(`Import runner started, importing from ${IMPORT_DIR}`);
+  void runQueuedJobs();
+}
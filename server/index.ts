@@ -2,11 +2,34 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import cookieParser from "cookie-parser";
+import { loadUser } from "./auth";
+import { startScheduler } from "./scheduler";
+import { startImportRunner } from "./import-jobs";
+import { registerSubscriptionJobs } from "./subscription-jobs";
+import { registerDuplicateJobs } from "./duplicates";
+
+function parseTrustProxy(value: string | undefined): boolean | number | string {
+  if (!value) return 1;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
 
 const app = express();
-app.use(express.json());
+// Replit deployments sit behind one proxy hop; without this req.ip is the proxy's
+// address and every visitor shares one rate limit. TRUST_PROXY overrides it
+// (a hop count, "false" when the server is reached directly, or an address list)
+app.set("trust proxy", parseTrustProxy(process.env.TRUST_PROXY));
+app.use(express.json({
+  // Keep the raw body for Stripe webhook signature checks
+  verify: (req, _res, buf) => {
+    (req as Request).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 app.use(cookieParser());
+// Sets req.user from the auth cookie on every request
+app.use(loadUser);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -69,4 +92,16 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Background jobs: subscription expiry, grace periods, reminder emails and the duplicate listing scan
+  registerSubscriptionJobs();
+  registerDuplicateJobs();
+  startScheduler().catch(error => {
+    console.error('Error starting job scheduler:', error);
+  });
+
+  // Laundromat import jobs queued from /admin/imports, including ones cut off by a restart
+  startImportRunner().catch(error => {
+    console.error('Error starting import runner:', error);
+  });
 })();
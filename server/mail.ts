@@ -0,0 +1,126 @@
+/**
+ * Outgoing Email
+ *
+ * Account emails (verification, password reset) and subscription reminders are
+ * sent through a pluggable transport chosen by MAIL_TRANSPORT:
+ *   - console:  print messages to the server log (default in development)
+ *   - file:     write each message to MAIL_DIR (default ./tmp/mail) as a .eml file
+ *   - sendgrid: deliver through the SendGrid v3 API (SENDGRID_API_KEY)
+ * When MAIL_TRANSPORT is unset, SendGrid is used if an API key is configured.
+ */
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface IMailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = 'LaundryLocator <no-reply@laundromatlocator.com>';
+
+// Base URL for links in emails. Not taken from the request's Host header,
+// which a client could set to point reset links at their own site.
+export const APP_URL = (process.env.APP_URL || 'http://localhost:5000').replace(/\/$/, '');
+
+/**
+ * Logs messages instead of sending them
+ */
+export class ConsoleMailTransport implements IMailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Writes each message to a .eml file, so links can be opened from a local mail viewer
+ */
+export class FileMailTransport implements IMailTransport {
+  readonly name = 'file';
+
+  constructor(private directory: string, private from: string = DEFAULT_FROM) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const file = path.join(this.directory, `${Date.now()}-${message.to.replace(/[^a-z0-9@.]/gi, '_')}.eml`);
+    const content = [
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text
+    ].join('\r\n');
+
+    await fs.promises.writeFile(file, content, 'utf8');
+    console.log(`[mail] Wrote "${message.subject}" for ${message.to} to ${file}`);
+  }
+}
+
+/**
+ * Sends messages through the SendGrid v3 mail API
+ */
+export class SendGridMailTransport implements IMailTransport {
+  readonly name = 'sendgrid';
+
+  constructor(private apiKey: string, private from: string = DEFAULT_FROM) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const fromMatch = this.from.match(/^(.*)<(.+)>$/);
+    const from = fromMatch
+      ? { name: fromMatch[1].trim(), email: fromMatch[2].trim() }
+      : { email: this.from };
+
+    const content = [{ type: 'text/plain', value: message.text }];
+    if (message.html) content.push({ type: 'text/html', value: message.html });
+
+    await axios.post('https://api.sendgrid.com/v3/mail/send', {
+      personalizations: [{ to: [{ email: message.to }] }],
+      from,
+      subject: message.subject,
+      content
+    }, {
+      headers: { Authorization: `Bearer ${this.apiKey}` },
+      timeout: 10000
+    });
+  }
+}
+
+/**
+ * Build the mail transport configured by the environment
+ */
+export function createMailTransport(): IMailTransport {
+  const from = process.env.MAIL_FROM || DEFAULT_FROM;
+  const apiKey = process.env.SENDGRID_API_KEY;
+  const transport = process.env.MAIL_TRANSPORT || (apiKey ? 'sendgrid' : 'console');
+
+  switch (transport) {
+    case 'sendgrid':
+      if (!apiKey) {
+        throw new Error('SENDGRID_API_KEY must be set to use the sendgrid mail transport');
+      }
+      return new SendGridMailTransport(apiKey, from);
+    case 'file':
+      return new FileMailTransport(process.env.MAIL_DIR || path.join(process.cwd(), 'tmp', 'mail'), from);
+    case 'console':
+      if (process.env.NODE_ENV === 'production') {
+        console.warn('MAIL_TRANSPORT is console in production - account emails will only be logged');
+      }
+      return new ConsoleMailTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}" (expected console, file or sendgrid)`);
+  }
+}
+
+export const mailer = createMailTransport();
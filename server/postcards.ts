@@ -0,0 +1,109 @@
+/**
+ * Postcards
+ *
+ * Postcards carrying claim verification codes are mailed to a listing's address
+ * through a pluggable transport chosen by POSTCARD_TRANSPORT:
+ *   - console: print the postcard to the server log (default in development)
+ *   - lob:     print and mail through the Lob API (LOB_API_KEY, with the return
+ *              address in POSTCARD_FROM_* variables)
+ * When POSTCARD_TRANSPORT is unset, Lob is used if an API key is configured.
+ */
+import axios from 'axios';
+
+export interface PostalAddress {
+  name: string;
+  line1: string;
+  city: string;
+  state: string;
+  zip: string;
+}
+
+export interface Postcard {
+  to: PostalAddress;
+  text: string; // Printed on the back
+}
+
+export interface IPostcardTransport {
+  readonly name: string;
+  send(postcard: Postcard): Promise<void>;
+}
+
+/**
+ * Logs postcards instead of mailing them
+ */
+export class ConsolePostcardTransport implements IPostcardTransport {
+  readonly name = 'console';
+
+  async send(postcard: Postcard): Promise<void> {
+    const { to } = postcard;
+    console.log(`[postcard] To: ${to.name}, ${to.line1}, ${to.city}, ${to.state} ${to.zip}\n${postcard.text}`);
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Prints and mails postcards through the Lob API
+ */
+export class LobPostcardTransport implements IPostcardTransport {
+  readonly name = 'lob';
+
+  constructor(private apiKey: string, private from: PostalAddress) {}
+
+  async send(postcard: Postcard): Promise<void> {
+    const address = (prefix: 'to' | 'from', { name, line1, city, state, zip }: PostalAddress) => ({
+      [`${prefix}[name]`]: name,
+      [`${prefix}[address_line1]`]: line1,
+      [`${prefix}[address_city]`]: city,
+      [`${prefix}[address_state]`]: state,
+      [`${prefix}[address_zip]`]: zip,
+    });
+
+    const html = `<html><body style="font-family: sans-serif; padding: 0.5in;">${escapeHtml(postcard.text).replace(/\n/g, '<br>')}</body></html>`;
+
+    await axios.post('https://api.lob.com/v1/postcards', new URLSearchParams({
+      ...address('to', postcard.to),
+      ...address('from', this.from),
+      front: '<html><body style="font-family: sans-serif; padding: 0.5in;"><h1>LaundryLocator</h1></body></html>',
+      back: html,
+    }), {
+      auth: { username: this.apiKey, password: '' },
+      timeout: 10000
+    });
+  }
+}
+
+/**
+ * Build the postcard transport configured by the environment
+ */
+export function createPostcardTransport(): IPostcardTransport {
+  const apiKey = process.env.LOB_API_KEY;
+  const transport = process.env.POSTCARD_TRANSPORT || (apiKey ? 'lob' : 'console');
+
+  switch (transport) {
+    case 'lob': {
+      const from: PostalAddress = {
+        name: process.env.POSTCARD_FROM_NAME || 'LaundryLocator',
+        line1: process.env.POSTCARD_FROM_LINE1 || '',
+        city: process.env.POSTCARD_FROM_CITY || '',
+        state: process.env.POSTCARD_FROM_STATE || '',
+        zip: process.env.POSTCARD_FROM_ZIP || '',
+      };
+      if (!apiKey || !from.line1 || !from.city || !from.state || !from.zip) {
+        throw new Error('LOB_API_KEY and the POSTCARD_FROM_* return address must be set to use the lob postcard transport');
+      }
+      return new LobPostcardTransport(apiKey, from);
+    }
+    case 'console':
+      if (process.env.NODE_ENV === 'production') {
+        console.warn('POSTCARD_TRANSPORT is console in production - postcard codes will only be logged');
+      }
+      return new ConsolePostcardTransport();
+    default:
+      throw new Error(`Unknown POSTCARD_TRANSPORT "${transport}" (expected console or lob)`);
+  }
+}
+
+export const postcards = createPostcardTransport();
@@ -1,109 +1,263 @@
 /**
  * Premium Laundromat Management
- * 
- * This module handles the management of premium laundromat listings,
- * allowing specific laundromats to be featured in the Premium section.
+ *
+ * Chooses the listings shown in the featured and premium sections:
+ *   - featured: laundromats with a featured subscription, until featured_until when it's set
+ *   - premium:  laundromats with any paid subscription
+ * Past-due subscriptions still count during their grace period (see server/subscription-jobs.ts).
+ *
+ * Admin pins (placement_overrides) are shown first and exclusions are never shown.
+ * The remaining slots rotate through the paying listings in scope, least shown today
+ * first, so every paying listing gets a fair share of impressions. A city that can't
+ * fill its slots is topped up from the rest of its state. Featured slots still empty
+ * after that go to top-rated listings in the same scope (see getTopRatedFill).
  */
+import { desc, eq } from 'drizzle-orm';
 import { db, pool } from './db';
-import { laundromats, type Laundromat } from '@shared/schema';
-import { eq } from 'drizzle-orm';
+import { placementOverrides, type InsertPlacementOverride, type PlacementOverride } from '@shared/schema';
 
-// IDs of laundromats chosen to display as premium
-const PREMIUM_LAUNDROMAT_IDS = [101, 103, 342, 515];
+export type PlacementType = 'featured' | 'premium';
 
-// Custom premium offers for specific laundromats
-const PREMIUM_OFFERS = {
-  101: "SPECIAL OFFER: 20% off on all wash loads on Tuesdays! Modern machines, free WiFi.",
-  103: "MONTHLY MEMBERSHIP: Join our Wash Club for unlimited washes at $49.99/month.",
-  342: "PREMIUM AMENITIES: Free detergent on your first visit! Clean facility with security.",
-  515: "NEWLY RENOVATED! Comfortable waiting area with free coffee and fast WiFi."
-};
+export const PLACEMENT_TYPES: PlacementType[] = ['featured', 'premium'];
+
+export interface PlacementScope {
+  state?: string; // 2-letter state code
+  city?: string;
+}
+
+export interface PlacementOptions {
+  scope?: PlacementScope;
+  limit: number;
+  // Count the returned listings as shown; off for internal callers that don't display them
+  countImpressions?: boolean;
+}
+
+export interface ImpressionSummary {
+  laundryId: number;
+  name: string;
+  city: string;
+  state: string;
+  placement: PlacementType;
+  scope: string;
+  impressions: number;
+}
+
+// Whether override `o` is in effect for placement $1 in state $2 / city $3.
+// An override scoped to a state or city never applies to wider scopes.
+const OVERRIDE_APPLIES = `
+  (o.placement IS NULL OR o.placement = $1)
+  AND o.starts_at <= NOW() AND (o.ends_at IS NULL OR o.ends_at > NOW())
+  AND (o.state IS NULL OR UPPER(o.state) = UPPER($2))
+  AND (o.city IS NULL OR LOWER(o.city) = LOWER($3))
+`;
 
 /**
- * Get premium laundromats for display
- * This function retrieves specifically chosen laundromats to display as premium
+ * Key that impressions are counted under, e.g. 'us', 'tx' or 'tx/austin'
  */
-export async function getPremiumLaundromats(): Promise<Laundromat[]> {
+export function scopeKey(scope: PlacementScope): string {
+  if (!scope.state) return 'us';
+  const state = scope.state.toLowerCase();
+  return scope.city ? `${state}/${scope.city.toLowerCase()}` : state;
+}
+
+/**
+ * Pinned and paying listings in one scope: pins by rank, then the listings
+ * shown least today, then earlier featured subscribers
+ */
+async function selectPlacements(placement: PlacementType, scope: PlacementScope, limit: number, excludeIds: number[]): Promise<any[]> {
+  const query = `
+    SELECT l.*, pin.rank AS pin_rank
+    FROM laundromats l
+    LEFT JOIN LATERAL (
+      SELECT MIN(o.rank) AS rank
+      FROM placement_overrides o
+      WHERE o.laundry_id = l.id AND o.action = 'pin' AND ${OVERRIDE_APPLIES}
+    ) pin ON true
+    LEFT JOIN placement_impressions i
+      ON i.laundry_id = l.id AND i.placement = $1 AND i.scope = $6 AND i.day = CURRENT_DATE
+    WHERE ($2::text IS NULL OR UPPER(l.state) = UPPER($2))
+      AND ($3::text IS NULL OR LOWER(l.city) = LOWER($3))
+      AND l.id <> ALL($5::int[])
+      AND NOT EXISTS (
+        SELECT 1 FROM placement_overrides o
+        WHERE o.laundry_id = l.id AND o.action = 'exclude' AND ${OVERRIDE_APPLIES}
+      )
+      AND (pin.rank IS NOT NULL OR EXISTS (
+        SELECT 1 FROM subscriptions s
+        WHERE s.laundry_id = l.id
+          AND s.status IN ('active', 'past_due')
+          AND ($1 = 'premium' OR (s.tier = 'featured' AND (l.featured_until IS NULL OR l.featured_until > NOW())))
+      ))
+    ORDER BY pin.rank ASC NULLS LAST, COALESCE(i.impressions, 0) ASC, l.featured_rank ASC NULLS LAST, random()
+    LIMIT $4
+  `;
+
+  const result = await pool.query(query, [
+    placement,
+    scope.state || null,
+    scope.city || null,
+    limit,
+    excludeIds,
+    scopeKey(scope)
+  ]);
+  return result.rows;
+}
+
+/**
+ * Highly rated listings in one scope that aren't excluded, best first
+ */
+async function selectTopRated(placement: PlacementType, scope: PlacementScope, limit: number, excludeIds: number[]): Promise<any[]> {
+  const query = `
+    SELECT l.*, NULL AS pin_rank
+    FROM laundromats l
+    WHERE l.rating IS NOT NULL AND l.rating::float >= 4.5
+      AND ($2::text IS NULL OR UPPER(l.state) = UPPER($2))
+      AND ($3::text IS NULL OR LOWER(l.city) = LOWER($3))
+      AND l.id <> ALL($5::int[])
+      AND NOT EXISTS (
+        SELECT 1 FROM placement_overrides o
+        WHERE o.laundry_id = l.id AND o.action = 'exclude' AND ${OVERRIDE_APPLIES}
+      )
+    ORDER BY l.rating::float DESC
+    LIMIT $4
+  `;
+
+  const result = await pool.query(query, [
+    placement,
+    scope.state || null,
+    scope.city || null,
+    limit,
+    excludeIds
+  ]);
+  return result.rows;
+}
+
+// Narrowest scope first, then widen a city to its state if there are slots left
+function scopePasses(scope: PlacementScope): PlacementScope[] {
+  return scope.state && scope.city ? [scope, { state: scope.state }] : [scope];
+}
+
+// Public shape of a placement row, without the PostGIS and full-text columns
+function toPlacement({ pin_rank, location, search_vector, ...laundry }: any, placement: PlacementType) {
+  return {
+    ...laundry,
+    promotional_text: laundry.promotional_text || `Top-rated laundromat in ${laundry.city}, ${laundry.state}!`,
+    placement,
+    pinned: pin_rank !== null
+  };
+}
+
+async function recordImpressions(placement: PlacementType, scope: string, laundryIds: number[]) {
+  if (laundryIds.length === 0) return;
+
   try {
-    // Query for specific laundromats by ID
-    const query = `
-      SELECT id, name, slug, address, city, state, zip, phone, 
-             website, latitude, longitude, rating, image_url, 
-             hours, description, services, photos, review_count
-      FROM laundromats
-      WHERE id IN (${PREMIUM_LAUNDROMAT_IDS.join(', ')})
-    `;
-    
-    const result = await pool.query(query);
-    console.log("Premium laundromats found:", result.rows.length);
-    
-    // If no results, return empty array
-    if (!result.rows || result.rows.length === 0) {
-      return [];
-    }
-    
-    // Add premium attributes to each laundromat
-    const premiumLaundromats = result.rows.map(laundry => {
-      const id = laundry.id as number;
-      
-      return {
-        ...laundry,
-        promotional_text: PREMIUM_OFFERS[id as keyof typeof PREMIUM_OFFERS] || 
-                         `Top-rated laundromat in ${laundry.city}, ${laundry.state}!`,
-        listing_type: "premium",
-        is_premium: true,
-        verified: true,
-        subscription_active: true,
-        subscription_status: "active",
-        premium_score: 95
-      };
-    });
-    
-    return premiumLaundromats as Laundromat[];
+    await pool.query(`
+      INSERT INTO placement_impressions (laundry_id, placement, scope, day, impressions)
+      SELECT id, $1, $2, CURRENT_DATE, 1 FROM unnest($3::int[]) AS id
+      ON CONFLICT (laundry_id, placement, scope, day)
+      DO UPDATE SET impressions = placement_impressions.impressions + 1
+    `, [placement, scope, laundryIds]);
   } catch (error) {
-    console.error("Error retrieving premium laundromats:", error);
-    return [];
+    // A missed count only skews the rotation slightly; don't fail the page over it
+    console.error('Error recording placement impressions:', error);
   }
 }
 
 /**
- * Get a specific premium laundromat by ID
+ * Listings to show in the featured or premium section for a scope
  */
-export async function getPremiumLaundromat(id: number): Promise<Laundromat | undefined> {
-  if (!PREMIUM_LAUNDROMAT_IDS.includes(id)) {
-    return undefined;
-  }
-  
-  try {
-    const query = `
-      SELECT id, name, slug, address, city, state, zip, phone, 
-             website, latitude, longitude, rating, image_url, 
-             hours, description, services, photos, review_count
-      FROM laundromats
-      WHERE id = $1
-    `;
-    
-    const result = await pool.query(query, [id]);
-    
-    if (!result.rows || result.rows.length === 0) {
-      return undefined;
+export async function getPlacements(placement: PlacementType, options: PlacementOptions): Promise<any[]> {
+  const { scope = {}, limit, countImpressions = true } = options;
+
+  const chosen: any[] = [];
+  for (const pass of scopePasses(scope)) {
+    if (chosen.length >= limit) break;
+
+    const rows = await selectPlacements(placement, pass, limit - chosen.length, chosen.map(row => row.id));
+    if (countImpressions) {
+      await recordImpressions(placement, scopeKey(pass), rows.map(row => row.id));
     }
-    
-    // Add premium attributes
-    const laundry = result.rows[0];
-    return {
-      ...laundry,
-      promotional_text: PREMIUM_OFFERS[id as keyof typeof PREMIUM_OFFERS] || 
-                       `Top-rated laundromat in ${laundry.city}, ${laundry.state}!`,
-      listing_type: "premium",
-      is_premium: true,
-      verified: true,
-      subscription_active: true,
-      subscription_status: "active",
-      premium_score: 95
-    } as Laundromat;
-  } catch (error) {
-    console.error(`Error retrieving premium laundromat ${id}:`, error);
-    return undefined;
+    chosen.push(...rows);
   }
-}
\ No newline at end of file
+
+  return chosen.map(row => toPlacement(row, placement));
+}
+
+/**
+ * Top-rated listings to fill placement slots that paying listings leave empty.
+ * Uses the same scope and exclusions as getPlacements; impressions aren't counted.
+ */
+export async function getTopRatedFill(placement: PlacementType, options: PlacementOptions & { excludeIds?: number[] }): Promise<any[]> {
+  const { scope = {}, limit, excludeIds = [] } = options;
+
+  const chosen: any[] = [];
+  for (const pass of scopePasses(scope)) {
+    if (chosen.length >= limit) break;
+
+    const rows = await selectTopRated(placement, pass, limit - chosen.length, [...excludeIds, ...chosen.map(row => row.id)]);
+    chosen.push(...rows);
+  }
+
+  return chosen.map(row => toPlacement(row, placement));
+}
+
+/**
+ * Parse ?state=&city= into a placement scope. A city is only used together with its state.
+ */
+export function parsePlacementScope(query: Record<string, any>): PlacementScope {
+  const state = typeof query.state === 'string' ? query.state.trim() : '';
+  const city = typeof query.city === 'string' ? query.city.trim() : '';
+
+  if (state && !/^[a-z]{2}$/i.test(state)) {
+    throw new Error('state must be a 2-letter state code');
+  }
+  return state ? { state: state.toUpperCase(), ...(city ? { city } : {}) } : {};
+}
+
+// Admin overrides
+
+export async function getPlacementOverrides(): Promise<PlacementOverride[]> {
+  return db.select()
+    .from(placementOverrides)
+    .orderBy(desc(placementOverrides.createdAt));
+}
+
+export async function createPlacementOverride(override: InsertPlacementOverride): Promise<PlacementOverride> {
+  const [created] = await db.insert(placementOverrides)
+    .values(override)
+    .returning();
+  return created;
+}
+
+export async function deletePlacementOverride(id: number): Promise<boolean> {
+  const deleted = await db.delete(placementOverrides)
+    .where(eq(placementOverrides.id, id))
+    .returning({ id: placementOverrides.id });
+  return deleted.length > 0;
+}
+
+/**
+ * Impressions per listing, placement and scope over the last `days` days
+ */
+export async function getImpressionSummary(days: number): Promise<ImpressionSummary[]> {
+  const result = await pool.query(`
+    SELECT pi.laundry_id, l.name, l.city, l.state, pi.placement, pi.scope,
+           SUM(pi.impressions)::int AS impressions
+    FROM placement_impressions pi
+    JOIN laundromats l ON l.id = pi.laundry_id
+    WHERE pi.day > CURRENT_DATE - $1::int
+    GROUP BY pi.laundry_id, l.name, l.city, l.state, pi.placement, pi.scope
+    ORDER BY pi.placement, pi.scope, impressions DESC
+    LIMIT 500
+  `, [days]);
+
+  return result.rows.map(row => ({
+    laundryId: row.laundry_id,
+    name: row.name,
+    city: row.city,
+    state: row.state,
+    placement: row.placement,
+    scope: row.scope,
+    impressions: row.impressions
+  }));
+}
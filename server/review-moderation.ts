@@ -0,0 +1,67 @@
+/**
+ * Review Moderation
+ *
+ * Screens new and edited reviews with a few spam and profanity heuristics:
+ *   - a clean review is approved straight away
+ *   - a review that trips a heuristic is held as pending for an admin
+ * An approved review that enough users report is flagged and hidden until an
+ * admin looks at it again. Listing ratings only count approved reviews.
+ */
+import type { ReviewStatus } from '@shared/schema';
+
+// Distinct user reports that pull an approved review back into the queue
+export const REPORTS_TO_FLAG = 3;
+
+export const REPORT_REASONS = ['spam', 'offensive', 'off_topic', 'conflict_of_interest', 'other'] as const;
+
+export type ReportReason = typeof REPORT_REASONS[number];
+
+// Statuses an admin can set; 'flagged' only comes from reports
+export const MODERATION_DECISIONS = ['approved', 'rejected'] as const;
+
+export interface ScreeningResult {
+  status: ReviewStatus;
+  reasons: string[];
+}
+
+// Deliberately short: matched as whole words, so it rarely trips on ordinary text
+const PROFANITY = [
+  'asshole', 'bastard', 'bitch', 'bullshit', 'cunt', 'dick', 'fuck', 'fucked', 'fucking',
+  'motherfucker', 'piss', 'shit', 'shitty', 'slut', 'whore'
+];
+
+const PROFANITY_PATTERN = new RegExp(`\\b(${PROFANITY.join('|')})\\b`, 'i');
+const LINK_PATTERN = /(https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(com|net|org|biz|info|ru|xyz|top)\b/i;
+const EMAIL_PATTERN = /\b[\w.+-]+@[\w-]+\.[\w.]+\b/;
+const PHONE_PATTERN = /(\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/;
+const REPEATED_CHARACTER_PATTERN = /(.)\1{7,}/;
+const SPAM_PHRASES = /\b(buy now|click here|free money|work from home|promo code|discount code|crypto|bitcoin|casino|viagra)\b/i;
+
+function isShouting(text: string): boolean {
+  const letters = text.replace(/[^a-z]/gi, '');
+  return letters.length >= 20 && letters === letters.toUpperCase();
+}
+
+function hasRepeatedWords(text: string): boolean {
+  const words = text.toLowerCase().split(/\s+/).filter(word => word.length > 2);
+  if (words.length < 8) return false;
+  return new Set(words).size / words.length < 0.35;
+}
+
+/**
+ * Decide whether a review can go live straight away. Reasons are short codes
+ * shown to admins in the moderation queue.
+ */
+export function screenReview(comment: string | null | undefined): ScreeningResult {
+  const text = (comment || '').trim();
+  const reasons: string[] = [];
+
+  if (PROFANITY_PATTERN.test(text)) reasons.push('profanity');
+  if (LINK_PATTERN.test(text)) reasons.push('link');
+  if (EMAIL_PATTERN.test(text) || PHONE_PATTERN.test(text)) reasons.push('contact_details');
+  if (SPAM_PHRASES.test(text)) reasons.push('spam_phrase');
+  if (isShouting(text)) reasons.push('all_caps');
+  if (REPEATED_CHARACTER_PATTERN.test(text) || hasRepeatedWords(text)) reasons.push('repetitive');
+
+  return { status: reasons.length > 0 ? 'pending' : 'approved', reasons };
+}
@@ -1,47 +1,75 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { z } from "zod";
-import Stripe from "stripe";
-import axios from "axios";
 import { db, pool } from "./db"; // Import the database connection
 import { addCityRoutes } from "./city-routes";
 import sitemapRoutes from "./routes/sitemap";
 import businessRoutes from "./routes/business";
+import authRoutes from "./routes/auth";
+import favoriteRoutes from "./routes/favorites";
+import adminPlacementRoutes from "./routes/adminPlacements";
+import premiumFeatureRoutes from "./routes/premiumFeatures";
+import reviewRoutes from "./routes/reviews";
+import adminReviewRoutes from "./routes/adminReviews";
+import eventRoutes from "./routes/events";
+import adminClaimRoutes from "./routes/adminClaims";
+import adminNotificationRoutes from "./routes/adminNotifications";
+import adminImportRoutes from "./routes/adminImports";
+import adminDataRoutes from "./routes/adminData";
+import adminDuplicateRoutes from "./routes/adminDuplicates";
+import { UPLOAD_DIR, UPLOAD_URL_PREFIX } from "./uploads";
+import { requireRole } from "./auth";
 import { adminNotifications, laundromats, users } from "@shared/schema";
+import { filterOpenAt, parseOpenAtQuery } from "./utils/hours";
+import {
+  GeoPoint,
+  clusterLaundromatsInBounds,
+  countLaundromatsWithinRadius,
+  findLaundromatsInBounds,
+  findLaundromatsWithinRadius,
+  findNearestLaundromats,
+  getFacetsWithinRadius,
+  isValidPoint
+} from "./geo";
+import { geocoder, parseLocationQuery } from "./geocoder";
+import { filterClause, getLaundromatFacets, parseFilterQuery } from "./filters";
+import { getTextSearchFacets } from "./search";
+import { constructWebhookEvent, processStripeEvent } from "./stripe-webhooks";
+import { getJobRuns, getJobStatuses, isRegisteredJob, runJob } from "./scheduler";
+import { PlacementScope, getPlacements, getTopRatedFill, parsePlacementScope } from "./premium";
+import { LEGACY_PAGES, SLUG_PAGES, findCurrentSlug } from "./slug-history";
+import type { FacetCounts, FacetedPage, LaundromatFilters } from "@shared/filters";
+import {
+  PageFetcher,
+  PageRequest,
+  fetchPage,
+  paginate,
+  parsePageQuery,
+  toPage,
+  withWindowTotal
+} from "./utils/pagination";
 
 const apiRouter = '/api';
 
-// Helper function to compute string similarity for fuzzy matching
-function computeNameSimilarity(a: string, b: string): number {
-  if (a === b) return 0;
-  
-  const matrix: number[][] = [];
-  
-  // Initialize matrix
-  for (let i = 0; i <= a.length; i++) {
-    matrix[i] = [i];
-  }
-  
-  for (let j = 0; j <= b.length; j++) {
-    matrix[0][j] = j;
-  }
-  
-  // Fill matrix
-  for (let i = 1; i <= a.length; i++) {
-    for (let j = 1; j <= b.length; j++) {
-      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
-      matrix[i][j] = Math.min(
-        matrix[i - 1][j] + 1, // deletion
-        matrix[i][j - 1] + 1, // insertion
-        matrix[i - 1][j - 1] + cost // substitution
-      );
-    }
-  }
-  
-  return matrix[a.length][b.length];
+// Map viewport search: zoom levels at or below this return clusters instead of listings
+const CLUSTER_MAX_ZOOM = 10;
+const VIEWPORT_LIMIT = 500;
+
+// Radius searches: the widest radius a request can ask for, in miles
+const MAX_RADIUS_MILES = 100;
+
+// A ?radius= value in miles, capped at MAX_RADIUS_MILES; null when it isn't a positive number
+function parseRadiusQuery(value: unknown, fallback: number): number | null {
+  if (value === undefined || value === '') return fallback;
+  const miles = parseFloat(String(value));
+  if (!Number.isFinite(miles) || miles <= 0) return null;
+  return Math.min(miles, MAX_RADIUS_MILES);
 }
 
+// Slots in the homepage featured section
+const FEATURED_LIMIT = 10;
+
 // Helper function to get next featured rank
 async function getNextFeaturedRank(): Promise<number> {
   try {
@@ -61,14 +89,18 @@ async function getNextFeaturedRank(): Promise<number> {
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Register business routes
-  app.use(`${apiRouter}/business`, businessRoutes);
+  // Sign up, log in, log out and the current user
+  app.use(`${apiRouter}/auth`, authRoutes);
+  
   // Add city routes - these are now handled by the dedicated city-routes.ts file
   addCityRoutes(app, apiRouter);
   
   // Add sitemap routes for SEO
   app.use(sitemapRoutes);
   
+  // User-uploaded photos; names are random, so they can be cached for a long time
+  app.use(UPLOAD_URL_PREFIX, express.static(UPLOAD_DIR, { maxAge: '30d', index: false }));
+  
   // Serve Google verification file
   app.get('/google889fc795784843a8.html', (req, res) => {
     res.type('text/html');
@@ -78,6 +110,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Add business routes for claiming, managing, and upgrading laundromat listings
   app.use(`${apiRouter}/business`, businessRoutes);
 
+  // Saved laundromats and named favorite lists for logged-in users
+  app.use(`${apiRouter}/favorites`, favoriteRoutes);
+
+  // Admin pins and exclusions for the featured and premium sections
+  app.use(`${apiRouter}/admin/placements`, adminPlacementRoutes);
+
+  // Owners' premium listing fields, checked against their tier, and their subscriptions
+  app.use(apiRouter, premiumFeatureRoutes);
+
+  // Reviews: one per user per laundromat, screened and moderated, with owner replies
+  app.use(apiRouter, reviewRoutes);
+  app.use(`${apiRouter}/admin/reviews`, adminReviewRoutes);
+
+  // Listing views, contact clicks and search impressions from the site, for owners' analytics
+  app.use(`${apiRouter}/events`, eventRoutes);
+
+  // Admin review of business claims verified with documents
+  app.use(`${apiRouter}/admin/claims`, adminClaimRoutes);
+
+  // Admin inbox: claims, subscription problems and flagged reviews, with assignment and an audit trail
+  app.use(`${apiRouter}/admin/notifications`, adminNotificationRoutes);
+
+  // Laundromat imports from CSV/JSON files: resumable jobs with dry runs, row errors and live progress
+  app.use(`${apiRouter}/admin/imports`, adminImportRoutes);
+
+  // Admin data files: size-limited uploads checked before import, enrichment and downloads, all inside the import directory
+  app.use(`${apiRouter}/admin/data`, adminDataRoutes);
+
+  // Likely duplicate listings found by the daily scan, for admins to merge or dismiss
+  app.use(`${apiRouter}/admin/duplicates`, adminDuplicateRoutes);
+
+  // Old URLs of renamed or merged laundromats, and renamed cities, states and tips, go to the current ones
+  for (const { path, entityType } of SLUG_PAGES) {
+    app.get(path, async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const slug = await findCurrentSlug(entityType, req.params.slug);
+        if (!slug) {
+          return next();
+        }
+        const query = req.originalUrl.includes('?') ? req.originalUrl.slice(req.originalUrl.indexOf('?')) : '';
+        res.redirect(301, path.replace(':slug', encodeURIComponent(slug)) + query);
+      } catch (error) {
+        console.error('Error looking up slug history:', error);
+        next();
+      }
+    });
+  }
+
+  // Pages in the URL shapes older sitemaps published
+  for (const { path, resolve } of LEGACY_PAGES) {
+    app.get(path, async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const target = await resolve(req.params);
+        if (!target) {
+          return next();
+        }
+        const query = req.originalUrl.includes('?') ? req.originalUrl.slice(req.originalUrl.indexOf('?')) : '';
+        res.redirect(301, target + query);
+      } catch (error) {
+        console.error('Error redirecting legacy URL:', error);
+        next();
+      }
+    });
+  }
+
   // Let the Vite middleware handle the client-side routes
   app.get('/', (req: Request, res: Response, next: NextFunction) => {
     next();
@@ -130,6 +227,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { abbr } = req.params;
       const stateUpperAbbr = abbr.toUpperCase();
+      
+      let page: PageRequest;
+      try {
+        page = parsePageQuery(req.query, { defaultLimit: 100, maxLimit: 500 });
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
       console.log(`Finding cities for state: ${stateUpperAbbr}`);
       
       // First verify this is a valid state
@@ -153,22 +257,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         SELECT DISTINCT 
           city, 
           state, 
-          COUNT(*) AS laundry_count
+          COUNT(*) AS laundry_count,
+          COUNT(*) OVER () AS total_count
         FROM laundromats
         WHERE state = $1
         GROUP BY city, state
         ORDER BY laundry_count DESC, city ASC
-        LIMIT 100
+        LIMIT ${page.limit}
+        OFFSET ${page.offset}
       `;
       
-      const citiesResult = await pool.query(cityQuery, [stateUpperAbbr]);
+      const citiesResult = withWindowTotal((await pool.query(cityQuery, [stateUpperAbbr])).rows);
       
       // Generate formatted city data with slugs
-      const cities = citiesResult.rows.map((row, index) => {
+      const cities = citiesResult.items.map((row, index) => {
         const cityName = row.city;
         const slug = `${cityName.toLowerCase().replace(/\s+/g, '-')}-${stateUpperAbbr.toLowerCase()}`;
         return {
-          id: 50000 + index, // Use an ID that won't conflict with real city IDs
+          id: 50000 + page.offset + index, // Use an ID that won't conflict with real city IDs
           name: cityName,
           slug: slug,
           state: stateUpperAbbr,
@@ -176,8 +282,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         };
       });
       
-      console.log(`Found ${cities.length} cities with laundromats for ${stateUpperAbbr}`);
-      res.json(cities);
+      console.log(`Found ${citiesResult.total} cities with laundromats for ${stateUpperAbbr}`);
+      res.json(toPage(cities, citiesResult.total, page));
     } catch (error) {
       console.error('Error fetching cities:', error);
       res.status(500).json({ message: 'Error fetching cities' });
@@ -205,6 +311,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const result = await pool.query(query, [slugLower]);
       
       if (result.rows.length === 0) {
+        const currentSlug = await findCurrentSlug('state', slugLower);
+        if (currentSlug) {
+          return res.redirect(301, `${apiRouter}/states/${encodeURIComponent(currentSlug)}`);
+        }
         return res.status(404).json({ message: 'State not found' });
       }
       
@@ -236,112 +346,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get laundromat by slug
-  app.get(`${apiRouter}/laundromats/:slug`, async (req: Request, res: Response) => {
+  // Laundromats inside the visible map viewport, clustered per grid cell when zoomed out
+  // Must be registered before /laundromats/:slug
+  app.get(`${apiRouter}/laundromats/within`, async (req: Request, res: Response) => {
     try {
-      const { slug } = req.params;
-      
-      const query = `
-        SELECT * FROM laundromats
-        WHERE slug = $1
-        LIMIT 1
-      `;
+      const parseCorner = (value: unknown) => {
+        const [lat, lng] = String(value || '').split(',').map(part => parseFloat(part));
+        return { lat, lng };
+      };
       
-      const result = await pool.query(query, [slug]);
+      const ne = parseCorner(req.query.ne);
+      const sw = parseCorner(req.query.sw);
+      const zoom = req.query.zoom !== undefined ? parseInt(req.query.zoom.toString()) : 12;
       
-      if (result.rows.length === 0) {
-        return res.status(404).json({ message: 'Laundromat not found' });
+      if (!isValidPoint(ne) || !isValidPoint(sw)) {
+        return res.status(400).json({ message: 'ne and sw must be "lat,lng" coordinates' });
+      }
+      if (isNaN(zoom) || zoom < 0 || zoom > 22) {
+        return res.status(400).json({ message: 'zoom must be between 0 and 22' });
       }
       
-      res.json(result.rows[0]);
-    } catch (error) {
-      console.error('Error fetching laundromat:', error);
-      res.status(500).json({ message: 'Error fetching laundromat' });
-    }
-  });
-
-  // Get reviews for a laundromat
-  app.get(`${apiRouter}/laundromats/:id/reviews`, async (req: Request, res: Response) => {
-    try {
-      const { id } = req.params;
+      const bounds = { north: ne.lat, east: ne.lng, south: sw.lat, west: sw.lng };
       
-      // For now, just return an empty array as it's not required for the current functionality
-      res.json([]);
+      if (zoom <= CLUSTER_MAX_ZOOM) {
+        const clusters = await clusterLaundromatsInBounds(bounds, zoom);
+        const total = clusters.reduce((sum, cluster) => sum + cluster.count, 0);
+        
+        console.log(`Viewport search at zoom ${zoom}: ${total} laundromats in ${clusters.length} clusters`);
+        return res.json({ zoom, clustered: true, total, clusters, laundromats: [] });
+      }
       
-      // If we implement reviews later, we can use this query:
-      /*
-      const query = `
-        SELECT * FROM reviews
-        WHERE laundry_id = $1
-        ORDER BY created_at DESC
-      `;
+      const laundromats = await findLaundromatsInBounds(bounds, { limit: VIEWPORT_LIMIT });
       
-      const result = await pool.query(query, [id]);
-      res.json(result.rows);
-      */
+      console.log(`Viewport search at zoom ${zoom}: ${laundromats.length} laundromats`);
+      res.json({
+        zoom,
+        clustered: false,
+        total: laundromats.length,
+        truncated: laundromats.length === VIEWPORT_LIMIT,
+        clusters: [],
+        laundromats
+      });
     } catch (error) {
-      console.error('Error fetching reviews:', error);
-      res.status(500).json({ message: 'Error fetching reviews' });
+      console.error('Error fetching laundromats in viewport:', error);
+      res.status(500).json({ message: 'Error fetching laundromats in viewport' });
     }
   });
 
-  // Create a review for a laundromat
-  app.post(`${apiRouter}/reviews`, async (req: Request, res: Response) => {
+  // Get laundromat by slug
+  app.get(`${apiRouter}/laundromats/:slug`, async (req: Request, res: Response, next: NextFunction) => {
     try {
-      // Use Zod for validation
-      const reviewSchema = z.object({
-        laundryId: z.number(),
-        userId: z.number(),
-        rating: z.number().min(1).max(5),
-        comment: z.string().optional().nullable(),
-      });
+      const { slug } = req.params;
       
-      const validData = reviewSchema.parse(req.body);
+      // Let the /laundromats/nearby route registered below handle its own path
+      if (slug === 'nearby') {
+        return next();
+      }
       
       const query = `
-        INSERT INTO reviews (
-          laundry_id, 
-          user_id, 
-          rating, 
-          comment, 
-          created_at
-        )
-        VALUES ($1, $2, $3, $4, NOW())
-        RETURNING *
+        SELECT * FROM laundromats
+        WHERE slug = $1
+        LIMIT 1
       `;
       
-      const values = [
-        validData.laundryId,
-        validData.userId,
-        validData.rating,
-        validData.comment || null,
-      ];
-      
-      const result = await pool.query(query, values);
-      
-      // Also update the average rating for the laundromat
-      const updateRatingQuery = `
-        UPDATE laundromats
-        SET 
-          rating = (
-            SELECT AVG(rating)::text
-            FROM reviews
-            WHERE laundry_id = $1
-          ),
-          review_count = (
-            SELECT COUNT(*)
-            FROM reviews
-            WHERE laundry_id = $1
-          )
-        WHERE id = $1
-      `;
+      const result = await pool.query(query, [slug]);
       
-      await pool.query(updateRatingQuery, [validData.laundryId]);
+      if (result.rows.length === 0) {
+        // The listing may have been renamed, or merged into another one
+        const currentSlug = await findCurrentSlug('laundromat', slug);
+        if (currentSlug) {
+          return res.redirect(301, `${apiRouter}/laundromats/${encodeURIComponent(currentSlug)}`);
+        }
+        return res.status(404).json({ message: 'Laundromat not found' });
+      }
       
-      res.status(201).json(result.rows[0]);
+      res.json(result.rows[0]);
     } catch (error) {
-      console.error('Error creating review:', error);
-      res.status(500).json({ message: 'Error creating review' });
+      console.error('Error fetching laundromat:', error);
+      res.status(500).json({ message: 'Error fetching laundromat' });
     }
   });
 
@@ -381,211 +463,166 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get featured laundromats
-  app.get(`${apiRouter}/featured-laundromats`, async (_req: Request, res: Response) => {
+  // Get featured laundromats: paid featured placements, topped up with top-rated listings
+  app.get(`${apiRouter}/featured-laundromats`, async (req: Request, res: Response) => {
+    let scope: PlacementScope;
     try {
-      const query = `
-        SELECT *
-        FROM laundromats
-        WHERE rating IS NOT NULL AND rating::float >= 4.5
-        ORDER BY rating::float DESC
-        LIMIT 10
-      `;
+      scope = parsePlacementScope(req.query);
+    } catch (error: any) {
+      return res.status(400).json({ message: error.message });
+    }
+
+    try {
+      const featured = await getPlacements('featured', { scope, limit: FEATURED_LIMIT });
+      
+      if (featured.length < FEATURED_LIMIT) {
+        featured.push(...await getTopRatedFill('featured', {
+          scope,
+          limit: FEATURED_LIMIT - featured.length,
+          excludeIds: featured.map(laundry => laundry.id)
+        }));
+      }
       
-      const result = await pool.query(query);
-      console.log(`Featured laundromats found: ${result.rows.length}`);
-      res.json(result.rows);
+      res.json(featured);
     } catch (error) {
       console.error('Error fetching featured laundromats:', error);
       res.status(500).json({ message: 'Error fetching featured laundromats' });
     }
   });
 
+  // Get premium laundromats for a city or state (or nationally), rotated among paying listings
+  app.get(`${apiRouter}/premium-laundromats`, async (req: Request, res: Response) => {
+    let scope: PlacementScope;
+    let limit: number;
+    try {
+      scope = parsePlacementScope(req.query);
+      ({ limit } = parsePageQuery(req.query, { defaultLimit: 4, maxLimit: 12 }));
+    } catch (error: any) {
+      return res.status(400).json({ message: error.message });
+    }
+
+    try {
+      res.json(await getPlacements('premium', { scope, limit }));
+    } catch (error) {
+      console.error('Error fetching premium laundromats:', error);
+      res.status(500).json({ message: 'Error fetching premium laundromats' });
+    }
+  });
+
   // Search laundromats (general search, by coordinates, or by ZIP)
   app.get(`${apiRouter}/laundromats`, async (req: Request, res: Response) => {
     try {
-      const { q = "", radius = 5, lat, lng } = req.query;
+      const { q = "", lat, lng } = req.query;
       const searchQuery = q.toString();
-      const searchRadius = parseInt(radius.toString()) || 5;
+      const searchRadius = parseRadiusQuery(req.query.radius, 5);
+      if (searchRadius === null) {
+        return res.status(400).json({ message: 'radius must be a positive number of miles' });
+      }
+      
+      // Optional "open now" / "open at" filter, search filters and the page to return
+      let openAt: Date | null;
+      let filters: LaundromatFilters;
+      let page: PageRequest;
+      try {
+        openAt = parseOpenAtQuery(req.query);
+        filters = parseFilterQuery(req.query);
+        page = parsePageQuery(req.query);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+      
+      // Opening hours can't be evaluated in SQL, so they're applied before paging
+      const openFilter = openAt ? (rows: any[]) => filterOpenAt(rows, openAt) : undefined;
+      
+      const radiusFetcher = (center: GeoPoint): PageFetcher<any> => async (limit, offset) => ({
+        items: await findLaundromatsWithinRadius(center, { radiusMiles: searchRadius, limit, offset, filters }),
+        total: await countLaundromatsWithinRadius(center, { radiusMiles: searchRadius, filters })
+      });
+      
+      // Facet counts are opt-in (`?facets=true`) and don't take opening hours into account
+      const withFacets = async (result: FacetedPage<any>, getFacets: () => Promise<FacetCounts>) => {
+        if (req.query.facets === 'true') {
+          result.facets = await getFacets();
+        }
+        return result;
+      };
       
       console.log(`Search query: "${searchQuery}", radius: ${searchRadius} miles, looks like ZIP? ${/^\d{5}$/.test(searchQuery)}`);
       
       // Check if we have lat/lng coordinates for a location-based search
       if (lat && lng) {
-        const latitude = parseFloat(lat.toString());
-        const longitude = parseFloat(lng.toString());
+        const center = { lat: parseFloat(lat.toString()), lng: parseFloat(lng.toString()) };
+        if (!isValidPoint(center)) {
+          return res.status(400).json({ message: 'lat and lng must be valid coordinates' });
+        }
+        const { lat: latitude, lng: longitude } = center;
         
         console.log(`Location-based search at coordinates: ${latitude}, ${longitude} within ${searchRadius} miles`);
         
         // Find laundromats near the given coordinates based on distance
         // This query will work for ANY location in the United States
-        const locationQuery = `
-          SELECT *, 
-            (3959 * acos(cos(radians($1)) * cos(radians(NULLIF(latitude,'')::float)) * 
-             cos(radians(NULLIF(longitude,'')::float) - radians($2)) + 
-             sin(radians($1)) * sin(radians(NULLIF(latitude,'')::float)))) AS distance
-          FROM laundromats
-          WHERE 
-            latitude != '' AND 
-            longitude != '' AND
-            latitude IS NOT NULL AND
-            longitude IS NOT NULL AND
-            (3959 * acos(cos(radians($1)) * cos(radians(NULLIF(latitude,'')::float)) * 
-             cos(radians(NULLIF(longitude,'')::float) - radians($2)) + 
-             sin(radians($1)) * sin(radians(NULLIF(latitude,'')::float)))) <= $3
-          ORDER BY 
-            distance ASC,
-            CASE WHEN rating IS NULL THEN 0 ELSE rating::float END DESC
-          LIMIT 50
-        `;
-        
-        const result = await pool.query(locationQuery, [
-          latitude, longitude, searchRadius
-        ]);
+        const result = await fetchPage(page, radiusFetcher(center), openFilter);
         
-        console.log(`Found ${result.rows.length} laundromats within ${searchRadius} miles of coordinates (${latitude}, ${longitude})`);
-        return res.json(result.rows);
+        console.log(`Found ${result.total} laundromats within ${searchRadius} miles of coordinates (${latitude}, ${longitude})`);
+        return res.json(await withFacets(result, () => getFacetsWithinRadius(center, { radiusMiles: searchRadius, filters })));
       }
       
-      // Check if it's a ZIP code search (exactly 5 digits)
-      if (/^\d{5}$/.test(searchQuery)) {
-        console.log(`ZIP code search for: ${searchQuery}`);
+      // ZIP code ("90210") or city/state ("Austin, TX") search - geocoded locally
+      const location = await parseLocationQuery(searchQuery);
+      
+      if (location) {
+        const label = location.type === 'zip' ? `ZIP ${location.zip}` : `${location.city}, ${location.state}`;
+        console.log(`Location search for: ${label}`);
+        
+        const point = await geocoder.geocode(location);
         
-        try {
-          // Use Google Geocoding API to get the coordinates for the ZIP code
-          const geocodingUrl = `https://maps.googleapis.com/maps/api/geocode/json?address=${searchQuery}&key=${process.env.GOOGLE_MAPS_API_KEY}`;
-          const geocodingResponse = await axios.get(geocodingUrl);
+        if (point) {
+          const center = { lat: point.lat, lng: point.lng };
+          const result = await fetchPage(page, radiusFetcher(center), openFilter);
           
-          if (geocodingResponse.data.status === 'OK' && geocodingResponse.data.results.length > 0) {
-            const location = geocodingResponse.data.results[0].geometry.location;
-            const zipLatitude = location.lat;
-            const zipLongitude = location.lng;
-            
-            console.log(`Geocoded ZIP ${searchQuery} to coordinates: (${zipLatitude}, ${zipLongitude})`);
-            
-            // Use distance calculation to find laundromats within radius
-            const nearbyQuery = `
-              SELECT *, 
-                (3959 * acos(cos(radians($1)) * cos(radians(NULLIF(latitude,'')::float)) * 
-                 cos(radians(NULLIF(longitude,'')::float) - radians($2)) + 
-                 sin(radians($1)) * sin(radians(NULLIF(latitude,'')::float)))) AS distance
-              FROM laundromats
-              WHERE 
-                latitude != '' AND 
-                longitude != '' AND
-                latitude IS NOT NULL AND
-                longitude IS NOT NULL AND
-                (3959 * acos(cos(radians($1)) * cos(radians(NULLIF(latitude,'')::float)) * 
-                 cos(radians(NULLIF(longitude,'')::float) - radians($2)) + 
-                 sin(radians($1)) * sin(radians(NULLIF(latitude,'')::float)))) <= $3
-              ORDER BY 
-                distance ASC,
-                CASE WHEN rating IS NULL THEN 0 ELSE rating::float END DESC
-              LIMIT 50
-            `;
-            
-            const result = await pool.query(nearbyQuery, [
-              zipLatitude,
-              zipLongitude,
-              searchRadius
-            ]);
-            
-            console.log(`ZIP code search found ${result.rows.length} laundromats within ${searchRadius} miles of ZIP ${searchQuery}`);
-            return res.json(result.rows);
-          } else {
-            console.error(`Google Geocoding API error for ZIP ${searchQuery}:`, geocodingResponse.data.status);
-            
-            // Fallback: direct ZIP match in our database
-            const directZipQuery = `
-              SELECT * 
-              FROM laundromats 
-              WHERE zip = $1
-              ORDER BY 
-                CASE WHEN rating IS NULL THEN 0 ELSE rating::float END DESC
-              LIMIT 50
-            `;
-            
-            const zipResult = await pool.query(directZipQuery, [searchQuery]);
-            
-            if (zipResult.rows.length > 0) {
-              console.log(`Fallback: Direct ZIP search found ${zipResult.rows.length} laundromats for ZIP ${searchQuery}`);
-              return res.json(zipResult.rows);
-            } else {
-              // No results
-              console.log(`No laundromats found for ZIP ${searchQuery}`);
-              return res.json([]);
-            }
+          console.log(`Location search found ${result.total} laundromats within ${searchRadius} miles of ${label}`);
+          
+          // City searches with nothing nearby fall through to the general search
+          if (result.total > 0 || location.type === 'zip') {
+            return res.json(await withFacets(result, () => getFacetsWithinRadius(center, { radiusMiles: searchRadius, filters })));
           }
-        } catch (error) {
-          console.error('Error during ZIP code geocoding:', error);
+        } else if (location.type === 'zip') {
+          console.log(`Could not geocode ZIP ${location.zip}, falling back to direct ZIP match`);
           
-          // Fallback to direct ZIP search
-          try {
+          const result = await fetchPage(page, async (limit, offset) => {
+            const params: any[] = [location.zip];
             const directZipQuery = `
-              SELECT * 
+              SELECT *, COUNT(*) OVER () AS total_count
               FROM laundromats 
               WHERE zip = $1
+                ${filterClause(filters, params)}
               ORDER BY 
-                CASE WHEN rating IS NULL THEN 0 ELSE rating::float END DESC
-              LIMIT 50
+                CASE WHEN rating IS NULL THEN 0 ELSE rating::float END DESC,
+                id ASC
+              LIMIT ${limit}
+              OFFSET ${offset}
             `;
             
-            const zipResult = await pool.query(directZipQuery, [searchQuery]);
-            
-            if (zipResult.rows.length > 0) {
-              console.log(`Fallback: Direct ZIP search found ${zipResult.rows.length} laundromats for ZIP ${searchQuery}`);
-              return res.json(zipResult.rows);
-            } else {
-              // Return empty array if no laundromats found
-              return res.json([]);
-            }
-          } catch (dbError) {
-            console.error('Error during fallback ZIP search:', dbError);
-            return res.json([]);
-          }
+            const zipResult = await pool.query(directZipQuery, params);
+            return withWindowTotal(zipResult.rows);
+          }, openFilter);
+          
+          console.log(`Direct ZIP search found ${result.total} laundromats for ZIP ${location.zip}`);
+          return res.json(await withFacets(result, () => getLaundromatFacets(['zip = $1'], [location.zip], filters)));
         }
       }
       
-      // General search by name, city, state, etc.
+      // General search by name, address, city, services, etc. - ranked full-text search
       console.log("General search");
       
-      let mainQuery = '';
-      let queryParams: any[] = [];
-      
-      if (searchQuery.trim() !== '') {
-        // Search by name, city, or state
-        mainQuery = `
-          SELECT *
-          FROM laundromats
-          WHERE 
-            LOWER(name) LIKE LOWER($1) OR
-            LOWER(city) LIKE LOWER($1) OR
-            LOWER(state) LIKE LOWER($1) OR
-            zip LIKE $1
-          ORDER BY 
-            CASE WHEN rating IS NULL THEN 0 ELSE rating::float END DESC
-          LIMIT 20
-        `;
-        queryParams = [`%${searchQuery}%`];
-      } else {
-        // No search term - just return top-rated laundromats
-        mainQuery = `
-          SELECT *
-          FROM laundromats
-          ORDER BY 
-            CASE WHEN rating IS NULL THEN 0 ELSE rating::float END DESC
-          LIMIT 20
-        `;
-      }
-      
-      const countQuery = `SELECT COUNT(*) as total FROM laundromats`;
-      const countResult = await pool.query(countQuery);
-      console.log(`General search found ${countResult.rows[0].total} laundromats`);
-      
-      const result = await pool.query(mainQuery, queryParams);
-      console.log(`Found laundromats: ${result.rows.length}`);
+      const result = await fetchPage(
+        page,
+        (limit, offset) => storage.searchLaundromatsPage(searchQuery, { ...filters, limit, offset }),
+        openFilter
+      );
+      console.log(`Found laundromats: ${result.total}`);
       
-      res.json(result.rows);
+      res.json(await withFacets(result, () => getTextSearchFacets(searchQuery, { filters })));
     } catch (error) {
       console.error('Error searching laundromats:', error);
       res.status(500).json({ message: 'Error searching laundromats' });
@@ -596,7 +633,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get(`${apiRouter}/laundromats/nearby`, async (req: Request, res: Response) => {
     try {
       // Handle both cases: lat/lng for location or a specific laundromat ID
-      const { laundromat: laundromatId, lat, lng, radius = 25 } = req.query;
+      const { laundromat: laundromatId, lat, lng } = req.query;
+      const searchRadius = parseRadiusQuery(req.query.radius, 25);
+      if (searchRadius === null) {
+        return res.status(400).json({ message: 'radius must be a positive number of miles' });
+      }
+      
+      // Optional "open now" / "open at" filter, and the page to return
+      let openAt: Date | null;
+      let page: PageRequest;
+      try {
+        openAt = parseOpenAtQuery(req.query);
+        page = parsePageQuery(req.query, { defaultLimit: laundromatId ? 4 : 50 });
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+      
+      const openFilter = openAt ? (rows: any[]) => filterOpenAt(rows, openAt) : undefined;
       
       // For debugging with location privacy preserved
       console.log(`Fetching laundromats with params:`, req.url.split('?')[1] || 'no params');
@@ -618,258 +671,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         const mainLaundromat = laundromatResult.rows[0];
         
+        // Find nearby laundromats with distance calculation
+        const center = {
+          lat: parseFloat(mainLaundromat.latitude),
+          lng: parseFloat(mainLaundromat.longitude)
+        };
+        
         // Ensure we have valid coordinates
-        if (!mainLaundromat.latitude || !mainLaundromat.longitude) {
+        if (!isValidPoint(center)) {
           return res.status(400).json({ message: 'Laundromat location data not available' });
         }
         
-        // Find nearby laundromats with distance calculation
-        const nearbyQuery = `
-          SELECT *,
-            (3959 * acos(
-              cos(radians($1)) * 
-              cos(radians(NULLIF(latitude,'')::float)) * 
-              cos(radians(NULLIF(longitude,'')::float) - radians($2)) + 
-              sin(radians($1)) * 
-              sin(radians(NULLIF(latitude,'')::float))
-            )) AS distance
-          FROM laundromats
-          WHERE 
-            id != $3 AND
-            latitude != '' AND 
-            longitude != '' AND
-            latitude IS NOT NULL AND
-            longitude IS NOT NULL
-          HAVING 
-            (3959 * acos(
-              cos(radians($1)) * 
-              cos(radians(NULLIF(latitude,'')::float)) * 
-              cos(radians(NULLIF(longitude,'')::float) - radians($2)) + 
-              sin(radians($1)) * 
-              sin(radians(NULLIF(latitude,'')::float))
-            )) <= $4
-          ORDER BY 
-            distance ASC,
-            CASE WHEN rating IS NULL THEN 0 ELSE rating::float END DESC
-          LIMIT 4
-        `;
-        
-        const nearbyResult = await pool.query(
-          nearbyQuery, 
-          [
-            parseFloat(mainLaundromat.latitude), 
-            parseFloat(mainLaundromat.longitude), 
-            id, 
-            parseFloat(radius.toString())
-          ]
-        );
+        const result = await fetchPage(page, async (limit, offset) => ({
+          items: await findLaundromatsWithinRadius(center, { radiusMiles: searchRadius, limit, offset, excludeId: id }),
+          total: await countLaundromatsWithinRadius(center, { radiusMiles: searchRadius, excludeId: id })
+        }), openFilter);
         
-        return res.json(nearbyResult.rows);
+        return res.json(result);
       }
       
       // CASE 2: By location coordinates (from GPS or map click)
       // If no coordinates provided, return highest-rated laundromats as fallback
       if (!lat || !lng) {
         console.log('No location coordinates provided, returning top-rated laundromats');
-        const generalQuery = `
-          SELECT * 
-          FROM laundromats
-          WHERE 
-            latitude != '' AND 
-            longitude != '' AND
-            latitude IS NOT NULL AND
-            longitude IS NOT NULL AND
-            rating IS NOT NULL
-          ORDER BY 
-            CASE WHEN rating IS NULL THEN 0 ELSE rating::float END DESC
-          LIMIT 20
-        `;
         
-        const generalResult = await pool.query(generalQuery);
-        console.log(`Returning ${generalResult.rows.length} top-rated laundromats as fallback`);
-        return res.json(generalResult.rows);
+        const result = await fetchPage(page, async (limit, offset) => {
+          const generalQuery = `
+            SELECT *, COUNT(*) OVER () AS total_count
+            FROM laundromats
+            WHERE 
+              latitude != '' AND 
+              longitude != '' AND
+              latitude IS NOT NULL AND
+              longitude IS NOT NULL AND
+              rating IS NOT NULL
+            ORDER BY 
+              CASE WHEN rating IS NULL THEN 0 ELSE rating::float END DESC,
+              id ASC
+            LIMIT ${limit}
+            OFFSET ${offset}
+          `;
+          
+          const generalResult = await pool.query(generalQuery);
+          return withWindowTotal(generalResult.rows);
+        }, openFilter);
+        
+        console.log(`Returning ${result.items.length} top-rated laundromats as fallback`);
+        return res.json(result);
       }
       
       // We have valid coordinates, use them for the search
       const latitude = parseFloat(lat.toString());
       const longitude = parseFloat(lng.toString());
-      const searchRadius = parseFloat(radius.toString()) || 25;
       
-      if (isNaN(latitude) || isNaN(longitude) || isNaN(searchRadius)) {
-        return res.status(400).json({ message: 'Invalid coordinates or radius' });
+      if (!isValidPoint({ lat: latitude, lng: longitude })) {
+        return res.status(400).json({ message: 'Invalid coordinates' });
       }
       
       console.log(`Finding laundromats within ${searchRadius} miles of coordinates (${latitude}, ${longitude})`);
       
-      // For Denver-specific coordinates, modify the search to find Denver area laundromats first
-      let areaFilter = '';
-      
-      // Universal approach for finding laundromats near ANY location in the US
-      console.log(`Finding laundromats near coordinates: ${latitude}, ${longitude}`);
-      
-      // Pure geographic approach - works for ANY location without hardcoding regions
-      // We use the Haversine formula to find laundromats within the search radius
-      // and order them by proximity to the user's location
-      
       console.log(`Search approach: Universal location search with ${searchRadius} mile radius`);
       
       // First, try to find the closest laundromats by pure distance
       // This is a universal solution that works for any coordinates in the US
-      const proximityQuery = `
-        SELECT *, 
-          (3959 * acos(
-            cos(radians($1)) * 
-            cos(radians(NULLIF(latitude,'')::float)) * 
-            cos(radians(NULLIF(longitude,'')::float) - radians($2)) + 
-            sin(radians($1)) * 
-            sin(radians(NULLIF(latitude,'')::float))
-          )) AS distance
-        FROM laundromats
-        WHERE 
-          latitude != '' AND 
-          longitude != '' AND
-          latitude IS NOT NULL AND
-          longitude IS NOT NULL
-        HAVING 
-          (3959 * acos(
-            cos(radians($1)) * 
-            cos(radians(NULLIF(latitude,'')::float)) * 
-            cos(radians(NULLIF(longitude,'')::float) - radians($2)) + 
-            sin(radians($1)) * 
-            sin(radians(NULLIF(latitude,'')::float))
-          )) <= $3
-        ORDER BY 
-          distance ASC,
-          CASE WHEN rating IS NULL THEN 0 ELSE rating::float END DESC
-        LIMIT 50
-      `;
-      
-      const proximityResult = await pool.query(proximityQuery, [latitude, longitude, searchRadius]);
-      
-      if (proximityResult.rows.length > 0) {
-        console.log(`Found ${proximityResult.rows.length} laundromats within ${searchRadius} miles using pure proximity`);
-        return res.json(proximityResult.rows);
+      const center = { lat: latitude, lng: longitude };
+      const proximityResult = await fetchPage(page, async (limit, offset) => ({
+        items: await findLaundromatsWithinRadius(center, { radiusMiles: searchRadius, limit, offset }),
+        total: await countLaundromatsWithinRadius(center, { radiusMiles: searchRadius })
+      }), openFilter);
+      
+      if (proximityResult.total > 0) {
+        console.log(`Found ${proximityResult.total} laundromats within ${searchRadius} miles using pure proximity`);
+        return res.json(proximityResult);
       }
       
-      console.log("No results found with pure proximity search, trying wider radius");
+      console.log("No results found with pure proximity search, returning nearest laundromats instead");
       
-      // If no results found in the specified radius, try a wider search
+      // If no results found in the specified radius, return the nearest ones
       // This is a fallback approach for rural or less populated areas
-      const widerRadiusQuery = `
-        SELECT *, 
-          (3959 * acos(
-            cos(radians($1)) * 
-            cos(radians(NULLIF(latitude,'')::float)) * 
-            cos(radians(NULLIF(longitude,'')::float) - radians($2)) + 
-            sin(radians($1)) * 
-            sin(radians(NULLIF(latitude,'')::float))
-          )) AS distance
-        FROM laundromats
-        WHERE 
-          latitude != '' AND 
-          longitude != '' AND
-          latitude IS NOT NULL AND
-          longitude IS NOT NULL
-        ORDER BY 
-          (3959 * acos(
-            cos(radians($1)) * 
-            cos(radians(NULLIF(latitude,'')::float)) * 
-            cos(radians(NULLIF(longitude,'')::float) - radians($2)) + 
-            sin(radians($1)) * 
-            sin(radians(NULLIF(latitude,'')::float))
-          )) ASC,
-          CASE WHEN rating IS NULL THEN 0 ELSE rating::float END DESC
-        LIMIT 20
-      `;
-      
-      const widerResult = await pool.query(widerRadiusQuery, [latitude, longitude]);
-      
-      if (widerResult.rows.length > 0) {
-        console.log(`Found ${widerResult.rows.length} laundromats using wider proximity search`);
-        return res.json(widerResult.rows);
-      }
-      
-      // If we get here, we'll use the default search approach below
+      const nearestRows = await findNearestLaundromats(center, { limit: 20 });
+      const nearestResult = paginate(openFilter ? openFilter(nearestRows) : nearestRows, page);
       
-      // Default ordering - purely by distance and rating
-      const defaultOrdering = `
-        ORDER BY 
-          distance ASC,
-          CASE WHEN rating IS NULL THEN 0 ELSE rating::float END DESC
-      `;
-      
-      const query = `
-        SELECT *, 
-          (3959 * acos(
-            cos(radians($1)) * 
-            cos(radians(NULLIF(latitude,'')::float)) * 
-            cos(radians(NULLIF(longitude,'')::float) - radians($2)) + 
-            sin(radians($1)) * 
-            sin(radians(NULLIF(latitude,'')::float))
-          )) AS distance
-        FROM laundromats
-        WHERE 
-          latitude != '' AND 
-          longitude != '' AND
-          latitude IS NOT NULL AND
-          longitude IS NOT NULL
-        HAVING 
-          (3959 * acos(
-            cos(radians($1)) * 
-            cos(radians(NULLIF(latitude,'')::float)) * 
-            cos(radians(NULLIF(longitude,'')::float) - radians($2)) + 
-            sin(radians($1)) * 
-            sin(radians(NULLIF(latitude,'')::float))
-          )) <= $3
-        ${defaultOrdering}
-        LIMIT 50
-      `;
-      
-      // Execute the query with proper parameters
-      const result = await pool.query(query, [
-        latitude,
-        longitude,
-        searchRadius
-      ]);
-      
-      const count = result.rows.length;
-      console.log(`Found ${count} laundromats within ${searchRadius} miles of coordinates`);
-      
-      // If no results in the specified radius, try a wider search
-      if (count === 0) {
-        const fallbackQuery = `
-          SELECT *, 
-            (3959 * acos(
-              cos(radians($1)) * 
-              cos(radians(NULLIF(latitude,'')::float)) * 
-              cos(radians(NULLIF(longitude,'')::float) - radians($2)) + 
-              sin(radians($1)) * 
-              sin(radians(NULLIF(latitude,'')::float))
-            )) AS distance
-          FROM laundromats
-          WHERE 
-            latitude != '' AND 
-            longitude != '' AND
-            latitude IS NOT NULL AND
-            longitude IS NOT NULL
-          ORDER BY 
-            (3959 * acos(
-              cos(radians($1)) * 
-              cos(radians(NULLIF(latitude,'')::float)) * 
-              cos(radians(NULLIF(longitude,'')::float) - radians($2)) + 
-              sin(radians($1)) * 
-              sin(radians(NULLIF(latitude,'')::float))
-            )) ASC,
-            CASE WHEN rating IS NULL THEN 0 ELSE rating::float END DESC
-          LIMIT 20
-        `;
-        
-        const fallbackResult = await pool.query(fallbackQuery, [latitude, longitude]);
-        console.log(`No results within radius, returning ${fallbackResult.rows.length} nearest laundromats instead`);
-        return res.json(fallbackResult.rows);
-      }
-      
-      res.json(result.rows);
+      console.log(`Found ${nearestResult.total} laundromats using wider proximity search`);
+      res.json(nearestResult);
     } catch (error) {
       console.error('Error fetching nearby laundromats:', error);
       res.status(500).json({ message: 'Error fetching nearby laundromats' });
@@ -1006,6 +890,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       if (result.rows.length === 0) {
+        const currentSlug = await findCurrentSlug('tip', slug);
+        if (currentSlug) {
+          return res.redirect(301, `${apiRouter}/laundry-tips/${encodeURIComponent(currentSlug)}`);
+        }
         return res.status(404).json({ message: 'Laundry tip not found' });
       }
       
@@ -1018,105 +906,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Stripe webhook handler for payment events
   app.post(`${apiRouter}/stripe-webhook`, async (req: Request, res: Response) => {
+    const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!webhookSecret) {
+      console.error('Stripe webhook received but STRIPE_WEBHOOK_SECRET is not set');
+      return res.status(500).json({ error: 'Stripe webhook secret is not configured' });
+    }
+    
+    const signature = req.headers['stripe-signature'];
+    if (!signature || !req.rawBody) {
+      return res.status(400).json({ error: 'Missing Stripe signature' });
+    }
+    
+    let event;
     try {
-      // Validate Stripe webhook signature
-      if (!process.env.STRIPE_SECRET_KEY) {
-        return res.status(500).json({ error: 'Missing Stripe Secret Key' });
-      }
-      
-      const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
-        apiVersion: '2023-10-16'
-      });
-      
-      // Process Stripe event
-      // For now, just acknowledge the event
-      res.json({ received: true });
+      event = constructWebhookEvent(req.rawBody, signature.toString(), webhookSecret);
+    } catch (error: any) {
+      console.error('Invalid Stripe webhook signature:', error.message);
+      return res.status(400).json({ error: 'Invalid signature' });
+    }
+    
+    try {
+      const result = await processStripeEvent(event);
+      console.log(`Stripe webhook ${event.type} (${event.id}): ${result.processed ? 'processed' : 'skipped'}`);
+      res.json({ received: true, processed: result.processed });
     } catch (error) {
+      // A 5xx makes Stripe retry the event later
       console.error('Error handling Stripe webhook:', error);
       res.status(500).json({ error: 'Failed to process webhook' });
     }
   });
 
-  // Admin API for viewing business claim notifications
-  app.get(`${apiRouter}/admin/notifications`, async (req: Request, res: Response) => {
+
+  // Admin API for the scheduled jobs and their run history
+  app.get(`${apiRouter}/admin/jobs`, requireRole('admin'), async (_req: Request, res: Response) => {
     try {
-      // Get all notifications of business claims, ordered by most recent first
-      const query = `
-        SELECT 
-          an.id, an.type, an.status, an.user_id, an.laundry_id, an.email, an.phone, 
-          an.data, an.created_at, an.updated_at,
-          l.name as laundry_name, l.address, l.city, l.state, l.zip, l.slug,
-          u.username, u.email as user_email
-        FROM admin_notifications an
-        JOIN laundromats l ON an.laundry_id = l.id
-        JOIN users u ON an.user_id = u.id
-        WHERE an.type = 'business_claim'
-        ORDER BY an.created_at DESC
-      `;
-      
-      const result = await pool.query(query);
-      
-      // Format the result
-      const notifications = result.rows.map(row => ({
-        id: row.id,
-        type: row.type,
-        status: row.status,
-        createdAt: row.created_at,
-        contact: {
-          email: row.email || row.user_email,
-          phone: row.phone
-        },
-        laundromat: {
-          id: row.laundry_id,
-          name: row.laundry_name,
-          address: row.address,
-          city: row.city,
-          state: row.state,
-          zip: row.zip,
-          slug: row.slug
-        },
-        user: {
-          id: row.user_id,
-          username: row.username,
-          email: row.user_email
-        },
-        formData: row.data
-      }));
-      
-      res.json(notifications);
+      res.json(await getJobStatuses());
     } catch (error) {
-      console.error('Error fetching admin notifications:', error);
-      res.status(500).json({ message: 'Error fetching admin notifications' });
+      console.error('Error fetching scheduled jobs:', error);
+      res.status(500).json({ message: 'Error fetching scheduled jobs' });
     }
   });
-  
-  // Update notification status (mark as read/contacted)
-  app.patch(`${apiRouter}/admin/notifications/:id`, async (req: Request, res: Response) => {
+
+  app.get(`${apiRouter}/admin/jobs/runs`, requireRole('admin'), async (req: Request, res: Response) => {
+    let page: PageRequest;
     try {
-      const { id } = req.params;
-      const { status } = req.body;
-      
-      if (!status || !['read', 'contacted', 'unread'].includes(status)) {
-        return res.status(400).json({ message: 'Invalid status. Must be "read", "contacted", or "unread"' });
-      }
-      
-      const query = `
-        UPDATE admin_notifications
-        SET status = $1, updated_at = NOW()
-        WHERE id = $2
-        RETURNING *
-      `;
-      
-      const result = await pool.query(query, [status, id]);
-      
-      if (result.rows.length === 0) {
-        return res.status(404).json({ message: 'Notification not found' });
+      page = parsePageQuery(req.query);
+    } catch (error: any) {
+      return res.status(400).json({ message: error.message });
+    }
+
+    try {
+      const job = req.query.job ? String(req.query.job) : undefined;
+      const { items, total } = await getJobRuns(job, page.limit, page.offset);
+      res.json(toPage(items, total, page));
+    } catch (error) {
+      console.error('Error fetching job runs:', error);
+      res.status(500).json({ message: 'Error fetching job runs' });
+    }
+  });
+
+  // Run a job now, outside its schedule
+  app.post(`${apiRouter}/admin/jobs/:name/run`, requireRole('admin'), async (req: Request, res: Response) => {
+    const { name } = req.params;
+    if (!isRegisteredJob(name)) {
+      return res.status(404).json({ message: 'Job not found' });
+    }
+
+    try {
+      const run = await runJob(name, 'manual');
+      if (!run) {
+        return res.status(409).json({ message: 'Job is already running' });
       }
-      
-      res.json(result.rows[0]);
+      res.json(run);
     } catch (error) {
-      console.error('Error updating notification status:', error);
-      res.status(500).json({ message: 'Error updating notification status' });
+      console.error('Error running job:', error);
+      res.status(500).json({ message: 'Error running job' });
     }
   });
 
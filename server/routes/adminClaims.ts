@@ -0,0 +1,113 @@
+import { Router } from 'express';
+import { and, count, desc, eq, inArray } from 'drizzle-orm';
+import { db } from '../db';
+import { requireRole } from '../auth';
+import { privateUploadPath } from '../uploads';
+import { parsePageQuery, toPage } from '../utils/pagination';
+import { businessClaims, claimDocuments, laundromats, users, type ClaimStatus } from '@shared/schema';
+
+const router = Router();
+
+router.use(requireRole('admin'));
+
+const CLAIM_STATUSES: ClaimStatus[] = ['pending_verification', 'pending_review', 'approved', 'rejected', 'cancelled', 'revoked'];
+
+// Claims awaiting a decision by default, oldest first. ?status= takes a comma-separated list.
+router.get('/', async (req, res) => {
+  let page;
+  let statuses: ClaimStatus[] = ['pending_review'];
+  try {
+    page = parsePageQuery(req.query, { defaultLimit: 20, maxLimit: 50 });
+    if (typeof req.query.status === 'string' && req.query.status) {
+      statuses = req.query.status.split(',') as ClaimStatus[];
+      if (statuses.some(status => !CLAIM_STATUSES.includes(status))) {
+        throw new Error(`status must be one of: ${CLAIM_STATUSES.join(', ')}`);
+      }
+    }
+  } catch (error: any) {
+    return res.status(400).json({ message: error.message });
+  }
+
+  try {
+    const where = inArray(businessClaims.status, statuses);
+    const [rows, [{ total }]] = await Promise.all([
+      db.select({
+        claim: businessClaims,
+        laundromat: {
+          id: laundromats.id,
+          name: laundromats.name,
+          slug: laundromats.slug,
+          address: laundromats.address,
+          city: laundromats.city,
+          state: laundromats.state,
+          phone: laundromats.phone,
+          ownerId: laundromats.ownerId
+        },
+        user: { id: users.id, username: users.username, email: users.email },
+      })
+        .from(businessClaims)
+        .innerJoin(laundromats, eq(laundromats.id, businessClaims.laundryId))
+        .innerJoin(users, eq(users.id, businessClaims.userId))
+        .where(where)
+        .orderBy(statuses.every(status => status === 'pending_review' || status === 'pending_verification')
+          ? businessClaims.createdAt
+          : desc(businessClaims.createdAt))
+        .limit(page.limit)
+        .offset(page.offset),
+      db.select({ total: count() }).from(businessClaims).where(where)
+    ]);
+
+    const documents = rows.length
+      ? await db.select().from(claimDocuments).where(inArray(claimDocuments.claimId, rows.map(row => row.claim.id)))
+      : [];
+
+    const items = rows.map(({ claim, laundromat, user }) => {
+      const { codeHash: _, ...rest } = claim;
+      return {
+        ...rest,
+        laundromat,
+        user,
+        documents: documents
+          .filter(document => document.claimId === claim.id)
+          .map(({ id, originalName, contentType, size, createdAt }) => ({ id, name: originalName, contentType, size, createdAt }))
+      };
+    });
+    res.json(toPage(items, total, page));
+  } catch (error) {
+    console.error('Error fetching business claims:', error);
+    res.status(500).json({ message: 'Error fetching business claims' });
+  }
+});
+
+// Download a document uploaded with a claim
+router.get('/:id/documents/:documentId', async (req, res) => {
+  const id = parseInt(req.params.id);
+  const documentId = parseInt(req.params.documentId);
+  if (isNaN(id) || isNaN(documentId)) {
+    return res.status(400).json({ message: 'Invalid document ID' });
+  }
+
+  try {
+    const [document] = await db.select()
+      .from(claimDocuments)
+      .where(and(eq(claimDocuments.id, documentId), eq(claimDocuments.claimId, id)));
+    const path = document && privateUploadPath(document.filename);
+    if (!document || !path) {
+      return res.status(404).json({ message: 'Document not found' });
+    }
+
+    res.setHeader('Content-Type', document.contentType);
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.attachment(document.originalName || document.filename);
+    res.sendFile(path, error => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ message: 'Document not found' });
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching claim document:', error);
+    res.status(500).json({ message: 'Error fetching claim document' });
+  }
+});
+
+export default router;
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { requireRole } from '../auth';
+import { deleteCsvFile, importCsvFile, listCsvFiles, readDataUpload, uploadCsvFile } from './csvImport';
+import { enrichLaundryFile, getBatchEnrichmentStatus, startBatchEnrichment } from './laundryDataEnrichment';
+import { downloadFile } from './fileDownload';
+
+const router = Router();
+
+router.use(requireRole('admin'));
+
+// Uploaded CSV, JSON and XLSX files, kept in the import directory's csv_uploads folder
+router.get('/uploads', listCsvFiles);
+router.post('/uploads', readDataUpload, uploadCsvFile);
+router.delete('/uploads/:name', deleteCsvFile);
+
+// Queue an import job for an uploaded file
+router.post('/uploads/:name/import', importCsvFile);
+
+// Add SEO content to a CSV file, either while the request waits or as a background job
+router.post('/enrich', enrichLaundryFile);
+router.post('/enrich/batch', startBatchEnrichment);
+router.get('/enrich/batch/:jobId', getBatchEnrichmentStatus);
+
+// Download an enriched export or other file from the import directory
+router.get('/download', downloadFile);
+
+export default router;
@@ -0,0 +1,92 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { requireRole } from '../auth';
+import { dismissCandidate, listDuplicateCandidates, mergeCandidate } from '../duplicates';
+import { parsePageQuery, toPage } from '../utils/pagination';
+import { MERGE_FIELDS, type DuplicateCandidateStatus } from '@shared/duplicates';
+
+const router = Router();
+
+router.use(requireRole('admin'));
+
+const CANDIDATE_STATUSES: DuplicateCandidateStatus[] = ['open', 'dismissed'];
+
+const mergeSchema = z.object({
+  survivorId: z.number().int(),
+  fields: z.array(z.enum(MERGE_FIELDS)).max(MERGE_FIELDS.length).default([]), // Taken from the other listing
+});
+
+function parseId(id: string): number | null {
+  const candidateId = parseInt(id);
+  return isNaN(candidateId) ? null : candidateId;
+}
+
+// Likely duplicate pairs, highest score first. ?status=dismissed shows the dismissed ones.
+router.get('/', async (req, res) => {
+  let page;
+  let status: DuplicateCandidateStatus = 'open';
+  try {
+    page = parsePageQuery(req.query, { defaultLimit: 20, maxLimit: 50 });
+    if (typeof req.query.status === 'string' && req.query.status) {
+      status = req.query.status as DuplicateCandidateStatus;
+      if (!CANDIDATE_STATUSES.includes(status)) {
+        throw new Error(`status must be one of: ${CANDIDATE_STATUSES.join(', ')}`);
+      }
+    }
+  } catch (error: any) {
+    return res.status(400).json({ message: error.message });
+  }
+
+  try {
+    const { items, total } = await listDuplicateCandidates(status, page);
+    res.json(toPage(items, total, page));
+  } catch (error) {
+    console.error('Error fetching duplicate candidates:', error);
+    res.status(500).json({ message: 'Error fetching duplicate candidates' });
+  }
+});
+
+// Keep one listing of the pair, taking `fields` from the other, and delete the other
+router.post('/:id/merge', async (req, res) => {
+  const candidateId = parseId(req.params.id);
+  if (!candidateId) {
+    return res.status(404).json({ message: 'Duplicate candidate not found' });
+  }
+  const parsed = mergeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.errors[0].message });
+  }
+
+  try {
+    const { survivorId, fields } = parsed.data;
+    const result = await mergeCandidate(candidateId, survivorId, Array.from(new Set(fields)), req.user!.id);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    res.json(result.value);
+  } catch (error) {
+    console.error('Error merging duplicate listings:', error);
+    res.status(500).json({ message: 'Error merging duplicate listings' });
+  }
+});
+
+// Not duplicates: later scans leave the pair alone
+router.post('/:id/dismiss', async (req, res) => {
+  const candidateId = parseId(req.params.id);
+  if (!candidateId) {
+    return res.status(404).json({ message: 'Duplicate candidate not found' });
+  }
+
+  try {
+    const result = await dismissCandidate(candidateId, req.user!.id);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    res.json(result.value);
+  } catch (error) {
+    console.error('Error dismissing duplicate candidate:', error);
+    res.status(500).json({ message: 'Error dismissing duplicate candidate' });
+  }
+});
+
+export default router;
@@ -0,0 +1,312 @@
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { requireRole } from '../auth';
+import {
+  cancelImportJob,
+  createImportJob,
+  deleteMappingProfile,
+  getImportJob,
+  getImportJobErrors,
+  getMappingProfile,
+  listImportFiles,
+  listImportJobs,
+  listMappingProfiles,
+  MAX_BATCH_SIZE,
+  pauseImportJob,
+  previewImport,
+  resumeImportJob,
+  saveMappingProfile,
+  type ImportResult
+} from '../import-jobs';
+import { parsePageQuery, toPage } from '../utils/pagination';
+import { DEFAULT_PREVIEW_ROWS, IMPORT_FIELDS, IMPORT_FORMATS, MAX_PREVIEW_ROWS } from '@shared/imports';
+import type { ImportJob, ImportJobStatus } from '@shared/schema';
+
+const router = Router();
+
+router.use(requireRole('admin'));
+
+// Listing field => source column
+const mappingSchema = z.record(z.enum(IMPORT_FIELDS), z.string().trim().min(1).max(200));
+
+const startSchema = z.object({
+  files: z.array(z.string().trim().min(1)).min(1, 'Choose at least one file to import').max(50),
+  dryRun: z.boolean().optional(),
+  batchSize: z.number().int().min(1).max(MAX_BATCH_SIZE).optional(),
+  states: z.array(z.string()).max(60).optional(), // Abbreviations or names
+  mapping: mappingSchema.optional(),
+  profileId: z.number().int().optional(), // A saved mapping, used when `mapping` isn't given
+});
+
+const previewSchema = z.object({
+  file: z.string().trim().min(1, 'Choose a file to preview'),
+  mapping: mappingSchema.optional(),
+  limit: z.number().int().min(1).max(MAX_PREVIEW_ROWS).optional(),
+});
+
+const profileSchema = z.object({
+  name: z.string().trim().min(1, 'Name the profile').max(100),
+  format: z.enum(IMPORT_FORMATS),
+  mapping: mappingSchema,
+});
+
+// How often the progress stream checks the job, and the statuses that end it
+const STREAM_INTERVAL_MS = 1000;
+const FINISHED_STATUSES: ImportJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+function parseId(id: string): number | null {
+  const jobId = parseInt(id);
+  return isNaN(jobId) ? null : jobId;
+}
+
+function sendResult<T>(res: Response, result: ImportResult<T>) {
+  if (!result.ok) {
+    return res.status(result.status).json({ message: result.message });
+  }
+  res.json(result.value);
+}
+
+// CSV, JSON and XLSX files that can be imported
+router.get('/files', async (_req, res) => {
+  try {
+    res.json(await listImportFiles());
+  } catch (error) {
+    console.error('Error listing import files:', error);
+    res.status(500).json({ message: 'Error listing import files' });
+  }
+});
+
+// Detect a file's format and show its first rows normalized through a mapping,
+// the proposed one unless `mapping` is given
+router.post('/preview', async (req, res) => {
+  const parsed = previewSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.errors[0].message });
+  }
+
+  const { file, mapping, limit } = parsed.data;
+  try {
+    const result = await previewImport(file, mapping, limit ?? DEFAULT_PREVIEW_ROWS);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    res.json(result.value);
+  } catch (error) {
+    console.error('Error previewing import:', error);
+    res.status(500).json({ message: 'Error previewing import' });
+  }
+});
+
+// Saved column mappings
+router.get('/profiles', async (_req, res) => {
+  try {
+    res.json(await listMappingProfiles());
+  } catch (error) {
+    console.error('Error fetching mapping profiles:', error);
+    res.status(500).json({ message: 'Error fetching mapping profiles' });
+  }
+});
+
+router.post('/profiles', async (req, res) => {
+  const parsed = profileSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.errors[0].message });
+  }
+
+  try {
+    const result = await saveMappingProfile(parsed.data, req.user!.id);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    res.status(201).json(result.value);
+  } catch (error) {
+    console.error('Error saving mapping profile:', error);
+    res.status(500).json({ message: 'Error saving mapping profile' });
+  }
+});
+
+router.put('/profiles/:id', async (req, res) => {
+  const profileId = parseId(req.params.id);
+  if (!profileId) {
+    return res.status(404).json({ message: 'Mapping profile not found' });
+  }
+  const parsed = profileSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.errors[0].message });
+  }
+
+  try {
+    sendResult(res, await saveMappingProfile(parsed.data, req.user!.id, profileId));
+  } catch (error) {
+    console.error('Error saving mapping profile:', error);
+    res.status(500).json({ message: 'Error saving mapping profile' });
+  }
+});
+
+router.delete('/profiles/:id', async (req, res) => {
+  try {
+    const profileId = parseId(req.params.id);
+    if (!profileId || !await deleteMappingProfile(profileId)) {
+      return res.status(404).json({ message: 'Mapping profile not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting mapping profile:', error);
+    res.status(500).json({ message: 'Error deleting mapping profile' });
+  }
+});
+
+// Import jobs, newest first
+router.get('/', async (req, res) => {
+  let page;
+  try {
+    page = parsePageQuery(req.query, { defaultLimit: 20, maxLimit: 100 });
+  } catch (error: any) {
+    return res.status(400).json({ message: error.message });
+  }
+
+  try {
+    const { items, total } = await listImportJobs(page.limit, page.offset);
+    res.json(toPage(items, total, page));
+  } catch (error) {
+    console.error('Error fetching import jobs:', error);
+    res.status(500).json({ message: 'Error fetching import jobs' });
+  }
+});
+
+// Queue an import of one or more files, optionally as a dry run, limited to some states
+// or with a column mapping
+router.post('/', async (req, res) => {
+  const parsed = startSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.errors[0].message });
+  }
+
+  const { files, profileId, ...options } = parsed.data;
+  try {
+    if (!options.mapping && profileId) {
+      const profile = await getMappingProfile(profileId);
+      if (!profile) {
+        return res.status(404).json({ message: 'Mapping profile not found' });
+      }
+      options.mapping = profile.mapping;
+    }
+
+    const result = await createImportJob(files, options, req.user!.id);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    res.status(201).json(result.value);
+  } catch (error) {
+    console.error('Error starting import:', error);
+    res.status(500).json({ message: 'Error starting import' });
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    const jobId = parseId(req.params.id);
+    const job = jobId && await getImportJob(jobId);
+    if (!job) {
+      return res.status(404).json({ message: 'Import job not found' });
+    }
+    res.json(job);
+  } catch (error) {
+    console.error('Error fetching import job:', error);
+    res.status(500).json({ message: 'Error fetching import job' });
+  }
+});
+
+// Rows the job couldn't import, with the reason and the original row
+router.get('/:id/errors', async (req, res) => {
+  const jobId = parseId(req.params.id);
+  if (!jobId) {
+    return res.status(404).json({ message: 'Import job not found' });
+  }
+  let page;
+  try {
+    page = parsePageQuery(req.query, { defaultLimit: 50, maxLimit: 200 });
+  } catch (error: any) {
+    return res.status(400).json({ message: error.message });
+  }
+
+  try {
+    const { items, total } = await getImportJobErrors(jobId, page.limit, page.offset);
+    res.json(toPage(items, total, page));
+  } catch (error) {
+    console.error('Error fetching import errors:', error);
+    res.status(500).json({ message: 'Error fetching import errors' });
+  }
+});
+
+async function controlJob(req: Request, res: Response, action: string, handler: (jobId: number) => Promise<ImportResult>) {
+  const jobId = parseId(req.params.id);
+  if (!jobId) {
+    return res.status(404).json({ message: 'Import job not found' });
+  }
+  try {
+    sendResult(res, await handler(jobId));
+  } catch (error) {
+    console.error(`Error trying to ${action} import job:`, error);
+    res.status(500).json({ message: `Error trying to ${action} import job` });
+  }
+}
+
+// Stop after the current batch
+router.post('/:id/pause', (req, res) => controlJob(req, res, 'pause', pauseImportJob));
+
+// Carry on a paused or failed job from its checkpoint
+router.post('/:id/resume', (req, res) => controlJob(req, res, 'resume', resumeImportJob));
+
+// Stop for good; listings already imported stay
+router.post('/:id/cancel', (req, res) => controlJob(req, res, 'cancel', cancelImportJob));
+
+// Server-sent events with the job each time its progress or status changes.
+// Ends after the job completes, fails or is cancelled.
+router.get('/:id/stream', async (req, res) => {
+  const jobId = parseId(req.params.id);
+  let job: ImportJob | undefined;
+  try {
+    job = jobId ? await getImportJob(jobId) : undefined;
+  } catch (error) {
+    console.error('Error fetching import job:', error);
+    return res.status(500).json({ message: 'Error fetching import job' });
+  }
+  if (!job) {
+    return res.status(404).json({ message: 'Import job not found' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  let lastUpdate = 0;
+  let timer: NodeJS.Timeout | undefined;
+  const send = (current: ImportJob) => {
+    lastUpdate = current.updatedAt?.getTime() ?? 0;
+    res.write(`event: progress\ndata: ${JSON.stringify(current)}\n\n`);
+    if (FINISHED_STATUSES.includes(current.status as ImportJobStatus)) {
+      clearInterval(timer);
+      res.end();
+    }
+  };
+
+  send(job);
+  if (res.writableEnded) return;
+
+  timer = setInterval(async () => {
+    try {
+      const current = await getImportJob(job!.id);
+      if (current && (current.updatedAt?.getTime() ?? 0) !== lastUpdate) {
+        send(current);
+      }
+    } catch (error) {
+      console.error('Error streaming import progress:', error);
+    }
+  }, STREAM_INTERVAL_MS);
+  req.on('close', () => clearInterval(timer));
+});
+
+export default router;
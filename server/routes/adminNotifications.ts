@@ -0,0 +1,259 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { requireRole } from '../auth';
+import {
+  getNotificationEvents,
+  listNotifications,
+  logNotificationEvent,
+  NOTIFICATION_STATUSES,
+  NOTIFICATION_TYPES,
+  setNotificationStatus,
+  type NotificationFilters
+} from '../admin-notifications';
+import { approveClaim, rejectClaim, revokeOwnership } from '../claims';
+import { parsePageQuery, toPage } from '../utils/pagination';
+import { adminNotifications, users, type AdminNotificationStatus, type AdminNotificationType } from '@shared/schema';
+
+const router = Router();
+
+router.use(requireRole('admin'));
+
+const updateSchema = z.object({
+  status: z.enum(NOTIFICATION_STATUSES as [AdminNotificationStatus, ...AdminNotificationStatus[]]).optional(),
+  assignedTo: z.number().int().positive().nullable().optional(),
+}).refine(body => body.status !== undefined || body.assignedTo !== undefined, {
+  message: 'Nothing to update: send status or assignedTo',
+});
+
+const noteSchema = z.object({
+  note: z.string().trim().min(1, 'Note is required').max(2000),
+});
+
+const reasonSchema = z.object({
+  reason: z.string().trim().min(1, 'Give a reason').max(1000),
+});
+
+function parseList<T extends string>(value: unknown, allowed: T[], name: string): T[] | undefined {
+  if (typeof value !== 'string' || !value) return undefined;
+  const items = value.split(',') as T[];
+  if (items.some(item => !allowed.includes(item))) {
+    throw new Error(`${name} must be one of: ${allowed.join(', ')}`);
+  }
+  return items;
+}
+
+function parseDate(value: unknown, name: string): Date | undefined {
+  if (typeof value !== 'string' || !value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`${name} must be a date such as 2024-05-01`);
+  }
+  return date;
+}
+
+async function getNotification(id: string) {
+  const notificationId = parseInt(id);
+  if (isNaN(notificationId)) return undefined;
+  const [notification] = await db.select().from(adminNotifications).where(eq(adminNotifications.id, notificationId));
+  return notification;
+}
+
+// The inbox, newest first. Filter with ?type= and ?status= (comma-separated lists),
+// ?assignedTo= (an admin's ID, "me" or "none") and ?from= / ?to= creation dates.
+router.get('/', async (req, res) => {
+  let page;
+  let filters: NotificationFilters;
+  try {
+    page = parsePageQuery(req.query, { defaultLimit: 20, maxLimit: 100 });
+    const to = parseDate(req.query.to, 'to');
+    filters = {
+      types: parseList<AdminNotificationType>(req.query.type, NOTIFICATION_TYPES, 'type'),
+      statuses: parseList<AdminNotificationStatus>(req.query.status, NOTIFICATION_STATUSES, 'status'),
+      from: parseDate(req.query.from, 'from'),
+      // A plain date includes the whole of that day
+      to: to && typeof req.query.to === 'string' && !req.query.to.includes('T')
+        ? new Date(to.getTime() + 24 * 60 * 60 * 1000)
+        : to,
+    };
+    const assignedTo = req.query.assignedTo;
+    if (assignedTo === 'me') filters.assignedTo = req.user!.id;
+    else if (assignedTo === 'none') filters.assignedTo = 'none';
+    else if (typeof assignedTo === 'string' && assignedTo) {
+      filters.assignedTo = parseInt(assignedTo);
+      if (isNaN(filters.assignedTo)) throw new Error('assignedTo must be an admin ID, "me" or "none"');
+    }
+  } catch (error: any) {
+    return res.status(400).json({ message: error.message });
+  }
+
+  try {
+    const { items, total } = await listNotifications(filters, page.limit, page.offset);
+    res.json(toPage(items, total, page));
+  } catch (error) {
+    console.error('Error fetching admin notifications:', error);
+    res.status(500).json({ message: 'Error fetching admin notifications' });
+  }
+});
+
+// Admins that notifications can be assigned to
+router.get('/assignees', async (_req, res) => {
+  try {
+    const admins = await db.select({ id: users.id, username: users.username })
+      .from(users)
+      .where(eq(users.role, 'admin'))
+      .orderBy(users.username);
+    res.json(admins);
+  } catch (error) {
+    console.error('Error fetching admins:', error);
+    res.status(500).json({ message: 'Error fetching admins' });
+  }
+});
+
+// The audit trail and notes for one notification
+router.get('/:id/events', async (req, res) => {
+  try {
+    const notification = await getNotification(req.params.id);
+    if (!notification) {
+      return res.status(404).json({ message: 'Notification not found' });
+    }
+    res.json(await getNotificationEvents(notification.id));
+  } catch (error) {
+    console.error('Error fetching notification history:', error);
+    res.status(500).json({ message: 'Error fetching notification history' });
+  }
+});
+
+// Change the status (unread, read, contacted, resolved) or the assigned admin
+router.patch('/:id', async (req, res) => {
+  const parsed = updateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.errors[0].message });
+  }
+
+  try {
+    let notification = await getNotification(req.params.id);
+    if (!notification) {
+      return res.status(404).json({ message: 'Notification not found' });
+    }
+    const { status, assignedTo } = parsed.data;
+
+    if (assignedTo !== undefined && assignedTo !== notification.assignedTo) {
+      if (assignedTo !== null) {
+        const [admin] = await db.select({ role: users.role }).from(users).where(eq(users.id, assignedTo));
+        if (admin?.role !== 'admin') {
+          return res.status(400).json({ message: 'Notifications can only be assigned to admins' });
+        }
+      }
+      [notification] = await db.update(adminNotifications)
+        .set({ assignedTo, updatedAt: new Date() })
+        .where(eq(adminNotifications.id, notification.id))
+        .returning();
+      await logNotificationEvent(notification.id, req.user!.id, 'assigned', { data: { assignedTo } });
+    }
+    if (status) {
+      notification = await setNotificationStatus(notification.id, status, req.user!.id) || notification;
+    }
+
+    res.json(notification);
+  } catch (error) {
+    console.error('Error updating notification:', error);
+    res.status(500).json({ message: 'Error updating notification' });
+  }
+});
+
+// Add an internal note; only admins see these
+router.post('/:id/notes', async (req, res) => {
+  const parsed = noteSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.errors[0].message });
+  }
+
+  try {
+    const notification = await getNotification(req.params.id);
+    if (!notification) {
+      return res.status(404).json({ message: 'Notification not found' });
+    }
+    const event = await logNotificationEvent(notification.id, req.user!.id, 'note', { note: parsed.data.note });
+    res.status(201).json(event);
+  } catch (error) {
+    console.error('Error adding note:', error);
+    res.status(500).json({ message: 'Error adding note' });
+  }
+});
+
+// The business claim behind a notification, for approve and reject
+function claimIdOf(notification: { type: string; data: unknown }): number | null {
+  const claimId = (notification.data as { claimId?: unknown } | null)?.claimId;
+  return notification.type === 'business_claim' && typeof claimId === 'number' ? claimId : null;
+}
+
+// Approve the business claim: the claimant becomes the listing's owner
+router.post('/:id/approve', async (req, res) => {
+  try {
+    const notification = await getNotification(req.params.id);
+    const claimId = notification && claimIdOf(notification);
+    if (!claimId) {
+      return res.status(404).json({ message: 'No business claim to approve' });
+    }
+    const result = await approveClaim(claimId, req.user!.id);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    res.json({ message: 'Claim approved', claimId, status: result.value.claim.status });
+  } catch (error) {
+    console.error('Error approving business claim:', error);
+    res.status(500).json({ message: 'Error approving business claim' });
+  }
+});
+
+// Reject the business claim; the reason is emailed to the claimant
+router.post('/:id/reject', async (req, res) => {
+  const parsed = reasonSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.errors[0].message });
+  }
+
+  try {
+    const notification = await getNotification(req.params.id);
+    const claimId = notification && claimIdOf(notification);
+    if (!claimId) {
+      return res.status(404).json({ message: 'No business claim to reject' });
+    }
+    const result = await rejectClaim(claimId, req.user!.id, parsed.data.reason);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    res.json({ message: 'Claim rejected', claimId, status: result.value.status });
+  } catch (error) {
+    console.error('Error rejecting business claim:', error);
+    res.status(500).json({ message: 'Error rejecting business claim' });
+  }
+});
+
+// Take the notification's listing away from its current owner
+router.post('/:id/revoke', async (req, res) => {
+  const parsed = reasonSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.errors[0].message });
+  }
+
+  try {
+    const notification = await getNotification(req.params.id);
+    if (!notification) {
+      return res.status(404).json({ message: 'Notification not found' });
+    }
+    const result = await revokeOwnership(notification.laundryId, req.user!.id, parsed.data.reason, notification.id);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    await setNotificationStatus(notification.id, 'resolved', req.user!.id);
+    res.json({ message: 'Ownership revoked', laundryId: result.value.id });
+  } catch (error) {
+    console.error('Error revoking ownership:', error);
+    res.status(500).json({ message: 'Error revoking ownership' });
+  }
+});
+
+export default router;
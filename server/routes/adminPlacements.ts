@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { requireRole } from '../auth';
+import {
+  PLACEMENT_TYPES,
+  createPlacementOverride,
+  deletePlacementOverride,
+  getImpressionSummary,
+  getPlacementOverrides
+} from '../premium';
+
+const router = Router();
+
+router.use(requireRole('admin'));
+
+const overrideSchema = z.object({
+  laundryId: z.coerce.number().int().positive('Invalid laundromat ID'),
+  action: z.enum(['pin', 'exclude']),
+  placement: z.enum(PLACEMENT_TYPES as [string, ...string[]]).nullable().optional(),
+  state: z.string().regex(/^[a-z]{2}$/i, 'state must be a 2-letter state code').nullable().optional(),
+  city: z.string().trim().min(1).nullable().optional(),
+  rank: z.coerce.number().int().optional(),
+  startsAt: z.coerce.date().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  note: z.string().max(500).nullable().optional(),
+}).refine(data => !data.city || data.state, {
+  message: 'A city override also needs its state',
+  path: ['city'],
+}).refine(data => !data.endsAt || data.endsAt > (data.startsAt || new Date()), {
+  message: 'endsAt must be after startsAt',
+  path: ['endsAt'],
+});
+
+// Pins and exclusions, newest first
+router.get('/overrides', async (_req, res) => {
+  try {
+    res.json(await getPlacementOverrides());
+  } catch (error) {
+    console.error('Error fetching placement overrides:', error);
+    res.status(500).json({ message: 'Error fetching placement overrides' });
+  }
+});
+
+router.post('/overrides', async (req, res) => {
+  const parsed = overrideSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.errors[0].message });
+  }
+
+  try {
+    const data = parsed.data;
+    if (!(await storage.getLaundromat(data.laundryId))) {
+      return res.status(404).json({ message: 'Laundromat not found' });
+    }
+
+    const override = await createPlacementOverride({
+      ...data,
+      state: data.state ? data.state.toUpperCase() : null,
+      createdBy: req.user!.id
+    });
+    res.status(201).json(override);
+  } catch (error) {
+    console.error('Error creating placement override:', error);
+    res.status(500).json({ message: 'Error creating placement override' });
+  }
+});
+
+router.delete('/overrides/:id', async (req, res) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ message: 'Invalid override ID' });
+  }
+
+  try {
+    const deleted = await deletePlacementOverride(id);
+    if (!deleted) {
+      return res.status(404).json({ message: 'Override not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting placement override:', error);
+    res.status(500).json({ message: 'Error deleting placement override' });
+  }
+});
+
+// How impressions were shared out over the last ?days= days (default 7)
+router.get('/impressions', async (req, res) => {
+  const days = Math.min(Math.max(parseInt(String(req.query.days)) || 7, 1), 90);
+
+  try {
+    res.json(await getImpressionSummary(days));
+  } catch (error) {
+    console.error('Error fetching placement impressions:', error);
+    res.status(500).json({ message: 'Error fetching placement impressions' });
+  }
+});
+
+export default router;
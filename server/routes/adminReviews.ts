@@ -0,0 +1,89 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { requireRole } from '../auth';
+import { MODERATION_DECISIONS } from '../review-moderation';
+import { parsePageQuery, toPage } from '../utils/pagination';
+import { uploadUrl } from '../uploads';
+import type { ReviewStatus } from '@shared/schema';
+
+const router = Router();
+
+router.use(requireRole('admin'));
+
+const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'approved', 'rejected', 'flagged'];
+
+const decisionSchema = z.object({
+  status: z.enum(MODERATION_DECISIONS),
+});
+
+// The moderation queue: held and reported reviews by default, oldest first.
+// ?status= takes a comma-separated list of statuses.
+router.get('/', async (req, res) => {
+  let page;
+  let statuses: ReviewStatus[] = ['pending', 'flagged'];
+  try {
+    page = parsePageQuery(req.query, { defaultLimit: 20, maxLimit: 50 });
+    if (typeof req.query.status === 'string' && req.query.status) {
+      statuses = req.query.status.split(',') as ReviewStatus[];
+      if (statuses.some(status => !REVIEW_STATUSES.includes(status))) {
+        throw new Error(`status must be one of: ${REVIEW_STATUSES.join(', ')}`);
+      }
+    }
+  } catch (error: any) {
+    return res.status(400).json({ message: error.message });
+  }
+
+  try {
+    const { items, total } = await storage.getReviewsByStatus(statuses, page.limit, page.offset);
+    const withContext = await Promise.all(items.map(async review => {
+      const [laundromat, reports, photos] = await Promise.all([
+        storage.getLaundromat(review.laundryId),
+        storage.getReviewReports(review.id),
+        storage.getReviewPhotos([review.id])
+      ]);
+      return {
+        ...review,
+        laundromat: laundromat ? { id: laundromat.id, name: laundromat.name, slug: laundromat.slug } : null,
+        reports,
+        photos: photos.map(photo => ({ id: photo.id, url: uploadUrl(photo.filename) }))
+      };
+    }));
+    res.json(toPage(withContext, total, page));
+  } catch (error) {
+    console.error('Error fetching moderation queue:', error);
+    res.status(500).json({ message: 'Error fetching moderation queue' });
+  }
+});
+
+// Approve or reject a review. Approving clears its report count, so it takes
+// another round of reports to flag it again.
+router.patch('/:id', async (req, res) => {
+  const id = parseInt(req.params.id);
+  const parsed = decisionSchema.safeParse(req.body);
+  if (isNaN(id)) {
+    return res.status(400).json({ message: 'Invalid review ID' });
+  }
+  if (!parsed.success) {
+    return res.status(400).json({ message: `status must be one of: ${MODERATION_DECISIONS.join(', ')}` });
+  }
+
+  try {
+    const { status } = parsed.data;
+    const review = await storage.updateReview(id, {
+      status,
+      moderatedBy: req.user!.id,
+      moderatedAt: new Date(),
+      ...(status === 'approved' ? { reportCount: 0 } : {})
+    });
+    if (!review) {
+      return res.status(404).json({ message: 'Review not found' });
+    }
+    res.json(review);
+  } catch (error) {
+    console.error('Error moderating review:', error);
+    res.status(500).json({ message: 'Error moderating review' });
+  }
+});
+
+export default router;
@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import {
+  registerUser,
+  loginUser,
+  logoutUser,
+  getCurrentUser,
+  demoLogin,
+  requestEmailVerification,
+  verifyEmail,
+  forgotPassword,
+  resetPassword,
+  authenticate
+} from '../auth';
+import { rateLimit } from '../utils/rateLimit';
+
+const router = Router();
+
+// Slow down password guessing and email flooding from a single address
+const loginLimit = rateLimit({ windowMs: 15 * 60 * 1000, max: 20, message: 'Too many login attempts, please try again later' });
+const emailLimit = rateLimit({ windowMs: 60 * 60 * 1000, max: 5, message: 'Too many emails requested, please try again later' });
+const tokenLimit = rateLimit({ windowMs: 15 * 60 * 1000, max: 20 });
+// Guessing one account's password from many addresses is still capped
+const accountLoginLimit = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  key: req => `account:${String(req.body?.username ?? '').trim().toLowerCase()}`,
+  message: 'Too many login attempts, please try again later'
+});
+
+router.post('/register', loginLimit, registerUser);
+router.post('/login', loginLimit, accountLoginLimit, loginUser);
+router.post('/logout', logoutUser);
+router.get('/me', authenticate, getCurrentUser);
+
+router.post('/verify-email/request', authenticate, emailLimit, requestEmailVerification);
+router.post('/verify-email', tokenLimit, verifyEmail);
+router.post('/forgot-password', emailLimit, forgotPassword);
+router.post('/reset-password', tokenLimit, resetPassword);
+
+// Demo accounts have a known password, so they're never available in production
+if (process.env.NODE_ENV !== 'production') {
+  router.post('/demo-login', demoLogin);
+}
+
+export default router;
@@ -1,10 +1,27 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { z } from 'zod';
 import { db } from '../db';
 import { storage } from '../storage';
-import { eq, ilike, or, and } from 'drizzle-orm';
-import { laundromats, users, subscriptions, adminNotifications } from '@shared/schema';
+import { eq, ilike, or, and, desc, inArray } from 'drizzle-orm';
+import { laundromats, users, subscriptions } from '@shared/schema';
 import Stripe from 'stripe';
+import { buildStructuredHours } from '../utils/hours';
+import { normalizeRole, requireRole, setAuthCookie } from '../auth';
+import { rateLimit } from '../utils/rateLimit';
+import { toPublicReviews } from './reviews';
+import { describeUpgrade } from './premiumFeatures';
+import {
+  addClaimDocument,
+  CLAIM_DOCUMENT_TYPES,
+  createClaim,
+  getUserClaims,
+  MAX_CLAIM_DOCUMENT_BYTES,
+  resendClaimCode,
+  verifyClaimCode
+} from '../claims';
+import { getListingAnalytics, getViewSummary, getWeeklyViews } from '../analytics';
+import { formatTrend, trendPercent } from '@shared/analytics';
+import { getMaxFeatureLimit, getUpgradeRequirements, toListingType, type PremiumContent } from '@shared/premium-features';
 
 // Initialize Stripe
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
@@ -46,6 +63,22 @@ const addBusinessSchema = z.object({
   hours: z.string().min(5, 'Please enter business hours'),
 });
 
+const claimIdSchema = z.coerce.number().int().positive();
+
+const verifyClaimSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, 'Enter the 6-digit code'),
+});
+
+// Claims send texts and postcards and take code guesses, so each user gets only a few
+const claimLimitKey = (req: express.Request) => `user:${req.user?.id}`;
+const claimLimit = rateLimit({ windowMs: 60 * 60 * 1000, max: 10, key: claimLimitKey, message: 'Too many claims started, please try again later' });
+const verifyLimit = rateLimit({ windowMs: 15 * 60 * 1000, max: 10, key: claimLimitKey, message: 'Too many codes entered, please try again later' });
+const addBusinessLimit = rateLimit({ windowMs: 60 * 60 * 1000, max: 5, key: claimLimitKey, message: 'Too many businesses added, please try again later' });
+const resendLimit = rateLimit({ windowMs: 60 * 60 * 1000, max: 5, key: claimLimitKey, message: 'Too many codes requested, please try again later' });
+
+// Raw document bodies for claim uploads; anything larger is refused before it's buffered
+const readClaimDocument = express.raw({ type: CLAIM_DOCUMENT_TYPES, limit: MAX_CLAIM_DOCUMENT_BYTES });
+
 const claimBusinessSchema = z.object({
   laundryId: z.string().or(z.number()),
   verificationData: z.object({
@@ -77,6 +110,24 @@ const startSubscriptionSchema = z.object({
   paymentMethodId: z.string().optional(),
 });
 
+// Changes applied to every selected location at once
+const bulkUpdateSchema = z.object({
+  laundryIds: z.array(z.number().int().positive()).min(1, 'Select at least one location').max(200),
+  changes: z.object({
+    hours: z.string().min(5, 'Please enter business hours').optional(),
+    amenities: z.array(z.string().trim().min(1).max(100))
+      .max(getMaxFeatureLimit('amenities'), `No listing can have more than ${getMaxFeatureLimit('amenities')} amenities`)
+      .optional(),
+    promotionalText: z.string().trim().max(500, 'Promotional text must be 500 characters or less').nullable().optional(),
+  }).strict().refine(changes => Object.values(changes).some(value => value !== undefined), {
+    message: 'Nothing to update',
+  }),
+});
+
+const autoRenewSchema = z.object({
+  autoRenew: z.boolean(),
+});
+
 // Routes
 // Search for businesses
 router.get('/search', async (req, res) => {
@@ -104,8 +155,8 @@ router.get('/search', async (req, res) => {
   }
 });
 
-// Add a new business
-router.post('/add', async (req, res) => {
+// Add a new business; signed-in users only, a few an hour
+router.post('/add', requireRole('user'), addBusinessLimit, async (req, res) => {
   try {
     const businessData = addBusinessSchema.parse(req.body);
     
@@ -124,6 +175,7 @@ router.post('/add', async (req, res) => {
       isPremium: false,
       services: [] as string[],
       verified: false,
+      hoursStructured: buildStructuredHours(businessData.hours, businessData.state),
     };
     
     // Insert the new laundromat
@@ -138,133 +190,156 @@ router.post('/add', async (req, res) => {
   }
 });
 
-// Claim a business
-router.post('/claim', async (req, res) => {
+// Start a claim on a business. Ownership is only granted once the claim is verified:
+// by the code sent for phone and mail claims, or by an admin for document claims.
+router.post('/claim', requireRole('user'), claimLimit, async (req, res) => {
   try {
-    const { laundryId, verificationData, profileData, selectedPlan } = claimBusinessSchema.parse(req.body);
-    
-    // In a real implementation, we would verify ownership using the provided method
-    
-    // Check if the user is logged in
-    if (!req.user) {
-      return res.status(401).json({ message: 'You must be logged in to claim a business' });
-    }
-    
-    // Get the user ID
-    const userId = req.user.id;
-    
-    // Prepare update data
-    const updateData: any = { 
-      ownerId: userId,
-      verified: true,
-      verificationDate: new Date(),
-    };
-    
-    // Add profile data if provided
-    if (profileData.name) updateData.name = profileData.name;
-    if (profileData.phone) updateData.phone = profileData.phone;
-    if (profileData.website) updateData.website = profileData.website;
-    if (profileData.description) updateData.description = profileData.description;
-    if (profileData.hours) updateData.hours = profileData.hours;
-    if (profileData.services) updateData.services = profileData.services;
-    if (profileData.amenities) updateData.amenities = profileData.amenities;
-    if (profileData.paymentOptions) updateData.paymentOptions = profileData.paymentOptions;
-    
-    // For premium plan, set subscription status
-    if (selectedPlan === 'premium') {
-      updateData.isPremium = true;
-      updateData.listingType = 'premium';
-      updateData.subscriptionActive = true;
+    const parsed = claimBusinessSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.errors[0].message });
     }
-    
-    // Set machine count if provided (safely)
-    if (profileData.machineCount) {
-      const machineCount = {
-        washers: profileData.machineCount.washers || 0,
-        dryers: profileData.machineCount.dryers || 0
-      };
-      updateData.machineCount = machineCount;
-    }
-    
-    // Update the laundromat with owner ID and profile data
-    const [updatedLaundromat] = await db.update(laundromats)
-      .set(updateData)
-      .where(eq(laundromats.id, +laundryId))
-      .returning();
-      
-    // Get user information for admin notification
-    const [user] = await db.select()
-      .from(users)
-      .where(eq(users.id, userId));
-    
-    // Create admin notification for business claim
-    await db.insert(adminNotifications).values({
-      type: 'business_claim',
-      status: 'unread',
-      userId: userId,
+    const { laundryId, verificationData, profileData, selectedPlan } = parsed.data;
+    const user = await storage.getUser(req.user!.id);
+
+    const result = await createClaim({
       laundryId: +laundryId,
-      email: verificationData.email || user?.email || '',
-      phone: profileData.phone || '',
-      data: {
-        businessName: updatedLaundromat.name,
-        address: updatedLaundromat.address,
-        city: updatedLaundromat.city,
-        state: updatedLaundromat.state,
-        zip: updatedLaundromat.zip,
-        selectedPlan,
-        verificationMethod: verificationData.method,
-        email: verificationData.email,
-        submittedAt: new Date().toISOString()
-      }
+      userId: req.user!.id,
+      method: verificationData.method,
+      contactEmail: verificationData.email || user?.email || '',
+      profileData,
+      selectedPlan,
     });
-    
-    // If premium plan was selected, create a subscription record
-    if (selectedPlan === 'premium') {
-      // Set up 30-day trial subscription
-      const thirtyDaysFromNow = new Date();
-      thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
-      
-      await db.insert(subscriptions)
-        .values({
-          laundryId: +laundryId,
-          userId,
-          tier: 'premium',
-          amount: 1999, // $19.99 in cents
-          billingCycle: 'monthly',
-          startDate: new Date(),
-          endDate: thirtyDaysFromNow,
-          status: 'active',
-          autoRenew: true,
-        });
-      
-      // Update the laundromat with subscription expiry date
-      await db.update(laundromats)
-        .set({ 
-          subscriptionExpiry: thirtyDaysFromNow
-        })
-        .where(eq(laundromats.id, +laundryId));
-        
-      // Return with flag to redirect to payment setup
-      return res.json({ 
-        message: 'Business claimed successfully',
-        premium: true,
-        redirectToPayment: true
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+
+    const claim = result.value;
+    res.status(201).json({
+      message: claim.method === 'phone'
+        ? 'We texted a verification code to the phone number on this listing'
+        : claim.method === 'mail'
+          ? "We're mailing a verification code to this listing's address"
+          : 'Upload your documents to finish your claim',
+      claimId: claim.id,
+      status: claim.status,
+      method: claim.method,
+      codeSentTo: claim.codeSentTo,
+    });
+  } catch (error) {
+    console.error('Claim business error:', error);
+    res.status(500).json({ message: 'Failed to claim business' });
+  }
+});
+
+// Your claims and where each stands
+router.get('/claims', requireRole('user'), async (req, res) => {
+  try {
+    const claims = await getUserClaims(req.user!.id);
+    res.json(claims.map(({ claim, laundromat }) => ({
+      id: claim.id,
+      status: claim.status,
+      method: claim.method,
+      selectedPlan: claim.selectedPlan,
+      codeSentTo: claim.codeSentTo,
+      rejectionReason: claim.rejectionReason,
+      createdAt: claim.createdAt,
+      laundromat
+    })));
+  } catch (error) {
+    console.error('Error fetching claims:', error);
+    res.status(500).json({ message: 'Error fetching claims' });
+  }
+});
+
+// Attach a proof-of-ownership document to a document or utility bill claim. Send
+// the file itself as the body (PDF, JPEG or PNG, up to 5 MB), with its name in ?name=.
+router.post('/claims/:id/documents', requireRole('user'), (req, res, next) => {
+  readClaimDocument(req, res, (error?: any) => {
+    if (error) {
+      return res.status(error.status === 413 ? 413 : 400).json({
+        message: error.status === 413 ? `Documents must be ${MAX_CLAIM_DOCUMENT_BYTES / (1024 * 1024)} MB or smaller` : 'Invalid document upload'
       });
     }
-    
-    // Regular response for basic plan
-    res.json({ 
+    next();
+  });
+}, async (req, res) => {
+  const claimId = claimIdSchema.safeParse(req.params.id);
+  if (!claimId.success) {
+    return res.status(400).json({ message: 'Invalid claim ID' });
+  }
+  const data = Buffer.isBuffer(req.body) ? req.body : null;
+  if (!data) {
+    return res.status(415).json({ message: 'Documents must be PDF, JPEG or PNG files' });
+  }
+
+  try {
+    const name = typeof req.query.name === 'string' ? req.query.name : null;
+    const result = await addClaimDocument(claimId.data, req.user!.id, data, name);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    const { id, originalName, contentType, size } = result.value;
+    res.status(201).json({ id, name: originalName, contentType, size });
+  } catch (error) {
+    console.error('Error uploading claim document:', error);
+    res.status(500).json({ message: 'Error uploading claim document' });
+  }
+});
+
+// Enter the code from the text message or postcard
+router.post('/claims/:id/verify', requireRole('user'), verifyLimit, async (req, res) => {
+  const claimId = claimIdSchema.safeParse(req.params.id);
+  const body = verifyClaimSchema.safeParse(req.body);
+  if (!claimId.success) {
+    return res.status(400).json({ message: 'Invalid claim ID' });
+  }
+  if (!body.success) {
+    return res.status(400).json({ message: body.error.errors[0].message });
+  }
+
+  try {
+    const result = await verifyClaimCode(claimId.data, req.user!.id, body.data.code);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+
+    // Claiming a business makes a regular user an owner; refresh their session to match
+    const { claim, user } = result.value;
+    setAuthCookie(res, user);
+    const premium = claim.selectedPlan === 'premium';
+    res.json({
       message: 'Business claimed successfully',
-      premium: false
+      laundryId: claim.laundryId,
+      premium,
+      redirectToPayment: premium
     });
   } catch (error) {
-    console.error('Claim business error:', error);
-    res.status(400).json({ message: error instanceof Error ? error.message : 'Failed to claim business' });
+    console.error('Error verifying claim:', error);
+    res.status(500).json({ message: 'Error verifying claim' });
+  }
+});
+
+// Send a new code for a phone or mail claim
+router.post('/claims/:id/resend', requireRole('user'), resendLimit, async (req, res) => {
+  const claimId = claimIdSchema.safeParse(req.params.id);
+  if (!claimId.success) {
+    return res.status(400).json({ message: 'Invalid claim ID' });
+  }
+
+  try {
+    const result = await resendClaimCode(claimId.data, req.user!.id);
+    if (!result.ok) {
+      return res.status(result.status).json({ message: result.message });
+    }
+    res.json({ message: 'A new code is on its way', codeSentTo: result.value.codeSentTo });
+  } catch (error) {
+    console.error('Error resending claim code:', error);
+    res.status(500).json({ message: 'Error resending claim code' });
   }
 });
 
 // Create subscription payment intent
-router.post('/start-subscription', async (req, res) => {
+router.post('/start-subscription', requireRole('owner'), async (req, res) => {
   try {
     const { laundryId, paymentMethodId } = startSubscriptionSchema.parse(req.body);
     
@@ -346,6 +421,12 @@ router.post('/start-subscription', async (req, res) => {
       trial_end: Math.floor(trialEndDate.getTime() / 1000), // Convert to unix timestamp
       payment_behavior: 'default_incomplete',
       expand: ['latest_invoice.payment_intent'],
+      // Read back by the webhook handler (server/stripe-webhooks.ts)
+      metadata: {
+        laundryId: laundryId.toString(),
+        userId: userId.toString(),
+        tier: 'premium'
+      },
     });
     
     // Create or update the subscription record
@@ -377,6 +458,7 @@ router.post('/start-subscription', async (req, res) => {
           billingCycle: 'monthly',
           startDate: new Date(),
           endDate: new Date(stripeSubscription.trial_end * 1000),
+          trialEndsAt: trialEndDate,
           status: 'active',
           autoRenew: true,
           stripeCustomerId,
@@ -408,8 +490,8 @@ router.post('/start-subscription', async (req, res) => {
   }
 });
 
-// Get business dashboard data
-router.get('/dashboard', async (req, res) => {
+// Get business dashboard data for one of the owner's locations (?laundryId=, default their first)
+router.get('/dashboard', requireRole('owner'), async (req, res) => {
   try {
     // Check if the user is logged in
     if (!req.user) {
@@ -422,14 +504,19 @@ router.get('/dashboard', async (req, res) => {
     // Get the user's businesses
     const businesses = await db.select()
       .from(laundromats)
-      .where(eq(laundromats.ownerId, userId));
+      .where(eq(laundromats.ownerId, userId))
+      .orderBy(laundromats.id);
     
     if (businesses.length === 0) {
       return res.status(404).json({ message: 'No businesses found' });
     }
     
-    // Get the first business (in a real app, we might handle multiple businesses)
-    const business = businesses[0];
+    const business = req.query.laundryId === undefined
+      ? businesses[0]
+      : businesses.find(b => b.id === Number(req.query.laundryId));
+    if (!business) {
+      return res.status(404).json({ message: 'Business not found' });
+    }
     
     // Get the subscription details
     const [subscription] = await db.select()
@@ -443,6 +530,8 @@ router.get('/dashboard', async (req, res) => {
       .orderBy(subscriptions.startDate, 'desc')
       .limit(1);
     
+    const views = await getViewSummary([business.id]);
+    
     // Prepare business dashboard data
     const dashboardData = {
       ...business,
@@ -457,13 +546,16 @@ router.get('/dashboard', async (req, res) => {
         trialEnds: null,
         nextBillingDate: null,
       },
+      // For the location switcher
+      locations: businesses.map(({ id, name, address, city, state }) => ({ id, name, address, city, state })),
       profileCompleteness: calculateProfileCompleteness(business),
       pendingActions: getPendingActions(business),
       views: {
-        today: Math.floor(Math.random() * 20),
-        thisWeek: Math.floor(Math.random() * 100) + 50,
-        thisMonth: Math.floor(Math.random() * 400) + 200,
-        trend: "+15%"
+        today: views.today,
+        thisWeek: views.thisWeek,
+        thisMonth: views.thisMonth,
+        trend: formatTrend(views.trend, views.thisWeek),
+        trendPercent: views.trend
       }
     };
     
@@ -474,8 +566,217 @@ router.get('/dashboard', async (req, res) => {
   }
 });
 
+// Daily views, clicks and search impressions over the last ?days= days, with trends
+// against the period before: for one listing with ?laundryId=, else all of the owner's
+// locations added together
+router.get('/analytics', requireRole('owner'), async (req, res) => {
+  const days = req.query.days === undefined ? 30 : Number(req.query.days);
+  if (!Number.isInteger(days) || days < 1 || days > 90) {
+    return res.status(400).json({ message: 'days must be a whole number from 1 to 90' });
+  }
+
+  try {
+    let laundryIds: number[];
+    if (req.query.laundryId !== undefined) {
+      const laundryId = Number(req.query.laundryId);
+      if (!Number.isInteger(laundryId)) {
+        return res.status(400).json({ message: 'Invalid laundromat ID' });
+      }
+      const laundromat = await storage.getLaundromat(laundryId);
+      if (!laundromat) {
+        return res.status(404).json({ message: 'Laundromat not found' });
+      }
+      if (laundromat.ownerId !== req.user!.id && normalizeRole(req.user!.role) !== 'admin') {
+        return res.status(403).json({ message: 'You do not own this business' });
+      }
+      laundryIds = [laundryId];
+    } else {
+      const businesses = await storage.getLaundromatsForUser(req.user!.id);
+      if (businesses.length === 0) {
+        return res.status(404).json({ message: 'No businesses found' });
+      }
+      laundryIds = businesses.map(business => business.id);
+    }
+
+    res.json(await getListingAnalytics(laundryIds, days));
+  } catch (error) {
+    console.error('Analytics error:', error);
+    res.status(500).json({ message: 'Failed to load analytics' });
+  }
+});
+
+// All of the owner's locations with their tier, subscription, rating and weekly views,
+// plus totals across the account
+router.get('/locations', requireRole('owner'), async (req, res) => {
+  try {
+    const businesses = await storage.getLaundromatsForUser(req.user!.id);
+    if (businesses.length === 0) {
+      return res.status(404).json({ message: 'No businesses found' });
+    }
+
+    const laundryIds = businesses.map(business => business.id);
+    const [weeklyViews, views, currentSubscriptions] = await Promise.all([
+      getWeeklyViews(laundryIds),
+      getViewSummary(laundryIds),
+      db.select()
+        .from(subscriptions)
+        .where(and(
+          inArray(subscriptions.laundryId, laundryIds),
+          inArray(subscriptions.status, ['active', 'past_due'])
+        ))
+        .orderBy(desc(subscriptions.startDate))
+    ]);
+
+    const locations = businesses.map(business => {
+      const weekly = weeklyViews.get(business.id) || { thisWeek: 0, lastWeek: 0 };
+      // Newest first, so this is the current subscription
+      const subscription = currentSubscriptions.find(sub => sub.laundryId === business.id);
+      return {
+        id: business.id,
+        name: business.name,
+        slug: business.slug,
+        address: business.address,
+        city: business.city,
+        state: business.state,
+        listingType: toListingType(business.listingType),
+        rating: business.rating,
+        reviewCount: business.reviewCount || 0,
+        profileCompleteness: calculateProfileCompleteness(business),
+        views: { ...weekly, trend: trendPercent(weekly.thisWeek, weekly.lastWeek) },
+        subscription: subscription ? {
+          id: subscription.id,
+          tier: subscription.tier,
+          status: subscription.status,
+          billingCycle: subscription.billingCycle,
+          endDate: subscription.endDate,
+          trialEndsAt: subscription.trialEndsAt,
+          autoRenew: subscription.autoRenew,
+        } : null,
+      };
+    });
+
+    // Rating averaged over all reviews, not over locations
+    const reviewCount = locations.reduce((sum, location) => sum + location.reviewCount, 0);
+    const ratingTotal = locations.reduce((sum, location) => sum + (parseFloat(location.rating || '0') || 0) * location.reviewCount, 0);
+
+    res.json({
+      locations,
+      totals: {
+        locations: locations.length,
+        paidLocations: locations.filter(location => location.subscription).length,
+        reviewCount,
+        rating: reviewCount > 0 ? (ratingTotal / reviewCount).toFixed(1) : null,
+        views: {
+          today: views.today,
+          thisWeek: views.thisWeek,
+          thisMonth: views.thisMonth,
+          trend: formatTrend(views.trend, views.thisWeek),
+          trendPercent: views.trend
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Locations error:', error);
+    res.status(500).json({ message: 'Failed to load locations' });
+  }
+});
+
+// Set hours, amenities and/or promotional text on several locations at once. Locations
+// whose tier doesn't allow the change are left untouched and listed under `skipped`.
+router.patch('/locations', requireRole('owner'), async (req, res) => {
+  const parsed = bulkUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.errors[0].message });
+  }
+
+  try {
+    const { laundryIds, changes } = parsed.data;
+    const owned = await storage.getLaundromatsForUser(req.user!.id);
+    const selected = owned.filter(business => laundryIds.includes(business.id));
+    if (selected.length !== new Set(laundryIds).size) {
+      return res.status(403).json({ message: 'You do not own all of the selected businesses' });
+    }
+
+    const content: PremiumContent = { amenities: changes.amenities, promotionalText: changes.promotionalText };
+    const updated: number[] = [];
+    const skipped: { laundryId: number, name: string, message: string }[] = [];
+
+    for (const business of selected) {
+      const upgrades = getUpgradeRequirements(toListingType(business.listingType), content);
+      if (upgrades.length > 0) {
+        skipped.push({ laundryId: business.id, name: business.name, message: describeUpgrade(upgrades[0]) });
+        continue;
+      }
+
+      await db.update(laundromats)
+        .set({
+          hours: changes.hours,
+          hoursStructured: changes.hours ? buildStructuredHours(changes.hours, business.state) : undefined,
+          amenities: changes.amenities,
+          promotionalText: changes.promotionalText,
+        })
+        .where(eq(laundromats.id, business.id));
+      updated.push(business.id);
+    }
+
+    res.json({ updated, skipped });
+  } catch (error) {
+    console.error('Bulk update error:', error);
+    res.status(500).json({ message: 'Failed to update locations' });
+  }
+});
+
+// Turn renewal of a location's current subscription on or off. Turning it off cancels
+// at the end of the paid period; the Stripe webhook keeps the row in sync afterwards.
+router.patch('/locations/:id/subscription', requireRole('owner'), async (req, res) => {
+  const laundryId = parseInt(req.params.id);
+  const parsed = autoRenewSchema.safeParse(req.body);
+  if (isNaN(laundryId)) {
+    return res.status(400).json({ message: 'Invalid laundromat ID' });
+  }
+  if (!parsed.success) {
+    return res.status(400).json({ message: 'autoRenew must be true or false' });
+  }
+
+  try {
+    const laundromat = await storage.getLaundromat(laundryId);
+    if (!laundromat) {
+      return res.status(404).json({ message: 'Laundromat not found' });
+    }
+    if (laundromat.ownerId !== req.user!.id) {
+      return res.status(403).json({ message: 'You do not own this business' });
+    }
+
+    const [subscription] = await db.select()
+      .from(subscriptions)
+      .where(and(
+        eq(subscriptions.laundryId, laundryId),
+        inArray(subscriptions.status, ['active', 'past_due'])
+      ))
+      .orderBy(desc(subscriptions.startDate))
+      .limit(1);
+    if (!subscription) {
+      return res.status(404).json({ message: 'This location has no active subscription' });
+    }
+
+    const { autoRenew } = parsed.data;
+    if (subscription.stripeSubscriptionId) {
+      await stripe.subscriptions.update(subscription.stripeSubscriptionId, { cancel_at_period_end: !autoRenew });
+    }
+    const [updated] = await db.update(subscriptions)
+      .set({ autoRenew })
+      .where(eq(subscriptions.id, subscription.id))
+      .returning();
+
+    res.json(updated);
+  } catch (error) {
+    console.error('Subscription update error:', error);
+    res.status(500).json({ message: 'Failed to update subscription' });
+  }
+});
+
 // Get business reviews
-router.get('/reviews', async (req, res) => {
+router.get('/reviews', requireRole('owner'), async (req, res) => {
   try {
     // Check if the user is logged in
     if (!req.user) {
@@ -494,12 +795,19 @@ router.get('/reviews', async (req, res) => {
       return res.json([]);
     }
     
-    // Get the first business (in a real app, we might handle multiple businesses)
-    const business = businesses[0];
-    
-    // In a real implementation, we would fetch reviews from the database
-    // For now, return empty array
-    res.json([]);
+    // Approved reviews across all of the owner's businesses, newest first;
+    // replies go through PUT /api/reviews/:id/reply
+    const reviewsByBusiness = await Promise.all(businesses.map(async business => {
+      const businessReviews = await toPublicReviews(await storage.getReviews(business.id));
+      return businessReviews.map(review => ({
+        ...review,
+        laundromat: { id: business.id, name: business.name, slug: business.slug }
+      }));
+    }));
+    
+    res.json(reviewsByBusiness.flat().sort((a, b) =>
+      new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime()
+    ));
   } catch (error) {
     console.error('Reviews error:', error);
     res.status(500).json({ message: 'Failed to load reviews' });
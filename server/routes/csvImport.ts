@@ -1,56 +1,127 @@
-import { Request, Response } from 'express';
+import express, { Request, Response, NextFunction } from 'express';
 import fs from 'fs-extra';
 import path from 'path';
-import { processCsvFile, getUploadedCsvFiles } from '../utils/csvImport';
+import { getUploadedCsvFiles } from '../utils/csvImport';
+import { createImportJob, IMPORT_DIR, inspectImportFile, isImportFileInUse } from '../import-jobs';
+import { mappingProblems } from '../import-formats';
 
-// Directory for storing CSV uploads
-const UPLOAD_DIR = path.join(process.cwd(), 'data', 'csv_uploads');
+// Directory for storing uploaded data files, inside the import directory so they can be imported
+export const DATA_UPLOAD_DIR = path.join(IMPORT_DIR, 'csv_uploads');
+
+// Largest data file accepted in one upload
+export const MAX_DATA_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+// Plain CSV, JSON or XLSX file names only: no directories, no leading dot
+const UPLOAD_NAME_PATTERN = /^[\w][\w .-]*\.(csv|json|xlsx)$/i;
+
+// Raw file bodies for uploads; anything larger is refused before it's buffered
+const readUpload = express.raw({ type: () => true, limit: MAX_DATA_UPLOAD_BYTES });
+
+/**
+ * Path of an uploaded data file, or null when the name isn't a plain CSV, JSON or XLSX file name
+ */
+export function uploadedFilePath(name: unknown): string | null {
+  if (typeof name !== 'string' || !UPLOAD_NAME_PATTERN.test(name)) return null;
+  const filePath = path.join(DATA_UPLOAD_DIR, name);
+  return path.dirname(filePath) === DATA_UPLOAD_DIR ? filePath : null;
+}
 
 /**
- * Upload a CSV file to the server
+ * Read an upload's body, answering 413 for files over MAX_DATA_UPLOAD_BYTES
+ */
+export function readDataUpload(req: Request, res: Response, next: NextFunction) {
+  readUpload(req, res, (error?: any) => {
+    if (error) {
+      return res.status(error.status === 413 ? 413 : 400).json({
+        success: false,
+        message: error.status === 413
+          ? `Files must be ${MAX_DATA_UPLOAD_BYTES / (1024 * 1024)} MB or smaller`
+          : 'Invalid file upload'
+      });
+    }
+    next();
+  });
+}
+
+/**
+ * Upload a CSV, JSON or XLSX file. The file is the request body and its name is in ?name=.
+ * Unreadable files are refused; the response has the detected format and proposed mapping.
  */
 export async function uploadCsvFile(req: Request, res: Response) {
   try {
-    // Check if the directory exists, if not create it
-    await fs.ensureDir(UPLOAD_DIR);
-    
-    const { fileName, fileContent } = req.body;
-    
-    if (!fileName || !fileContent) {
+    const fileName = req.query.name;
+    const filePath = uploadedFilePath(fileName);
+
+    if (!filePath) {
       return res.status(400).json({
         success: false,
-        message: 'Missing required fields: fileName and fileContent'
+        message: 'Send the file name in ?name=, ending in .csv, .json or .xlsx'
       });
     }
-    
-    // Ensure the file has a .csv extension
-    const filePath = path.join(UPLOAD_DIR, fileName.endsWith('.csv') ? fileName : `${fileName}.csv`);
-    
-    // Write the file to disk
-    await fs.writeFile(filePath, fileContent);
-    
-    res.json({
+
+    // JSON bodies are parsed before they get here, so files must be sent as application/octet-stream
+    if (!Buffer.isBuffer(req.body)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Send the file as the request body with Content-Type application/octet-stream'
+      });
+    }
+
+    if (req.body.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'The file is empty'
+      });
+    }
+
+    // Never replace a file in place; an import may be reading it
+    if (await fs.pathExists(filePath)) {
+      return res.status(409).json({
+        success: false,
+        message: `${fileName} already exists. Delete it first or use another name.`
+      });
+    }
+
+    await fs.ensureDir(DATA_UPLOAD_DIR);
+    await fs.writeFile(filePath, req.body);
+
+    const info = await inspectImportFile(filePath);
+    if (!info.ok) {
+      await fs.remove(filePath);
+      return res.status(info.status).json({
+        success: false,
+        message: info.message
+      });
+    }
+
+    const { format, columns, mapping } = info.value;
+    const problems = mappingProblems(mapping, columns);
+    res.status(201).json({
       success: true,
       fileName,
-      path: filePath,
-      message: 'File uploaded successfully'
+      format,
+      mapping,
+      problems,
+      message: problems.length
+        ? 'File uploaded. Some columns need mapping before it can be imported.'
+        : 'File uploaded successfully'
     });
   } catch (error) {
     console.error('Error uploading CSV file:', error);
     res.status(500).json({
       success: false,
-      message: `Error uploading file: ${error.message}`
+      message: 'Error uploading file'
     });
   }
 }
 
 /**
- * List all available CSV files
+ * List all uploaded data files
  */
 export async function listCsvFiles(req: Request, res: Response) {
   try {
-    const files = await getUploadedCsvFiles(UPLOAD_DIR);
-    
+    const files = await getUploadedCsvFiles(DATA_UPLOAD_DIR);
+
     res.json({
       success: true,
       files
@@ -59,69 +130,71 @@ export async function listCsvFiles(req: Request, res: Response) {
     console.error('Error listing CSV files:', error);
     res.status(500).json({
       success: false,
-      message: `Error listing files: ${error.message}`
+      message: 'Error listing files'
     });
   }
 }
 
 /**
- * Import data from a specified CSV file
+ * Queue an import of an uploaded file; follow it at /api/admin/imports/:id
  */
 export async function importCsvFile(req: Request, res: Response) {
   try {
-    const { filePath } = req.body;
-    
-    if (!filePath) {
-      return res.status(400).json({
+    const filePath = uploadedFilePath(req.params.name);
+
+    if (!filePath || !await fs.pathExists(filePath)) {
+      return res.status(404).json({
         success: false,
-        message: 'Missing required field: filePath'
+        message: 'File not found'
       });
     }
-    
-    // Process the file
-    const result = await processCsvFile(filePath);
-    
-    res.json(result);
+
+    const result = await createImportJob(
+      [path.relative(IMPORT_DIR, filePath)],
+      { dryRun: req.body?.dryRun === true },
+      req.user!.id
+    );
+    if (!result.ok) {
+      return res.status(result.status).json({ success: false, message: result.message });
+    }
+
+    res.status(202).json({
+      success: true,
+      jobId: result.value.id,
+      message: 'Import started'
+    });
   } catch (error) {
     console.error('Error importing CSV file:', error);
     res.status(500).json({
       success: false,
-      total: 0,
-      imported: 0,
-      duplicates: 0,
-      errors: [error.message],
-      message: `Error importing file: ${error.message}`
+      message: 'Error importing file'
     });
   }
 }
 
 /**
- * Delete a CSV file
+ * Delete an uploaded file, unless an unfinished import still needs it
  */
 export async function deleteCsvFile(req: Request, res: Response) {
   try {
-    const { fileName } = req.body;
-    
-    if (!fileName) {
-      return res.status(400).json({
+    const filePath = uploadedFilePath(req.params.name);
+
+    if (!filePath || !await fs.pathExists(filePath)) {
+      return res.status(404).json({
         success: false,
-        message: 'Missing required field: fileName'
+        message: 'File not found'
       });
     }
-    
-    const filePath = path.join(UPLOAD_DIR, fileName);
-    
-    // Check if file exists
-    if (!fs.existsSync(filePath)) {
-      return res.status(404).json({
+
+    if (await isImportFileInUse(path.relative(IMPORT_DIR, filePath))) {
+      return res.status(409).json({
         success: false,
-        message: 'File not found'
+        message: 'An import that has not finished uses this file. Cancel it first.'
       });
     }
-    
-    // Delete the file
+
     await fs.unlink(filePath);
-    
+
     res.json({
       success: true,
       message: 'File deleted successfully'
@@ -130,7 +203,7 @@ export async function deleteCsvFile(req: Request, res: Response) {
     console.error('Error deleting CSV file:', error);
     res.status(500).json({
       success: false,
-      message: `Error deleting file: ${error.message}`
+      message: 'Error deleting file'
     });
   }
-}
\ No newline at end of file
+}
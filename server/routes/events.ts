@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { ANALYTICS_EVENT_TYPES, MAX_EVENTS_PER_BATCH } from '@shared/analytics';
+import { isBot, recordEvents, visitorKey } from '../analytics';
+import { rateLimit } from '../utils/rateLimit';
+
+const router = Router();
+
+// Pages send a batch on load and when left, so this is far more than a person browses
+const eventsLimit = rateLimit({ windowMs: 60 * 1000, max: 60 });
+
+const eventsSchema = z.object({
+  events: z.array(z.object({
+    type: z.enum(ANALYTICS_EVENT_TYPES),
+    laundryId: z.number().int().positive(),
+  })).min(1).max(MAX_EVENTS_PER_BATCH),
+});
+
+// Record a batch of visitor events. Sent with navigator.sendBeacon, so the response
+// is only informative: bots are accepted and ignored rather than told apart.
+router.post('/', eventsLimit, async (req, res) => {
+  const parsed = eventsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.errors[0].message });
+  }
+
+  const userAgent = req.get('user-agent');
+  if (isBot(userAgent)) {
+    return res.status(202).json({ recorded: 0 });
+  }
+
+  try {
+    // req.ip is the visitor's address, not the proxy's (see "trust proxy" in server/index.ts)
+    const visitor = visitorKey(req.ip, req.user?.id);
+    const recorded = await recordEvents(parsed.data.events, visitor, req.user?.id);
+    res.status(202).json({ recorded });
+  } catch (error) {
+    console.error('Error recording events:', error);
+    res.status(500).json({ message: 'Error recording events' });
+  }
+});
+
+export default router;
@@ -0,0 +1,209 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { requireRole } from '../auth';
+import { getStructuredHours } from '@shared/hours';
+import type { Favorite, Laundromat } from '@shared/schema';
+
+const router = Router();
+
+// Favorites belong to an account; signed-out visitors keep theirs in localStorage
+router.use(requireRole('user'));
+
+// Most laundromats merged from a browser's local favorites in one request
+const MAX_MERGE = 200;
+
+const laundryIdSchema = z.coerce.number().int().positive('Invalid laundromat ID');
+
+const addFavoriteSchema = z.object({
+  laundryId: laundryIdSchema,
+  listId: z.number().int().positive().nullable().optional(),
+});
+
+const mergeFavoritesSchema = z.object({
+  laundryIds: z.array(laundryIdSchema).max(MAX_MERGE),
+});
+
+const favoriteListSchema = z.object({
+  name: z.string().trim().min(1, 'List name is required').max(50, 'List name must be 50 characters or less'),
+});
+
+// The listing fields the favorites page shows, rather than the whole row
+function toFavoriteEntry({ favorite, laundromat }: { favorite: Favorite, laundromat: Laundromat }) {
+  return {
+    laundryId: favorite.laundryId,
+    listId: favorite.listId,
+    createdAt: favorite.createdAt,
+    laundromat: {
+      id: laundromat.id,
+      name: laundromat.name,
+      slug: laundromat.slug,
+      address: laundromat.address,
+      city: laundromat.city,
+      state: laundromat.state,
+      zip: laundromat.zip,
+      phone: laundromat.phone,
+      rating: laundromat.rating,
+      reviewCount: laundromat.reviewCount,
+      imageUrl: laundromat.imageUrl,
+      hours: laundromat.hours,
+      hoursStructured: getStructuredHours(laundromat),
+    }
+  };
+}
+
+async function getFavoritesResponse(userId: number) {
+  const [lists, entries] = await Promise.all([
+    storage.getFavoriteLists(userId),
+    storage.getUserFavorites(userId)
+  ]);
+  return { lists, favorites: entries.map(toFavoriteEntry) };
+}
+
+// Check that a list id from the client is one of the user's own lists
+async function ownsList(userId: number, listId: number | null | undefined): Promise<boolean> {
+  if (listId == null) return true;
+  const lists = await storage.getFavoriteLists(userId);
+  return lists.some(list => list.id === listId);
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string })?.code === '23505';
+}
+
+// Saved laundromats and the user's lists
+router.get('/', async (req, res) => {
+  try {
+    res.json(await getFavoritesResponse(req.user!.id));
+  } catch (error) {
+    console.error('Error fetching favorites:', error);
+    res.status(500).json({ message: 'Error fetching favorites' });
+  }
+});
+
+// Save a laundromat, or move a saved one to another list
+router.post('/', async (req, res) => {
+  let data: z.infer<typeof addFavoriteSchema>;
+  try {
+    data = addFavoriteSchema.parse(req.body);
+  } catch (error) {
+    return res.status(400).json({ message: 'Invalid favorite' });
+  }
+
+  try {
+    const userId = req.user!.id;
+    if (!(await storage.getLaundromat(data.laundryId))) {
+      return res.status(404).json({ message: 'Laundromat not found' });
+    }
+    if (!(await ownsList(userId, data.listId))) {
+      return res.status(404).json({ message: 'List not found' });
+    }
+
+    const favorite = await storage.addFavorite({ userId, laundryId: data.laundryId, listId: data.listId ?? null });
+    res.status(201).json(favorite);
+  } catch (error) {
+    console.error('Error adding favorite:', error);
+    res.status(500).json({ message: 'Error adding favorite' });
+  }
+});
+
+// Add the favorites a browser saved while signed out; returns the merged favorites
+router.post('/merge', async (req, res) => {
+  let laundryIds: number[];
+  try {
+    ({ laundryIds } = mergeFavoritesSchema.parse(req.body));
+  } catch (error) {
+    return res.status(400).json({ message: `laundryIds must be a list of up to ${MAX_MERGE} laundromat IDs` });
+  }
+
+  try {
+    const userId = req.user!.id;
+    const added = await storage.mergeFavorites(userId, laundryIds);
+    res.json({ added, ...(await getFavoritesResponse(userId)) });
+  } catch (error) {
+    console.error('Error merging favorites:', error);
+    res.status(500).json({ message: 'Error merging favorites' });
+  }
+});
+
+router.delete('/:laundryId', async (req, res) => {
+  const laundryId = laundryIdSchema.safeParse(req.params.laundryId);
+  if (!laundryId.success) {
+    return res.status(400).json({ message: 'Invalid laundromat ID' });
+  }
+
+  try {
+    const removed = await storage.removeFavorite(req.user!.id, laundryId.data);
+    if (!removed) {
+      return res.status(404).json({ message: 'Favorite not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error removing favorite:', error);
+    res.status(500).json({ message: 'Error removing favorite' });
+  }
+});
+
+// Named lists
+router.post('/lists', async (req, res) => {
+  const parsed = favoriteListSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.errors[0].message });
+  }
+
+  try {
+    const list = await storage.createFavoriteList({ userId: req.user!.id, name: parsed.data.name });
+    res.status(201).json(list);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ message: 'You already have a list with that name' });
+    }
+    console.error('Error creating favorite list:', error);
+    res.status(500).json({ message: 'Error creating favorite list' });
+  }
+});
+
+router.patch('/lists/:id', async (req, res) => {
+  const id = parseInt(req.params.id);
+  const parsed = favoriteListSchema.safeParse(req.body);
+  if (isNaN(id)) {
+    return res.status(400).json({ message: 'Invalid list ID' });
+  }
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.errors[0].message });
+  }
+
+  try {
+    const list = await storage.renameFavoriteList(req.user!.id, id, parsed.data.name);
+    if (!list) {
+      return res.status(404).json({ message: 'List not found' });
+    }
+    res.json(list);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return res.status(409).json({ message: 'You already have a list with that name' });
+    }
+    console.error('Error renaming favorite list:', error);
+    res.status(500).json({ message: 'Error renaming favorite list' });
+  }
+});
+
+router.delete('/lists/:id', async (req, res) => {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return res.status(400).json({ message: 'Invalid list ID' });
+  }
+
+  try {
+    const deleted = await storage.deleteFavoriteList(req.user!.id, id);
+    if (!deleted) {
+      return res.status(404).json({ message: 'List not found' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting favorite list:', error);
+    res.status(500).json({ message: 'Error deleting favorite list' });
+  }
+});
+
+export default router;
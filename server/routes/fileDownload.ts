@@ -1,45 +1,53 @@
 import { Request, Response } from 'express';
 import fs from 'fs-extra';
 import path from 'path';
+import { resolveImportFile } from '../import-jobs';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
 
 /**
- * Download a file from the server
+ * Download a CSV, JSON or XLSX file from the import directory, such as an enriched export.
+ * ?path= is relative to the import directory; anything outside it is treated as missing.
  */
 export async function downloadFile(req: Request, res: Response) {
   try {
     const { path: filePath } = req.query;
-    
-    if (!filePath) {
+
+    if (!filePath || typeof filePath !== 'string') {
       return res.status(400).json({
         success: false,
         message: 'Missing required field: path'
       });
     }
-    
-    // Ensure the path is safe (doesn't escape the intended directory)
-    const normalizedPath = path.normalize(filePath as string);
-    
-    // Verify the file exists
-    if (!await fs.pathExists(normalizedPath)) {
+
+    const resolvedPath = resolveImportFile(filePath);
+    if (!resolvedPath) {
       return res.status(404).json({
         success: false,
-        message: `File not found: ${normalizedPath}`
+        message: `File not found: ${filePath}`
       });
     }
-    
+
     // Set content headers
-    res.setHeader('Content-Type', 'text/csv');
-    res.setHeader('Content-Disposition', `attachment; filename="${path.basename(normalizedPath)}"`);
-    
+    res.setHeader('Content-Type', CONTENT_TYPES[path.extname(resolvedPath).toLowerCase()]);
+    res.setHeader('Content-Disposition', `attachment; filename="${path.basename(resolvedPath)}"`);
+
     // Stream the file to the client
-    const fileStream = fs.createReadStream(normalizedPath);
+    const fileStream = fs.createReadStream(resolvedPath);
+    fileStream.on('error', error => {
+      console.error('Error downloading file:', error);
+      res.destroy(error);
+    });
     fileStream.pipe(res);
-  } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  } catch (error) {
     console.error('Error downloading file:', error);
     res.status(500).json({
       success: false,
-      message: `Error downloading file: ${errorMessage}`
+      message: 'Error downloading file'
     });
   }
-}
\ No newline at end of file
+}
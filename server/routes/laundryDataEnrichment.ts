@@ -3,8 +3,12 @@ import fs from 'fs-extra';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { enrichLaundryData } from '../utils/laundromat-enricher';
+import { IMPORT_DIR, resolveImportFile } from '../import-jobs';
 import { log } from '../vite';
 
+// Enriched copies are written here, where they can be downloaded or imported
+const ENRICHED_DIR = path.join(IMPORT_DIR, 'enriched');
+
 // In-memory storage for batch job status
 interface BatchJob {
   id: string;
@@ -25,6 +29,14 @@ interface BatchJob {
 
 const batchJobs = new Map<string, BatchJob>();
 
+/**
+ * Absolute path of a CSV file given relative to the import directory, or null if it's outside it or missing
+ */
+function resolveEnrichmentInput(filePath: string): string | null {
+  const resolved = resolveImportFile(filePath);
+  return resolved && path.extname(resolved).toLowerCase() === '.csv' ? resolved : null;
+}
+
 /**
  * Enrich a laundromat CSV file with SEO content and metadata
  */
@@ -32,35 +44,35 @@ export async function enrichLaundryFile(req: Request, res: Response) {
   try {
     const { filePath } = req.body;
     
-    if (!filePath) {
+    if (!filePath || typeof filePath !== 'string') {
       return res.status(400).json({
         success: false,
         message: 'Missing required field: filePath'
       });
     }
     
-    // Ensure the file exists
-    if (!await fs.pathExists(filePath)) {
+    // Only CSV files inside the import directory can be enriched
+    const inputPath = resolveEnrichmentInput(filePath);
+    if (!inputPath) {
       return res.status(404).json({
         success: false,
         message: `File not found: ${filePath}`
       });
     }
     
-    const fileName = path.basename(filePath);
-    const outputPath = path.join('data', 'enriched', `enriched_${fileName}`);
+    const outputPath = path.join(ENRICHED_DIR, `enriched_${path.basename(inputPath)}`);
     
     try {
       // Make sure the output directory exists
-      await fs.ensureDir(path.join('data', 'enriched'));
+      await fs.ensureDir(ENRICHED_DIR);
       
       // Process the CSV file
-      const result = await enrichLaundryData(filePath, outputPath);
+      const result = await enrichLaundryData(inputPath, outputPath);
       
       return res.json({
         success: true,
         message: 'Laundromat data enriched successfully',
-        enrichedPath: outputPath,
+        enrichedPath: path.relative(IMPORT_DIR, outputPath),
         stats: result
       });
     } catch (error: unknown) {
@@ -88,23 +100,23 @@ export async function startBatchEnrichment(req: Request, res: Response) {
   try {
     const { filePath } = req.body;
     
-    if (!filePath) {
+    if (!filePath || typeof filePath !== 'string') {
       return res.status(400).json({
         success: false,
         message: 'Missing required field: filePath'
       });
     }
     
-    // Ensure the file exists
-    if (!await fs.pathExists(filePath)) {
+    // Only CSV files inside the import directory can be enriched
+    const inputPath = resolveEnrichmentInput(filePath);
+    if (!inputPath) {
       return res.status(404).json({
         success: false,
         message: `File not found: ${filePath}`
       });
     }
     
-    const fileName = path.basename(filePath);
-    const outputPath = path.join('data', 'enriched', `enriched_${fileName}`);
+    const outputPath = path.join(ENRICHED_DIR, `enriched_${path.basename(inputPath)}`);
     
     // Create a new batch job
     const jobId = uuidv4();
@@ -118,14 +130,16 @@ export async function startBatchEnrichment(req: Request, res: Response) {
     
     batchJobs.set(jobId, batchJob);
     
+    await fs.ensureDir(ENRICHED_DIR);
+    
     // Start processing in the background
-    enrichLaundryData(filePath, outputPath)
+    enrichLaundryData(inputPath, outputPath)
       .then((result) => {
         const job = batchJobs.get(jobId);
         if (job) {
           job.status = 'completed';
           job.progress = 100;
-          job.enrichedPath = outputPath;
+          job.enrichedPath = path.relative(IMPORT_DIR, outputPath);
           job.stats = result;
           job.endTime = new Date();
           batchJobs.set(jobId, job);
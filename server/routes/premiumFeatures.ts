@@ -0,0 +1,151 @@
+import { Router, type Request } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { normalizeRole, requireRole } from '../auth';
+import {
+  PREMIUM_PRICING,
+  getMaxFeatureLimit,
+  getPremiumFeatures,
+  getUpgradeRequirements,
+  toListingType,
+  type PremiumContent,
+  type UpgradeRequirement
+} from '@shared/premium-features';
+import type { Laundromat } from '@shared/schema';
+
+const router = Router();
+
+// Lists are capped at the highest tier's limit; below that, going over needs an upgrade
+const listSchema = (feature: 'amenities' | 'photos' | 'specialOffers', itemSchema: z.ZodString) =>
+  z.array(itemSchema)
+    .max(getMaxFeatureLimit(feature), `No listing can have more than ${getMaxFeatureLimit(feature)} ${feature}`)
+    .nullable()
+    .optional();
+
+const premiumContentSchema = z.object({
+  promotionalText: z.string().trim().max(500, 'Promotional text must be 500 characters or less').nullable().optional(),
+  machineCount: z.object({
+    washers: z.number().int().min(0).max(500),
+    dryers: z.number().int().min(0).max(500),
+  }).nullable().optional(),
+  amenities: listSchema('amenities', z.string().trim().min(1).max(100)),
+  photos: listSchema('photos', z.string().trim().min(1).max(500)),
+  specialOffers: listSchema('specialOffers', z.string().trim().min(1).max(200)),
+}).strict().refine(content => Object.values(content).some(value => value !== undefined), {
+  message: 'No premium features to update',
+});
+
+const FEATURE_NAMES: Record<UpgradeRequirement['feature'], string> = {
+  promotionalText: 'promotional text',
+  machineCount: 'machine counts',
+  amenities: 'amenities',
+  photos: 'photos',
+  specialOffers: 'special offers',
+};
+
+function tierName(tier: string): string {
+  return tier === 'basic' ? 'Basic' : PREMIUM_PRICING[tier as keyof typeof PREMIUM_PRICING].name;
+}
+
+export function describeUpgrade({ feature, limit, requiredTier }: UpgradeRequirement): string {
+  const name = FEATURE_NAMES[feature];
+  return limit === 0
+    ? `Adding ${name} requires a ${tierName(requiredTier)}`
+    : `Your plan allows up to ${limit} ${name}; a ${tierName(requiredTier)} allows more`;
+}
+
+// The laundromat, if the signed-in owner may edit it (admins may edit any)
+async function getOwnedLaundromat(req: Request): Promise<{ status: number, message: string } | Laundromat> {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    return { status: 400, message: 'Invalid laundromat ID' };
+  }
+
+  const laundromat = await storage.getLaundromat(id);
+  if (!laundromat) {
+    return { status: 404, message: 'Laundromat not found' };
+  }
+  if (laundromat.ownerId !== req.user!.id && normalizeRole(req.user!.role) !== 'admin') {
+    return { status: 403, message: 'You do not own this business' };
+  }
+  return laundromat;
+}
+
+function toPremiumFeaturesResponse(laundromat: Laundromat) {
+  const listingType = toListingType(laundromat.listingType);
+  return {
+    laundryId: laundromat.id,
+    listingType,
+    subscriptionActive: laundromat.subscriptionActive,
+    limits: getPremiumFeatures(listingType),
+    features: {
+      promotionalText: laundromat.promotionalText,
+      machineCount: laundromat.machineCount,
+      amenities: laundromat.amenities || [],
+      photos: laundromat.photos || [],
+      specialOffers: laundromat.specialOffers || [],
+    }
+  };
+}
+
+// The listing's premium fields and what its tier allows
+router.get('/laundromats/:id/premium-features', requireRole('owner'), async (req, res) => {
+  try {
+    const laundromat = await getOwnedLaundromat(req);
+    if ('status' in laundromat) {
+      return res.status(laundromat.status).json({ message: laundromat.message });
+    }
+    res.json(toPremiumFeaturesResponse(laundromat));
+  } catch (error) {
+    console.error('Error fetching premium features:', error);
+    res.status(500).json({ message: 'Error fetching premium features' });
+  }
+});
+
+// Update some or all premium fields. Anything beyond the listing's tier is refused
+// with 403 and code 'upgrade_required', listing each field and the tier it needs.
+router.put('/laundromats/:id/premium-features', requireRole('owner'), async (req, res) => {
+  const parsed = premiumContentSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.errors[0].message });
+  }
+
+  try {
+    const laundromat = await getOwnedLaundromat(req);
+    if ('status' in laundromat) {
+      return res.status(laundromat.status).json({ message: laundromat.message });
+    }
+
+    const content: PremiumContent = parsed.data;
+    const listingType = toListingType(laundromat.listingType);
+    const upgrades = getUpgradeRequirements(listingType, content);
+    if (upgrades.length > 0) {
+      return res.status(403).json({
+        message: describeUpgrade(upgrades[0]),
+        code: 'upgrade_required',
+        listingType,
+        upgrades
+      });
+    }
+
+    await storage.updatePremiumFeatures(laundromat.id, content);
+    const updated = await storage.getLaundromat(laundromat.id);
+    res.json(toPremiumFeaturesResponse(updated!));
+  } catch (error) {
+    console.error('Error updating premium features:', error);
+    res.status(500).json({ message: 'Error updating premium features' });
+  }
+});
+
+// The signed-in owner's subscriptions with a summary of each listing
+router.get('/subscriptions', requireRole('owner'), async (req, res) => {
+  try {
+    const subscriptions = await storage.getUserSubscriptions(req.user!.id);
+    res.json({ subscriptions });
+  } catch (error) {
+    console.error('Error fetching subscriptions:', error);
+    res.status(500).json({ message: 'Error fetching subscriptions' });
+  }
+});
+
+export default router;
@@ -0,0 +1,372 @@
+import express, { Router, type Request } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { normalizeRole, requireRole } from '../auth';
+import { REPORT_REASONS, REPORTS_TO_FLAG, screenReview } from '../review-moderation';
+import { createNotification } from '../admin-notifications';
+import { deleteUpload, detectImageType, saveReviewPhoto, uploadUrl } from '../uploads';
+import {
+  MAX_REVIEW_PHOTOS,
+  MAX_REVIEW_PHOTO_BYTES,
+  REVIEW_PHOTO_TYPES
+} from '@shared/reviews';
+import type { Review, ReviewPhoto } from '@shared/schema';
+
+const router = Router();
+
+const idSchema = z.coerce.number().int().positive();
+
+const commentSchema = z.string().trim().max(2000, 'Reviews must be 2000 characters or less').nullable().optional();
+
+const ratingSchema = z.number().int().min(1, 'Ratings must be between 1 and 5').max(5, 'Ratings must be between 1 and 5');
+
+const createReviewSchema = z.object({
+  laundryId: idSchema,
+  rating: ratingSchema,
+  cleanlinessRating: ratingSchema.nullable().optional(),
+  machineAvailabilityRating: ratingSchema.nullable().optional(),
+  priceRating: ratingSchema.nullable().optional(),
+  staffRating: ratingSchema.nullable().optional(),
+  safetyRating: ratingSchema.nullable().optional(),
+  comment: commentSchema,
+});
+
+const updateReviewSchema = createReviewSchema.omit({ laundryId: true }).partial()
+  .refine(data => Object.values(data).some(value => value !== undefined), {
+    message: 'Nothing to update',
+  });
+
+const reportSchema = z.object({
+  reason: z.enum(REPORT_REASONS),
+  details: z.string().trim().max(500).nullable().optional(),
+});
+
+const replySchema = z.object({
+  reply: z.string().trim().min(1, 'Reply is required').max(1000, 'Replies must be 1000 characters or less'),
+});
+
+// Raw image bodies for photo uploads; anything larger is refused before it's buffered
+const readPhoto = express.raw({ type: REVIEW_PHOTO_TYPES, limit: MAX_REVIEW_PHOTO_BYTES });
+
+function toPhoto(photo: ReviewPhoto) {
+  return { id: photo.id, url: uploadUrl(photo.filename) };
+}
+
+// What anyone can see of an approved review
+export function toPublicReview(review: Review, photos: ReviewPhoto[] = []) {
+  return {
+    id: review.id,
+    laundryId: review.laundryId,
+    rating: review.rating,
+    cleanlinessRating: review.cleanlinessRating,
+    machineAvailabilityRating: review.machineAvailabilityRating,
+    priceRating: review.priceRating,
+    staffRating: review.staffRating,
+    safetyRating: review.safetyRating,
+    comment: review.comment,
+    photos: photos.filter(photo => photo.reviewId === review.id).map(toPhoto),
+    createdAt: review.createdAt,
+    updatedAt: review.updatedAt,
+    ownerReply: review.ownerReply,
+    ownerReplyAt: review.ownerReplyAt,
+  };
+}
+
+// Public reviews with their photos, fetched in one query
+export async function toPublicReviews(reviews: Review[]) {
+  const photos = await storage.getReviewPhotos(reviews.map(review => review.id));
+  return reviews.map(review => toPublicReview(review, photos));
+}
+
+// What the author sees: their review plus whether it's live yet
+async function toOwnReview(review: Review) {
+  const photos = await storage.getReviewPhotos([review.id]);
+  return { ...toPublicReview(review, photos), status: review.status };
+}
+
+// The signed-in user's own review, or undefined
+async function getOwnReview(req: Request): Promise<Review | undefined> {
+  const id = idSchema.safeParse(req.params.id);
+  if (!id.success) return undefined;
+  const review = await storage.getReview(id.data);
+  return review && review.userId === req.user!.id ? review : undefined;
+}
+
+// Owners may reply to reviews of their own listings; admins to any
+async function canReply(req: Request, review: Review): Promise<boolean> {
+  if (normalizeRole(req.user!.role) === 'admin') return true;
+  const laundromat = await storage.getLaundromat(review.laundryId);
+  return !!laundromat && laundromat.ownerId === req.user!.id;
+}
+
+// Approved reviews for a listing, newest first
+router.get('/laundromats/:id/reviews', async (req, res) => {
+  const laundryId = idSchema.safeParse(req.params.id);
+  if (!laundryId.success) {
+    return res.status(400).json({ message: 'Invalid laundromat ID' });
+  }
+
+  try {
+    const reviews = await storage.getReviews(laundryId.data);
+    res.json(await toPublicReviews(reviews));
+  } catch (error) {
+    console.error('Error fetching reviews:', error);
+    res.status(500).json({ message: 'Error fetching reviews' });
+  }
+});
+
+// The signed-in user's review of ?laundryId=, whatever its status
+router.get('/reviews/mine', requireRole('user'), async (req, res) => {
+  const laundryId = idSchema.safeParse(req.query.laundryId);
+  if (!laundryId.success) {
+    return res.status(400).json({ message: 'laundryId is required' });
+  }
+
+  try {
+    const review = await storage.getUserReview(req.user!.id, laundryId.data);
+    res.json({ review: review ? await toOwnReview(review) : null });
+  } catch (error) {
+    console.error('Error fetching review:', error);
+    res.status(500).json({ message: 'Error fetching review' });
+  }
+});
+
+// One review per user per laundromat; a second one gets 409 and should be an edit
+router.post('/reviews', requireRole('user'), async (req, res) => {
+  const parsed = createReviewSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.errors[0].message });
+  }
+
+  try {
+    const userId = req.user!.id;
+    const { laundryId, comment, ...ratings } = parsed.data;
+
+    if (!(await storage.getLaundromat(laundryId))) {
+      return res.status(404).json({ message: 'Laundromat not found' });
+    }
+    const existing = await storage.getUserReview(userId, laundryId);
+    if (existing) {
+      return res.status(409).json({ message: 'You have already reviewed this laundromat', reviewId: existing.id });
+    }
+
+    const { status, reasons } = screenReview(comment);
+    const review = await storage.createReview({
+      ...ratings,
+      laundryId,
+      userId,
+      comment: comment || null,
+      status,
+      moderationReasons: reasons.length > 0 ? reasons : null
+    });
+    res.status(201).json(await toOwnReview(review));
+  } catch (error) {
+    if ((error as { code?: string })?.code === '23505') {
+      return res.status(409).json({ message: 'You have already reviewed this laundromat' });
+    }
+    console.error('Error creating review:', error);
+    res.status(500).json({ message: 'Error creating review' });
+  }
+});
+
+// Edit your own review. It's screened again, so an edit can send it back to moderation.
+router.patch('/reviews/:id', requireRole('user'), async (req, res) => {
+  const id = idSchema.safeParse(req.params.id);
+  const parsed = updateReviewSchema.safeParse(req.body);
+  if (!id.success) {
+    return res.status(400).json({ message: 'Invalid review ID' });
+  }
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.errors[0].message });
+  }
+
+  try {
+    const review = await storage.getReview(id.data);
+    if (!review || review.userId !== req.user!.id) {
+      return res.status(404).json({ message: 'Review not found' });
+    }
+
+    const { comment: newComment, ...ratings } = parsed.data;
+    const comment = newComment !== undefined ? newComment || null : review.comment;
+    const { status, reasons } = screenReview(comment);
+    // A rejected or reported review goes back to an admin rather than straight out;
+    // the last moderation decision stays on record until they decide again
+    const awaitingAdmin = review.status === 'rejected' || review.status === 'flagged';
+    const updated = await storage.updateReview(review.id, {
+      ...ratings,
+      comment,
+      status: awaitingAdmin ? 'pending' : status,
+      moderationReasons: reasons.length > 0 ? reasons : awaitingAdmin ? review.moderationReasons : null
+    });
+    res.json(await toOwnReview(updated!));
+  } catch (error) {
+    console.error('Error updating review:', error);
+    res.status(500).json({ message: 'Error updating review' });
+  }
+});
+
+// Report an abusive review. Enough reports hide it until an admin has looked at it.
+router.post('/reviews/:id/report', requireRole('user'), async (req, res) => {
+  const id = idSchema.safeParse(req.params.id);
+  const parsed = reportSchema.safeParse(req.body);
+  if (!id.success) {
+    return res.status(400).json({ message: 'Invalid review ID' });
+  }
+  if (!parsed.success) {
+    return res.status(400).json({ message: `reason must be one of: ${REPORT_REASONS.join(', ')}` });
+  }
+
+  try {
+    const review = await storage.getReview(id.data);
+    if (!review || review.status !== 'approved') {
+      return res.status(404).json({ message: 'Review not found' });
+    }
+    if (review.userId === req.user!.id) {
+      return res.status(400).json({ message: 'You cannot report your own review' });
+    }
+
+    const reported = await storage.reportReview({
+      reviewId: review.id,
+      userId: req.user!.id,
+      reason: parsed.data.reason,
+      details: parsed.data.details || null
+    });
+    if (!reported) {
+      return res.status(409).json({ message: 'You have already reported this review' });
+    }
+
+    if (reported.reportCount >= REPORTS_TO_FLAG) {
+      await storage.updateReview(reported.id, { status: 'flagged' });
+      await createNotification({
+        type: 'review_report',
+        userId: reported.userId,
+        laundryId: reported.laundryId,
+        data: {
+          reviewId: reported.id,
+          rating: reported.rating,
+          comment: reported.comment?.slice(0, 500) ?? null,
+          reportCount: reported.reportCount,
+          lastReason: parsed.data.reason
+        }
+      }, req.user!.id);
+    }
+    res.status(201).json({ message: 'Thanks, we will take a look at this review' });
+  } catch (error) {
+    console.error('Error reporting review:', error);
+    res.status(500).json({ message: 'Error reporting review' });
+  }
+});
+
+// Attach a photo to your review. Send the image itself as the body with its
+// Content-Type (JPEG, PNG or WebP, up to 5 MB).
+router.post('/reviews/:id/photos', requireRole('user'), (req, res, next) => {
+  readPhoto(req, res, (error?: any) => {
+    if (error) {
+      return res.status(error.status === 413 ? 413 : 400).json({
+        message: error.status === 413 ? `Photos must be ${MAX_REVIEW_PHOTO_BYTES / (1024 * 1024)} MB or smaller` : 'Invalid photo upload'
+      });
+    }
+    next();
+  });
+}, async (req, res) => {
+  try {
+    const review = await getOwnReview(req);
+    if (!review) {
+      return res.status(404).json({ message: 'Review not found' });
+    }
+
+    const data = Buffer.isBuffer(req.body) ? req.body : null;
+    const contentType = data ? detectImageType(data) : null;
+    if (!data || !contentType) {
+      return res.status(415).json({ message: 'Photos must be JPEG, PNG or WebP images' });
+    }
+
+    const existing = await storage.getReviewPhotos([review.id]);
+    if (existing.length >= MAX_REVIEW_PHOTOS) {
+      return res.status(400).json({ message: `A review can have at most ${MAX_REVIEW_PHOTOS} photos` });
+    }
+
+    const filename = await saveReviewPhoto(data, contentType);
+    const photo = await storage.addReviewPhoto({ reviewId: review.id, filename, contentType, size: data.length });
+    res.status(201).json(toPhoto(photo));
+  } catch (error) {
+    console.error('Error uploading review photo:', error);
+    res.status(500).json({ message: 'Error uploading review photo' });
+  }
+});
+
+router.delete('/reviews/:id/photos/:photoId', requireRole('user'), async (req, res) => {
+  const photoId = idSchema.safeParse(req.params.photoId);
+  if (!photoId.success) {
+    return res.status(400).json({ message: 'Invalid photo ID' });
+  }
+
+  try {
+    const review = await getOwnReview(req);
+    const photo = review && await storage.deleteReviewPhoto(review.id, photoId.data);
+    if (!photo) {
+      return res.status(404).json({ message: 'Photo not found' });
+    }
+    await deleteUpload(photo.filename);
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting review photo:', error);
+    res.status(500).json({ message: 'Error deleting review photo' });
+  }
+});
+
+// The listing owner's public reply, shown under the review
+router.put('/reviews/:id/reply', requireRole('owner'), async (req, res) => {
+  const id = idSchema.safeParse(req.params.id);
+  const parsed = replySchema.safeParse(req.body);
+  if (!id.success) {
+    return res.status(400).json({ message: 'Invalid review ID' });
+  }
+  if (!parsed.success) {
+    return res.status(400).json({ message: parsed.error.errors[0].message });
+  }
+
+  try {
+    const review = await storage.getReview(id.data);
+    if (!review || review.status !== 'approved') {
+      return res.status(404).json({ message: 'Review not found' });
+    }
+    if (!(await canReply(req, review))) {
+      return res.status(403).json({ message: 'You do not own this business' });
+    }
+
+    const updated = await storage.updateReview(review.id, {
+      ownerReply: parsed.data.reply,
+      ownerReplyAt: new Date()
+    });
+    res.json(toPublicReview(updated!, await storage.getReviewPhotos([updated!.id])));
+  } catch (error) {
+    console.error('Error replying to review:', error);
+    res.status(500).json({ message: 'Error replying to review' });
+  }
+});
+
+router.delete('/reviews/:id/reply', requireRole('owner'), async (req, res) => {
+  const id = idSchema.safeParse(req.params.id);
+  if (!id.success) {
+    return res.status(400).json({ message: 'Invalid review ID' });
+  }
+
+  try {
+    const review = await storage.getReview(id.data);
+    if (!review || !review.ownerReply) {
+      return res.status(404).json({ message: 'Reply not found' });
+    }
+    if (!(await canReply(req, review))) {
+      return res.status(403).json({ message: 'You do not own this business' });
+    }
+
+    await storage.updateReview(review.id, { ownerReply: null, ownerReplyAt: null });
+    res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting review reply:', error);
+    res.status(500).json({ message: 'Error deleting review reply' });
+  }
+});
+
+export default router;
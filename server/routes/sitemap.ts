@@ -125,7 +125,7 @@ router.get('/sitemap-main.xml', async (req, res) => {
     
     // Add static pages
     urls.push({
-      loc: `${baseUrl}/tips`,
+      loc: `${baseUrl}/laundry-tips`,
       priority: '0.8',
     });
     
@@ -141,17 +141,16 @@ router.get('/sitemap-main.xml', async (req, res) => {
     
     for (const state of allStates) {
       urls.push({
-        loc: `${baseUrl}/state/${state.abbr.toLowerCase()}`,
+        loc: `${baseUrl}/states/${state.slug}`,
         priority: '0.7',
       });
     }
     
     // Add top cities (limited to prevent overwhelming the main sitemap)
     const cityQuery = `
-      SELECT city, state, COUNT(*) as count
-      FROM laundromats
-      GROUP BY city, state
-      ORDER BY count DESC
+      SELECT slug
+      FROM cities
+      ORDER BY laundry_count DESC NULLS LAST, id
       LIMIT 300
     `;
     
@@ -160,7 +159,7 @@ router.get('/sitemap-main.xml', async (req, res) => {
     
     for (const city of topCities) {
       urls.push({
-        loc: `${baseUrl}/city/${city.city.toLowerCase().replace(/\s+/g, '-')}/${city.state.toLowerCase()}`,
+        loc: `${baseUrl}/laundromats/${city.slug}`,
         priority: '0.6',
       });
     }
@@ -174,7 +173,7 @@ router.get('/sitemap-main.xml', async (req, res) => {
     
     for (const tip of allTips) {
       urls.push({
-        loc: `${baseUrl}/tips/${tip.slug}`,
+        loc: `${baseUrl}/laundry-tips/${tip.slug}`,
         priority: '0.7',
       });
     }
@@ -0,0 +1,182 @@
+/**
+ * In-Process Job Scheduler
+ *
+ * Runs registered jobs on fixed intervals inside the web server process and
+ * records every run in job_runs so admins can see what ran and what failed.
+ *   - a job never overlaps itself; a tick that finds it still running is skipped
+ *   - timers are unref'd so they never keep the process alive on their own
+ *   - set SCHEDULER_ENABLED=false on all but one instance when running several,
+ *     since the jobs aren't coordinated across processes
+ */
+import { and, count, desc, eq, lt } from 'drizzle-orm';
+import { db } from './db';
+import { jobRuns, type JobRun } from '@shared/schema';
+import type { PageResult } from './utils/pagination';
+
+// Counts a job reports about its run, e.g. { expired: 2, remindersQueued: 5 }
+export type JobResult = Record<string, number>;
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  intervalMs: number;
+  run: () => Promise<JobResult | void>;
+}
+
+export interface JobStatus {
+  name: string;
+  description: string;
+  intervalMs: number;
+  running: boolean;
+  nextRunAt: Date | null;
+  lastRun: JobRun | null;
+}
+
+type JobTrigger = 'schedule' | 'manual';
+
+// Delay before the first run, so jobs don't compete with server startup
+const STARTUP_DELAY_MS = 30 * 1000;
+// Runs left as 'running' for longer than this were cut off by a restart
+const STALE_RUN_MS = 6 * 60 * 60 * 1000;
+
+const jobs = new Map<string, JobDefinition>();
+const running = new Set<string>();
+const nextRuns = new Map<string, Date>();
+
+/**
+ * Add a job to the scheduler. Jobs can be registered before or after it starts.
+ */
+export function registerJob(job: JobDefinition) {
+  if (jobs.has(job.name)) {
+    throw new Error(`Job "${job.name}" is already registered`);
+  }
+  jobs.set(job.name, job);
+}
+
+/**
+ * Run a job now and record the run. Returns null when the job is already running.
+ */
+export async function runJob(name: string, trigger: JobTrigger = 'manual'): Promise<JobRun | null> {
+  const job = jobs.get(name);
+  if (!job) {
+    throw new Error(`Unknown job "${name}"`);
+  }
+  if (running.has(name)) {
+    return null;
+  }
+
+  running.add(name);
+  try {
+    const [run] = await db.insert(jobRuns)
+      .values({ job: name, status: 'running', trigger })
+      .returning();
+
+    try {
+      const result = await job.run();
+      const [finished] = await db.update(jobRuns)
+        .set({ status: 'succeeded', finishedAt: new Date(), result: result || {} })
+        .where(eq(jobRuns.id, run.id))
+        .returning();
+      return finished;
+    } catch (error) {
+      console.error(`Error running job ${name}:`, error);
+      const [failed] = await db.update(jobRuns)
+        .set({
+          status: 'failed',
+          finishedAt: new Date(),
+          error: error instanceof Error ? error.message : String(error)
+        })
+        .where(eq(jobRuns.id, run.id))
+        .returning();
+      return failed;
+    }
+  } finally {
+    running.delete(name);
+  }
+}
+
+function schedule(job: JobDefinition, delayMs: number) {
+  nextRuns.set(job.name, new Date(Date.now() + delayMs));
+
+  const timer = setTimeout(async () => {
+    try {
+      await runJob(job.name, 'schedule');
+    } catch (error) {
+      // Recording the run failed, e.g. the database is unreachable; try again next interval
+      console.error(`Error recording run of job ${job.name}:`, error);
+    }
+    schedule(job, job.intervalMs);
+  }, delayMs);
+  timer.unref();
+}
+
+/**
+ * Start running every registered job on its interval.
+ * Does nothing when SCHEDULER_ENABLED=false.
+ */
+export async function startScheduler(): Promise<void> {
+  if (process.env.SCHEDULER_ENABLED === 'false') {
+    console.log('Job scheduler disabled (SCHEDULER_ENABLED=false)');
+    return;
+  }
+
+  // Close out runs that were interrupted by the last shutdown
+  await db.update(jobRuns)
+    .set({ status: 'failed', finishedAt: new Date(), error: 'Interrupted by server restart' })
+    .where(and(
+      eq(jobRuns.status, 'running'),
+      lt(jobRuns.startedAt, new Date(Date.now() - STALE_RUN_MS))
+    ));
+
+  for (const job of Array.from(jobs.values())) {
+    schedule(job, STARTUP_DELAY_MS);
+  }
+  console.log(`Job scheduler started: ${Array.from(jobs.keys()).join(', ')}`);
+}
+
+/**
+ * Registered jobs with their next scheduled run and most recent recorded run
+ */
+export async function getJobStatuses(): Promise<JobStatus[]> {
+  return Promise.all(Array.from(jobs.values()).map(async job => {
+    const [lastRun] = await db.select()
+      .from(jobRuns)
+      .where(eq(jobRuns.job, job.name))
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(1);
+
+    return {
+      name: job.name,
+      description: job.description,
+      intervalMs: job.intervalMs,
+      running: running.has(job.name),
+      nextRunAt: nextRuns.get(job.name) || null,
+      lastRun: lastRun || null
+    };
+  }));
+}
+
+/**
+ * Recorded runs, most recent first, optionally for one job
+ */
+export async function getJobRuns(job: string | undefined, limit: number, offset: number): Promise<PageResult<JobRun>> {
+  const condition = job ? eq(jobRuns.job, job) : undefined;
+
+  const [items, [{ total }]] = await Promise.all([
+    db.select()
+      .from(jobRuns)
+      .where(condition)
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(limit)
+      .offset(offset),
+    db.select({ total: count() })
+      .from(jobRuns)
+      .where(condition)
+  ]);
+
+  return { items, total };
+}
+
+export function isRegisteredJob(name: string): boolean {
+  return jobs.has(name);
+}
@@ -0,0 +1,55 @@
+import { pool } from '../db';
+import { getStructuredHours } from '@shared/hours';
+
+const BATCH_SIZE = 500;
+
+/**
+ * Parse the free-text hours of every laundromat into the hours_structured column.
+ * Rows that already have structured hours are skipped unless --force is passed.
+ */
+async function backfillHours(force: boolean) {
+  let lastId = 0;
+  let updated = 0;
+  let unparsed = 0;
+
+  try {
+    while (true) {
+      const result = await pool.query(`
+        SELECT id, state, hours, google_data
+        FROM laundromats
+        WHERE id > $1 ${force ? '' : 'AND hours_structured IS NULL'}
+        ORDER BY id ASC
+        LIMIT ${BATCH_SIZE}
+      `, [lastId]);
+
+      if (result.rows.length === 0) break;
+
+      for (const row of result.rows) {
+        lastId = row.id;
+
+        const structured = getStructuredHours(row);
+        if (!structured) {
+          unparsed++;
+          continue;
+        }
+
+        await pool.query(
+          'UPDATE laundromats SET hours_structured = $1 WHERE id = $2',
+          [JSON.stringify(structured), row.id]
+        );
+        updated++;
+      }
+
+      console.log(`Processed laundromats up to id ${lastId} (${updated} updated, ${unparsed} unparsed)`);
+    }
+
+    console.log(`Hours backfill completed: ${updated} updated, ${unparsed} could not be parsed`);
+  } catch (error) {
+    console.error('Error backfilling hours:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+backfillHours(process.argv.includes('--force'));
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+import { pool } from '../db';
+import {
+  createImportJob,
+  getImportJob,
+  IMPORT_DIR,
+  requeueStaleJobs,
+  resumeImportJob,
+  runImportJobNow
+} from '../import-jobs';
+import type { ImportJob } from '@shared/schema';
+
+const PROGRESS_INTERVAL_MS = 5000;
+
+const USAGE = `Usage:
+  npm run import -- <file> [<file> ...] [--dry-run] [--batch-size=200] [--states=TX,OK]
+  npm run import -- --resume <job id>
+
+Files are CSV or JSON under ${IMPORT_DIR} (set IMPORT_DIR to change it).`;
+
+function option(args: string[], name: string): string | undefined {
+  const arg = args.find(a => a.startsWith(`--${name}=`));
+  return arg?.slice(name.length + 3);
+}
+
+// Accept paths relative to IMPORT_DIR or to the current directory
+function toImportPath(file: string): string {
+  const fromCwd = path.resolve(file);
+  return fs.existsSync(fromCwd) ? path.relative(IMPORT_DIR, fromCwd) : file;
+}
+
+function describe(job: ImportJob): string {
+  return `${job.processedRows}/${job.totalRows} rows: ${job.importedRows} imported, ` +
+    `${job.duplicateRows} duplicates, ${job.skippedRows} skipped, ${job.errorRows} errors`;
+}
+
+/**
+ * Run an import job in this process, printing progress until it finishes.
+ * The job shows up in /admin/imports like any other, and can be resumed from either.
+ */
+async function runImport(args: string[]) {
+  try {
+    let jobId: number;
+    const resumeIndex = args.indexOf('--resume');
+    if (resumeIndex !== -1) {
+      jobId = parseInt(args[resumeIndex + 1]);
+      // A job cut off by a crash is still marked running until it's requeued
+      await requeueStaleJobs();
+      if ((await getImportJob(jobId))?.status !== 'queued') {
+        const result = await resumeImportJob(jobId);
+        if (!result.ok) throw new Error(result.message);
+      }
+    } else {
+      const files = args.filter(arg => !arg.startsWith('--')).map(toImportPath);
+      const batchSize = option(args, 'batch-size');
+      const result = await createImportJob(files, {
+        dryRun: args.includes('--dry-run'),
+        batchSize: batchSize ? parseInt(batchSize) : undefined,
+        states: option(args, 'states')?.split(',').map(state => state.trim()).filter(Boolean),
+      }, null);
+      if (!result.ok) throw new Error(result.message);
+      jobId = result.value.id;
+    }
+    console.log(`Running import job ${jobId}`);
+
+    const progress = setInterval(async () => {
+      const job = await getImportJob(jobId);
+      if (job) console.log(describe(job));
+    }, PROGRESS_INTERVAL_MS);
+
+    const job = await runImportJobNow(jobId).finally(() => clearInterval(progress));
+    if (!job) {
+      throw new Error(`Import job ${jobId} was picked up by another process; follow it at /admin/imports`);
+    }
+
+    console.log(`Import job ${job.id} ${job.status}${job.options.dryRun ? ' (dry run)' : ''}: ${describe(job)}`);
+    if (job.error) console.error(job.error);
+    if (job.errorRows > 0) console.log('Row errors are listed at /admin/imports');
+    if (job.status !== 'completed') process.exitCode = 1;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    console.error(USAGE);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+runImport(process.argv.slice(2));
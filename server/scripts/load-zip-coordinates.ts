@@ -0,0 +1,212 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { parse } from 'csv-parse/sync';
+import { pool } from '../db';
+
+const DEFAULT_FILE = path.join(process.cwd(), 'data', 'zip-centroids.csv');
+// Census ZCTA gazetteer: an internal point for every US ZIP code area, public domain
+const GAZETTEER_URL = 'https://www2.census.gov/geo/docs/maps-data/data/gazetteer/2023_Gazetteer/2023_Gaz_zcta_national.zip';
+const BATCH_SIZE = 500;
+
+// Accepted header names, so the bundled file and the Census ZCTA gazetteer both load as-is
+const COLUMN_ALIASES = {
+  zip: ['zip', 'zipcode', 'zip_code', 'zcta', 'zcta5', 'geoid'],
+  city: ['city', 'primary_city', 'place'],
+  state: ['state', 'state_abbr', 'usps'],
+  latitude: ['latitude', 'lat', 'intptlat'],
+  longitude: ['longitude', 'lng', 'lon', 'long', 'intptlong']
+};
+
+interface ZipCentroid {
+  zip: string;
+  city: string | null;
+  state: string | null;
+  latitude: number;
+  longitude: number;
+}
+
+function findColumn(headers: string[], aliases: string[]): string | undefined {
+  return headers.find(header => aliases.includes(header.trim().toLowerCase()));
+}
+
+/**
+ * The one file in a zip archive, e.g. the .txt inside a Census gazetteer download
+ */
+function unzipSingleFile(archive: Buffer): Buffer {
+  // The end of central directory record is in the last 64 KB (22 bytes plus a comment)
+  let end = archive.length - 22;
+  while (end >= Math.max(0, archive.length - 65557) && archive.readUInt32LE(end) !== 0x06054b50) end--;
+  if (end < 0 || archive.readUInt32LE(end) !== 0x06054b50) {
+    throw new Error('Not a zip archive');
+  }
+
+  const entry = archive.readUInt32LE(end + 16);
+  const method = archive.readUInt16LE(entry + 10);
+  const compressedSize = archive.readUInt32LE(entry + 20);
+  const header = archive.readUInt32LE(entry + 42);
+  const start = header + 30 + archive.readUInt16LE(header + 26) + archive.readUInt16LE(header + 28);
+  const data = archive.subarray(start, start + compressedSize);
+
+  if (method === 0) return data;
+  if (method === 8) return zlib.inflateRawSync(data);
+  throw new Error(`Unsupported zip compression method ${method}`);
+}
+
+/**
+ * The text of a local file or URL, unzipped when it's a zip archive
+ */
+async function readSource(source: string): Promise<string> {
+  let content: Buffer;
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`Download of ${source} failed: ${response.status} ${response.statusText}`);
+    }
+    content = Buffer.from(await response.arrayBuffer());
+  } else {
+    content = fs.readFileSync(source);
+  }
+
+  // Zip archives start with "PK"
+  const isZip = content.length > 4 && content.readUInt32LE(0) === 0x04034b50;
+  return (isZip ? unzipSingleFile(content) : content).toString('utf8');
+}
+
+/**
+ * Read ZIP centroids from comma or tab separated text
+ */
+function readCentroids(content: string, source: string): ZipCentroid[] {
+  const firstLine = content.split(/\r?\n/, 1)[0];
+
+  const records: Record<string, string>[] = parse(content, {
+    columns: true,
+    delimiter: firstLine.includes('\t') ? '\t' : ',',
+    skip_empty_lines: true,
+    trim: true
+  });
+
+  if (records.length === 0) return [];
+
+  const headers = Object.keys(records[0]);
+  const zipColumn = findColumn(headers, COLUMN_ALIASES.zip);
+  const latColumn = findColumn(headers, COLUMN_ALIASES.latitude);
+  const lngColumn = findColumn(headers, COLUMN_ALIASES.longitude);
+  const cityColumn = findColumn(headers, COLUMN_ALIASES.city);
+  const stateColumn = findColumn(headers, COLUMN_ALIASES.state);
+
+  if (!zipColumn || !latColumn || !lngColumn) {
+    throw new Error(`${source} needs zip, latitude and longitude columns (found: ${headers.join(', ')})`);
+  }
+
+  const centroids: ZipCentroid[] = [];
+
+  for (const record of records) {
+    const zip = (record[zipColumn] || '').padStart(5, '0');
+    const latitude = parseFloat(record[latColumn]);
+    const longitude = parseFloat(record[lngColumn]);
+
+    if (!/^\d{5}$/.test(zip) || isNaN(latitude) || isNaN(longitude)) continue;
+
+    centroids.push({
+      zip,
+      city: cityColumn ? record[cityColumn] || null : null,
+      state: stateColumn ? (record[stateColumn] || '').toUpperCase() || null : null,
+      latitude,
+      longitude
+    });
+  }
+
+  return centroids;
+}
+
+/**
+ * Upsert a batch of centroids, keeping any existing city/state when the file has none
+ */
+async function upsertCentroids(batch: ZipCentroid[]) {
+  const values: any[] = [];
+  const placeholders = batch.map((centroid, index) => {
+    const offset = index * 5;
+    values.push(centroid.zip, centroid.city, centroid.state, centroid.latitude, centroid.longitude);
+    return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5})`;
+  });
+
+  await pool.query(`
+    INSERT INTO zip_coordinates (zip, city, state, latitude, longitude)
+    VALUES ${placeholders.join(', ')}
+    ON CONFLICT (zip) DO UPDATE SET
+      city = COALESCE(EXCLUDED.city, zip_coordinates.city),
+      state = COALESCE(EXCLUDED.state, zip_coordinates.state),
+      latitude = EXCLUDED.latitude,
+      longitude = EXCLUDED.longitude
+  `, values);
+}
+
+/**
+ * Fill in ZIP codes we have listings for but no centroid, using the average
+ * location of the laundromats in each ZIP
+ */
+async function loadFromLaundromats(): Promise<number> {
+  const result = await pool.query(`
+    INSERT INTO zip_coordinates (zip, city, state, latitude, longitude)
+    SELECT
+      zip,
+      MIN(city),
+      UPPER(MIN(state)),
+      AVG(ST_Y(location::geometry)),
+      AVG(ST_X(location::geometry))
+    FROM laundromats
+    WHERE location IS NOT NULL AND zip ~ '^[0-9]{5}$'
+    GROUP BY zip
+    ON CONFLICT (zip) DO NOTHING
+  `);
+
+  return result.rowCount || 0;
+}
+
+/**
+ * Load US ZIP code centroids into zip_coordinates for offline geocoding.
+ *
+ * With no file, the Census ZCTA gazetteer is downloaded, then the bundled
+ * data/zip-centroids.csv adds city and state names for the most searched ZIP codes.
+ *
+ * Usage:
+ *   npm run db:load-zips                      # Census gazetteer and bundled names
+ *   npm run db:load-zips -- 2023_Gaz_zcta_national.zip
+ *   npm run db:load-zips -- data/zip-centroids.csv --from-laundromats
+ *   npm run db:load-zips -- --from-laundromats
+ */
+async function loadZipCoordinates(args: string[]) {
+  const fromLaundromats = args.includes('--from-laundromats');
+  const files = args.filter(arg => !arg.startsWith('--'));
+  const sources = files.length ? files : fromLaundromats ? [] : [GAZETTEER_URL, DEFAULT_FILE];
+
+  try {
+    for (const source of sources) {
+      const centroids = readCentroids(await readSource(source), source);
+      console.log(`Loading ${centroids.length} ZIP centroids from ${source}`);
+
+      for (let i = 0; i < centroids.length; i += BATCH_SIZE) {
+        await upsertCentroids(centroids.slice(i, i + BATCH_SIZE));
+        console.log(`Loaded ${Math.min(i + BATCH_SIZE, centroids.length)} of ${centroids.length}`);
+      }
+    }
+
+    if (fromLaundromats) {
+      const added = await loadFromLaundromats();
+      console.log(`Added ${added} ZIP centroids from laundromat locations`);
+    }
+
+    // Cached lookups may predate the new centroids
+    await pool.query(`DELETE FROM geocode_cache WHERE source != 'zip_coordinates'`);
+
+    console.log('ZIP coordinates loaded successfully');
+  } catch (error) {
+    console.error('Error loading ZIP coordinates:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+loadZipCoordinates(process.argv.slice(2));
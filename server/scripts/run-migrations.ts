@@ -0,0 +1,46 @@
+import fs from 'fs';
+import path from 'path';
+import { pool } from '../db';
+
+const MIGRATIONS_DIR = path.join(process.cwd(), 'migrations');
+
+/**
+ * Apply the hand-written SQL migrations in ./migrations in filename order.
+ * Each file is written to be idempotent, so re-running the whole set is safe.
+ * Pass a filename to apply a single migration.
+ */
+async function runMigrations(only?: string) {
+  if (!fs.existsSync(MIGRATIONS_DIR)) {
+    console.error(`Migrations directory not found: ${MIGRATIONS_DIR}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const files = fs.readdirSync(MIGRATIONS_DIR)
+    .filter(file => file.endsWith('.sql'))
+    .filter(file => !only || file === only)
+    .sort();
+
+  if (files.length === 0) {
+    console.log('No migrations to apply');
+    return;
+  }
+
+  try {
+    for (const file of files) {
+      console.log(`Applying migration ${file}...`);
+      const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8');
+      await pool.query(sql);
+      console.log(`Applied ${file}`);
+    }
+
+    console.log('Migrations completed successfully');
+  } catch (error) {
+    console.error('Error applying migrations:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+runMigrations(process.argv[2]);
@@ -0,0 +1,74 @@
+import fs from 'fs';
+import axios from 'axios';
+import Stripe from 'stripe';
+
+const DEFAULT_URL = 'http://localhost:5000/api/stripe-webhook';
+
+function option(args: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return args.find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+/**
+ * Point an event payload at a different Stripe subscription id
+ */
+function setSubscriptionId(event: any, subscriptionId: string) {
+  const object = event.data.object;
+
+  if (object.object === 'subscription') {
+    object.id = subscriptionId;
+  } else if (object.parent?.subscription_details) {
+    object.parent.subscription_details.subscription = subscriptionId;
+  } else {
+    object.subscription = subscriptionId;
+  }
+}
+
+/**
+ * Sign a Stripe event payload with STRIPE_WEBHOOK_SECRET and post it to the
+ * webhook endpoint, the same way Stripe delivers it.
+ *
+ * Usage:
+ *   npm run stripe:send-event -- data/stripe-events/invoice.paid.json --subscription=sub_123
+ *   npm run stripe:send-event -- event.json --url=https://staging.example.com/api/stripe-webhook
+ *
+ * Each send gets a fresh event id unless --keep-id is passed (to test redelivery).
+ */
+async function sendStripeEvent(args: string[]) {
+  const file = args.find(arg => !arg.startsWith('--'));
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+
+  if (!file || !secret) {
+    console.error('Usage: STRIPE_WEBHOOK_SECRET=whsec_... npm run stripe:send-event -- <event.json> [--subscription=sub_...] [--url=...] [--keep-id]');
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const event = JSON.parse(fs.readFileSync(file, 'utf8'));
+
+    const subscriptionId = option(args, 'subscription');
+    if (subscriptionId) setSubscriptionId(event, subscriptionId);
+
+    if (!args.includes('--keep-id')) {
+      event.id = `${event.id}_${Date.now()}`;
+    }
+
+    const payload = JSON.stringify(event);
+    const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret });
+    const url = option(args, 'url') || DEFAULT_URL;
+
+    const response = await axios.post(url, payload, {
+      headers: { 'Content-Type': 'application/json', 'Stripe-Signature': signature },
+      validateStatus: () => true
+    });
+
+    console.log(`${event.type} (${event.id}) -> ${response.status}`, response.data);
+    if (response.status >= 400) process.exitCode = 1;
+  } catch (error) {
+    console.error('Error sending Stripe event:', error);
+    process.exitCode = 1;
+  }
+}
+
+sendStripeEvent(process.argv.slice(2));
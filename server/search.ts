@@ -0,0 +1,216 @@
+/**
+ * Laundromat Text Search
+ *
+ * Name/address/city/services searches run against the weighted `search_vector`
+ * tsvector (GIN indexed, maintained by a trigger - see
+ * migrations/0002_laundromat_search.sql), with trigram word similarity on
+ * name and city so misspelled queries still match.
+ *
+ * Results are ordered by a blended score of text relevance, distance (when a
+ * search location is given), rating and the listing's premium search priority.
+ * Search filters and facet counts come from server/filters.ts.
+ */
+import type { PoolClient } from '@neondatabase/serverless';
+import { pool } from './db';
+import { METERS_PER_MILE, GeoPoint } from './geo';
+import { filterConditions, getLaundromatFacets } from './filters';
+import { PREMIUM_FEATURES } from '@shared/premium-features';
+import type { LaundromatFilters, FacetCounts } from '@shared/filters';
+
+export interface TextSearchOptions {
+  // Column list to select, defaults to every column
+  columns?: string;
+  limit?: number;
+  offset?: number;
+  // Boost (and optionally restrict to) results near this point
+  near?: GeoPoint;
+  radiusMiles?: number;
+  filters?: LaundromatFilters;
+}
+
+export interface TextSearchResult {
+  rows: any[];
+  total: number;
+}
+
+// How much each signal contributes to the final score (each signal is scaled to 0-1)
+export const SEARCH_WEIGHTS = {
+  text: 0.55,
+  distance: 0.2,
+  rating: 0.15,
+  premium: 0.1
+};
+
+// Minimum trigram word similarity for a fuzzy name/city match (pg_trgm default is 0.6)
+const FUZZY_THRESHOLD = 0.4;
+
+// Distance at which the distance signal drops to half
+const DISTANCE_HALF_SCORE_MILES = 5;
+
+const DEFAULT_LIMIT = 20;
+
+/**
+ * Build a prefix tsquery from free text, e.g. "Wash & Fold aus" -> "wash:* & fold:* & aus:*".
+ * Returns null when the text has no searchable words.
+ */
+export function toPrefixTsQuery(text: string): string | null {
+  const terms = text.toLowerCase().match(/[a-z0-9]+/g);
+  if (!terms || terms.length === 0) return null;
+  return terms.map(term => `${term}:*`).join(' & ');
+}
+
+// Premium boost from PREMIUM_FEATURES.searchPriority (1 = featured, highest) scaled to 0-1
+function premiumBoostSql(): string {
+  const priorities = PREMIUM_FEATURES.searchPriority;
+  const range = priorities.basic - priorities.featured;
+  const boost = (priority: number) => (priorities.basic - priority) / range;
+
+  return `CASE listing_type
+      WHEN 'featured' THEN ${boost(priorities.featured)}
+      WHEN 'premium' THEN ${boost(priorities.premium)}
+      ELSE ${boost(priorities.basic)}
+    END`;
+}
+
+interface TextSearchScope {
+  params: any[];
+  // Conditions matching the query (and radius), before any filters
+  conditions: string[];
+  relevanceSql: string;
+  distanceSql: string;
+  distanceScoreSql: string;
+}
+
+/**
+ * Build the match conditions and scoring expressions for a text search
+ */
+function buildTextSearchScope(query: string, near?: GeoPoint, radiusMiles?: number): TextSearchScope {
+  const text = query.trim();
+  const tsQuery = toPrefixTsQuery(text);
+
+  const params: any[] = [];
+  const param = (value: any) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  const conditions: string[] = [];
+  let relevanceSql = '0';
+
+  if (text) {
+    const textParam = param(text);
+    const matches = [
+      `${textParam} <% name`,
+      `${textParam} <% city`
+    ];
+    let rankSql = '0';
+
+    if (tsQuery) {
+      const tsQueryParam = param(tsQuery);
+      matches.unshift(`search_vector @@ to_tsquery('english', ${tsQueryParam})`);
+      rankSql = `ts_rank_cd(search_vector, to_tsquery('english', ${tsQueryParam}), 32)`;
+    }
+
+    conditions.push(`(${matches.join(' OR ')})`);
+    relevanceSql = `(${rankSql} + GREATEST(word_similarity(${textParam}, name), word_similarity(${textParam}, city))) / 2`;
+  }
+
+  let distanceSql = 'NULL::float';
+  let distanceScoreSql = '0';
+
+  if (near) {
+    const point = `ST_SetSRID(ST_MakePoint(${param(near.lng)}, ${param(near.lat)}), 4326)::geography`;
+    distanceSql = `ST_Distance(location, ${point}) / ${METERS_PER_MILE}`;
+    distanceScoreSql = `COALESCE(1 / (1 + (${distanceSql}) / ${DISTANCE_HALF_SCORE_MILES}), 0)`;
+
+    if (radiusMiles) {
+      conditions.push(`location IS NOT NULL AND ST_DWithin(location, ${point}, ${param(radiusMiles * METERS_PER_MILE)})`);
+    }
+  }
+
+  return { params, conditions, relevanceSql, distanceSql, distanceScoreSql };
+}
+
+/**
+ * Run queries on one connection with the fuzzy match threshold set.
+ * The threshold is a session setting, so it has to be set on the same connection.
+ */
+async function withFuzzyThreshold<T>(run: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(`SELECT set_config('pg_trgm.word_similarity_threshold', $1, true)`, [String(FUZZY_THRESHOLD)]);
+    const result = await run(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Search laundromats by name, address, city, state, ZIP, services and amenities.
+ * An empty query ranks every laundromat (or every one within the radius) by the
+ * non-text signals. Each row gets a `relevance` and, with `near`, a `distance` in miles.
+ */
+export async function searchLaundromatsByText(query: string, options: TextSearchOptions = {}): Promise<TextSearchResult> {
+  const { columns = '*', limit = DEFAULT_LIMIT, offset = 0, near, radiusMiles, filters } = options;
+  const { params, conditions, relevanceSql, distanceSql, distanceScoreSql } = buildTextSearchScope(query, near, radiusMiles);
+
+  if (filters) {
+    conditions.push(...filterConditions(filters, params));
+  }
+
+  const ratingScoreSql = `LEAST(CASE WHEN rating IS NULL OR rating = '' THEN 0 ELSE rating::float END, 5) / 5`;
+
+  const scoreSql = `
+    ${SEARCH_WEIGHTS.text} * (${relevanceSql}) +
+    ${SEARCH_WEIGHTS.distance} * ${distanceScoreSql} +
+    ${SEARCH_WEIGHTS.rating} * ${ratingScoreSql} +
+    ${SEARCH_WEIGHTS.premium} * ${premiumBoostSql()}
+  `;
+
+  const buildSql = (pageLimit: number, pageOffset: number) => `
+    SELECT ${columns},
+      ${relevanceSql} AS relevance,
+      ${distanceSql} AS distance,
+      ${scoreSql} AS search_score,
+      COUNT(*) OVER () AS total_count
+    FROM laundromats
+    ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+    ORDER BY search_score DESC, id ASC
+    LIMIT ${pageLimit}
+    OFFSET ${pageOffset}
+  `;
+
+  return withFuzzyThreshold(async client => {
+    const result = await client.query(buildSql(limit, offset), params);
+
+    let total = result.rows.length > 0 ? parseInt(result.rows[0].total_count) : 0;
+    if (result.rows.length === 0 && offset > 0) {
+      // Paged past the end - the window count is only available on a returned row
+      const countResult = await client.query(buildSql(1, 0), params);
+      total = countResult.rows.length > 0 ? parseInt(countResult.rows[0].total_count) : 0;
+    }
+
+    const rows = result.rows.map(({ location, search_vector, total_count, ...row }) => ({
+      ...row,
+      relevance: parseFloat(row.relevance),
+      distance: row.distance === null ? undefined : parseFloat(row.distance),
+      search_score: parseFloat(row.search_score)
+    }));
+
+    return { rows, total };
+  });
+}
+
+/**
+ * Count facet values (see server/filters.ts) for a text search
+ */
+export async function getTextSearchFacets(query: string, options: Pick<TextSearchOptions, 'near' | 'radiusMiles' | 'filters'> = {}): Promise<FacetCounts> {
+  const { params, conditions } = buildTextSearchScope(query, options.near, options.radiusMiles);
+  return withFuzzyThreshold(client => getLaundromatFacets(conditions, params, options.filters || {}, client));
+}
@@ -0,0 +1,100 @@
+/**
+ * Slug History
+ *
+ * Laundromats, cities, states and laundry tips are found by slug in their URLs. When a
+ * slug changes (a listing is renamed, a city's name or state is corrected) a trigger on
+ * each table keeps the old slug in slug_history, so changes made by scripts are caught
+ * too; see migrations/0005_slug_history.sql. Old slugs answer with a 301 to the current
+ * URL, for the site's pages and for the API.
+ *
+ * A slug only redirects while nothing of the same kind uses it again. Listings merged
+ * into another hand their slugs over to the survivor (see duplicates.ts).
+ *
+ * URLs in the shapes older sitemaps published (/state/tx, /city/austin/tx, /tips/...)
+ * also answer with a 301 to the pages that serve them; see LEGACY_PAGES.
+ */
+import { and, eq } from 'drizzle-orm';
+import { pool, type Transaction } from './db';
+import { slugHistory, type SlugEntityType } from '@shared/schema';
+
+const ENTITY_TABLES: Record<SlugEntityType, string> = {
+  laundromat: 'laundromats',
+  city: 'cities',
+  state: 'states',
+  tip: 'laundry_tips',
+};
+
+// Pages found by slug, as Express paths with a :slug parameter
+export const SLUG_PAGES: Array<{ path: string; entityType: SlugEntityType }> = [
+  { path: '/laundromat/:slug', entityType: 'laundromat' },
+  { path: '/cities/:slug', entityType: 'city' },
+  { path: '/laundromats/:slug', entityType: 'city' },
+  { path: '/states/:slug', entityType: 'state' },
+  { path: '/laundry-tips/:slug', entityType: 'tip' },
+  // State pages also answer at the top level, e.g. /texas
+  { path: '/:slug', entityType: 'state' },
+];
+
+// What a slug can look like; anything else (files, dev server paths) isn't looked up
+const SLUG_PATTERN = /^[\w-]+$/;
+
+// Where a legacy URL's page lives now, or null when there's no such page
+type LegacyResolver = (params: Record<string, string>) => Promise<string | null>;
+
+// URL shapes older sitemaps published, as Express paths, though the site never served them
+export const LEGACY_PAGES: Array<{ path: string; resolve: LegacyResolver }> = [
+  { path: '/tips', resolve: async () => '/laundry-tips' },
+  { path: '/tips/:slug', resolve: async ({ slug }) => `/laundry-tips/${encodeURIComponent(slug)}` },
+  {
+    path: '/state/:abbr',
+    resolve: async ({ abbr }) => {
+      const result = await pool.query<{ slug: string }>('SELECT slug FROM states WHERE LOWER(abbr) = LOWER($1) LIMIT 1', [abbr]);
+      return result.rows[0] ? `/states/${encodeURIComponent(result.rows[0].slug)}` : null;
+    }
+  },
+  {
+    // City names were dashed the same way city slugs are, which end in the state
+    path: '/city/:name/:state',
+    resolve: async ({ name, state }) => {
+      const slug = `${name}-${state}`.toLowerCase();
+      const result = await pool.query<{ slug: string }>('SELECT slug FROM cities WHERE slug = $1', [slug]);
+      const current = result.rows[0]?.slug ?? await findCurrentSlug('city', slug);
+      return current ? `/laundromats/${encodeURIComponent(current)}` : null;
+    }
+  },
+];
+
+/**
+ * The current slug for an old one, or null when the slug was never used or something
+ * of the same kind uses it now
+ */
+export async function findCurrentSlug(entityType: SlugEntityType, slug: string): Promise<string | null> {
+  if (!SLUG_PATTERN.test(slug)) return null;
+  const table = ENTITY_TABLES[entityType];
+  const result = await pool.query<{ slug: string }>(`
+    SELECT entity.slug
+    FROM slug_history history
+    JOIN ${table} entity ON entity.id = history.entity_id
+    WHERE history.entity_type = $1
+      AND history.slug = $2
+      AND NOT EXISTS (SELECT 1 FROM ${table} live WHERE live.slug = $2)
+    LIMIT 1
+  `, [entityType, slug]);
+  return result.rows[0]?.slug ?? null;
+}
+
+/**
+ * Send an entity's old slugs, and its current `slug`, to another entity of the same
+ * kind that takes its place
+ */
+export async function transferSlugs(tx: Transaction, entityType: SlugEntityType, fromId: number, toId: number, slug: string) {
+  await tx.update(slugHistory)
+    .set({ entityId: toId })
+    .where(and(eq(slugHistory.entityType, entityType), eq(slugHistory.entityId, fromId)));
+  await tx.insert(slugHistory)
+    .values({ entityType, entityId: toId, slug })
+    .onConflictDoUpdate({
+      target: [slugHistory.entityType, slugHistory.slug],
+      set: { entityId: toId, createdAt: new Date() }
+    });
+}
@@ -0,0 +1,89 @@
+/**
+ * Text Messages
+ *
+ * One-time codes for phone verification of business claims are sent through a
+ * pluggable transport chosen by SMS_TRANSPORT:
+ *   - console: print messages to the server log (default in development)
+ *   - twilio:  deliver through the Twilio Messages API (TWILIO_ACCOUNT_SID,
+ *              TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER)
+ * When SMS_TRANSPORT is unset, Twilio is used if an account is configured.
+ */
+import axios from 'axios';
+
+export interface SmsMessage {
+  to: string; // E.164, e.g. +13035551234
+  text: string;
+}
+
+export interface ISmsTransport {
+  readonly name: string;
+  send(message: SmsMessage): Promise<void>;
+}
+
+/**
+ * Logs messages instead of sending them
+ */
+export class ConsoleSmsTransport implements ISmsTransport {
+  readonly name = 'console';
+
+  async send(message: SmsMessage): Promise<void> {
+    console.log(`[sms] To: ${message.to}\n${message.text}`);
+  }
+}
+
+/**
+ * Sends messages through the Twilio Messages API
+ */
+export class TwilioSmsTransport implements ISmsTransport {
+  readonly name = 'twilio';
+
+  constructor(private accountSid: string, private authToken: string, private from: string) {}
+
+  async send(message: SmsMessage): Promise<void> {
+    await axios.post(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+      new URLSearchParams({ To: message.to, From: this.from, Body: message.text }),
+      {
+        auth: { username: this.accountSid, password: this.authToken },
+        timeout: 10000
+      }
+    );
+  }
+}
+
+/**
+ * A US phone number in E.164 form, or null if it doesn't look like one
+ */
+export function toE164(phone: string): string | null {
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+  return null;
+}
+
+/**
+ * Build the SMS transport configured by the environment
+ */
+export function createSmsTransport(): ISmsTransport {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const from = process.env.TWILIO_FROM_NUMBER;
+  const transport = process.env.SMS_TRANSPORT || (accountSid ? 'twilio' : 'console');
+
+  switch (transport) {
+    case 'twilio':
+      if (!accountSid || !authToken || !from) {
+        throw new Error('TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER must be set to use the twilio SMS transport');
+      }
+      return new TwilioSmsTransport(accountSid, authToken, from);
+    case 'console':
+      if (process.env.NODE_ENV === 'production') {
+        console.warn('SMS_TRANSPORT is console in production - verification codes will only be logged');
+      }
+      return new ConsoleSmsTransport();
+    default:
+      throw new Error(`Unknown SMS_TRANSPORT "${transport}" (expected console or twilio)`);
+  }
+}
+
+export const sms = createSmsTransport();
@@ -13,8 +13,15 @@ import {
   type InsertLaundromat,
   type Review,
   type InsertReview,
+  type ReviewStatus,
+  type ReviewReport,
+  type InsertReviewReport,
+  type ReviewPhoto,
+  type InsertReviewPhoto,
   type Favorite,
   type InsertFavorite,
+  type FavoriteList,
+  type InsertFavoriteList,
   type City,
   type InsertCity,
   type State,
@@ -24,7 +31,12 @@ import {
   type LaundryTip,
   type InsertLaundryTip
 } from "@shared/schema";
+import { LaundromatFilters, matchesFilters } from "@shared/filters";
+import { limitPremiumContent, type PremiumContent } from "@shared/premium-features";
+import { computeSubRatings } from "@shared/reviews";
 import { db } from "./db";
+import { filterOpenAt } from "./utils/hours";
+import { PageResult } from "./utils/pagination";
 import { eq, and, or, gte, lte, desc, asc, ilike, sql } from "drizzle-orm";
 
 // Interface for storage operations
@@ -32,6 +44,7 @@ export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, data: Partial<InsertUser>): Promise<User | undefined>;
   
@@ -40,6 +53,8 @@ export interface IStorage {
   getLaundryBySlug(slug: string): Promise<Laundromat | undefined>;
   getLaundromatsForUser(userId: number): Promise<Laundromat[]>;
   searchLaundromats(query: string, filters?: any): Promise<Laundromat[]>;
+  // One page of search matches (`limit`/`offset` filters) with the total match count
+  searchLaundromatsPage(query: string, filters?: any): Promise<PageResult<Laundromat>>;
   getLaundromatsNearby(lat: string, lng: string, radius?: number): Promise<Laundromat[]>;
   getNearbyLaundromats(currentId: number, lat: number, lng: number, radius?: number): Promise<Laundromat[]>;
   getFeaturedLaundromats(): Promise<Laundromat[]>;
@@ -48,24 +63,48 @@ export interface IStorage {
   updateLaundromat(id: number, data: Partial<InsertLaundromat>): Promise<Laundromat | undefined>;
   
   // Review operations
+  // Approved reviews for a listing, newest first
   getReviews(laundryId: number): Promise<Review[]>;
+  getReview(id: number): Promise<Review | undefined>;
+  getUserReview(userId: number, laundryId: number): Promise<Review | undefined>;
   createReview(review: InsertReview): Promise<Review>;
+  // Updates a review and recomputes the listing's rating from approved reviews
+  updateReview(id: number, changes: Partial<Review>): Promise<Review | undefined>;
+  // Moderation queue, oldest first
+  getReviewsByStatus(statuses: ReviewStatus[], limit: number, offset: number): Promise<PageResult<Review>>;
+  getReviewReports(reviewId: number): Promise<ReviewReport[]>;
+  // Records a report and counts it on the review; undefined if the user already reported it
+  reportReview(report: InsertReviewReport): Promise<Review | undefined>;
+  getReviewPhotos(reviewIds: number[]): Promise<ReviewPhoto[]>;
+  addReviewPhoto(photo: InsertReviewPhoto): Promise<ReviewPhoto>;
+  // Returns the deleted row so the caller can remove its file
+  deleteReviewPhoto(reviewId: number, id: number): Promise<ReviewPhoto | undefined>;
   
   // Favorite operations
-  getUserFavorites(userId: number): Promise<Laundromat[]>;
+  getUserFavorites(userId: number): Promise<{ favorite: Favorite, laundromat: Laundromat }[]>;
+  // Saves a favorite, or moves an existing one to `listId`
   addFavorite(favorite: InsertFavorite): Promise<Favorite>;
   removeFavorite(userId: number, laundryId: number): Promise<boolean>;
+  // Adds any of the laundromats that aren't already favorites; returns how many were added
+  mergeFavorites(userId: number, laundryIds: number[]): Promise<number>;
+  getFavoriteLists(userId: number): Promise<FavoriteList[]>;
+  createFavoriteList(list: InsertFavoriteList): Promise<FavoriteList>;
+  renameFavoriteList(userId: number, id: number, name: string): Promise<FavoriteList | undefined>;
+  // Deletes a list; its favorites are kept but no longer belong to a list
+  deleteFavoriteList(userId: number, id: number): Promise<boolean>;
   
   // Subscription operations
   createSubscription(subscription: InsertSubscription): Promise<Subscription>;
   getSubscription(id: number): Promise<Subscription | undefined>;
   getUserSubscriptions(userId: number): Promise<{ subscription: Subscription, laundromat: Partial<Laundromat> }[]>;
   cancelSubscription(id: number): Promise<Subscription | undefined>;
-  checkExpiredSubscriptions(): Promise<void>;
+  // Expires lapsed subscriptions and downgrades their listings; returns the expired rows
+  checkExpiredSubscriptions(): Promise<Subscription[]>;
   
   // Premium Features operations
   getLaundryPremiumFeatures(laundryId: number): Promise<any>;
-  updatePremiumFeatures(laundryId: number, features: any): Promise<boolean>;
+  // Writes the given premium fields; tier limits are checked by the caller
+  updatePremiumFeatures(laundryId: number, features: PremiumContent): Promise<boolean>;
   
   // Location operations
   getCities(stateAbbr?: string): Promise<City[]>;
@@ -83,7 +122,10 @@ export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private laundromats: Map<number, Laundromat>;
   private reviews: Map<number, Review>;
+  private reviewReports: Map<number, ReviewReport>;
+  private reviewPhotos: Map<number, ReviewPhoto>;
   private favorites: Map<number, Favorite>;
+  private favoriteLists: Map<number, FavoriteList>;
   private cities: Map<number, City>;
   private states: Map<number, State>;
   private subscriptions: Map<number, Subscription>;
@@ -92,7 +134,10 @@ export class MemStorage implements IStorage {
     users: number;
     laundromats: number;
     reviews: number;
+    reviewReports: number;
+    reviewPhotos: number;
     favorites: number;
+    favoriteLists: number;
     cities: number;
     states: number;
     subscriptions: number;
@@ -104,7 +149,10 @@ export class MemStorage implements IStorage {
     this.users = new Map();
     this.laundromats = new Map();
     this.reviews = new Map();
+    this.reviewReports = new Map();
+    this.reviewPhotos = new Map();
     this.favorites = new Map();
+    this.favoriteLists = new Map();
     this.cities = new Map();
     this.states = new Map();
     this.subscriptions = new Map();
@@ -115,7 +163,10 @@ export class MemStorage implements IStorage {
       users: 1,
       laundromats: 1,
       reviews: 1,
+      reviewReports: 1,
+      reviewPhotos: 1,
       favorites: 1,
+      favoriteLists: 1,
       cities: 1,
       states: 1,
       subscriptions: 1,
@@ -135,6 +186,10 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values()).find(user => user.username === username);
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.email.toLowerCase() === email.toLowerCase());
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentId.users++;
     const user: User = { ...insertUser, id, createdAt: new Date() };
@@ -161,6 +216,10 @@ export class MemStorage implements IStorage {
   }
 
   async searchLaundromats(query: string, filters: any = {}): Promise<Laundromat[]> {
+    return (await this.searchLaundromatsPage(query, filters)).items;
+  }
+
+  async searchLaundromatsPage(query: string, filters: any = {}): Promise<PageResult<Laundromat>> {
     let results = Array.from(this.laundromats.values());
     
     // Filter by query (name, city, state, zip)
@@ -175,26 +234,19 @@ export class MemStorage implements IStorage {
     }
     
     // Apply filters
-    if (filters.openNow) {
-      // Simple implementation - just return laundromats marked as 24 hours
-      results = results.filter(laundry => laundry.hours.includes('24 Hours'));
+    if (filters.openNow || filters.openAt) {
+      const openAt = filters.openAt ? new Date(filters.openAt) : new Date();
+      results = filterOpenAt(results, openAt);
     }
     
-    if (filters.services && filters.services.length) {
-      results = results.filter(laundry => 
-        filters.services.every((service: string) => 
-          laundry.services.includes(service)
-        )
-      );
-    }
+    const searchFilters: LaundromatFilters = { ...filters, minRating: filters.minRating ?? filters.rating };
+    results = results.filter(laundry => matchesFilters(laundry, searchFilters));
     
-    if (filters.rating) {
-      results = results.filter(laundry => 
-        parseFloat(laundry.rating) >= filters.rating
-      );
-    }
-    
-    return results;
+    const offset = filters.offset || 0;
+    return {
+      items: results.slice(offset, offset + (filters.limit || 20)),
+      total: results.length
+    };
   }
 
   async getLaundromatsNearby(lat: string, lng: string, radius: number = 10): Promise<Laundromat[]> {
@@ -280,7 +332,7 @@ export class MemStorage implements IStorage {
 
   async createLaundromat(insertLaundry: InsertLaundromat): Promise<Laundromat> {
     const id = this.currentId.laundromats++;
-    const laundry: Laundromat = { ...insertLaundry, id, createdAt: new Date() };
+    const laundry: Laundromat = { ...insertLaundry, id, location: null, searchVector: null, createdAt: new Date() };
     this.laundromats.set(id, laundry);
     
     // Update city and state count
@@ -300,39 +352,151 @@ export class MemStorage implements IStorage {
   
   async getLaundromatsForUser(userId: number): Promise<Laundromat[]> {
     return Array.from(this.laundromats.values())
-      .filter(laundry => laundry.ownerId === userId);
+      .filter(laundry => laundry.ownerId === userId)
+      .sort((a, b) => a.id - b.id);
   }
 
   // Review operations
   async getReviews(laundryId: number): Promise<Review[]> {
     return Array.from(this.reviews.values())
-      .filter(review => review.laundryId === laundryId);
+      .filter(review => review.laundryId === laundryId && review.status === 'approved')
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
+  }
+
+  async getReview(id: number): Promise<Review | undefined> {
+    return this.reviews.get(id);
+  }
+
+  async getUserReview(userId: number, laundryId: number): Promise<Review | undefined> {
+    return Array.from(this.reviews.values())
+      .find(review => review.userId === userId && review.laundryId === laundryId);
   }
 
   async createReview(insertReview: InsertReview): Promise<Review> {
+    if (await this.getUserReview(insertReview.userId, insertReview.laundryId)) {
+      throw new Error('This user has already reviewed this laundromat');
+    }
+    
     const id = this.currentId.reviews++;
-    const review: Review = { ...insertReview, id, createdAt: new Date() };
+    const now = new Date();
+    const review: Review = {
+      cleanlinessRating: null,
+      machineAvailabilityRating: null,
+      priceRating: null,
+      staffRating: null,
+      safetyRating: null,
+      comment: null,
+      status: 'pending',
+      moderationReasons: null,
+      moderatedBy: null,
+      moderatedAt: null,
+      reportCount: 0,
+      ownerReply: null,
+      ownerReplyAt: null,
+      ...insertReview,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
     this.reviews.set(id, review);
     
-    // Update laundromat rating
-    this.updateLaundryRating(review.laundryId);
+    // Pending reviews don't count towards the rating until they're approved
+    if (review.status === 'approved') {
+      this.updateLaundryRating(review.laundryId);
+    }
     
     return review;
   }
 
+  async updateReview(id: number, changes: Partial<Review>): Promise<Review | undefined> {
+    const review = this.reviews.get(id);
+    if (!review) return undefined;
+    
+    // Like the database, ignore fields that are undefined rather than clearing them
+    const defined = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+    const updated: Review = { ...review, ...defined, id, updatedAt: new Date() };
+    this.reviews.set(id, updated);
+    
+    // The rating changes when an approved review is edited, approved, rejected or flagged
+    if (review.status === 'approved' || updated.status === 'approved') {
+      this.updateLaundryRating(updated.laundryId);
+    }
+    
+    return updated;
+  }
+
+  async getReviewsByStatus(statuses: ReviewStatus[], limit: number, offset: number): Promise<PageResult<Review>> {
+    const matches = Array.from(this.reviews.values())
+      .filter(review => statuses.includes(review.status as ReviewStatus))
+      .sort((a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime());
+    
+    return { items: matches.slice(offset, offset + limit), total: matches.length };
+  }
+
+  async getReviewReports(reviewId: number): Promise<ReviewReport[]> {
+    return Array.from(this.reviewReports.values())
+      .filter(report => report.reviewId === reviewId);
+  }
+
+  async reportReview(insertReport: InsertReviewReport): Promise<Review | undefined> {
+    const review = this.reviews.get(insertReport.reviewId);
+    if (!review) return undefined;
+    
+    const existing = Array.from(this.reviewReports.values())
+      .find(report => report.reviewId === insertReport.reviewId && report.userId === insertReport.userId);
+    if (existing) return undefined;
+    
+    const id = this.currentId.reviewReports++;
+    this.reviewReports.set(id, { details: null, ...insertReport, id, createdAt: new Date() });
+    
+    const updated = { ...review, reportCount: review.reportCount + 1 };
+    this.reviews.set(review.id, updated);
+    return updated;
+  }
+
+  async getReviewPhotos(reviewIds: number[]): Promise<ReviewPhoto[]> {
+    return Array.from(this.reviewPhotos.values())
+      .filter(photo => reviewIds.includes(photo.reviewId));
+  }
+
+  async addReviewPhoto(insertPhoto: InsertReviewPhoto): Promise<ReviewPhoto> {
+    const id = this.currentId.reviewPhotos++;
+    const photo: ReviewPhoto = { ...insertPhoto, id, createdAt: new Date() };
+    this.reviewPhotos.set(id, photo);
+    return photo;
+  }
+
+  async deleteReviewPhoto(reviewId: number, id: number): Promise<ReviewPhoto | undefined> {
+    const photo = this.reviewPhotos.get(id);
+    if (!photo || photo.reviewId !== reviewId) return undefined;
+    
+    this.reviewPhotos.delete(id);
+    return photo;
+  }
+
   // Favorite operations
-  async getUserFavorites(userId: number): Promise<Laundromat[]> {
-    const favoriteIds = Array.from(this.favorites.values())
+  async getUserFavorites(userId: number): Promise<{ favorite: Favorite, laundromat: Laundromat }[]> {
+    return Array.from(this.favorites.values())
       .filter(fav => fav.userId === userId)
-      .map(fav => fav.laundryId);
-    
-    return Array.from(this.laundromats.values())
-      .filter(laundry => favoriteIds.includes(laundry.id));
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))
+      .flatMap(favorite => {
+        const laundromat = this.laundromats.get(favorite.laundryId);
+        return laundromat ? [{ favorite, laundromat }] : [];
+      });
   }
 
   async addFavorite(insertFavorite: InsertFavorite): Promise<Favorite> {
+    const existing = Array.from(this.favorites.values())
+      .find(fav => fav.userId === insertFavorite.userId && fav.laundryId === insertFavorite.laundryId);
+    
+    if (existing) {
+      const updated = { ...existing, listId: insertFavorite.listId ?? null };
+      this.favorites.set(existing.id, updated);
+      return updated;
+    }
+    
     const id = this.currentId.favorites++;
-    const favorite: Favorite = { ...insertFavorite, id, createdAt: new Date() };
+    const favorite: Favorite = { ...insertFavorite, listId: insertFavorite.listId ?? null, id, createdAt: new Date() };
     this.favorites.set(id, favorite);
     return favorite;
   }
@@ -346,6 +510,55 @@ export class MemStorage implements IStorage {
     this.favorites.delete(favorite.id);
     return true;
   }
+
+  async mergeFavorites(userId: number, laundryIds: number[]): Promise<number> {
+    const existing = new Set(Array.from(this.favorites.values())
+      .filter(fav => fav.userId === userId)
+      .map(fav => fav.laundryId));
+    
+    let added = 0;
+    for (const laundryId of Array.from(new Set(laundryIds))) {
+      if (existing.has(laundryId) || !this.laundromats.has(laundryId)) continue;
+      await this.addFavorite({ userId, laundryId });
+      added++;
+    }
+    return added;
+  }
+
+  async getFavoriteLists(userId: number): Promise<FavoriteList[]> {
+    return Array.from(this.favoriteLists.values())
+      .filter(list => list.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createFavoriteList(insertList: InsertFavoriteList): Promise<FavoriteList> {
+    const id = this.currentId.favoriteLists++;
+    const list: FavoriteList = { ...insertList, id, createdAt: new Date() };
+    this.favoriteLists.set(id, list);
+    return list;
+  }
+
+  async renameFavoriteList(userId: number, id: number, name: string): Promise<FavoriteList | undefined> {
+    const list = this.favoriteLists.get(id);
+    if (!list || list.userId !== userId) return undefined;
+    
+    const updated = { ...list, name };
+    this.favoriteLists.set(id, updated);
+    return updated;
+  }
+
+  async deleteFavoriteList(userId: number, id: number): Promise<boolean> {
+    const list = this.favoriteLists.get(id);
+    if (!list || list.userId !== userId) return false;
+    
+    this.favoriteLists.delete(id);
+    for (const favorite of Array.from(this.favorites.values())) {
+      if (favorite.listId === id) {
+        this.favorites.set(favorite.id, { ...favorite, listId: null });
+      }
+    }
+    return true;
+  }
   
   // Subscription operations
   async createSubscription(insertSubscription: InsertSubscription): Promise<Subscription> {
@@ -413,6 +626,7 @@ export class MemStorage implements IStorage {
     if (laundry) {
       this.laundromats.set(laundry.id, {
         ...laundry,
+        ...limitPremiumContent('basic', laundry),
         subscriptionActive: false,
         isPremium: false,
         isFeatured: false,
@@ -423,23 +637,26 @@ export class MemStorage implements IStorage {
     return updatedSubscription;
   }
   
-  async checkExpiredSubscriptions(): Promise<void> {
+  async checkExpiredSubscriptions(): Promise<Subscription[]> {
     const now = new Date();
+    // Stripe renews auto-renewing subscriptions itself and reports failures by webhook
     const expiredSubscriptions = Array.from(this.subscriptions.values())
-      .filter(sub => sub.status === 'active' && sub.endDate < now);
+      .filter(sub => sub.status === 'active' && sub.endDate < now)
+      .filter(sub => !(sub.stripeSubscriptionId && sub.autoRenew));
+    const expired: Subscription[] = [];
     
     for (const subscription of expiredSubscriptions) {
       // Update subscription status
-      this.subscriptions.set(subscription.id, {
-        ...subscription,
-        status: 'expired'
-      });
+      const updated = { ...subscription, status: 'expired' };
+      this.subscriptions.set(subscription.id, updated);
+      expired.push(updated);
       
       // Update laundromat premium status
       const laundry = this.laundromats.get(subscription.laundryId);
       if (laundry) {
         this.laundromats.set(laundry.id, {
           ...laundry,
+          ...limitPremiumContent('basic', laundry),
           subscriptionActive: false,
           isPremium: false,
           isFeatured: false,
@@ -447,6 +664,8 @@ export class MemStorage implements IStorage {
         });
       }
     }
+    
+    return expired;
   }
   
   // Premium features operations
@@ -470,21 +689,18 @@ export class MemStorage implements IStorage {
     };
   }
   
-  async updatePremiumFeatures(laundryId: number, features: any): Promise<boolean> {
+  async updatePremiumFeatures(laundryId: number, features: PremiumContent): Promise<boolean> {
     const laundry = this.laundromats.get(laundryId);
     if (!laundry) return false;
     
-    // Only allow updating premium features if the laundromat has an active premium subscription
-    if (!laundry.subscriptionActive) return false;
-    
-    // Update the premium features
+    // Update only the fields that were given; null clears a field
     this.laundromats.set(laundryId, {
       ...laundry,
-      promotionalText: features.promotionalText || laundry.promotionalText,
-      amenities: features.amenities || laundry.amenities,
-      machineCount: features.machineCount || laundry.machineCount,
-      photos: features.photos || laundry.photos,
-      specialOffers: features.specialOffers || laundry.specialOffers
+      promotionalText: features.promotionalText !== undefined ? features.promotionalText : laundry.promotionalText,
+      amenities: features.amenities !== undefined ? features.amenities : laundry.amenities,
+      machineCount: features.machineCount !== undefined ? features.machineCount : laundry.machineCount,
+      photos: features.photos !== undefined ? features.photos : laundry.photos,
+      specialOffers: features.specialOffers !== undefined ? features.specialOffers : laundry.specialOffers
     });
     
     return true;
@@ -635,16 +851,18 @@ export class MemStorage implements IStorage {
     const laundry = this.laundromats.get(laundryId);
     if (!laundry) return;
     
+    // Only approved reviews count; once none are left, the listing has no rating
     const reviews = Array.from(this.reviews.values())
-      .filter(review => review.laundryId === laundryId);
+      .filter(review => review.laundryId === laundryId && review.status === 'approved');
     
     const totalRating = reviews.reduce((sum, review) => sum + review.rating, 0);
-    const avgRating = reviews.length ? (totalRating / reviews.length).toFixed(1) : "0";
+    const avgRating = reviews.length ? (totalRating / reviews.length).toFixed(1) : '0';
     
     this.laundromats.set(laundryId, {
       ...laundry,
       rating: avgRating,
-      reviewCount: reviews.length
+      reviewCount: reviews.length,
+      subRatings: computeSubRatings(reviews)
     });
   }
 
@@ -707,7 +925,7 @@ export class MemStorage implements IStorage {
         password: '$2b$10$8OOugIwm/Crq4KTY7HgIXeeTeJqTYcQiVY0QoMkC3oG/EHQ3qO82q', // 'password'
         email: 'owner@example.com',
         isBusinessOwner: true,
-        role: 'business_owner'
+        role: 'owner'
       },
       {
         username: 'admin',
@@ -1136,10 +1354,23 @@ export class MemStorage implements IStorage {
         this.reviews.set(id, {
           id,
           laundryId: laundry.id,
-          userId: 1, // Sample user ID
+          userId: i + 1, // Sample user IDs; one review per user
           rating,
+          cleanlinessRating: null,
+          machineAvailabilityRating: null,
+          priceRating: null,
+          staffRating: null,
+          safetyRating: null,
           comment: `Sample review ${i + 1} for ${laundry.name}`,
-          createdAt: new Date()
+          status: 'approved',
+          moderationReasons: null,
+          moderatedBy: null,
+          moderatedAt: null,
+          reportCount: 0,
+          ownerReply: null,
+          ownerReplyAt: null,
+          createdAt: new Date(),
+          updatedAt: new Date()
         });
       }
     });
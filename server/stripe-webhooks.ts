@@ -0,0 +1,327 @@
+/**
+ * Stripe Webhook Processing
+ *
+ * Verifies webhook signatures and keeps our subscription rows and the premium
+ * flags on laundromat listings in step with Stripe:
+ *   - invoice.paid                   extends the subscription and turns the tier on
+ *   - invoice.payment_failed         marks the subscription past due
+ *   - customer.subscription.updated  syncs status, period end, tier and auto-renew
+ *   - customer.subscription.deleted  cancels the subscription and downgrades the listing
+ *
+ * Failed payments and cancellations also go to the admin inbox.
+ *
+ * Each event is recorded in stripe_events in the same transaction as its updates,
+ * so redelivered events are skipped and a failed event is retried in full.
+ *
+ * The subscription scheduler (server/subscription-jobs.ts) calls
+ * syncStripeSubscription to catch up on trials whose conversion webhook never arrived.
+ */
+import Stripe from 'stripe';
+import { and, eq, ne } from 'drizzle-orm';
+import { db, type Transaction } from './db';
+import { laundromats, subscriptions, stripeEvents, type Subscription } from '@shared/schema';
+import { limitPremiumContent, toListingType } from '@shared/premium-features';
+import { createNotification } from './admin-notifications';
+
+export interface WebhookResult {
+  eventId: string;
+  type: string;
+  // false when the event was already processed or isn't one we handle
+  processed: boolean;
+}
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
+  apiVersion: '2023-10-16' as any,
+});
+
+// Stripe subscription statuses that keep a listing's paid tier switched on
+const ACTIVE_STRIPE_STATUSES = ['active', 'trialing'];
+
+// Stripe subscription status -> our subscriptions.status
+function toSubscriptionStatus(status: Stripe.Subscription.Status): string {
+  switch (status) {
+    case 'active':
+    case 'trialing':
+      return 'active';
+    case 'past_due':
+      return 'past_due';
+    case 'canceled':
+    case 'unpaid':
+    case 'incomplete_expired':
+      return 'cancelled';
+    default:
+      return 'past_due';
+  }
+}
+
+/**
+ * Verify a webhook request and parse its event.
+ * Throws when the signature doesn't match the payload or secret.
+ */
+export function constructWebhookEvent(payload: Buffer | string, signature: string, secret: string): Stripe.Event {
+  return stripe.webhooks.constructEvent(payload, signature, secret);
+}
+
+function stripeId(value: string | { id: string } | null | undefined): string | null {
+  if (!value) return null;
+  return typeof value === 'string' ? value : value.id;
+}
+
+// Invoices moved the subscription under `parent` in newer API versions
+function invoiceSubscriptionId(invoice: Stripe.Invoice): string | null {
+  return stripeId(invoice.parent?.subscription_details?.subscription)
+    || stripeId((invoice as any).subscription);
+}
+
+// Billing periods moved from the subscription onto its items in newer API versions
+function subscriptionPeriodEnd(subscription: Stripe.Subscription): Date | null {
+  const end = subscription.items?.data?.[0]?.current_period_end ?? (subscription as any).current_period_end;
+  return end ? new Date(end * 1000) : null;
+}
+
+// Latest period end covered by a paid invoice
+function invoicePeriodEnd(invoice: Stripe.Invoice): Date | null {
+  const ends = (invoice.lines?.data || []).map(line => line.period?.end).filter((end): end is number => !!end);
+  return ends.length > 0 ? new Date(Math.max(...ends) * 1000) : null;
+}
+
+async function findSubscription(tx: Transaction, stripeSubscriptionId: string): Promise<Subscription | undefined> {
+  const [subscription] = await tx.select()
+    .from(subscriptions)
+    .where(eq(subscriptions.stripeSubscriptionId, stripeSubscriptionId));
+
+  if (!subscription) {
+    console.warn(`Stripe webhook: no subscription row for ${stripeSubscriptionId}`);
+  }
+  return subscription;
+}
+
+/**
+ * Switch a listing's paid tier on for an active subscription. Content beyond the
+ * tier's limits is trimmed, e.g. when a featured listing moves to premium.
+ */
+async function applyListingTier(tx: Transaction, subscription: Subscription, expiry: Date, stripeStatus: string) {
+  const [laundromat] = await tx.select()
+    .from(laundromats)
+    .where(eq(laundromats.id, subscription.laundryId));
+
+  await tx.update(laundromats)
+    .set({
+      ...(laundromat ? limitPremiumContent(toListingType(subscription.tier), laundromat) : {}),
+      listingType: subscription.tier,
+      isPremium: true,
+      isFeatured: subscription.tier === 'featured',
+      subscriptionActive: true,
+      subscriptionStatus: stripeStatus,
+      subscriptionExpiry: expiry,
+      subscriptionId: subscription.id.toString()
+    })
+    .where(eq(laundromats.id, subscription.laundryId));
+}
+
+/**
+ * Return a listing to the basic tier, unless another subscription still covers it
+ */
+export async function downgradeListing(tx: Transaction, subscription: Subscription, stripeStatus: string) {
+  const [otherActive] = await tx.select({ id: subscriptions.id })
+    .from(subscriptions)
+    .where(and(
+      eq(subscriptions.laundryId, subscription.laundryId),
+      eq(subscriptions.status, 'active'),
+      ne(subscriptions.id, subscription.id)
+    ))
+    .limit(1);
+
+  if (otherActive) return;
+
+  // Photos, offers and other content beyond the basic tier's limits go with the tier
+  const [laundromat] = await tx.select()
+    .from(laundromats)
+    .where(eq(laundromats.id, subscription.laundryId));
+
+  await tx.update(laundromats)
+    .set({
+      ...(laundromat ? limitPremiumContent('basic', laundromat) : {}),
+      listingType: 'basic',
+      isPremium: false,
+      isFeatured: false,
+      featuredRank: null,
+      subscriptionActive: false,
+      subscriptionStatus: stripeStatus
+    })
+    .where(eq(laundromats.id, subscription.laundryId));
+}
+
+// An entry in the admin inbox for a subscription that needs attention
+async function notifySubscriptionEvent(
+  tx: Transaction,
+  subscription: Subscription,
+  event: 'payment_failed' | 'cancelled',
+  details: Record<string, unknown>
+) {
+  await createNotification({
+    type: 'subscription',
+    userId: subscription.userId,
+    laundryId: subscription.laundryId,
+    data: {
+      event,
+      subscriptionId: subscription.id,
+      stripeSubscriptionId: subscription.stripeSubscriptionId,
+      tier: subscription.tier,
+      amount: subscription.amount,
+      billingCycle: subscription.billingCycle,
+      ...details
+    }
+  }, null, tx);
+}
+
+async function handleInvoicePaid(tx: Transaction, invoice: Stripe.Invoice) {
+  const stripeSubscriptionId = invoiceSubscriptionId(invoice);
+  if (!stripeSubscriptionId) return;
+
+  const subscription = await findSubscription(tx, stripeSubscriptionId);
+  if (!subscription) return;
+
+  const endDate = invoicePeriodEnd(invoice) || subscription.endDate;
+
+  const [updated] = await tx.update(subscriptions)
+    .set({
+      status: 'active',
+      endDate,
+      pastDueSince: null,
+      // The $0 invoice at the start of a trial doesn't end it; the first real payment does
+      ...(invoice.amount_paid > 0 ? { trialEndsAt: null } : {}),
+      paymentId: invoice.id,
+      stripePaymentIntentId: stripeId((invoice as any).payment_intent) || subscription.stripePaymentIntentId
+    })
+    .where(eq(subscriptions.id, subscription.id))
+    .returning();
+
+  await applyListingTier(tx, updated, endDate, 'active');
+}
+
+async function handleInvoicePaymentFailed(tx: Transaction, invoice: Stripe.Invoice) {
+  const stripeSubscriptionId = invoiceSubscriptionId(invoice);
+  if (!stripeSubscriptionId) return;
+
+  const subscription = await findSubscription(tx, stripeSubscriptionId);
+  if (!subscription) return;
+
+  // Tell the admins about the first failure; Stripe's retries fail again until it's paid
+  if (!subscription.pastDueSince) {
+    await notifySubscriptionEvent(tx, subscription, 'payment_failed', { invoiceId: invoice.id, amountDue: invoice.amount_due });
+  }
+
+  // The listing keeps its tier while Stripe retries the payment, until the grace period runs out
+  await tx.update(subscriptions)
+    .set({ status: 'past_due', pastDueSince: subscription.pastDueSince || new Date() })
+    .where(eq(subscriptions.id, subscription.id));
+
+  await tx.update(laundromats)
+    .set({ subscriptionStatus: 'past_due' })
+    .where(eq(laundromats.id, subscription.laundryId));
+}
+
+async function handleSubscriptionUpdated(tx: Transaction, stripeSubscription: Stripe.Subscription) {
+  const subscription = await findSubscription(tx, stripeSubscription.id);
+  if (!subscription) return;
+
+  const tier = stripeSubscription.metadata?.tier;
+  const endDate = subscriptionPeriodEnd(stripeSubscription) || subscription.endDate;
+  const status = toSubscriptionStatus(stripeSubscription.status);
+  const trialEnd = stripeSubscription.trial_end ? new Date(stripeSubscription.trial_end * 1000) : null;
+
+  const [updated] = await tx.update(subscriptions)
+    .set({
+      status,
+      endDate,
+      autoRenew: !stripeSubscription.cancel_at_period_end,
+      trialEndsAt: stripeSubscription.status === 'trialing' ? trialEnd : null,
+      pastDueSince: status === 'past_due' ? subscription.pastDueSince || new Date() : null,
+      ...(tier === 'premium' || tier === 'featured' ? { tier } : {})
+    })
+    .where(eq(subscriptions.id, subscription.id))
+    .returning();
+
+  if (ACTIVE_STRIPE_STATUSES.includes(stripeSubscription.status)) {
+    await applyListingTier(tx, updated, endDate, stripeSubscription.status);
+  } else if (updated.status === 'cancelled') {
+    await downgradeListing(tx, updated, stripeSubscription.status);
+  } else {
+    await tx.update(laundromats)
+      .set({ subscriptionStatus: stripeSubscription.status })
+      .where(eq(laundromats.id, subscription.laundryId));
+  }
+}
+
+async function handleSubscriptionDeleted(tx: Transaction, stripeSubscription: Stripe.Subscription) {
+  const subscription = await findSubscription(tx, stripeSubscription.id);
+  if (!subscription) return;
+
+  const [updated] = await tx.update(subscriptions)
+    .set({ status: 'cancelled', autoRenew: false })
+    .where(eq(subscriptions.id, subscription.id))
+    .returning();
+
+  await downgradeListing(tx, updated, 'canceled');
+  if (subscription.status !== 'cancelled') {
+    await notifySubscriptionEvent(tx, updated, 'cancelled', { reason: stripeSubscription.cancellation_details?.reason ?? null });
+  }
+}
+
+/**
+ * Fetch a subscription from Stripe and apply its current state, as if
+ * customer.subscription.updated had been delivered
+ */
+export async function syncStripeSubscription(stripeSubscriptionId: string): Promise<void> {
+  const stripeSubscription = await stripe.subscriptions.retrieve(stripeSubscriptionId);
+
+  await db.transaction(async tx => {
+    await handleSubscriptionUpdated(tx, stripeSubscription);
+  });
+}
+
+/**
+ * Apply a verified Stripe event. Events that were already processed are skipped.
+ */
+export async function processStripeEvent(event: Stripe.Event): Promise<WebhookResult> {
+  const handled = [
+    'invoice.paid',
+    'invoice.payment_failed',
+    'customer.subscription.updated',
+    'customer.subscription.deleted'
+  ];
+
+  if (!handled.includes(event.type)) {
+    return { eventId: event.id, type: event.type, processed: false };
+  }
+
+  return db.transaction(async tx => {
+    const [recorded] = await tx.insert(stripeEvents)
+      .values({ id: event.id, type: event.type })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!recorded) {
+      console.log(`Stripe webhook: skipping already processed event ${event.id}`);
+      return { eventId: event.id, type: event.type, processed: false };
+    }
+
+    switch (event.type) {
+      case 'invoice.paid':
+        await handleInvoicePaid(tx, event.data.object as Stripe.Invoice);
+        break;
+      case 'invoice.payment_failed':
+        await handleInvoicePaymentFailed(tx, event.data.object as Stripe.Invoice);
+        break;
+      case 'customer.subscription.updated':
+        await handleSubscriptionUpdated(tx, event.data.object as Stripe.Subscription);
+        break;
+      case 'customer.subscription.deleted':
+        await handleSubscriptionDeleted(tx, event.data.object as Stripe.Subscription);
+        break;
+    }
+
+    return { eventId: event.id, type: event.type, processed: true };
+  });
+}
@@ -0,0 +1,306 @@
+/**
+ * Subscription Lifecycle Jobs
+ *
+ * Scheduled work that keeps subscriptions and premium listings current between
+ * Stripe webhooks:
+ *   - subscription-expiry     expires lapsed subscriptions, ends the grace period
+ *                             for past-due ones and catches up on trial conversions
+ *   - subscription-reminders  queues renewal, expiry and trial-ending reminders
+ *                             and sends queued reminder emails
+ *
+ * Past-due subscriptions keep their listing tier for SUBSCRIPTION_GRACE_DAYS
+ * (default 7) after the first failed payment before they're expired.
+ */
+import { and, eq, gt, isNotNull, isNull, lt, lte } from 'drizzle-orm';
+import { db } from './db';
+import { storage } from './storage';
+import { APP_URL, mailer, type MailMessage } from './mail';
+import { registerJob } from './scheduler';
+import { downgradeListing, syncStripeSubscription } from './stripe-webhooks';
+import {
+  laundromats,
+  subscriptionReminders,
+  subscriptions,
+  users,
+  type Subscription
+} from '@shared/schema';
+
+type ReminderType = 'renewal' | 'expiry' | 'trial_ending' | 'expired';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+const GRACE_PERIOD_DAYS = Number(process.env.SUBSCRIPTION_GRACE_DAYS) || 7;
+// How far ahead of the end date each reminder goes out
+const RENEWAL_REMINDER_DAYS = 7;
+const TRIAL_REMINDER_DAYS = 3;
+// Sending a reminder is given up after this many failed attempts
+const MAX_REMINDER_ATTEMPTS = 3;
+const REMINDER_BATCH_SIZE = 100;
+
+/**
+ * Queue a reminder unless the same one was already queued for this period
+ */
+async function queueReminder(subscriptionId: number, type: ReminderType, periodEnd: Date): Promise<boolean> {
+  const [queued] = await db.insert(subscriptionReminders)
+    .values({ subscriptionId, type, periodEnd })
+    .onConflictDoNothing()
+    .returning({ id: subscriptionReminders.id });
+  return !!queued;
+}
+
+/**
+ * Expire past-due subscriptions whose grace period has run out
+ */
+async function expirePastDueSubscriptions(): Promise<Subscription[]> {
+  const graceStart = new Date(Date.now() - GRACE_PERIOD_DAYS * DAY_MS);
+  const overdue = await db.select()
+    .from(subscriptions)
+    .where(and(
+      eq(subscriptions.status, 'past_due'),
+      lte(subscriptions.pastDueSince, graceStart)
+    ));
+
+  const expired: Subscription[] = [];
+  for (const subscription of overdue) {
+    const updated = await db.transaction(async tx => {
+      const [row] = await tx.update(subscriptions)
+        .set({ status: 'expired' })
+        .where(and(eq(subscriptions.id, subscription.id), eq(subscriptions.status, 'past_due')))
+        .returning();
+      if (row) await downgradeListing(tx, row, 'expired');
+      return row;
+    });
+    if (updated) expired.push(updated);
+  }
+  return expired;
+}
+
+/**
+ * Pull the current state of Stripe-billed trials that should have converted by now,
+ * in case the webhook for the first payment (or its failure) was missed
+ */
+async function syncEndedTrials(): Promise<{ synced: number; failed: number }> {
+  if (!process.env.STRIPE_SECRET_KEY) {
+    return { synced: 0, failed: 0 };
+  }
+
+  // Give Stripe an hour past the trial end to attempt the first charge
+  const cutoff = new Date(Date.now() - HOUR_MS);
+  const endedTrials = await db.select({ stripeSubscriptionId: subscriptions.stripeSubscriptionId })
+    .from(subscriptions)
+    .where(and(
+      eq(subscriptions.status, 'active'),
+      isNotNull(subscriptions.stripeSubscriptionId),
+      lte(subscriptions.trialEndsAt, cutoff)
+    ));
+
+  let synced = 0;
+  let failed = 0;
+  for (const { stripeSubscriptionId } of endedTrials) {
+    try {
+      await syncStripeSubscription(stripeSubscriptionId!);
+      synced++;
+    } catch (error) {
+      console.error(`Error syncing Stripe subscription ${stripeSubscriptionId}:`, error);
+      failed++;
+    }
+  }
+  return { synced, failed };
+}
+
+async function runExpiryJob() {
+  const trials = await syncEndedTrials();
+  const pastDue = await expirePastDueSubscriptions();
+  const lapsed = await storage.checkExpiredSubscriptions();
+
+  let remindersQueued = 0;
+  for (const subscription of [...pastDue, ...lapsed]) {
+    if (await queueReminder(subscription.id, 'expired', subscription.endDate)) remindersQueued++;
+  }
+
+  return {
+    trialsSynced: trials.synced,
+    trialSyncFailures: trials.failed,
+    pastDueExpired: pastDue.length,
+    expired: lapsed.length,
+    remindersQueued
+  };
+}
+
+/**
+ * Queue reminders for active subscriptions and trials that end soon
+ */
+async function queueUpcomingReminders(): Promise<number> {
+  const now = new Date();
+  const renewalHorizon = new Date(now.getTime() + RENEWAL_REMINDER_DAYS * DAY_MS);
+  const trialHorizon = new Date(now.getTime() + TRIAL_REMINDER_DAYS * DAY_MS);
+
+  const ending = await db.select()
+    .from(subscriptions)
+    .where(and(
+      eq(subscriptions.status, 'active'),
+      isNull(subscriptions.trialEndsAt),
+      gt(subscriptions.endDate, now),
+      lte(subscriptions.endDate, renewalHorizon)
+    ));
+
+  const trialsEnding = await db.select()
+    .from(subscriptions)
+    .where(and(
+      eq(subscriptions.status, 'active'),
+      gt(subscriptions.trialEndsAt, now),
+      lte(subscriptions.trialEndsAt, trialHorizon)
+    ));
+
+  let queued = 0;
+  for (const subscription of ending) {
+    // Only Stripe-billed subscriptions actually renew; the rest lapse at their end date
+    const type = subscription.autoRenew && subscription.stripeSubscriptionId ? 'renewal' : 'expiry';
+    if (await queueReminder(subscription.id, type, subscription.endDate)) queued++;
+  }
+  for (const subscription of trialsEnding) {
+    if (await queueReminder(subscription.id, 'trial_ending', subscription.trialEndsAt!)) queued++;
+  }
+  return queued;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+}
+
+function formatAmount(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+/**
+ * Build the email for a reminder
+ */
+function reminderMessage(
+  type: ReminderType,
+  periodEnd: Date,
+  subscription: Subscription,
+  user: { username: string; email: string },
+  laundromat: { name: string }
+): MailMessage {
+  const plan = subscription.tier === 'featured' ? 'Featured' : 'Premium';
+  const manageLink = `${APP_URL}/business/subscription/${subscription.laundryId}`;
+  const date = formatDate(periodEnd);
+  const cycle = subscription.billingCycle === 'annually' ? 'year' : 'month';
+
+  switch (type) {
+    case 'renewal':
+      return {
+        to: user.email,
+        subject: `Your ${plan} listing for ${laundromat.name} renews on ${date}`,
+        text: `Hi ${user.username},\n\nYour ${plan} listing for ${laundromat.name} renews automatically on ${date} for ${formatAmount(subscription.amount)} per ${cycle}. No action is needed.\n\nTo change or cancel your plan, visit:\n\n${manageLink}`
+      };
+    case 'expiry':
+      return {
+        to: user.email,
+        subject: `Your ${plan} listing for ${laundromat.name} ends on ${date}`,
+        text: `Hi ${user.username},\n\nYour ${plan} listing for ${laundromat.name} ends on ${date} and won't renew. After that your listing goes back to the free Basic plan.\n\nTo keep your ${plan} features, renew here:\n\n${manageLink}`
+      };
+    case 'trial_ending':
+      return {
+        to: user.email,
+        subject: `Your free ${plan} trial for ${laundromat.name} ends on ${date}`,
+        text: subscription.stripeSubscriptionId
+          ? `Hi ${user.username},\n\nYour free ${plan} trial for ${laundromat.name} ends on ${date}. Your plan then continues at ${formatAmount(subscription.amount)} per ${cycle}.\n\nTo manage your plan, visit:\n\n${manageLink}`
+          : `Hi ${user.username},\n\nYour free ${plan} trial for ${laundromat.name} ends on ${date}. Add a payment method before then to keep your ${plan} features:\n\n${manageLink}`
+      };
+    case 'expired':
+      return {
+        to: user.email,
+        subject: `Your ${plan} listing for ${laundromat.name} has ended`,
+        text: `Hi ${user.username},\n\nYour ${plan} listing for ${laundromat.name} has ended and the listing is back on the free Basic plan.\n\nYou can upgrade again at any time:\n\n${manageLink}`
+      };
+  }
+}
+
+/**
+ * Send queued reminders. Reminders about a subscription that has since changed
+ * (renewed, cancelled or converted) are skipped rather than sent.
+ */
+async function sendQueuedReminders(): Promise<{ sent: number; skipped: number; failed: number }> {
+  const pending = await db.select({
+    reminder: subscriptionReminders,
+    subscription: subscriptions,
+    user: { username: users.username, email: users.email },
+    laundromat: { name: laundromats.name }
+  })
+    .from(subscriptionReminders)
+    .innerJoin(subscriptions, eq(subscriptionReminders.subscriptionId, subscriptions.id))
+    .innerJoin(users, eq(subscriptions.userId, users.id))
+    .innerJoin(laundromats, eq(subscriptions.laundryId, laundromats.id))
+    .where(and(
+      eq(subscriptionReminders.status, 'pending'),
+      lt(subscriptionReminders.attempts, MAX_REMINDER_ATTEMPTS)
+    ))
+    .orderBy(subscriptionReminders.createdAt)
+    .limit(REMINDER_BATCH_SIZE);
+
+  let sent = 0;
+  let skipped = 0;
+  let failed = 0;
+  for (const { reminder, subscription, user, laundromat } of pending) {
+    const type = reminder.type as ReminderType;
+    const periodEnd = type === 'trial_ending' ? subscription.trialEndsAt : subscription.endDate;
+    const stillApplies = type === 'expired'
+      ? subscription.status === 'expired'
+      : subscription.status === 'active' && periodEnd?.getTime() === reminder.periodEnd.getTime();
+
+    if (!stillApplies) {
+      await db.update(subscriptionReminders)
+        .set({ status: 'skipped' })
+        .where(eq(subscriptionReminders.id, reminder.id));
+      skipped++;
+      continue;
+    }
+
+    try {
+      await mailer.send(reminderMessage(type, reminder.periodEnd, subscription, user, laundromat));
+      await db.update(subscriptionReminders)
+        .set({ status: 'sent', sentAt: new Date(), attempts: reminder.attempts + 1, lastError: null })
+        .where(eq(subscriptionReminders.id, reminder.id));
+      sent++;
+    } catch (error) {
+      console.error(`Error sending ${type} reminder for subscription ${subscription.id}:`, error);
+      const attempts = reminder.attempts + 1;
+      await db.update(subscriptionReminders)
+        .set({
+          status: attempts >= MAX_REMINDER_ATTEMPTS ? 'failed' : 'pending',
+          attempts,
+          lastError: error instanceof Error ? error.message : String(error)
+        })
+        .where(eq(subscriptionReminders.id, reminder.id));
+      failed++;
+    }
+  }
+  return { sent, skipped, failed };
+}
+
+async function runReminderJob() {
+  const queued = await queueUpcomingReminders();
+  const { sent, skipped, failed } = await sendQueuedReminders();
+  return { queued, sent, skipped, failed };
+}
+
+/**
+ * Register the subscription jobs with the scheduler
+ */
+export function registerSubscriptionJobs() {
+  registerJob({
+    name: 'subscription-expiry',
+    description: `Expire lapsed subscriptions, end the ${GRACE_PERIOD_DAYS}-day grace period for past-due ones and sync ended trials from Stripe`,
+    intervalMs: HOUR_MS,
+    run: runExpiryJob
+  });
+
+  registerJob({
+    name: 'subscription-reminders',
+    description: 'Queue renewal, expiry and trial-ending reminders and send queued reminder emails',
+    intervalMs: HOUR_MS,
+    run: runReminderJob
+  });
+}
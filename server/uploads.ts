@@ -0,0 +1,104 @@
+/**
+ * Local File Uploads
+ *
+ * User-uploaded images are written under UPLOAD_DIR (default ./uploads) and
+ * served from /uploads. Ownership documents sent with business claims go to
+ * PRIVATE_UPLOAD_DIR (default ./private-uploads), which is never served directly.
+ * The file type is taken from the file's own signature rather than the
+ * Content-Type header, and files get random names.
+ */
+import fs from 'fs-extra';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+export const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads'));
+
+export const PRIVATE_UPLOAD_DIR = path.resolve(process.env.PRIVATE_UPLOAD_DIR || path.join(process.cwd(), 'private-uploads'));
+
+export const UPLOAD_URL_PREFIX = '/uploads';
+
+const REVIEW_PHOTO_SUBDIR = 'reviews';
+const CLAIM_DOCUMENT_SUBDIR = 'claims';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+const DOCUMENT_EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+};
+
+/**
+ * The image type from a file's first bytes, or null if it isn't a JPEG, PNG or WebP
+ */
+export function detectImageType(data: Buffer): string | null {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (data.length >= 12 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  return null;
+}
+
+/**
+ * The document type from a file's first bytes, or null if it isn't a PDF, JPEG or PNG
+ */
+export function detectDocumentType(data: Buffer): string | null {
+  if (data.length >= 5 && data.toString('ascii', 0, 5) === '%PDF-') {
+    return 'application/pdf';
+  }
+  const imageType = detectImageType(data);
+  return imageType && DOCUMENT_EXTENSIONS[imageType] ? imageType : null;
+}
+
+/**
+ * Write a review photo and return its filename, relative to UPLOAD_DIR
+ */
+export async function saveReviewPhoto(data: Buffer, contentType: string): Promise<string> {
+  const filename = path.posix.join(REVIEW_PHOTO_SUBDIR, `${randomUUID()}.${IMAGE_EXTENSIONS[contentType]}`);
+  await fs.ensureDir(path.join(UPLOAD_DIR, REVIEW_PHOTO_SUBDIR));
+  await fs.writeFile(path.join(UPLOAD_DIR, filename), data);
+  return filename;
+}
+
+export async function deleteUpload(filename: string): Promise<void> {
+  const filePath = path.join(UPLOAD_DIR, filename);
+  // Never follow a stored name outside the upload directory
+  if (!filePath.startsWith(UPLOAD_DIR + path.sep)) return;
+
+  try {
+    await fs.remove(filePath);
+  } catch (error) {
+    console.error(`Error deleting upload ${filename}:`, error);
+  }
+}
+
+export function uploadUrl(filename: string): string {
+  return `${UPLOAD_URL_PREFIX}/${filename}`;
+}
+
+/**
+ * Write a claim document and return its filename, relative to PRIVATE_UPLOAD_DIR
+ */
+export async function saveClaimDocument(data: Buffer, contentType: string): Promise<string> {
+  const filename = path.posix.join(CLAIM_DOCUMENT_SUBDIR, `${randomUUID()}.${DOCUMENT_EXTENSIONS[contentType]}`);
+  await fs.ensureDir(path.join(PRIVATE_UPLOAD_DIR, CLAIM_DOCUMENT_SUBDIR));
+  await fs.writeFile(path.join(PRIVATE_UPLOAD_DIR, filename), data);
+  return filename;
+}
+
+/**
+ * Absolute path of a private upload, or null if the stored name points outside PRIVATE_UPLOAD_DIR
+ */
+export function privateUploadPath(filename: string): string | null {
+  const filePath = path.join(PRIVATE_UPLOAD_DIR, filename);
+  return filePath.startsWith(PRIVATE_UPLOAD_DIR + path.sep) ? filePath : null;
+}
@@ -0,0 +1,43 @@
+// USPS abbreviations for the words that vary most between sources
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  street: 'st', avenue: 'ave', av: 'ave', road: 'rd', boulevard: 'blvd', drive: 'dr',
+  lane: 'ln', court: 'ct', place: 'pl', parkway: 'pkwy', highway: 'hwy', freeway: 'fwy',
+  expressway: 'expy', circle: 'cir', terrace: 'ter', trail: 'trl', square: 'sq',
+  plaza: 'plz', center: 'ctr', centre: 'ctr', crossing: 'xing', turnpike: 'tpke',
+  suite: 'ste', apartment: 'apt', building: 'bldg', floor: 'fl',
+  north: 'n', south: 's', east: 'e', west: 'w',
+  northeast: 'ne', northwest: 'nw', southeast: 'se', southwest: 'sw',
+  first: '1st', second: '2nd', third: '3rd', fourth: '4th', fifth: '5th',
+};
+
+/**
+ * The street line of an address in one spelling: lowercase, no punctuation, standard
+ * abbreviations, and without the city/state/ZIP that full addresses often end with
+ */
+export function normalizeStreetAddress(address: string): string {
+  const street = (address || '').split(',')[0];
+  return street
+    .toLowerCase()
+    .replace(/#/g, ' ste ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => STREET_ABBREVIATIONS[word] || word)
+    .join(' ');
+}
+
+/**
+ * The number a street address starts with, e.g. "1200" for "1200-B Main St", or null
+ */
+export function houseNumber(address: string): string | null {
+  const match = (address || '').trim().match(/^(\d+)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * A phone number's last 10 digits, or null when it has fewer
+ */
+export function phoneDigits(phone: string | null | undefined): string | null {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= 10 ? digits.slice(-10) : null;
+}
@@ -0,0 +1,48 @@
+import {
+  StructuredHours,
+  getStructuredHours,
+  getTimezoneForState,
+  isOpenAt,
+  parseHoursText
+} from '@shared/hours';
+
+/**
+ * Build the structured hours to store alongside a free-text hours value
+ */
+export function buildStructuredHours(hours: string | null | undefined, state: string | null | undefined): StructuredHours | null {
+  return parseHoursText(hours, getTimezoneForState(state));
+}
+
+/**
+ * Read the `openNow` / `openAt` query parameters.
+ * Returns the instant to check, null when no filter was requested,
+ * or throws an Error with a user-facing message for an invalid `openAt`.
+ */
+export function parseOpenAtQuery(query: Record<string, any>): Date | null {
+  if (query.openAt) {
+    const at = new Date(String(query.openAt));
+    if (isNaN(at.getTime())) {
+      throw new Error('openAt must be an ISO 8601 date-time');
+    }
+    return at;
+  }
+
+  if (query.openNow === 'true' || query.openNow === '1' || query.openNow === true) {
+    return new Date();
+  }
+
+  return null;
+}
+
+/**
+ * Keep only the laundromats known to be open at the given instant.
+ * Listings whose hours cannot be parsed are excluded.
+ */
+export function filterOpenAt<T>(laundromats: T[], at: Date | null): T[] {
+  if (!at) return laundromats;
+
+  return laundromats.filter(laundromat => {
+    const hours = getStructuredHours(laundromat);
+    return hours ? isOpenAt(hours, at) : false;
+  });
+}
@@ -3,6 +3,7 @@ import path from 'path';
 import { parse as csvParse } from 'csv-parse';
 import { stringify as csvStringify } from 'csv-stringify';
 import { log } from '../vite';
+import { normalizeStreetAddress } from './addresses';
 
 /**
  * Represents the structure of the laundromat data from the CSV
@@ -318,8 +319,8 @@ async function writeEnrichedCsv(records: LaundryRecord[], outputPath: string): P
  * @returns Normalized address string
  */
 function normalizeAddress(address: string, city: string, state: string, zip: string): string {
-  // Remove spaces, convert to lowercase, and standardize
-  return `${address} ${city} ${state} ${zip}`
+  // Spell the street the same way whatever the source, e.g. "123 Main Street" and "123 Main St."
+  return `${normalizeStreetAddress(address)} ${city} ${state} ${zip}`
     .toLowerCase()
     .replace(/\s+/g, ' ')
     .trim();
@@ -0,0 +1,100 @@
+import type { Page } from '@shared/pagination';
+
+export interface PageRequest {
+  limit: number;
+  offset: number;
+}
+
+export interface PageOptions {
+  defaultLimit?: number;
+  maxLimit?: number;
+}
+
+// Matches for a page plus the total number of matches
+export interface PageResult<T> {
+  items: T[];
+  total: number;
+}
+
+export type PageFetcher<T> = (limit: number, offset: number) => Promise<PageResult<T>>;
+
+// Most rows fetched when a filter has to run in JavaScript (e.g. open now) before paging
+const MAX_FILTER_WINDOW = 500;
+
+/**
+ * Encode a position in a result list as an opaque cursor
+ */
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ o: offset })).toString('base64url');
+}
+
+/**
+ * Decode a cursor from encodeCursor, or throw an Error with a user-facing message
+ */
+export function decodeCursor(cursor: string): number {
+  try {
+    const { o } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(o) && o >= 0) return o;
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('cursor is invalid');
+}
+
+/**
+ * Read the `limit` and `cursor` query parameters.
+ * Throws an Error with a user-facing message for an invalid cursor.
+ */
+export function parsePageQuery(query: Record<string, any>, options: PageOptions = {}): PageRequest {
+  const { defaultLimit = 20, maxLimit = 100 } = options;
+
+  const requestedLimit = parseInt(String(query.limit));
+  const limit = isNaN(requestedLimit) ? defaultLimit : Math.min(Math.max(requestedLimit, 1), maxLimit);
+  const offset = query.cursor ? decodeCursor(String(query.cursor)) : 0;
+
+  return { limit, offset };
+}
+
+/**
+ * Wrap one page of results in the response envelope
+ */
+export function toPage<T>(items: T[], total: number, page: PageRequest): Page<T> {
+  const nextOffset = page.offset + items.length;
+  return {
+    items,
+    total,
+    nextCursor: items.length > 0 && nextOffset < total ? encodeCursor(nextOffset) : null
+  };
+}
+
+/**
+ * Page through results that are already in memory
+ */
+export function paginate<T>(rows: T[], page: PageRequest): Page<T> {
+  return toPage(rows.slice(page.offset, page.offset + page.limit), rows.length, page);
+}
+
+/**
+ * Split the `total_count` window column (COUNT(*) OVER ()) off a page of SQL rows
+ */
+export function withWindowTotal<T = any>(rows: any[]): PageResult<T> {
+  const total = rows.length > 0 ? parseInt(rows[0].total_count) : 0;
+  return {
+    items: rows.map(({ total_count, ...row }) => row as T),
+    total
+  };
+}
+
+/**
+ * Fetch one page through `fetcher`. When `filter` is given, it runs over a bounded
+ * window of matches before paging, so totals and cursors reflect the filtered list.
+ */
+export async function fetchPage<T>(page: PageRequest, fetcher: PageFetcher<T>, filter?: (rows: T[]) => T[]): Promise<Page<T>> {
+  if (!filter) {
+    const { items, total } = await fetcher(page.limit, page.offset);
+    return toPage(items, total, page);
+  }
+
+  const { items } = await fetcher(MAX_FILTER_WINDOW, 0);
+  return paginate(filter(items), page);
+}
@@ -0,0 +1,46 @@
+import type { Request, Response, NextFunction } from 'express';
+
+export interface RateLimitOptions {
+  windowMs: number;
+  // Requests allowed per key in each window
+  max: number;
+  message?: string;
+  // What to count requests by, defaults to the client IP
+  key?: (req: Request) => string;
+}
+
+/**
+ * In-memory fixed-window rate limiter middleware. Counts are per server process,
+ * which is enough to slow down guessing and email flooding on a single instance.
+ */
+export function rateLimit(options: RateLimitOptions) {
+  const { windowMs, max, message = 'Too many requests, please try again later', key = req => req.ip || 'unknown' } = options;
+  const hits = new Map<string, { count: number; resetAt: number }>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+
+    // Drop expired windows so the map doesn't grow without bound
+    if (hits.size > 10000) {
+      hits.forEach((entry, entryKey) => {
+        if (entry.resetAt <= now) hits.delete(entryKey);
+      });
+    }
+
+    const id = key(req);
+    let entry = hits.get(id);
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + windowMs };
+      hits.set(id, entry);
+    }
+
+    entry.count++;
+
+    if (entry.count > max) {
+      res.setHeader('Retry-After', Math.ceil((entry.resetAt - now) / 1000));
+      return res.status(429).json({ success: false, message });
+    }
+
+    next();
+  };
+}
@@ -30,11 +30,12 @@ export function generateSlug(name: string, city: string, state: string): string
  * 
  * @param slug Slug to check
  * @param pool Database connection pool
+ * @param excludeId Laundromat whose own slug doesn't count, when renaming it
  * @returns Boolean indicating if slug exists
  */
-export async function slugExists(slug: string, pool: any): Promise<boolean> {
-  const query = 'SELECT COUNT(*) FROM laundromats WHERE slug = $1';
-  const result = await pool.query(query, [slug]);
+export async function slugExists(slug: string, pool: any, excludeId?: number): Promise<boolean> {
+  const query = 'SELECT COUNT(*) FROM laundromats WHERE slug = $1 AND id IS DISTINCT FROM $2';
+  const result = await pool.query(query, [slug, excludeId ?? null]);
   return parseInt(result.rows[0].count) > 0;
 }
 
@@ -43,16 +44,17 @@ export async function slugExists(slug: string, pool: any): Promise<boolean> {
  * 
  * @param baseSlug Base slug to make unique
  * @param pool Database connection pool
+ * @param excludeId Laundromat whose own slug doesn't count, when renaming it
  * @returns Unique slug string
  */
-export async function createUniqueSlug(baseSlug: string, pool: any): Promise<string> {
+export async function createUniqueSlug(baseSlug: string, pool: any, excludeId?: number): Promise<string> {
   let slug = baseSlug;
   let counter = 1;
-  let exists = await slugExists(slug, pool);
+  let exists = await slugExists(slug, pool, excludeId);
   
   while (exists) {
     slug = `${baseSlug}-${counter}`;
-    exists = await slugExists(slug, pool);
+    exists = await slugExists(slug, pool, excludeId);
     counter++;
   }
   
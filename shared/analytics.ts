@@ -0,0 +1,56 @@
+// Visitor events recorded against a listing, shared by the tracker and the dashboard.
+export const ANALYTICS_EVENT_TYPES = [
+  'view',
+  'phone_click',
+  'website_click',
+  'directions_click',
+  'search_impression',
+] as const;
+
+export type AnalyticsEventType = typeof ANALYTICS_EVENT_TYPES[number];
+
+// Events that count towards a listing's click_count
+export const CLICK_EVENT_TYPES: AnalyticsEventType[] = ['phone_click', 'website_click', 'directions_click'];
+
+export const ANALYTICS_EVENT_LABELS: Record<AnalyticsEventType, string> = {
+  view: 'Views',
+  phone_click: 'Phone clicks',
+  website_click: 'Website clicks',
+  directions_click: 'Directions clicks',
+  search_impression: 'Search impressions',
+};
+
+// Most events accepted in one POST /api/events batch
+export const MAX_EVENTS_PER_BATCH = 50;
+
+export type EventCounts = Record<AnalyticsEventType, number>;
+
+export interface DailyEventCounts extends EventCounts {
+  day: string; // YYYY-MM-DD
+}
+
+export interface ListingAnalytics {
+  laundryIds: number[]; // The listings counted together
+  days: number;
+  series: DailyEventCounts[]; // One entry per day, oldest first, zero-filled
+  totals: EventCounts;
+  previousTotals: EventCounts; // The same number of days just before the period
+  // Percentage change against the previous period, null when it had no events
+  trends: Record<AnalyticsEventType, number | null>;
+}
+
+/**
+ * Percentage change from `previous` to `current`, rounded; null when there's nothing to compare with
+ */
+export function trendPercent(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return Math.round(((current - previous) / previous) * 100);
+}
+
+/**
+ * A trend for display, e.g. "+15%", "-3%" or "new" when the previous period was empty
+ */
+export function formatTrend(trend: number | null, current = 0): string {
+  if (trend === null) return current > 0 ? 'new' : '0%';
+  return `${trend > 0 ? '+' : ''}${trend}%`;
+}
@@ -0,0 +1,38 @@
+// How alike two listings are on each signal, from 0 (nothing in common) to 1 (the same).
+// A signal is null when either listing lacks it, and is then left out of `score`, the
+// weighted total a candidate pair is ranked by.
+export interface DuplicateSignals {
+  name: number;
+  address: number;
+  phone: number | null;
+  proximity: number | null;
+  distanceMeters: number | null;
+  score: number;
+}
+
+export type DuplicateCandidateStatus = 'open' | 'dismissed';
+
+// Parts of a listing an admin can take from either side when merging a pair.
+// Everything else comes from the listing that survives.
+export const MERGE_FIELDS = [
+  'name', 'address', 'phone', 'website', 'hours', 'services', 'amenities',
+  'paymentOptions', 'machineCount', 'priceLevel', 'imageUrl', 'photos', 'description',
+] as const;
+
+export type MergeField = typeof MERGE_FIELDS[number];
+
+export const MERGE_FIELD_LABELS: Record<MergeField, string> = {
+  name: 'Name',
+  address: 'Address and location',
+  phone: 'Phone',
+  website: 'Website',
+  hours: 'Hours',
+  services: 'Services',
+  amenities: 'Amenities',
+  paymentOptions: 'Payment options',
+  machineCount: 'Machines',
+  priceLevel: 'Price level',
+  imageUrl: 'Main image',
+  photos: 'Photos',
+  description: 'Description',
+};
@@ -0,0 +1,78 @@
+import type { Page } from "./pagination";
+
+// Search filters, applied server-side (see server/filters.ts).
+// List filters match laundromats that offer every selected value.
+export interface LaundromatFilters {
+  services?: string[];
+  amenities?: string[];
+  paymentOptions?: string[];
+  minRating?: number;
+  // Washers plus dryers
+  minMachines?: number;
+  verified?: boolean;
+  // Price levels, 1 ($) to 4 ($$$$)
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+// Facet counts for the current search, keyed by value (or by threshold for minRating/minMachines).
+// Each count is the number of results the user would get by adding that filter.
+export interface FacetCounts {
+  services: Record<string, number>;
+  amenities: Record<string, number>;
+  paymentOptions: Record<string, number>;
+  minRating: Record<string, number>;
+  minMachines: Record<string, number>;
+  priceLevel: Record<string, number>;
+  verified: number;
+}
+
+// Paginated search results with facet counts (when requested with `?facets=true`)
+export interface FacetedPage<T> extends Page<T> {
+  facets?: FacetCounts;
+}
+
+// Thresholds offered as "4.0+" style rating and machine count filters
+export const RATING_FACETS = [3, 3.5, 4, 4.5];
+export const MACHINE_COUNT_FACETS = [10, 20, 40];
+
+export const PRICE_LEVELS = [1, 2, 3, 4];
+
+// Total washers and dryers, or 0 when unknown
+export function getMachineCount(machineCount: { washers?: number; dryers?: number } | null | undefined): number {
+  return (machineCount?.washers || 0) + (machineCount?.dryers || 0);
+}
+
+// In-memory equivalent of the SQL filters, for storage backends without a database
+export function matchesFilters(
+  laundromat: {
+    services?: string[] | null;
+    amenities?: string[] | null;
+    paymentOptions?: string[] | null;
+    rating?: string | null;
+    machineCount?: { washers?: number; dryers?: number } | null;
+    verified?: boolean | null;
+    priceLevel?: number | null;
+  },
+  filters: LaundromatFilters
+): boolean {
+  const hasAll = (values: string[] | null | undefined, wanted?: string[]) =>
+    !wanted || wanted.every(value => (values || []).includes(value));
+
+  if (!hasAll(laundromat.services, filters.services)) return false;
+  if (!hasAll(laundromat.amenities, filters.amenities)) return false;
+  if (!hasAll(laundromat.paymentOptions, filters.paymentOptions)) return false;
+
+  if (filters.minRating !== undefined && (parseFloat(laundromat.rating || '0') || 0) < filters.minRating) return false;
+  if (filters.minMachines !== undefined && getMachineCount(laundromat.machineCount) < filters.minMachines) return false;
+  if (filters.verified && !laundromat.verified) return false;
+
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    const level = laundromat.priceLevel;
+    if (level == null) return false;
+    if (filters.minPrice !== undefined && level < filters.minPrice) return false;
+    if (filters.maxPrice !== undefined && level > filters.maxPrice) return false;
+  }
+
+  return true;
+}
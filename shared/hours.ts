@@ -0,0 +1,497 @@
+// Structured opening hours shared by the server (filtering) and the client (badges)
+
+export type Weekday =
+  | 'sunday'
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday';
+
+// Ordered to match Date.getDay() (0 = Sunday)
+export const WEEKDAYS: Weekday[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday'
+];
+
+// A single opening span in local "HH:MM" 24-hour time.
+// A close time at or before the open time means the span runs past midnight
+// into the next day; "24:00" closes at the end of the day.
+export interface TimeSpan {
+  open: string;
+  close: string;
+}
+
+// Date-specific override, e.g. closed on Thanksgiving or short hours on Christmas Eve
+export interface HolidayHours {
+  date: string; // YYYY-MM-DD in the listing's timezone
+  name?: string;
+  closed?: boolean;
+  spans?: TimeSpan[];
+}
+
+export interface StructuredHours {
+  timezone: string; // IANA timezone, e.g. 'America/Chicago'
+  is24Hours: boolean;
+  days: Record<Weekday, TimeSpan[]>; // an empty array means closed that day
+  holidays?: HolidayHours[];
+}
+
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// [abbreviation, name, primary timezone]
+const STATE_TIMEZONES: Array<[string, string, string]> = [
+  ['AL', 'Alabama', 'America/Chicago'],
+  ['AK', 'Alaska', 'America/Anchorage'],
+  ['AZ', 'Arizona', 'America/Phoenix'],
+  ['AR', 'Arkansas', 'America/Chicago'],
+  ['CA', 'California', 'America/Los_Angeles'],
+  ['CO', 'Colorado', 'America/Denver'],
+  ['CT', 'Connecticut', 'America/New_York'],
+  ['DE', 'Delaware', 'America/New_York'],
+  ['DC', 'District of Columbia', 'America/New_York'],
+  ['FL', 'Florida', 'America/New_York'],
+  ['GA', 'Georgia', 'America/New_York'],
+  ['HI', 'Hawaii', 'Pacific/Honolulu'],
+  ['ID', 'Idaho', 'America/Boise'],
+  ['IL', 'Illinois', 'America/Chicago'],
+  ['IN', 'Indiana', 'America/Indiana/Indianapolis'],
+  ['IA', 'Iowa', 'America/Chicago'],
+  ['KS', 'Kansas', 'America/Chicago'],
+  ['KY', 'Kentucky', 'America/New_York'],
+  ['LA', 'Louisiana', 'America/Chicago'],
+  ['ME', 'Maine', 'America/New_York'],
+  ['MD', 'Maryland', 'America/New_York'],
+  ['MA', 'Massachusetts', 'America/New_York'],
+  ['MI', 'Michigan', 'America/Detroit'],
+  ['MN', 'Minnesota', 'America/Chicago'],
+  ['MS', 'Mississippi', 'America/Chicago'],
+  ['MO', 'Missouri', 'America/Chicago'],
+  ['MT', 'Montana', 'America/Denver'],
+  ['NE', 'Nebraska', 'America/Chicago'],
+  ['NV', 'Nevada', 'America/Los_Angeles'],
+  ['NH', 'New Hampshire', 'America/New_York'],
+  ['NJ', 'New Jersey', 'America/New_York'],
+  ['NM', 'New Mexico', 'America/Denver'],
+  ['NY', 'New York', 'America/New_York'],
+  ['NC', 'North Carolina', 'America/New_York'],
+  ['ND', 'North Dakota', 'America/Chicago'],
+  ['OH', 'Ohio', 'America/New_York'],
+  ['OK', 'Oklahoma', 'America/Chicago'],
+  ['OR', 'Oregon', 'America/Los_Angeles'],
+  ['PA', 'Pennsylvania', 'America/New_York'],
+  ['PR', 'Puerto Rico', 'America/Puerto_Rico'],
+  ['RI', 'Rhode Island', 'America/New_York'],
+  ['SC', 'South Carolina', 'America/New_York'],
+  ['SD', 'South Dakota', 'America/Chicago'],
+  ['TN', 'Tennessee', 'America/Chicago'],
+  ['TX', 'Texas', 'America/Chicago'],
+  ['UT', 'Utah', 'America/Denver'],
+  ['VT', 'Vermont', 'America/New_York'],
+  ['VA', 'Virginia', 'America/New_York'],
+  ['WA', 'Washington', 'America/Los_Angeles'],
+  ['WV', 'West Virginia', 'America/New_York'],
+  ['WI', 'Wisconsin', 'America/Chicago'],
+  ['WY', 'Wyoming', 'America/Denver']
+];
+
+const DAY_ALIASES: Record<string, Weekday> = {
+  sun: 'sunday', sunday: 'sunday',
+  mon: 'monday', monday: 'monday',
+  tue: 'tuesday', tues: 'tuesday', tuesday: 'tuesday',
+  wed: 'wednesday', weds: 'wednesday', wednesday: 'wednesday',
+  thu: 'thursday', thur: 'thursday', thurs: 'thursday', thursday: 'thursday',
+  fri: 'friday', friday: 'friday',
+  sat: 'saturday', saturday: 'saturday'
+};
+
+// Helper function to get the primary timezone for a state abbreviation or name
+export function getTimezoneForState(state: string | null | undefined): string {
+  if (!state) return DEFAULT_TIMEZONE;
+
+  const normalized = state.trim().toLowerCase();
+  const match = STATE_TIMEZONES.find(([abbr, name]) =>
+    abbr.toLowerCase() === normalized || name.toLowerCase() === normalized
+  );
+
+  return match ? match[2] : DEFAULT_TIMEZONE;
+}
+
+// Helper function to turn a state abbreviation or name into its abbreviation, e.g. 'texas' -> 'TX'
+export function getStateAbbr(state: string | null | undefined): string | null {
+  if (!state) return null;
+
+  const normalized = state.trim().toLowerCase();
+  const match = STATE_TIMEZONES.find(([abbr, name]) =>
+    abbr.toLowerCase() === normalized || name.toLowerCase() === normalized
+  );
+
+  return match ? match[0] : null;
+}
+
+// Helper function to get a state's full name from its abbreviation
+export function getStateName(abbr: string): string {
+  const match = STATE_TIMEZONES.find(([stateAbbr]) => stateAbbr === abbr.toUpperCase());
+  return match ? match[1] : abbr;
+}
+
+// Helper function to create an hours structure with every day closed
+export function emptyWeek(timezone: string = DEFAULT_TIMEZONE): StructuredHours {
+  return {
+    timezone,
+    is24Hours: false,
+    days: {
+      sunday: [],
+      monday: [],
+      tuesday: [],
+      wednesday: [],
+      thursday: [],
+      friday: [],
+      saturday: []
+    }
+  };
+}
+
+// Parse a single clock time ("6AM", "6:30 pm", "22:00", "noon") into minutes after midnight
+function parseClockTime(value: string, impliedMeridiem?: 'am' | 'pm'): number | null {
+  const text = value.trim().toLowerCase().replace(/\./g, '');
+
+  if (text === 'noon') return 12 * 60;
+  if (text === 'midnight') return 0;
+
+  const match = text.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm|a|p)?$/);
+  if (!match) return null;
+
+  let hour = parseInt(match[1]);
+  const minute = match[2] ? parseInt(match[2]) : 0;
+  const suffix = match[3] ? (match[3].startsWith('a') ? 'am' : 'pm') : impliedMeridiem;
+
+  if (minute > 59 || hour > 24) return null;
+
+  if (suffix === 'am') {
+    if (hour > 12) return null;
+    if (hour === 12) hour = 0;
+  } else if (suffix === 'pm') {
+    if (hour > 12) return null;
+    if (hour !== 12) hour += 12;
+  }
+
+  return hour * 60 + minute;
+}
+
+function formatMinutes(minutes: number): string {
+  const hour = Math.floor(minutes / 60);
+  const minute = minutes % 60;
+  return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+}
+
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(':').map(n => parseInt(n));
+  return hour * 60 + (minute || 0);
+}
+
+const FULL_DAY: TimeSpan = { open: '00:00', close: '24:00' };
+
+// Parse the time part of a day entry: "6AM-10PM", "Closed", "Open 24 hours", "6am-2pm, 4pm-11pm"
+function parseTimeRanges(text: string): TimeSpan[] | null {
+  const value = text.trim().toLowerCase();
+
+  if (!value) return null;
+  if (/^closed$/.test(value)) return [];
+  if (/24\s*(hours|hrs|hr|h)|24\/7|open 24/.test(value)) return [{ ...FULL_DAY }];
+
+  const spans: TimeSpan[] = [];
+
+  for (const part of value.split(/,|\band\b/)) {
+    if (!part.trim()) continue;
+
+    const range = part.split(/\s*(?:-|–|—|\bto\b)\s*/);
+    if (range.length !== 2) return null;
+
+    // A bare closing hour after an explicit AM opening is read as PM ("6am-10" => 6am-10pm)
+    const open = parseClockTime(range[0]);
+    const close = parseClockTime(range[1], /a/.test(range[0]) && !/[ap]/.test(range[1]) ? 'pm' : undefined);
+
+    if (open === null || close === null) return null;
+
+    if (open === close || (open === 0 && close === MINUTES_PER_DAY)) {
+      spans.push({ ...FULL_DAY });
+      continue;
+    }
+
+    spans.push({
+      open: formatMinutes(open),
+      // Midnight as a closing time means the end of the day, not an overnight span
+      close: close === 0 ? '24:00' : formatMinutes(close)
+    });
+  }
+
+  return spans.length > 0 ? spans : null;
+}
+
+// Parse a day specification: "Mon-Fri", "Monday", "Sat & Sun", "Daily"
+function parseDaySpec(text: string): Weekday[] | null {
+  const value = text.trim().toLowerCase().replace(/\./g, '');
+
+  if (/^(daily|every ?day|all week|7 days( a week)?)$/.test(value)) {
+    return [...WEEKDAYS];
+  }
+  if (value === 'weekdays') return ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'];
+  if (value === 'weekends') return ['saturday', 'sunday'];
+
+  const result: Weekday[] = [];
+
+  for (const part of value.split(/\s*(?:,|&|\band\b)\s*/)) {
+    if (!part) continue;
+
+    const range = part.split(/\s*(?:-|–|—|\bthrough\b|\bthru\b|\bto\b)\s*/);
+    const start = DAY_ALIASES[range[0]];
+    if (!start) return null;
+
+    if (range.length === 1) {
+      result.push(start);
+      continue;
+    }
+
+    const end = DAY_ALIASES[range[1]];
+    if (range.length !== 2 || !end) return null;
+
+    // Walk forward through the week so "Fri-Mon" wraps over the weekend
+    let index = WEEKDAYS.indexOf(start);
+    while (true) {
+      result.push(WEEKDAYS[index]);
+      if (WEEKDAYS[index] === end) break;
+      index = (index + 1) % 7;
+    }
+  }
+
+  return result.length > 0 ? result : null;
+}
+
+function finalize(hours: StructuredHours): StructuredHours {
+  hours.is24Hours = WEEKDAYS.every(day =>
+    hours.days[day].some(span => span.open === '00:00' && span.close === '24:00')
+  );
+  return hours;
+}
+
+/**
+ * Parse Google Places `weekday_text` lines ("Monday: 6:00 AM – 10:00 PM")
+ * into structured hours. Returns null when no line could be understood.
+ */
+export function parseWeekdayText(lines: string[], timezone: string = DEFAULT_TIMEZONE): StructuredHours | null {
+  if (!Array.isArray(lines) || lines.length === 0) return null;
+
+  const hours = emptyWeek(timezone);
+  let parsedAny = false;
+
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const days = parseDaySpec(line.slice(0, separator));
+    const spans = parseTimeRanges(line.slice(separator + 1).replace(/ | /g, ' '));
+    if (!days || !spans) continue;
+
+    for (const day of days) {
+      hours.days[day] = spans;
+    }
+    parsedAny = true;
+  }
+
+  return parsedAny ? finalize(hours) : null;
+}
+
+/**
+ * Parse the free-text `laundromats.hours` value into structured hours.
+ * Understands the formats found in our imports:
+ *   - "24 Hours" / "Open 24 hours"
+ *   - "6AM-10PM" (same hours every day)
+ *   - "Mon-Fri: 6am-10pm; Sat-Sun: 7am-11pm"
+ *   - JSON objects such as {"Monday": "6AM-10PM", ...}
+ *   - JSON arrays of Google weekday_text lines
+ * Returns null when the text cannot be interpreted.
+ */
+export function parseHoursText(text: string | null | undefined, timezone: string = DEFAULT_TIMEZONE): StructuredHours | null {
+  if (!text) return null;
+
+  const value = text.trim();
+  if (!value) return null;
+
+  // JSON encoded hours from the enriched CSV imports
+  if (value.startsWith('{') || value.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(value);
+
+      if (Array.isArray(parsed)) {
+        return parseWeekdayText(parsed.map(String), timezone);
+      }
+
+      return parseWeekdayText(
+        Object.entries(parsed).map(([day, dayHours]) => `${day}: ${dayHours}`),
+        timezone
+      );
+    } catch (e) {
+      return null;
+    }
+  }
+
+  // Same hours every day, e.g. "24 Hours" or "6AM-10PM"
+  const everyDay = parseTimeRanges(value);
+  if (everyDay) {
+    const hours = emptyWeek(timezone);
+    for (const day of WEEKDAYS) {
+      hours.days[day] = everyDay.map(span => ({ ...span }));
+    }
+    return finalize(hours);
+  }
+
+  // Per-day segments separated by semicolons, newlines or pipes
+  const lines = value
+    .split(/\s*[;\n|]\s*/)
+    .filter(Boolean)
+    .map(line => {
+      // Accept "Mon-Fri 6am-10pm" as well as "Mon-Fri: 6am-10pm"
+      if (line.includes(':') && /^[a-z ,&.–—-]+:/i.test(line)) return line;
+      const match = line.match(/^([a-z ,&.–—-]+?)\s+(\d.*|closed|open.*)$/i);
+      return match ? `${match[1]}: ${match[2]}` : line;
+    });
+
+  return parseWeekdayText(lines, timezone);
+}
+
+/**
+ * Resolve structured hours for a laundromat row.
+ * Works with both Drizzle (camelCase) and raw pool.query (snake_case) rows,
+ * preferring the stored structure, then Google weekday text, then the free-text hours.
+ */
+export function getStructuredHours(laundromat: any): StructuredHours | null {
+  if (!laundromat) return null;
+
+  const stored = laundromat.hoursStructured || laundromat.hours_structured;
+  if (stored && stored.days) {
+    return stored as StructuredHours;
+  }
+
+  const timezone = getTimezoneForState(laundromat.state);
+
+  const weekdayText = laundromat.places_text_data?.weekdayText ||
+    laundromat.googleData?.opening_hours?.weekday_text ||
+    laundromat.google_data?.opening_hours?.weekday_text;
+  if (Array.isArray(weekdayText)) {
+    const fromGoogle = parseWeekdayText(weekdayText, timezone);
+    if (fromGoogle) return fromGoogle;
+  }
+
+  return parseHoursText(laundromat.hours, timezone);
+}
+
+// Get the weekday, date and minutes after midnight of an instant in a timezone
+function getLocalTime(at: Date, timezone: string): { weekday: number; date: string; minutes: number } {
+  let parts: Intl.DateTimeFormatPart[];
+
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(at);
+  } catch (e) {
+    // Unknown timezone identifier - fall back to the default
+    return getLocalTime(at, DEFAULT_TIMEZONE);
+  }
+
+  const get = (type: string) => parts.find(part => part.type === type)?.value || '';
+  const weekday = WEEKDAYS.findIndex(day => day.startsWith(get('weekday').toLowerCase()));
+
+  return {
+    weekday,
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    minutes: (parseInt(get('hour')) % 24) * 60 + parseInt(get('minute'))
+  };
+}
+
+function previousDate(date: string): string {
+  const [year, month, day] = date.split('-').map(n => parseInt(n));
+  return new Date(Date.UTC(year, month - 1, day - 1)).toISOString().split('T')[0];
+}
+
+// Spans in effect on a given local date, taking holiday overrides into account
+function getSpansForDate(hours: StructuredHours, date: string, weekday: number): TimeSpan[] {
+  const holiday = hours.holidays?.find(h => h.date === date);
+  if (holiday) {
+    return holiday.closed ? [] : holiday.spans || [];
+  }
+  return hours.days[WEEKDAYS[weekday]] || [];
+}
+
+/**
+ * Check whether a laundromat with the given structured hours is open at an instant
+ */
+export function isOpenAt(hours: StructuredHours, at: Date = new Date()): boolean {
+  const local = getLocalTime(at, hours.timezone || DEFAULT_TIMEZONE);
+
+  // Spans that started today
+  for (const span of getSpansForDate(hours, local.date, local.weekday)) {
+    const open = toMinutes(span.open);
+    const close = toMinutes(span.close);
+    const overnight = close <= open;
+
+    if (local.minutes >= open && (overnight || local.minutes < close)) {
+      return true;
+    }
+  }
+
+  // Overnight spans that started yesterday and have not closed yet
+  const yesterday = previousDate(local.date);
+  for (const span of getSpansForDate(hours, yesterday, (local.weekday + 6) % 7)) {
+    const open = toMinutes(span.open);
+    const close = toMinutes(span.close);
+
+    if (close <= open && local.minutes < close) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Spans in effect on the local day of an instant, e.g. for showing today's hours
+ */
+export function getSpansOn(hours: StructuredHours, at: Date = new Date()): TimeSpan[] {
+  const local = getLocalTime(at, hours.timezone || DEFAULT_TIMEZONE);
+  return getSpansForDate(hours, local.date, local.weekday);
+}
+
+// "13:30" -> "1:30 PM"
+function formatTime(time: string): string {
+  const minutes = toMinutes(time) % MINUTES_PER_DAY;
+  const hour = Math.floor(minutes / 60);
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  return `${hour % 12 || 12}:${String(minutes % 60).padStart(2, '0')} ${suffix}`;
+}
+
+/**
+ * Describe a day's spans for display, e.g. "6:00 AM - 10:00 PM" or "Closed"
+ */
+export function formatSpans(spans: TimeSpan[]): string {
+  if (spans.length === 0) return 'Closed';
+  if (spans.length === 1 && toMinutes(spans[0].open) === 0 && toMinutes(spans[0].close) === MINUTES_PER_DAY) {
+    return 'Open 24 hours';
+  }
+  return spans.map(span => `${formatTime(span.open)} - ${formatTime(span.close)}`).join(', ');
+}
@@ -0,0 +1,70 @@
+// Listing fields an import file's columns can be mapped to. Rows without a value for
+// every required field are rejected; the rest are optional.
+export const IMPORT_FIELDS = [
+  'name', 'address', 'city', 'state', 'zip', 'latitude', 'longitude',
+  'phone', 'website', 'rating', 'reviewCount', 'hours', 'services', 'amenities',
+  'imageUrl', 'description', 'slug',
+] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ['name', 'address', 'city', 'state', 'zip', 'latitude', 'longitude'];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  name: 'Name',
+  address: 'Address',
+  city: 'City',
+  state: 'State',
+  zip: 'ZIP code',
+  latitude: 'Latitude',
+  longitude: 'Longitude',
+  phone: 'Phone',
+  website: 'Website',
+  rating: 'Rating',
+  reviewCount: 'Review count',
+  hours: 'Hours',
+  services: 'Services',
+  amenities: 'Amenities',
+  imageUrl: 'Image URL',
+  description: 'Description',
+  slug: 'Slug',
+};
+
+// Which source column each field is read from. Nested JSON values are addressed
+// with dot paths, e.g. `geometry.location.lat`. Unmapped fields are left empty.
+export type ImportColumnMapping = Partial<Record<ImportField, string>>;
+
+// Where a file came from, detected from its columns. `generic` is anything else,
+// including our own sample files.
+export const IMPORT_FORMATS = ['outscraper', 'google_places', 'enriched', 'generic'] as const;
+
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  outscraper: 'Outscraper export',
+  google_places: 'Google Places API results',
+  enriched: 'Enriched export',
+  generic: 'Other',
+};
+
+// How many rows a preview shows by default, and at most
+export const DEFAULT_PREVIEW_ROWS = 10;
+export const MAX_PREVIEW_ROWS = 50;
+
+export interface ImportPreviewRow {
+  rowNumber: number;
+  listing: Record<string, unknown> | null; // The normalized listing, or null when the row can't be imported
+  error: string | null;
+  duplicate: boolean; // A listing with the same slug already exists
+}
+
+// The first rows of a file as an import with `mapping` would see them
+export interface ImportPreview {
+  file: string;
+  fileType: 'csv' | 'json' | 'xlsx';
+  format: ImportFormat;
+  columns: string[];
+  mapping: ImportColumnMapping;
+  problems: string[]; // What would stop the import, e.g. an unmapped required field
+  rows: ImportPreviewRow[];
+}
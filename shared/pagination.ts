@@ -0,0 +1,7 @@
+// Response envelope for paginated list endpoints.
+// `nextCursor` is opaque - pass it back as `?cursor=` to get the next page; null on the last page.
+export interface Page<T> {
+  items: T[];
+  total: number;
+  nextCursor: string | null;
+}
@@ -1,5 +1,7 @@
 import { ListingType } from './schema';
 
+export type { ListingType };
+
 // Premium tier feature limits
 export const PREMIUM_LIMITS = {
   photos: {
@@ -124,4 +126,81 @@ export function getPremiumFeatures(listingType: ListingType): any {
     showInFeatured: canAccessFeature(listingType, 'showInFeatured'),
     searchPriority: getSearchPriority(listingType)
   };
-}
\ No newline at end of file
+}
+
+// Tiers from lowest to highest
+export const LISTING_TIERS: ListingType[] = ['basic', 'premium', 'featured'];
+
+// The listing_type column is free text; treat anything unrecognised as basic
+export function toListingType(value: string | null | undefined): ListingType {
+  return LISTING_TIERS.includes(value as ListingType) ? value as ListingType : 'basic';
+}
+
+// Premium fields an owner can edit on their listing
+export interface PremiumContent {
+  promotionalText?: string | null;
+  machineCount?: { washers: number, dryers: number } | null;
+  amenities?: string[] | null;
+  photos?: string[] | null;
+  specialOffers?: string[] | null;
+}
+
+// A field that the listing's tier doesn't allow, and the lowest tier that does
+export interface UpgradeRequirement {
+  feature: keyof PremiumContent;
+  limit: number; // 0 when the tier can't use the feature at all
+  requested: number;
+  requiredTier: ListingType;
+}
+
+const LIMITED_LISTS = ['amenities', 'photos', 'specialOffers'] as const;
+const GATED_FIELDS = ['promotionalText', 'machineCount'] as const;
+
+// Largest count any tier allows for a limited list
+export function getMaxFeatureLimit(feature: keyof typeof PREMIUM_LIMITS): number {
+  return Math.max(...LISTING_TIERS.map(tier => getFeatureLimit(tier, feature)));
+}
+
+/**
+ * Fields in `content` that exceed what `listingType` allows. Fields that are
+ * absent or being cleared never need an upgrade.
+ */
+export function getUpgradeRequirements(listingType: ListingType, content: PremiumContent): UpgradeRequirement[] {
+  const requirements: UpgradeRequirement[] = [];
+
+  for (const feature of LIMITED_LISTS) {
+    const requested = content[feature]?.length || 0;
+    const limit = getFeatureLimit(listingType, feature);
+    if (requested > limit) {
+      const requiredTier = LISTING_TIERS.find(tier => getFeatureLimit(tier, feature) >= requested);
+      if (requiredTier) requirements.push({ feature, limit, requested, requiredTier });
+    }
+  }
+
+  for (const feature of GATED_FIELDS) {
+    if (content[feature] && !canAccessFeature(listingType, feature)) {
+      const requiredTier = LISTING_TIERS.find(tier => canAccessFeature(tier, feature))!;
+      requirements.push({ feature, limit: 0, requested: 1, requiredTier });
+    }
+  }
+
+  return requirements;
+}
+
+/**
+ * The premium fields cut down to what `listingType` allows: lists are truncated
+ * and fields the tier can't use are cleared. Used when a listing is downgraded.
+ */
+export function limitPremiumContent(listingType: ListingType, content: PremiumContent): PremiumContent {
+  const limited: PremiumContent = {};
+
+  for (const feature of LIMITED_LISTS) {
+    const list = content[feature];
+    if (list) limited[feature] = list.slice(0, getFeatureLimit(listingType, feature));
+  }
+  for (const feature of GATED_FIELDS) {
+    if (!canAccessFeature(listingType, feature)) limited[feature] = null;
+  }
+
+  return limited;
+}
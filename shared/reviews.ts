@@ -0,0 +1,47 @@
+// Aspects of a visit that reviews can rate separately from the overall rating.
+// Each is an optional 1-5 column on reviews named `${dimension}Rating`.
+export const REVIEW_DIMENSIONS = ['cleanliness', 'machineAvailability', 'price', 'staff', 'safety'] as const;
+
+export type ReviewDimension = typeof REVIEW_DIMENSIONS[number];
+
+export const REVIEW_DIMENSION_LABELS: Record<ReviewDimension, string> = {
+  cleanliness: 'Cleanliness',
+  machineAvailability: 'Machine availability',
+  price: 'Price',
+  staff: 'Staff',
+  safety: 'Safety',
+};
+
+export type SubRatings = { [D in ReviewDimension as `${D}Rating`]?: number | null };
+
+// Average and number of ratings per dimension, from approved reviews.
+// Stored on laundromats.sub_ratings; dimensions nobody has rated are left out.
+export type SubRatingAggregates = Partial<Record<ReviewDimension, { average: number, count: number }>>;
+
+// Photos attached to a review
+export const MAX_REVIEW_PHOTOS = 5;
+export const MAX_REVIEW_PHOTO_BYTES = 5 * 1024 * 1024;
+export const REVIEW_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export function dimensionColumn(dimension: ReviewDimension): keyof SubRatings {
+  return `${dimension}Rating`;
+}
+
+/**
+ * Per-dimension averages (to one decimal place) over a set of reviews
+ */
+export function computeSubRatings(reviews: SubRatings[]): SubRatingAggregates {
+  const aggregates: SubRatingAggregates = {};
+
+  for (const dimension of REVIEW_DIMENSIONS) {
+    const ratings = reviews
+      .map(review => review[dimensionColumn(dimension)])
+      .filter((rating): rating is number => typeof rating === 'number');
+    if (ratings.length === 0) continue;
+
+    const total = ratings.reduce((sum, rating) => sum + rating, 0);
+    aggregates[dimension] = { average: Math.round(total / ratings.length * 10) / 10, count: ratings.length };
+  }
+
+  return aggregates;
+}
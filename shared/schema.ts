@@ -1,16 +1,39 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, doublePrecision } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, smallint, boolean, timestamp, jsonb, doublePrecision, customType, index, uniqueIndex, date } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { StructuredHours } from "./hours";
+import type { SubRatingAggregates } from "./reviews";
+import type { ImportColumnMapping, ImportFormat } from "./imports";
+import type { DuplicateCandidateStatus, DuplicateSignals, MergeField } from "./duplicates";
 
 // Define ListingType for type safety
 export type ListingType = 'basic' | 'premium' | 'featured';
 
+// User roles, lowest to highest access
+export type UserRole = 'user' | 'owner' | 'admin';
+
+// PostGIS geography point (SRID 4326). Values come back from the driver as EWKB hex;
+// spatial queries go through server/geo.ts rather than reading this column directly.
+const geographyPoint = customType<{ data: string; driverData: string }>({
+  dataType() {
+    return 'geography(Point, 4326)';
+  },
+});
+
+// Full-text search document, maintained by a trigger; queried through server/search.ts
+const tsVector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
+
 // User table for authentication
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   email: text("email").notNull().unique(),
+  emailVerified: boolean("email_verified").default(false),
   isBusinessOwner: boolean("is_business_owner").default(false),
   role: text("role").notNull().default('user'), // 'user', 'owner', 'admin'
   stripeCustomerId: text("stripe_customer_id"), // For Stripe integration
@@ -30,9 +53,12 @@ export const laundromats = pgTable("laundromats", {
   website: text("website"),
   latitude: text("latitude").notNull(),
   longitude: text("longitude").notNull(),
+  location: geographyPoint("location"), // Kept in sync with latitude/longitude by a trigger, see migrations/
+  searchVector: tsVector("search_vector"), // Weighted name/address/services document, see migrations/
   rating: text("rating").default("0"),
   reviewCount: integer("review_count").default(0),
   hours: text("hours").notNull(),
+  hoursStructured: jsonb("hours_structured").$type<StructuredHours>(), // Parsed from `hours`, see shared/hours.ts
   services: jsonb("services").notNull().$type<string[]>(),
   
   // Premium listing fields
@@ -78,6 +104,8 @@ export const laundromats = pgTable("laundromats", {
   }>(),
   paymentOptions: jsonb("payment_options").$type<string[]>(),
   busyTimes: jsonb("busy_times").$type<{ mostBusy?: string; leastBusy?: string }>(),
+  priceLevel: smallint("price_level"), // 1 ($) to 4 ($$$$), see migrations/
+  subRatings: jsonb("sub_ratings").$type<SubRatingAggregates>(), // Per-dimension averages of approved reviews, see shared/reviews.ts
   
   // Analytics data
   viewCount: integer("view_count").default(0),
@@ -93,7 +121,15 @@ export const laundromats = pgTable("laundromats", {
   googleData: jsonb("google_data"),
   createdAt: timestamp("created_at").defaultNow(),
   ownerId: integer("owner_id").references(() => users.id),
-});
+}, (table) => [
+  index("laundromats_location_idx").using("gist", table.location),
+  index("laundromats_search_vector_idx").using("gin", table.searchVector),
+  index("laundromats_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+  index("laundromats_city_trgm_idx").using("gin", table.city.op("gin_trgm_ops")),
+  index("laundromats_services_idx").using("gin", table.services.op("jsonb_path_ops")),
+  index("laundromats_amenities_idx").using("gin", table.amenities.op("jsonb_path_ops")),
+  index("laundromats_payment_options_idx").using("gin", table.paymentOptions.op("jsonb_path_ops")),
+]);
 
 // Review table for storing reviews
 export const reviews = pgTable("reviews", {
@@ -101,17 +137,73 @@ export const reviews = pgTable("reviews", {
   laundryId: integer("laundry_id").notNull().references(() => laundromats.id),
   userId: integer("user_id").notNull().references(() => users.id),
   rating: integer("rating").notNull(),
+  // Optional 1-5 ratings per aspect, see shared/reviews.ts
+  cleanlinessRating: smallint("cleanliness_rating"),
+  machineAvailabilityRating: smallint("machine_availability_rating"),
+  priceRating: smallint("price_rating"),
+  staffRating: smallint("staff_rating"),
+  safetyRating: smallint("safety_rating"),
   comment: text("comment"),
+  // Only approved reviews are shown and counted in the listing's rating, see server/review-moderation.ts
+  status: text("status").notNull().default("pending"), // 'pending', 'approved', 'rejected', 'flagged'
+  moderationReasons: jsonb("moderation_reasons").$type<string[]>(), // Why the review was held for moderation
+  moderatedBy: integer("moderated_by").references(() => users.id),
+  moderatedAt: timestamp("moderated_at"),
+  reportCount: integer("report_count").notNull().default(0),
+  ownerReply: text("owner_reply"),
+  ownerReplyAt: timestamp("owner_reply_at"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("reviews_user_laundry_idx").on(table.userId, table.laundryId),
+  index("reviews_laundry_status_idx").on(table.laundryId, table.status),
+  index("reviews_status_idx").on(table.status),
+]);
+
+// Photos attached to a review, stored under UPLOAD_DIR (see server/uploads.ts)
+export const reviewPhotos = pgTable("review_photos", {
+  id: serial("id").primaryKey(),
+  reviewId: integer("review_id").notNull().references(() => reviews.id, { onDelete: "cascade" }),
+  filename: text("filename").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("review_photos_review_idx").on(table.reviewId),
+]);
+
+// Reports of abusive reviews, one per user per review
+export const reviewReports = pgTable("review_reports", {
+  id: serial("id").primaryKey(),
+  reviewId: integer("review_id").notNull().references(() => reviews.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id),
+  reason: text("reason").notNull(), // 'spam', 'offensive', 'off_topic', 'conflict_of_interest', 'other'
+  details: text("details"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("review_reports_review_user_idx").on(table.reviewId, table.userId),
+]);
 
 // Favorites table for storing user favorites
+// Named favorite lists, e.g. "Near work" or "Near home"
+export const favoriteLists = pgTable("favorite_lists", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("favorite_lists_user_name_idx").on(table.userId, table.name),
+]);
+
 export const favorites = pgTable("favorites", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   laundryId: integer("laundry_id").notNull().references(() => laundromats.id),
+  listId: integer("list_id").references(() => favoriteLists.id, { onDelete: "set null" }), // null = not in a named list
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("favorites_user_laundry_idx").on(table.userId, table.laundryId),
+]);
 
 // Cities table for storing city information
 export const cities = pgTable("cities", {
@@ -142,12 +234,103 @@ export const subscriptions = pgTable("subscriptions", {
   amount: integer("amount").notNull(), // in cents
   paymentId: text("payment_id"), // reference to payment processor ID
   stripePaymentIntentId: text("stripe_payment_intent_id"), // Stripe payment intent ID
+  stripeCustomerId: text("stripe_customer_id"),
+  stripeSubscriptionId: text("stripe_subscription_id").unique(), // Links webhook events to this row
   billingCycle: text("billing_cycle").notNull(), // 'monthly' or 'annually'
   startDate: timestamp("start_date").notNull().defaultNow(),
   endDate: timestamp("end_date").notNull(),
-  status: text("status").notNull(), // 'active', 'cancelled', 'expired'
+  status: text("status").notNull(), // 'active', 'past_due', 'cancelled', 'expired'
   autoRenew: boolean("auto_renew").default(false),
+  trialEndsAt: timestamp("trial_ends_at"), // Set while on the free trial, cleared once the first payment clears
+  pastDueSince: timestamp("past_due_since"), // Start of the grace period after a failed payment
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Reminder emails about upcoming renewals and expiries, queued by the scheduler and sent once
+export const subscriptionReminders = pgTable("subscription_reminders", {
+  id: serial("id").primaryKey(),
+  subscriptionId: integer("subscription_id").notNull().references(() => subscriptions.id),
+  type: text("type").notNull(), // 'renewal', 'expiry', 'trial_ending', 'expired'
+  periodEnd: timestamp("period_end").notNull(), // The subscription end date the reminder is about
+  status: text("status").notNull().default('pending'), // 'pending', 'sent', 'skipped', 'failed'
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("subscription_reminders_unique_idx").on(table.subscriptionId, table.type, table.periodEnd),
+  index("subscription_reminders_status_idx").on(table.status),
+]);
+
+// History of scheduled job runs, shown to admins
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  job: text("job").notNull(),
+  status: text("status").notNull(), // 'running', 'succeeded', 'failed'
+  trigger: text("trigger").notNull().default('schedule'), // 'schedule' or 'manual'
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  result: jsonb("result"), // Counts reported by the job
+  error: text("error"),
+}, (table) => [
+  index("job_runs_job_started_idx").on(table.job, table.startedAt),
+]);
+
+// Laundromat imports from CSV/JSON files, run by server/import-jobs.ts. The checkpoint
+// records how far into each file the job got, so it resumes there after a pause or crash.
+export const importJobs = pgTable("import_jobs", {
+  id: serial("id").primaryKey(),
+  files: jsonb("files").notNull().$type<string[]>(), // Paths relative to IMPORT_DIR, imported in order
+  options: jsonb("options").notNull().$type<ImportJobOptions>(),
+  status: text("status").notNull().default('queued'), // 'queued', 'running', 'paused', 'completed', 'failed', 'cancelled'
+  checkpoint: jsonb("checkpoint").notNull().default({}).$type<ImportCheckpoint>(),
+  totalRows: integer("total_rows").notNull().default(0),
+  processedRows: integer("processed_rows").notNull().default(0),
+  importedRows: integer("imported_rows").notNull().default(0),
+  duplicateRows: integer("duplicate_rows").notNull().default(0),
+  skippedRows: integer("skipped_rows").notNull().default(0), // Outside the job's states filter
+  errorRows: integer("error_rows").notNull().default(0),
+  importedByState: jsonb("imported_by_state").notNull().default({}).$type<Record<string, number>>(),
+  error: text("error"), // Why the job failed, as opposed to per-row errors
+  startedBy: integer("started_by").references(() => users.id), // null when started from the CLI
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+  heartbeatAt: timestamp("heartbeat_at"), // Touched after every batch; a stale one means the runner died
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("import_jobs_status_idx").on(table.status),
+]);
+
+// Rows an import job could not import, with the raw row so it can be fixed and re-imported
+export const importJobErrors = pgTable("import_job_errors", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().references(() => importJobs.id, { onDelete: 'cascade' }),
+  file: text("file").notNull(),
+  rowNumber: integer("row_number").notNull(), // 1-based, not counting a CSV header
+  message: text("message").notNull(),
+  row: jsonb("row"),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("import_job_errors_job_idx").on(table.jobId),
+]);
+
+// Column mappings saved by admins, so files from the same source can be imported the same way each time
+export const importMappingProfiles = pgTable("import_mapping_profiles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  format: text("format").notNull().$type<ImportFormat>(), // The format it was made for, see shared/imports.ts
+  mapping: jsonb("mapping").notNull().$type<ImportColumnMapping>(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Stripe webhook events that have been processed, so redelivered events are skipped
+export const stripeEvents = pgTable("stripe_events", {
+  id: text("id").primaryKey(), // Stripe event id, e.g. evt_1N...
+  type: text("type").notNull(),
+  processedAt: timestamp("processed_at").defaultNow(),
 });
 
 // Laundry Tips table
@@ -173,30 +356,220 @@ export const zipCoordinates = pgTable("zip_coordinates", {
   longitude: doublePrecision("longitude").notNull(),
 });
 
-// Admin notifications table to track business claim submissions
+// Admin overrides for the featured and premium sections: pin a listing (shown first,
+// with or without a subscription) or exclude one. Without a city/state an override applies everywhere.
+export const placementOverrides = pgTable("placement_overrides", {
+  id: serial("id").primaryKey(),
+  laundryId: integer("laundry_id").notNull().references(() => laundromats.id),
+  action: text("action").notNull(), // 'pin' or 'exclude'
+  placement: text("placement"), // 'featured', 'premium', or null for both
+  state: text("state"), // 2-letter state code
+  city: text("city"),
+  rank: integer("rank").notNull().default(0), // Order among pinned listings, lowest first
+  startsAt: timestamp("starts_at").notNull().defaultNow(),
+  endsAt: timestamp("ends_at"),
+  note: text("note"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("placement_overrides_laundry_idx").on(table.laundryId),
+]);
+
+// Daily impressions per listing, placement and scope, used to rotate paying listings fairly
+export const placementImpressions = pgTable("placement_impressions", {
+  id: serial("id").primaryKey(),
+  laundryId: integer("laundry_id").notNull().references(() => laundromats.id),
+  placement: text("placement").notNull(), // 'featured' or 'premium'
+  scope: text("scope").notNull(), // 'us', a state code like 'tx', or 'tx/austin'
+  day: date("day").notNull(),
+  impressions: integer("impressions").notNull().default(0),
+}, (table) => [
+  uniqueIndex("placement_impressions_unique_idx").on(table.laundryId, table.placement, table.scope, table.day),
+]);
+
+// Daily visitor events per listing (views, contact clicks, search impressions), after bot
+// filtering and deduplication in server/analytics.ts
+export const listingDailyStats = pgTable("listing_daily_stats", {
+  id: serial("id").primaryKey(),
+  laundryId: integer("laundry_id").notNull().references(() => laundromats.id),
+  eventType: text("event_type").notNull(), // see ANALYTICS_EVENT_TYPES in shared/analytics.ts
+  day: date("day").notNull(),
+  count: integer("count").notNull().default(0),
+}, (table) => [
+  uniqueIndex("listing_daily_stats_unique_idx").on(table.laundryId, table.eventType, table.day),
+  index("listing_daily_stats_day_idx").on(table.day),
+]);
+
+// Cache of geocoded search locations (ZIP codes, "City, ST") so repeat searches stay offline
+export const geocodeCache = pgTable("geocode_cache", {
+  id: serial("id").primaryKey(),
+  query: text("query").notNull().unique(), // Normalized key, e.g. "zip:90210" or "city:austin,tx"
+  latitude: doublePrecision("latitude").notNull(),
+  longitude: doublePrecision("longitude").notNull(),
+  city: text("city"),
+  state: text("state"),
+  zip: text("zip"),
+  source: text("source").notNull(), // 'zip_coordinates', 'laundromats', 'google'
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Single-use email verification and password reset tokens. Only a SHA-256 hash of the
+// token is stored; the token itself is only ever sent to the user, see server/account-tokens.ts
+export const userTokens = pgTable("user_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  type: text("type").notNull(), // 'email_verification', 'password_reset'
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("user_tokens_user_type_idx").on(table.userId, table.type),
+]);
+
+// Requests to take ownership of a listing. Ownership is only granted once the claim is
+// verified: by a phone or postcard code, or by an admin reviewing uploaded documents.
+// See server/claims.ts for the workflow.
+export const businessClaims = pgTable("business_claims", {
+  id: serial("id").primaryKey(),
+  laundryId: integer("laundry_id").notNull().references(() => laundromats.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  // 'pending_verification' (waiting for a code or documents), 'pending_review', 'approved', 'rejected', 'cancelled',
+  // 'revoked' (approved, then ownership taken away by an admin)
+  status: text("status").notNull().default('pending_verification'),
+  method: text("method").notNull(), // 'document', 'utility', 'phone', 'mail'
+  contactEmail: text("contact_email").notNull(),
+  profileData: jsonb("profile_data"), // Listing details from the claim wizard, applied on approval
+  selectedPlan: text("selected_plan").notNull().default('basic'),
+  codeHash: text("code_hash"), // SHA-256 of the phone or postcard code
+  codeSentTo: text("code_sent_to"), // Phone number or address the code went to
+  codeSentAt: timestamp("code_sent_at"),
+  codeExpiresAt: timestamp("code_expires_at"),
+  codeAttempts: integer("code_attempts").notNull().default(0),
+  notificationId: integer("notification_id"), // The admin_notifications row for this claim
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  rejectionReason: text("rejection_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("business_claims_laundry_status_idx").on(table.laundryId, table.status),
+  index("business_claims_user_idx").on(table.userId),
+]);
+
+// Proof of ownership uploaded with a claim, stored outside the public upload directory
+export const claimDocuments = pgTable("claim_documents", {
+  id: serial("id").primaryKey(),
+  claimId: integer("claim_id").notNull().references(() => businessClaims.id, { onDelete: 'cascade' }),
+  filename: text("filename").notNull(), // Relative to PRIVATE_UPLOAD_DIR
+  originalName: text("original_name"),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("claim_documents_claim_idx").on(table.claimId),
+]);
+
+// Admin inbox: business claims, subscription problems and flagged reviews
 export const adminNotifications = pgTable("admin_notifications", {
   id: serial("id").primaryKey(),
-  type: text("type").notNull(), // 'business_claim', 'subscription', etc.
-  status: text("status").notNull().default('unread'), // 'unread', 'read', 'contacted'
-  userId: integer("user_id").notNull(),
+  type: text("type").notNull(), // 'business_claim', 'subscription', 'review_report'
+  status: text("status").notNull().default('unread'), // 'unread', 'read', 'contacted', 'resolved'
+  userId: integer("user_id").notNull(), // The claimant, subscriber or reviewer
   laundryId: integer("laundry_id").notNull(),
   email: text("email"),
   phone: text("phone"),
   data: jsonb("data"), // Store additional form data
+  assignedTo: integer("assigned_to").references(() => users.id), // Admin handling it
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("admin_notifications_type_status_idx").on(table.type, table.status),
+  index("admin_notifications_created_idx").on(table.createdAt),
+]);
+
+// Audit trail and internal notes for admin notifications
+export const adminNotificationEvents = pgTable("admin_notification_events", {
+  id: serial("id").primaryKey(),
+  notificationId: integer("notification_id").notNull().references(() => adminNotifications.id, { onDelete: 'cascade' }),
+  actorId: integer("actor_id").references(() => users.id), // null for the system
+  // 'created', 'status', 'assigned', 'note', 'document_added', 'approved', 'rejected', 'revoked'
+  action: text("action").notNull(),
+  note: text("note"),
+  data: jsonb("data"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("admin_notification_events_notification_idx").on(table.notificationId),
+]);
+
+// Pairs of listings that may be the same laundromat, found by the duplicate scan in
+// server/duplicates.ts. laundryId is always the lower id of the pair. Admins merge a
+// pair (which deletes one listing, and the row with it) or dismiss it for good.
+export const duplicateCandidates = pgTable("duplicate_candidates", {
+  id: serial("id").primaryKey(),
+  laundryId: integer("laundry_id").notNull().references(() => laundromats.id, { onDelete: 'cascade' }),
+  duplicateId: integer("duplicate_id").notNull().references(() => laundromats.id, { onDelete: 'cascade' }),
+  score: doublePrecision("score").notNull(), // 0 to 1, see shared/duplicates.ts
+  signals: jsonb("signals").notNull().$type<DuplicateSignals>(),
+  status: text("status").notNull().default('open').$type<DuplicateCandidateStatus>(), // 'open', 'dismissed'
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("duplicate_candidates_pair_idx").on(table.laundryId, table.duplicateId),
+  index("duplicate_candidates_status_score_idx").on(table.status, table.score),
+]);
+
+// Listings merged into another one. The merged listing is deleted, and its slugs are
+// moved to the survivor in slug_history so its old URLs redirect there.
+export const laundromatMerges = pgTable("laundromat_merges", {
+  id: serial("id").primaryKey(),
+  survivorId: integer("survivor_id").notNull().references(() => laundromats.id, { onDelete: 'cascade' }),
+  mergedId: integer("merged_id").notNull(), // The deleted listing's id
+  mergedSlug: text("merged_slug").notNull(),
+  merged: jsonb("merged").notNull(), // The deleted listing as it was
+  fields: jsonb("fields").notNull().$type<MergeField[]>(), // What the survivor took from the merged listing
+  mergedBy: integer("merged_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("laundromat_merges_survivor_idx").on(table.survivorId),
+]);
+
+// Slugs laundromats, cities, states and tips used to have. Recorded by a trigger on each
+// table whenever a slug changes (see migrations/0005_slug_history.sql), so old URLs can
+// redirect to the current ones. entityId points at laundromats, cities, states or
+// laundry_tips depending on entityType.
+export const slugHistory = pgTable("slug_history", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type").notNull().$type<SlugEntityType>(), // 'laundromat', 'city', 'state', 'tip'
+  entityId: integer("entity_id").notNull(),
+  slug: text("slug").notNull(),
+  createdAt: timestamp("created_at").defaultNow(), // When the slug stopped being used
+}, (table) => [
+  uniqueIndex("slug_history_type_slug_idx").on(table.entityType, table.slug),
+  index("slug_history_entity_idx").on(table.entityType, table.entityId),
+]);
 
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
-export const insertLaundrySchema = createInsertSchema(laundromats).omit({ id: true, createdAt: true });
-export const insertReviewSchema = createInsertSchema(reviews).omit({ id: true, createdAt: true });
+export const insertLaundrySchema = createInsertSchema(laundromats).omit({ id: true, createdAt: true, location: true, searchVector: true });
+export const insertReviewSchema = createInsertSchema(reviews).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertReviewPhotoSchema = createInsertSchema(reviewPhotos).omit({ id: true, createdAt: true });
+export const insertReviewReportSchema = createInsertSchema(reviewReports).omit({ id: true, createdAt: true });
 export const insertFavoriteSchema = createInsertSchema(favorites).omit({ id: true, createdAt: true });
+export const insertFavoriteListSchema = createInsertSchema(favoriteLists).omit({ id: true, createdAt: true });
 export const insertCitySchema = createInsertSchema(cities).omit({ id: true });
 export const insertStateSchema = createInsertSchema(states).omit({ id: true });
 export const insertSubscriptionSchema = createInsertSchema(subscriptions).omit({ id: true, createdAt: true });
 export const insertLaundryTipSchema = createInsertSchema(laundryTips).omit({ id: true, createdAt: true });
 export const insertZipCoordinateSchema = createInsertSchema(zipCoordinates).omit({ id: true });
+export const insertGeocodeCacheSchema = createInsertSchema(geocodeCache).omit({ id: true, createdAt: true });
+export const insertUserTokenSchema = createInsertSchema(userTokens).omit({ id: true, createdAt: true });
+export const insertPlacementOverrideSchema = createInsertSchema(placementOverrides).omit({ id: true, createdAt: true });
 export const insertAdminNotificationSchema = createInsertSchema(adminNotifications).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertAdminNotificationEventSchema = createInsertSchema(adminNotificationEvents).omit({ id: true, createdAt: true });
+export const insertBusinessClaimSchema = createInsertSchema(businessClaims).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertClaimDocumentSchema = createInsertSchema(claimDocuments).omit({ id: true, createdAt: true });
 
 // Export types
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -205,17 +578,44 @@ export type User = typeof users.$inferSelect;
 export type InsertZipCoordinate = z.infer<typeof insertZipCoordinateSchema>;
 export type ZipCoordinate = typeof zipCoordinates.$inferSelect;
 
+export type InsertGeocodeCache = z.infer<typeof insertGeocodeCacheSchema>;
+export type GeocodeCache = typeof geocodeCache.$inferSelect;
+
+export type InsertUserToken = z.infer<typeof insertUserTokenSchema>;
+export type UserToken = typeof userTokens.$inferSelect;
+
+export type InsertPlacementOverride = z.infer<typeof insertPlacementOverrideSchema>;
+export type PlacementOverride = typeof placementOverrides.$inferSelect;
+
 export type InsertAdminNotification = z.infer<typeof insertAdminNotificationSchema>;
 export type AdminNotification = typeof adminNotifications.$inferSelect;
+export type AdminNotificationType = 'business_claim' | 'subscription' | 'review_report';
+export type AdminNotificationStatus = 'unread' | 'read' | 'contacted' | 'resolved';
+export type InsertAdminNotificationEvent = z.infer<typeof insertAdminNotificationEventSchema>;
+export type AdminNotificationEvent = typeof adminNotificationEvents.$inferSelect;
+
+export type InsertBusinessClaim = z.infer<typeof insertBusinessClaimSchema>;
+export type BusinessClaim = typeof businessClaims.$inferSelect;
+export type ClaimStatus = 'pending_verification' | 'pending_review' | 'approved' | 'rejected' | 'cancelled' | 'revoked';
+export type ClaimMethod = 'document' | 'utility' | 'phone' | 'mail';
+export type InsertClaimDocument = z.infer<typeof insertClaimDocumentSchema>;
+export type ClaimDocument = typeof claimDocuments.$inferSelect;
 
 export type InsertLaundromat = z.infer<typeof insertLaundrySchema>;
 export type Laundromat = typeof laundromats.$inferSelect;
 
 export type InsertReview = z.infer<typeof insertReviewSchema>;
 export type Review = typeof reviews.$inferSelect;
+export type ReviewStatus = 'pending' | 'approved' | 'rejected' | 'flagged';
+export type InsertReviewPhoto = z.infer<typeof insertReviewPhotoSchema>;
+export type ReviewPhoto = typeof reviewPhotos.$inferSelect;
+export type InsertReviewReport = z.infer<typeof insertReviewReportSchema>;
+export type ReviewReport = typeof reviewReports.$inferSelect;
 
 export type InsertFavorite = z.infer<typeof insertFavoriteSchema>;
 export type Favorite = typeof favorites.$inferSelect;
+export type InsertFavoriteList = z.infer<typeof insertFavoriteListSchema>;
+export type FavoriteList = typeof favoriteLists.$inferSelect;
 
 export type InsertCity = z.infer<typeof insertCitySchema>;
 export type City = typeof cities.$inferSelect;
@@ -225,6 +625,26 @@ export type State = typeof states.$inferSelect;
 
 export type InsertSubscription = z.infer<typeof insertSubscriptionSchema>;
 export type Subscription = typeof subscriptions.$inferSelect;
+export type SubscriptionReminder = typeof subscriptionReminders.$inferSelect;
+export type JobRun = typeof jobRuns.$inferSelect;
+
+export type ImportJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+export interface ImportJobOptions {
+  dryRun: boolean; // Validate and count without writing listings
+  batchSize: number;
+  states?: string[]; // Only import rows in these states (abbreviations)
+  mapping?: ImportColumnMapping; // Used for every file; without one, each file's detected mapping is used
+}
+// Per file: rows handled so far, the file's row count once known, and whether it's finished
+export type ImportCheckpoint = Record<string, { row: number; total: number | null; done: boolean }>;
+export type ImportJob = typeof importJobs.$inferSelect;
+export type ImportJobError = typeof importJobErrors.$inferSelect;
+export type ImportMappingProfile = typeof importMappingProfiles.$inferSelect;
+
+export type DuplicateCandidate = typeof duplicateCandidates.$inferSelect;
+export type LaundromatMerge = typeof laundromatMerges.$inferSelect;
+export type SlugEntityType = 'laundromat' | 'city' | 'state' | 'tip';
+export type SlugHistory = typeof slugHistory.$inferSelect;
 
 export type InsertLaundryTip = z.infer<typeof insertLaundryTipSchema>;
 export type LaundryTip = typeof laundryTips.$inferSelect;